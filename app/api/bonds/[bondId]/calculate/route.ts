@@ -120,6 +120,7 @@ export async function POST(
             quickMetrics,
             metricas: result.metricas,
             flowsCount: result.flowsCount,
+            warnings: result.warnings ?? [],
             calculation: {
                 duration: `${Date.now() - new Date(result.calculatedAt).getTime()}ms`,
                 recalculated: recalculate,
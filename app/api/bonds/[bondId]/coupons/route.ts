@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '../../../../../lib/generated/client';
+import { z } from 'zod';
+import { getRequestUserId } from '@/lib/auth';
+import { CouponPaymentError, CouponPaymentService } from '@/lib/services/bonds/CouponPayments';
+
+/**
+ * GET /api/bonds/[bondId]/coupons
+ * - Calendario de cupones con los pagos confirmados y los atrasados/parciales/impagos marcados;
+ *   solo para el usuario del emisor
+ *
+ * POST /api/bonds/[bondId]/coupons
+ * - { periodo, fechaPago, montoPagado?, referencia? }: el usuario del emisor confirma el pago
+ *   de un cupón y se registra la parte de cada inversión
+ */
+
+const prisma = new PrismaClient();
+const couponService = new CouponPaymentService(prisma);
+
+const ParamsSchema = z.object({
+    bondId: z.string().cuid('ID de bono inválido'),
+});
+
+const ConfirmPaymentSchema = z.object({
+    periodo: z.number().int().positive(),
+    fechaPago: z.string().date('Fecha de pago inválida (YYYY-MM-DD)'),
+    montoPagado: z.number().positive('El monto pagado debe ser positivo').optional(),
+    referencia: z.string().trim().max(100).optional(),
+});
+
+// Códigos de CouponPaymentError → HTTP
+const ERROR_STATUS: Record<CouponPaymentError['code'], number> = {
+    BOND_NOT_FOUND: 404,
+    PERIOD_NOT_FOUND: 404,
+    FORBIDDEN: 403,
+    INVALID_PAYMENT_DATE: 422,
+    BOND_NOT_PAYABLE: 409,
+    NOT_DUE: 409,
+    NO_HOLDERS: 409,
+    ALREADY_PAID: 409,
+};
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ bondId: string }> }
+) {
+    try {
+        const { bondId } = ParamsSchema.parse(await params);
+
+        const userId = await getRequestUserId(request);
+        if (!userId) {
+            return NextResponse.json({ error: 'No autorizado', code: 'UNAUTHORIZED' }, { status: 401 });
+        }
+
+        const schedule = await couponService.getSchedule(bondId, userId);
+
+        return NextResponse.json({
+            success: true,
+            ...schedule,
+        });
+
+    } catch (error) {
+        return errorResponse(error, 'Error obteniendo pagos de cupón');
+    }
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ bondId: string }> }
+) {
+    try {
+        const { bondId } = ParamsSchema.parse(await params);
+
+        const userId = await getRequestUserId(request);
+        if (!userId) {
+            return NextResponse.json({ error: 'No autorizado', code: 'UNAUTHORIZED' }, { status: 401 });
+        }
+
+        const { periodo, fechaPago, montoPagado, referencia } = ConfirmPaymentSchema.parse(await request.json());
+
+        const { pago, partes } = await couponService.confirmPayment(bondId, userId, {
+            periodo,
+            fechaPago: new Date(fechaPago),
+            montoPagado,
+            referencia,
+        });
+
+        return NextResponse.json({
+            success: true,
+            pago: {
+                id: pago.id,
+                periodo: pago.periodo,
+                status: pago.status,
+                montoProgramado: pago.montoProgramado.toNumber(),
+                montoPagado: pago.montoPagado.toNumber(),
+                interesPagado: pago.interesPagado.toNumber(),
+                fechaPago: pago.fechaPago.toISOString().split('T')[0],
+                referencia: pago.referencia,
+            },
+            inversiones: partes,
+        }, { status: 201 });
+
+    } catch (error) {
+        return errorResponse(error, 'Error registrando pago de cupón');
+    }
+}
+
+function errorResponse(error: unknown, mensaje: string) {
+    console.error(`${mensaje}:`, error);
+
+    if (error instanceof z.ZodError) {
+        return NextResponse.json({
+            error: 'Datos inválidos',
+            code: 'VALIDATION_ERROR',
+            details: error.errors,
+        }, { status: 400 });
+    }
+
+    if (error instanceof CouponPaymentError) {
+        return NextResponse.json({
+            error: error.message,
+            code: error.code,
+        }, { status: ERROR_STATUS[error.code] });
+    }
+
+    return NextResponse.json(
+        { error: mensaje, code: 'INTERNAL_ERROR' },
+        { status: 500 }
+    );
+}
+
+// Cerrar conexión de Prisma al finalizar
+if (process.env.NODE_ENV !== 'development') {
+    process.on('beforeExit', async () => {
+        await prisma.$disconnect();
+    });
+}
@@ -9,10 +9,10 @@ import { z } from 'zod';
 /**
  * API para obtener flujos de caja de un bono
  *
- * GET /api/bonds/[bondId]/flows?role=emisor|inversionista&period_from=0&period_to=10&format=json|csv
+ * GET /api/bonds/[bondId]/flows?role=emisor|inversionista&period_from=0&period_to=10&format=json|csv|xlsx
  * - Obtiene flujos de caja segmentados por rol
  * - Permite filtrar por rango de períodos
- * - Soporta exportación a CSV
+ * - Soporta exportación a CSV y a .xlsx con la hoja de cálculo original (fórmulas vivas)
  */
 
 const prisma = new PrismaClient();
@@ -29,7 +29,7 @@ const QuerySchema = z.object({
     role: z.enum(['emisor', 'inversionista']).default('inversionista'),
     period_from: z.coerce.number().int().min(0).optional(),
     period_to: z.coerce.number().int().min(0).optional(),
-    format: z.enum(['json', 'csv']).default('json'),
+    format: z.enum(['json', 'csv', 'xlsx']).default('json'),
     auto_calculate: z.enum(['true', 'false']).default('true').transform(val => val === 'true'),
 });
 
@@ -141,6 +141,29 @@ export async function GET(
             });
         }
 
+        if (format === 'xlsx') {
+            let workbook;
+            try {
+                workbook = await calculationsService.exportWorkbook(bondId);
+            } catch (error) {
+                return NextResponse.json(
+                    {
+                        error: error instanceof Error ? error.message : 'No se pudo generar el libro',
+                        code: 'EXPORT_FAILED',
+                    },
+                    { status: 422 }
+                );
+            }
+
+            return new NextResponse(workbook, {
+                status: 200,
+                headers: {
+                    'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+                    'Content-Disposition': `attachment; filename="flujos_${bond.name}_${role}.xlsx"`,
+                },
+            });
+        }
+
         // Formato JSON (por defecto)
         return NextResponse.json({
             success: true,
@@ -169,8 +192,8 @@ export async function GET(
             metadata: {
                 flowsCount: flows.length,
                 columnsShown: role === 'emisor'
-                    ? ['periodo', 'fecha', 'inflacionAnual', 'bonoIndexado', 'cupon', 'amortizacion', 'escudoFiscal', 'flujoEmisor', 'flujoEmisorConEscudo']
-                    : ['periodo', 'fecha', 'inflacionAnual', 'bonoIndexado', 'cupon', 'flujoBonista', 'flujoActualizado'],
+                    ? ['periodo', 'fecha', 'inflacionAnual', 'bonoIndexado', 'interesCapitalizado', 'cupon', 'amortizacion', 'escudoFiscal', 'flujoEmisor', 'flujoEmisorConEscudo']
+                    : ['periodo', 'fecha', 'inflacionAnual', 'bonoIndexado', 'interesCapitalizado', 'cupon', 'flujoBonista', 'flujoActualizado'],
                 currency: 'USD', // TODO: Obtener de configuración del bono
                 generatedAt: new Date(),
             },
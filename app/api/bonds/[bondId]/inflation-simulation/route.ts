@@ -0,0 +1,110 @@
+// app/api/bonds/[bondId]/inflation-simulation/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '../../../../../lib/generated/client'
+import { BondCalculationsService, InflationSimulationRequestSchema } from '@/lib/services/bonds/BondCalculations';
+import { z } from 'zod';
+
+/**
+ * API de simulación Monte Carlo de la inflación de un bono
+ *
+ * POST /api/bonds/[bondId]/inflation-simulation
+ * - { simulaciones, media, volatilidad, reversion, inflacionInicial?, semilla?, percentiles? }
+ * - Retorna bandas de percentiles de la inflación, los flujos del bonista, la TREA y el precio
+ * - Con la misma semilla los resultados son reproducibles; no modifica el bono
+ */
+
+const prisma = new PrismaClient();
+const calculationsService = new BondCalculationsService(prisma);
+
+// Esquema de validación para parámetros
+const ParamsSchema = z.object({
+    bondId: z.string().cuid('ID de bono inválido'),
+});
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ bondId: string }> }
+) {
+    try {
+        // 1. Validar parámetros de URL
+        const { bondId } = ParamsSchema.parse(await params);
+
+        // 2. Validar cuerpo del request
+        let body;
+        try {
+            body = await request.json();
+        } catch {
+            body = {};
+        }
+
+        const simulationRequest = InflationSimulationRequestSchema.parse(body);
+
+        // 3. Verificar que el bono existe
+        const bond = await prisma.bond.findUnique({
+            where: { id: bondId },
+            select: { id: true, name: true },
+        });
+
+        if (!bond) {
+            return NextResponse.json(
+                { error: 'Bono no encontrado', code: 'BOND_NOT_FOUND' },
+                { status: 404 }
+            );
+        }
+
+        // 4. Simular trayectorias de inflación
+        let result;
+        try {
+            result = await calculationsService.simulateInflation(bondId, simulationRequest);
+        } catch (error) {
+            return NextResponse.json(
+                {
+                    error: error instanceof Error ? error.message : 'No se pudo simular la inflación',
+                    code: 'SIMULATION_FAILED',
+                },
+                { status: 422 }
+            );
+        }
+
+        // 5. Retornar resultado
+        return NextResponse.json({
+            success: true,
+            bondId,
+            bondName: bond.name,
+            ...result,
+        });
+
+    } catch (error) {
+        console.error('Error en API de simulación de inflación:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                {
+                    error: 'Datos inválidos',
+                    code: 'VALIDATION_ERROR',
+                    details: error.errors.map(e => ({
+                        field: e.path.join('.'),
+                        message: e.message,
+                    })),
+                },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                error: 'Error interno del servidor',
+                code: 'INTERNAL_ERROR',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+// Cerrar conexión de Prisma al finalizar
+if (process.env.NODE_ENV !== 'development') {
+    process.on('beforeExit', async () => {
+        await prisma.$disconnect();
+    });
+}
@@ -0,0 +1,114 @@
+// app/api/bonds/[bondId]/price-yield/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '../../../../../lib/generated/client'
+import { BondCalculationsService, PriceYieldRequestSchema } from '@/lib/services/bonds/BondCalculations';
+import { z } from 'zod';
+
+/**
+ * API para convertir precio ↔ rendimiento de un bono
+ *
+ * POST /api/bonds/[bondId]/price-yield
+ * - { precio }: retorna el rendimiento implícito (YTM)
+ * - { rendimiento }: retorna el precio a ese rendimiento
+ * - Usa los flujos del bonista ya generados (los calcula si no existen)
+ */
+
+const prisma = new PrismaClient();
+const calculationsService = new BondCalculationsService(prisma);
+
+// Esquema de validación para parámetros
+const ParamsSchema = z.object({
+    bondId: z.string().cuid('ID de bono inválido'),
+});
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ bondId: string }> }
+) {
+    try {
+        // 1. Validar parámetros de URL
+        const { bondId } = ParamsSchema.parse(await params);
+
+        // 2. Validar cuerpo del request
+        let body;
+        try {
+            body = await request.json();
+        } catch {
+            body = {};
+        }
+
+        const priceYieldRequest = PriceYieldRequestSchema.parse(body);
+
+        // 3. Verificar que el bono existe
+        const bond = await prisma.bond.findUnique({
+            where: { id: bondId },
+            select: { id: true, name: true, valorNominal: true, valorComercial: true },
+        });
+
+        if (!bond) {
+            return NextResponse.json(
+                { error: 'Bono no encontrado', code: 'BOND_NOT_FOUND' },
+                { status: 404 }
+            );
+        }
+
+        // 4. Resolver sobre los flujos del bonista
+        let result;
+        try {
+            result = await calculationsService.solvePriceYield(bondId, priceYieldRequest);
+        } catch (error) {
+            return NextResponse.json(
+                {
+                    error: error instanceof Error ? error.message : 'No se pudo resolver precio/rendimiento',
+                    code: 'PRICE_YIELD_UNSOLVABLE',
+                },
+                { status: 422 }
+            );
+        }
+
+        // 5. Retornar resultado
+        const valorNominal = bond.valorNominal.toNumber();
+        return NextResponse.json({
+            success: true,
+            bondId,
+            bondName: bond.name,
+            input: priceYieldRequest.precio !== undefined ? 'precio' : 'rendimiento',
+            ...result,
+            precioPorcentaje: valorNominal > 0 ? (result.precio / valorNominal) * 100 : null,
+            valorComercial: bond.valorComercial.toNumber(),
+        });
+
+    } catch (error) {
+        console.error('Error en API de precio/rendimiento:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                {
+                    error: 'Datos inválidos',
+                    code: 'VALIDATION_ERROR',
+                    details: error.errors.map(e => ({
+                        field: e.path.join('.'),
+                        message: e.message,
+                    })),
+                },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                error: 'Error interno del servidor',
+                code: 'INTERNAL_ERROR',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+// Cerrar conexión de Prisma al finalizar
+if (process.env.NODE_ENV !== 'development') {
+    process.on('beforeExit', async () => {
+        await prisma.$disconnect();
+    });
+}
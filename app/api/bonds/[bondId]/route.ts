@@ -1,13 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '../../../../lib/generated/client';
 import { z } from 'zod';
+import { getRequestUserId } from '@/lib/auth';
+import { BondModel, UpdateBondSchema } from '@/lib/models/Bond';
+import { BondVersionError, BondVersionService } from '@/lib/services/bonds/BondVersions';
+
+/**
+ * GET /api/bonds/[bondId]
+ * - Bono con costes, inputs de cálculo, opciones, fondo de amortización y métricas
+ *
+ * PUT /api/bonds/[bondId]
+ * - Edita los términos de un bono en DRAFT sin inversiones y registra una nueva versión
+ *   (ver /api/bonds/[bondId]/versions para el historial y la comparación)
+ */
 
 const prisma = new PrismaClient();
+const versionService = new BondVersionService(prisma, new BondModel(prisma));
 
 const ParamsSchema = z.object({
     bondId: z.string().cuid('ID de bono inválido'),
 });
 
+// El emisor del bono no se cambia al editar
+const UpdateBondTermsSchema = UpdateBondSchema.omit({ emisorId: true }).extend({
+    motivo: z.string().trim().max(500).optional(),
+});
+
+// Códigos de BondVersionError → HTTP
+const ERROR_STATUS: Record<BondVersionError['code'], number> = {
+    BOND_NOT_FOUND: 404,
+    VERSION_NOT_FOUND: 404,
+    FORBIDDEN: 403,
+    VALIDATION_ERROR: 400,
+    BOND_NOT_EDITABLE: 409,
+};
+
 export async function GET(
     request: NextRequest,
     { params }: { params: Promise<{ bondId: string }> }
@@ -21,6 +48,9 @@ export async function GET(
                 emisor: true,
                 costs: true, 
                 calculationInputs: true,
+                options: { orderBy: { fechaEjercicio: 'asc' } },
+                sinkingFund: { orderBy: { periodo: 'asc' } },
+                curvaDescuento: { select: { id: true, nombre: true, fechaReferencia: true, interpolacion: true } },
                 financialMetrics: {
                     where: { role: 'EMISOR' },
                     select: {
@@ -30,6 +60,10 @@ export async function GET(
                         duracion: true,
                         convexidad: true,
                         duracionModificada: true,
+                        duracionEfectiva: true,
+                        convexidadEfectiva: true,
+                        dv01: true,
+                        duracionesClave: true,
                     }
                 }
             },
@@ -42,6 +76,12 @@ export async function GET(
             );
         }
 
+        // Rendimientos del bonista con opciones embebidas (YTC/YTP/YTW)
+        const bonistaMetrics = await prisma.financialMetrics.findUnique({
+            where: { bondId_role: { bondId, role: 'BONISTA' } },
+            select: { trea: true, ytc: true, ytp: true, ytw: true, zSpread: true },
+        });
+
         // Obtener datos de cálculo inputs
         let calculationInputs = null;
         if (bond.calculationInputs) {
@@ -53,6 +93,7 @@ export async function GET(
                 ...inputsData,
                 inflacionSerie: bond.calculationInputs.inflacionSerie,
                 graciaSerie: bond.calculationInputs.graciaSerie,
+                tasaCuponSerie: bond.calculationInputs.tasaCuponSerie ?? [],
             };
         }
 
@@ -79,14 +120,25 @@ export async function GET(
                 fechaEmision: bond.fechaEmision.toISOString(),
                 fechaVencimiento: bond.fechaVencimiento.toISOString(),
                 frecuenciaCupon: bond.frecuenciaCupon,
+                instrumentType: bond.instrumentType,
                 tipoTasa: bond.tipoTasa,
                 periodicidadCapitalizacion: bond.periodicidadCapitalizacion,
                 tasaAnual: bond.tasaAnual.toNumber(),
+                couponRateType: bond.couponRateType,
+                spreadFlotante: bond.spreadFlotante?.toNumber() ?? null,
+                tasaMaxima: bond.tasaMaxima?.toNumber() ?? null,
+                tasaMinima: bond.tasaMinima?.toNumber() ?? null,
+                tasaCuponSerie: calculationInputs?.tasaCuponSerie ?? [],
                 indexadoInflacion: bond.indexadoInflacion,
                 inflacionAnual: bond.inflacionAnual?.toNumber(),
                 primaVencimiento: bond.primaVencimiento.toNumber(),
                 impuestoRenta: bond.impuestoRenta.toNumber(),
+                amortizationMethod: bond.amortizationMethod,
+                capitalizarGraciaTotal: bond.capitalizarGraciaTotal,
                 baseDias: bond.baseDias, // Días por año (360 o 365)
+                dayCountConvention: bond.dayCountConvention,
+                mercadoCalendario: bond.mercadoCalendario,
+                businessDayConvention: bond.businessDayConvention,
                 
                 // Datos del emisor
                 emisor: bond.emisor ? {
@@ -118,6 +170,41 @@ export async function GET(
                     duracion: bond.financialMetrics[0].duracion.toNumber(),
                     convexidad: bond.financialMetrics[0].convexidad.toNumber(),
                     duracionModificada: bond.financialMetrics[0].duracionModificada.toNumber(),
+                    duracionEfectiva: bond.financialMetrics[0].duracionEfectiva?.toNumber() ?? null,
+                    convexidadEfectiva: bond.financialMetrics[0].convexidadEfectiva?.toNumber() ?? null,
+                    dv01: bond.financialMetrics[0].dv01?.toNumber() ?? null,
+                    duracionesClave: bond.financialMetrics[0].duracionesClave ?? [],
+                } : null,
+
+                // Cronograma de call/put
+                opciones: bond.options.map(opcion => ({
+                    tipo: opcion.tipo,
+                    fechaEjercicio: opcion.fechaEjercicio.toISOString(),
+                    precioEjercicio: opcion.precioEjercicio.toNumber(),
+                })),
+
+                // Fondo de amortización
+                fondoAmortizacion: bond.sinkingFund.map(cuota => ({
+                    periodo: cuota.periodo,
+                    porcentaje: cuota.porcentaje.toNumber(),
+                })),
+                primaRescate: bond.primaRescate?.toNumber() ?? null,
+
+                // Curva cero de descuento
+                curvaDescuento: bond.curvaDescuento ? {
+                    id: bond.curvaDescuento.id,
+                    nombre: bond.curvaDescuento.nombre,
+                    fechaReferencia: bond.curvaDescuento.fechaReferencia.toISOString(),
+                    interpolacion: bond.curvaDescuento.interpolacion.toLowerCase(),
+                } : null,
+
+                // Rendimientos del bonista
+                rendimientosBonista: bonistaMetrics ? {
+                    trea: bonistaMetrics.trea?.toNumber() ?? null,
+                    ytc: bonistaMetrics.ytc?.toNumber() ?? null,
+                    ytp: bonistaMetrics.ytp?.toNumber() ?? null,
+                    ytw: bonistaMetrics.ytw?.toNumber() ?? null,
+                    zSpread: bonistaMetrics.zSpread?.toNumber() ?? null,
                 } : null,
 
                 // Datos de cálculo
@@ -139,6 +226,55 @@ export async function GET(
     }
 }
 
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ bondId: string }> }
+) {
+    try {
+        const { bondId } = ParamsSchema.parse(await params);
+
+        const userId = await getRequestUserId(request);
+        if (!userId) {
+            return NextResponse.json({ error: 'No autorizado', code: 'UNAUTHORIZED' }, { status: 401 });
+        }
+
+        const { motivo, ...datos } = UpdateBondTermsSchema.parse(await request.json());
+        const { version, cambios } = await versionService.updateTerms(bondId, userId, datos, motivo);
+
+        return NextResponse.json({
+            success: true,
+            bondId,
+            version,
+            cambios,
+            // Sin cambios no se crea versión nueva
+            message: cambios.length > 0 ? `Versión ${version} guardada` : 'Sin cambios en los términos',
+        });
+
+    } catch (error) {
+        console.error('Error actualizando bono:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json({
+                error: 'Datos inválidos',
+                code: 'VALIDATION_ERROR',
+                details: error.errors,
+            }, { status: 400 });
+        }
+
+        if (error instanceof BondVersionError) {
+            return NextResponse.json({
+                error: error.message,
+                code: error.code,
+            }, { status: ERROR_STATUS[error.code] });
+        }
+
+        return NextResponse.json(
+            { error: 'Error actualizando bono', code: 'INTERNAL_ERROR' },
+            { status: 500 }
+        );
+    }
+}
+
 if (process.env.NODE_ENV !== 'development') {
     process.on('beforeExit', async () => {
         await prisma.$disconnect();
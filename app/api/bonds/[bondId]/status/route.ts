@@ -1,43 +1,120 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient, BondStatus } from '../../../../../lib/generated/client';
+import { PrismaClient } from '../../../../../lib/generated/client';
 import { z } from 'zod';
+import { getRequestUserId } from '@/lib/auth';
+import { BondLifecycleError, BondLifecycleService } from '@/lib/services/bonds/BondLifecycle';
+
+/**
+ * GET /api/bonds/[bondId]/status
+ * - Estado actual y transiciones disponibles para el emisor (con el motivo si están bloqueadas)
+ * - Solo para el usuario dueño del emisor del bono
+ *
+ * PUT /api/bonds/[bondId]/status
+ * - { status, motivo? }: transición validada por BondLifecycleService y registrada en AuditLog
+ */
 
 const prisma = new PrismaClient();
+const lifecycleService = new BondLifecycleService(prisma);
+
+const ParamsSchema = z.object({
+    bondId: z.string().cuid('ID de bono inválido'),
+});
 
 const UpdateStatusSchema = z.object({
-    status: z.enum(['DRAFT', 'ACTIVE', 'PAUSED', 'COMPLETED']),
+    status: z.enum(['DRAFT', 'ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED', 'EXPIRED']),
+    motivo: z.string().trim().max(500).optional(),
 });
 
-export async function PUT(
+// Códigos de BondLifecycleError → HTTP
+const ERROR_STATUS: Record<BondLifecycleError['code'], number> = {
+    BOND_NOT_FOUND: 404,
+    FORBIDDEN: 403,
+    ACTOR_NOT_ALLOWED: 403,
+    INVALID_TRANSITION: 409,
+    FLOWS_NOT_CALCULATED: 409,
+    ACTIVE_INVESTMENTS: 409,
+    BOND_MATURED: 409,
+    BOND_NOT_MATURED: 409,
+};
+
+export async function GET(
     request: NextRequest,
     { params }: { params: Promise<{ bondId: string }> }
 ) {
     try {
-        const { bondId } = await params;
-        const { status } = UpdateStatusSchema.parse(await request.json());
-        const prismaStatus = BondStatus[status as keyof typeof BondStatus];
+        const { bondId } = ParamsSchema.parse(await params);
+
+        const userId = await getRequestUserId(request);
+        if (!userId) {
+            return NextResponse.json({ error: 'No autorizado', code: 'UNAUTHORIZED' }, { status: 401 });
+        }
 
-        const updatedBond = await prisma.bond.update({
-            where: { id: bondId },
-            data: { status: prismaStatus },
+        const { status, transiciones } = await lifecycleService.getTransitions(bondId, { actor: 'EMISOR', userId });
+
+        return NextResponse.json({
+            success: true,
+            bondId,
+            status,
+            transiciones,
         });
 
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ bondId: string }> }
+) {
+    try {
+        const { bondId } = ParamsSchema.parse(await params);
+
+        const userId = await getRequestUserId(request);
+        if (!userId) {
+            return NextResponse.json({ error: 'No autorizado', code: 'UNAUTHORIZED' }, { status: 401 });
+        }
+
+        const { status, motivo } = UpdateStatusSchema.parse(await request.json());
+
+        const updatedBond = await lifecycleService.transition(bondId, status, { actor: 'EMISOR', userId, motivo });
+
         return NextResponse.json({
             success: true,
             bond: updatedBond,
         });
 
     } catch (error) {
-        console.error('Error updating bond status:', error);
-        return NextResponse.json(
-            { error: 'Error actualizando estado' },
-            { status: 500 }
-        );
+        return errorResponse(error);
+    }
+}
+
+function errorResponse(error: unknown) {
+    console.error('Error updating bond status:', error);
+
+    if (error instanceof z.ZodError) {
+        return NextResponse.json({
+            error: 'Datos inválidos',
+            code: 'VALIDATION_ERROR',
+            details: error.errors,
+        }, { status: 400 });
+    }
+
+    if (error instanceof BondLifecycleError) {
+        return NextResponse.json({
+            error: error.message,
+            code: error.code,
+        }, { status: ERROR_STATUS[error.code] });
     }
+
+    return NextResponse.json(
+        { error: 'Error actualizando estado', code: 'INTERNAL_ERROR' },
+        { status: 500 }
+    );
 }
 
 if (process.env.NODE_ENV !== 'development') {
     process.on('beforeExit', async () => {
         await prisma.$disconnect();
     });
-}
\ No newline at end of file
+}
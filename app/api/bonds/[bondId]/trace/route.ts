@@ -0,0 +1,109 @@
+// app/api/bonds/[bondId]/trace/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '../../../../../lib/generated/client'
+import { BondCalculationsService } from '@/lib/services/bonds/BondCalculations';
+import { z } from 'zod';
+
+/**
+ * API de traza de cálculo de un bono
+ *
+ * GET /api/bonds/[bondId]/trace?periodo=3
+ * - Por cada celda (L4-L12, columnas C-R de cada período y métricas): fórmula del Excel, entradas y resultado
+ * - periodo: opcional, solo la fila A[n] de la tabla de flujos
+ * - Recalcula con los inputs vigentes; no modifica el bono
+ */
+
+const prisma = new PrismaClient();
+const calculationsService = new BondCalculationsService(prisma);
+
+// Esquema de validación para parámetros
+const ParamsSchema = z.object({
+    bondId: z.string().cuid('ID de bono inválido'),
+});
+
+const QuerySchema = z.object({
+    periodo: z.coerce.number().int().min(0).optional(),
+});
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ bondId: string }> }
+) {
+    try {
+        // 1. Validar parámetros de URL y query
+        const { bondId } = ParamsSchema.parse(await params);
+        const searchParams = new URL(request.url).searchParams;
+        const { periodo } = QuerySchema.parse({
+            periodo: searchParams.get('periodo') ?? undefined,
+        });
+
+        // 2. Verificar que el bono existe
+        const bond = await prisma.bond.findUnique({
+            where: { id: bondId },
+            select: { id: true, name: true },
+        });
+
+        if (!bond) {
+            return NextResponse.json(
+                { error: 'Bono no encontrado', code: 'BOND_NOT_FOUND' },
+                { status: 404 }
+            );
+        }
+
+        // 3. Recalcular con traza
+        let traza;
+        try {
+            traza = await calculationsService.traceCalculation(bondId, periodo);
+        } catch (error) {
+            return NextResponse.json(
+                {
+                    error: error instanceof Error ? error.message : 'No se pudo trazar el cálculo',
+                    code: 'TRACE_FAILED',
+                },
+                { status: 422 }
+            );
+        }
+
+        // 4. Retornar resultado
+        return NextResponse.json({
+            success: true,
+            bondId,
+            bondName: bond.name,
+            ...(periodo !== undefined && { periodo }),
+            traza,
+        });
+
+    } catch (error) {
+        console.error('Error en API de traza:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                {
+                    error: 'Datos inválidos',
+                    code: 'VALIDATION_ERROR',
+                    details: error.errors.map(e => ({
+                        field: e.path.join('.'),
+                        message: e.message,
+                    })),
+                },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                error: 'Error interno del servidor',
+                code: 'INTERNAL_ERROR',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+// Cerrar conexión de Prisma al finalizar
+if (process.env.NODE_ENV !== 'development') {
+    process.on('beforeExit', async () => {
+        await prisma.$disconnect();
+    });
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '../../../../../lib/generated/client';
+import { z } from 'zod';
+import { getRequestUserId } from '@/lib/auth';
+import { BondModel } from '@/lib/models/Bond';
+import { BondVersionError, BondVersionService } from '@/lib/services/bonds/BondVersions';
+
+/**
+ * GET /api/bonds/[bondId]/versions
+ * - Historial de versiones de términos (la más reciente primero) con la fecha de su cálculo
+ *
+ * GET /api/bonds/[bondId]/versions?desde=1&hasta=3
+ * - Inputs que cambiaron entre dos versiones y variación de cada métrica calculada
+ *
+ * Solo para el usuario dueño del emisor del bono
+ */
+
+const prisma = new PrismaClient();
+const versionService = new BondVersionService(prisma, new BondModel(prisma));
+
+const ParamsSchema = z.object({
+    bondId: z.string().cuid('ID de bono inválido'),
+});
+
+const CompareQuerySchema = z.object({
+    desde: z.coerce.number().int().positive(),
+    hasta: z.coerce.number().int().positive(),
+});
+
+// Códigos de BondVersionError → HTTP
+const ERROR_STATUS: Record<BondVersionError['code'], number> = {
+    BOND_NOT_FOUND: 404,
+    VERSION_NOT_FOUND: 404,
+    FORBIDDEN: 403,
+    VALIDATION_ERROR: 400,
+    BOND_NOT_EDITABLE: 409,
+};
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ bondId: string }> }
+) {
+    try {
+        const { bondId } = ParamsSchema.parse(await params);
+
+        const userId = await getRequestUserId(request);
+        if (!userId) {
+            return NextResponse.json({ error: 'No autorizado', code: 'UNAUTHORIZED' }, { status: 401 });
+        }
+
+        const searchParams = new URL(request.url).searchParams;
+
+        if (searchParams.has('desde') || searchParams.has('hasta')) {
+            const { desde, hasta } = CompareQuerySchema.parse({
+                desde: searchParams.get('desde'),
+                hasta: searchParams.get('hasta'),
+            });
+            const comparacion = await versionService.compareVersions(bondId, userId, desde, hasta);
+
+            return NextResponse.json({
+                success: true,
+                bondId,
+                ...comparacion,
+            });
+        }
+
+        const versiones = await versionService.listVersions(bondId, userId);
+
+        return NextResponse.json({
+            success: true,
+            bondId,
+            versiones,
+        });
+
+    } catch (error) {
+        return errorResponse(error, 'Error obteniendo versiones del bono');
+    }
+}
+
+function errorResponse(error: unknown, mensaje: string) {
+    console.error(`${mensaje}:`, error);
+
+    if (error instanceof z.ZodError) {
+        return NextResponse.json({
+            error: 'Datos inválidos',
+            code: 'VALIDATION_ERROR',
+            details: error.errors,
+        }, { status: 400 });
+    }
+
+    if (error instanceof BondVersionError) {
+        return NextResponse.json({
+            error: error.message,
+            code: error.code,
+        }, { status: ERROR_STATUS[error.code] });
+    }
+
+    return NextResponse.json(
+        { error: mensaje, code: 'INTERNAL_ERROR' },
+        { status: 500 }
+    );
+}
+
+// Cerrar conexión de Prisma al finalizar
+if (process.env.NODE_ENV !== 'development') {
+    process.on('beforeExit', async () => {
+        await prisma.$disconnect();
+    });
+}
@@ -0,0 +1,142 @@
+// app/api/bonds/import/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '../../../../lib/generated/client';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+import { BondImporter } from '@/lib/services/bonds/BondImporter';
+import { BondCreationError, BondCreationService } from '@/lib/services/bonds/BondCreation';
+
+/**
+ * API de importación de bonos desde plantillas
+ *
+ * GET /api/bonds/import
+ * - Descarga la plantilla CSV (config/templates/bono.csv)
+ *
+ * POST /api/bonds/import (multipart/form-data)
+ * - archivo: .xlsx con la disposición de la hoja de cálculo o .csv con la plantilla
+ * - emisorId
+ * - modo: 'validar' devuelve los datos para precargar el wizard; 'borrador' además crea el bono en DRAFT
+ * - Los errores se reportan por celda (E4-E20, C/E de la tabla de flujos)
+ */
+
+const prisma = new PrismaClient();
+const bondCreationService = new BondCreationService(prisma);
+
+const TEMPLATE_PATH = path.join(process.cwd(), 'config', 'templates', 'bono.csv');
+
+const ImportRequestSchema = z.object({
+    emisorId: z.string().cuid('ID de emisor inválido'),
+    modo: z.enum(['validar', 'borrador']).default('validar'),
+});
+
+export async function GET() {
+    const contenido = await fs.readFile(TEMPLATE_PATH, 'utf-8');
+
+    return new NextResponse(contenido, {
+        headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': 'attachment; filename="plantilla_bono.csv"',
+        },
+    });
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        // 1. Leer formulario
+        const formData = await request.formData();
+        const { emisorId, modo } = ImportRequestSchema.parse({
+            emisorId: formData.get('emisorId'),
+            modo: formData.get('modo') ?? undefined,
+        });
+
+        const archivo = formData.get('archivo');
+        if (!(archivo instanceof File)) {
+            return NextResponse.json({
+                error: 'Debe adjuntar un archivo .xlsx o .csv',
+                code: 'FILE_REQUIRED',
+            }, { status: 400 });
+        }
+
+        // 2. Leer plantilla según extensión
+        const nombre = archivo.name.toLowerCase();
+        if (!nombre.endsWith('.xlsx') && !nombre.endsWith('.csv')) {
+            return NextResponse.json({
+                error: 'Formato no soportado. Use .xlsx o .csv',
+                code: 'UNSUPPORTED_FORMAT',
+            }, { status: 400 });
+        }
+
+        const importacion = nombre.endsWith('.xlsx')
+            ? await BondImporter.fromWorkbook(Buffer.from(await archivo.arrayBuffer()), emisorId)
+            : BondImporter.fromCSV(await archivo.text(), emisorId);
+
+        // 3. Errores por celda
+        if (!importacion.valido || !importacion.bono) {
+            return NextResponse.json({
+                error: 'La plantilla tiene errores',
+                code: 'IMPORT_INVALID',
+                bono: importacion.bono,
+                errores: importacion.errores,
+            }, { status: 422 });
+        }
+
+        // 4. Solo validar: el wizard precarga los datos
+        if (modo === 'validar') {
+            return NextResponse.json({
+                success: true,
+                bono: importacion.bono,
+                errores: [],
+            });
+        }
+
+        // 5. Crear borrador
+        const { bond } = await bondCreationService.createBond({ ...importacion.bono, emisorId });
+
+        return NextResponse.json({
+            success: true,
+            bondId: bond.id,
+            bono: importacion.bono,
+            errores: [],
+            message: 'Bono importado como borrador',
+        }, { status: 201 });
+
+    } catch (error: any) {
+        console.error('Error importing bond:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json({
+                error: 'Datos inválidos',
+                code: 'VALIDATION_ERROR',
+                details: error.errors,
+            }, { status: 400 });
+        }
+
+        if (error instanceof BondCreationError) {
+            return NextResponse.json({
+                error: error.message,
+                code: error.code,
+            }, { status: 404 });
+        }
+
+        if (error.code === 'P2002') {
+            return NextResponse.json({
+                error: 'El código ISIN ya existe',
+                code: 'DUPLICATE_ISIN',
+            }, { status: 409 });
+        }
+
+        return NextResponse.json({
+            error: 'Error interno del servidor',
+            code: 'INTERNAL_ERROR',
+        }, { status: 500 });
+    }
+}
+
+// Cerrar conexión de Prisma al finalizar
+if (process.env.NODE_ENV !== 'development') {
+    process.on('beforeExit', async () => {
+        await prisma.$disconnect();
+    });
+}
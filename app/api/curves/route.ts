@@ -0,0 +1,158 @@
+// app/api/curves/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma, PrismaClient } from '../../../lib/generated/client';
+import { YieldCurve } from '@/lib/services/calculations/YieldCurve';
+import { listYieldCurveFiles, loadYieldCurveFile } from '@/lib/services/curves/CurveLoader';
+import { z } from 'zod';
+
+/**
+ * API de curvas cero de descuento
+ *
+ * GET /api/curves
+ * - Curvas guardadas (más recientes primero) y archivos CSV disponibles en config/curves
+ *
+ * POST /api/curves
+ * - { nombre, fechaReferencia, interpolacion, csv? }
+ * - Sin csv se importa config/curves/<nombre>.csv; la misma curva y fecha se reemplaza
+ */
+
+const prisma = new PrismaClient();
+
+const INTERPOLACION_MAP = {
+    'lineal': 'LINEAL',
+    'cubica': 'CUBICA'
+} as const;
+
+const ImportCurveSchema = z.object({
+    nombre: z.string().trim().min(1, 'El nombre de la curva es requerido').max(50),
+    fechaReferencia: z.string().transform(str => new Date(str)),
+    interpolacion: z.enum(['lineal', 'cubica']).default('lineal'),
+    csv: z.string().optional(),
+});
+
+export async function GET() {
+    try {
+        const [curvas, archivos] = await Promise.all([
+            prisma.yieldCurve.findMany({
+                orderBy: [{ fechaReferencia: 'desc' }, { nombre: 'asc' }],
+            }),
+            listYieldCurveFiles(),
+        ]);
+
+        return NextResponse.json({
+            success: true,
+            curvas: curvas.map(curva => ({
+                id: curva.id,
+                nombre: curva.nombre,
+                fechaReferencia: curva.fechaReferencia.toISOString(),
+                interpolacion: curva.interpolacion.toLowerCase(),
+                puntos: curva.puntos,
+            })),
+            archivos,
+        });
+
+    } catch (error) {
+        console.error('Error listando curvas:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Error interno del servidor',
+                code: 'INTERNAL_ERROR',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        // 1. Validar cuerpo del request
+        const body = await request.json();
+        const data = ImportCurveSchema.parse(body);
+
+        if (isNaN(data.fechaReferencia.getTime())) {
+            return NextResponse.json(
+                { error: 'Fecha de referencia inválida', code: 'VALIDATION_ERROR' },
+                { status: 400 }
+            );
+        }
+
+        // 2. Leer los puntos desde el CSV recibido o desde el archivo local
+        let puntos;
+        try {
+            puntos = data.csv !== undefined
+                ? YieldCurve.parseCSV(data.csv)
+                : await loadYieldCurveFile(data.nombre);
+            new YieldCurve(puntos, data.interpolacion);
+        } catch (error) {
+            return NextResponse.json(
+                {
+                    error: error instanceof Error ? error.message : 'Curva inválida',
+                    code: 'INVALID_YIELD_CURVE',
+                },
+                { status: 422 }
+            );
+        }
+
+        // 3. Guardar la curva con su fecha de referencia
+        const nombre = data.nombre.toUpperCase();
+        const curva = await prisma.yieldCurve.upsert({
+            where: { nombre_fechaReferencia: { nombre, fechaReferencia: data.fechaReferencia } },
+            create: {
+                nombre,
+                fechaReferencia: data.fechaReferencia,
+                interpolacion: INTERPOLACION_MAP[data.interpolacion],
+                puntos: puntos as unknown as Prisma.InputJsonValue,
+            },
+            update: {
+                interpolacion: INTERPOLACION_MAP[data.interpolacion],
+                puntos: puntos as unknown as Prisma.InputJsonValue,
+            },
+        });
+
+        // 4. Retornar resultado
+        return NextResponse.json({
+            success: true,
+            curva: {
+                id: curva.id,
+                nombre: curva.nombre,
+                fechaReferencia: curva.fechaReferencia.toISOString(),
+                interpolacion: data.interpolacion,
+                puntos,
+            },
+        }, { status: 201 });
+
+    } catch (error) {
+        console.error('Error importando curva:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                {
+                    error: 'Datos inválidos',
+                    code: 'VALIDATION_ERROR',
+                    details: error.errors.map(e => ({
+                        field: e.path.join('.'),
+                        message: e.message,
+                    })),
+                },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                error: 'Error interno del servidor',
+                code: 'INTERNAL_ERROR',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+// Cerrar conexión de Prisma al finalizar
+if (process.env.NODE_ENV !== 'development') {
+    process.on('beforeExit', async () => {
+        await prisma.$disconnect();
+    });
+}
@@ -0,0 +1,152 @@
+// app/api/emisor/[emisorId]/bonds/import/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '../../../../../../lib/generated/client';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+import { getRequestUserId } from '@/lib/auth';
+import {
+    BondBatchImportError,
+    BondBatchImportService,
+    BondBatchRow,
+    parseBatchCSV,
+    parseBatchJSON,
+} from '@/lib/services/bonds/BondBatchImport';
+import { BondCreationError } from '@/lib/services/bonds/BondCreation';
+
+/**
+ * GET /api/emisor/[emisorId]/bonds/import
+ * - Descarga la plantilla CSV del lote (config/templates/bonos_lote.csv)
+ *
+ * POST /api/emisor/[emisorId]/bonds/import?dryRun=true
+ *
+ * Importación de bonos en lote (ver BondBatchImport)
+ * - multipart/form-data con archivo .csv o .json
+ * - text/csv o application/json en el cuerpo
+ * - dryRun=true valida cada fila y calcula TCEA/TREA sin crear bonos
+ * - Sin dryRun se crean las filas válidas, cada una en su transacción; las inválidas se reportan
+ * - Solo para el usuario dueño del emisor
+ */
+
+const prisma = new PrismaClient();
+const batchImportService = new BondBatchImportService(prisma);
+
+const ParamsSchema = z.object({
+    emisorId: z.string().cuid('ID de emisor inválido'),
+});
+
+const QuerySchema = z.object({
+    dryRun: z.enum(['true', 'false']).default('false').transform(v => v === 'true'),
+});
+
+// Códigos de BondBatchImportError → HTTP
+const ERROR_STATUS: Record<BondBatchImportError['code'], number> = {
+    INVALID_FILE: 400,
+    EMPTY_BATCH: 400,
+    BATCH_TOO_LARGE: 400,
+    FORBIDDEN: 403,
+};
+
+const TEMPLATE_PATH = path.join(process.cwd(), 'config', 'templates', 'bonos_lote.csv');
+
+export async function GET() {
+    const contenido = await fs.readFile(TEMPLATE_PATH, 'utf-8');
+
+    return new NextResponse(contenido, {
+        headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': 'attachment; filename="plantilla_bonos_lote.csv"',
+        },
+    });
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ emisorId: string }> }
+) {
+    try {
+        // 1. Validar parámetros
+        const resolvedParams = await params;
+        const { emisorId } = ParamsSchema.parse(resolvedParams);
+
+        const userId = await getRequestUserId(request);
+        if (!userId) {
+            return NextResponse.json({ error: 'No autorizado', code: 'UNAUTHORIZED' }, { status: 401 });
+        }
+
+        const searchParams = new URL(request.url).searchParams;
+        const { dryRun } = QuerySchema.parse({
+            dryRun: searchParams.get('dryRun') ?? undefined,
+        });
+
+        // 2. Leer lote según el tipo de contenido
+        const contentType = request.headers.get('content-type') ?? '';
+        let filas: BondBatchRow[];
+
+        if (contentType.includes('multipart/form-data')) {
+            const archivo = (await request.formData()).get('archivo');
+            if (!(archivo instanceof File)) {
+                return NextResponse.json({
+                    error: 'Debe adjuntar un archivo .csv o .json',
+                    code: 'FILE_REQUIRED',
+                }, { status: 400 });
+            }
+            filas = archivo.name.toLowerCase().endsWith('.json')
+                ? parseBatchJSON(await archivo.text())
+                : parseBatchCSV(await archivo.text());
+        } else if (contentType.includes('application/json')) {
+            filas = parseBatchJSON(await request.text());
+        } else {
+            filas = parseBatchCSV(await request.text());
+        }
+
+        // 3. Validar (y crear) filas
+        const result = await batchImportService.importBatch(emisorId, userId, filas, dryRun);
+
+        console.log(`📦 Lote de ${result.total} bonos para ${emisorId}: ${result.validas} válidos, ${result.creadas} creados`);
+
+        return NextResponse.json({
+            success: true,
+            emisorId,
+            ...result,
+        }, { status: !dryRun && result.creadas > 0 ? 201 : 200 });
+
+    } catch (error: any) {
+        console.error('Error importing bond batch:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json({
+                error: 'Datos inválidos',
+                code: 'VALIDATION_ERROR',
+                details: error.errors,
+            }, { status: 400 });
+        }
+
+        if (error instanceof BondBatchImportError) {
+            return NextResponse.json({
+                error: error.message,
+                code: error.code,
+            }, { status: ERROR_STATUS[error.code] });
+        }
+
+        if (error instanceof BondCreationError) {
+            return NextResponse.json({
+                error: error.message,
+                code: error.code,
+            }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            error: 'Error interno del servidor',
+            code: 'INTERNAL_ERROR',
+        }, { status: 500 });
+    }
+}
+
+// Cerrar conexión de Prisma al finalizar
+if (process.env.NODE_ENV !== 'development') {
+    process.on('beforeExit', async () => {
+        await prisma.$disconnect();
+    });
+}
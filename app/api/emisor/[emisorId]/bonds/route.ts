@@ -12,7 +12,7 @@ const ParamsSchema = z.object({
 
 // Schema de validación para query parameters
 const QuerySchema = z.object({
-    status: z.enum(['draft', 'active', 'paused', 'completed']).optional(),
+    status: z.enum(['draft', 'active', 'paused', 'completed', 'expired', 'cancelled']).optional(),
     limit: z.coerce.number().int().min(1).max(100).default(50),
     offset: z.coerce.number().int().min(0).default(0),
     search: z.string().optional(),
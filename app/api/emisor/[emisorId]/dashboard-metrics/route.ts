@@ -2,6 +2,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient, MetricsRole } from '../../../../../lib/generated/client';
 import { z } from 'zod';
+import {
+    CouponPaymentService,
+    toCouponFlow,
+    toCouponHolding,
+    toCouponPaymentRecord,
+} from '@/lib/services/bonds/CouponPayments';
 
 const prisma = new PrismaClient();
 
@@ -50,11 +56,22 @@ export async function GET(
                 cashFlows: {
                     select: {
                         cupon: true,
+                        amortizacion: true,
+                        cuota: true,
+                        prima: true,
                         fecha: true,
                         periodo: true,
+                        flujoBonista: true,
                     },
                     orderBy: { periodo: 'asc' }
-                }
+                },
+                couponPayments: {
+                    select: { periodo: true, montoProgramado: true, montoPagado: true, interesPagado: true, fechaPago: true, referencia: true },
+                },
+                investments: {
+                    where: { status: { not: 'CANCELLED' } },
+                    select: { id: true, montoInvertido: true, precioCompra: true, fechaInversion: true },
+                },
             },
         });
 
@@ -79,43 +96,58 @@ export async function GET(
         ) / bondsWithTCEA.length
             : 0;
 
-        // 4. Calcular intereses pagados YTD (estimación basada en cupones)
+        // 4. Intereses pagados YTD según los pagos de cupón confirmados
         const currentYear = new Date().getFullYear();
         let interestPaidYTD = 0;
+        let couponsPaidYTD = 0;
 
-        for (const bond of activeBonds) {
-            if (bond.cashFlows.length > 0) {
-                // Sumar cupones del año actual
-                const ytdCoupons = bond.cashFlows
-                    .filter(flow => {
-                        const flowYear = new Date(flow.fecha).getFullYear();
-                        return flowYear === currentYear && flow.cupon && flow.periodo > 0;
-                    })
-                    .reduce((sum, flow) => sum + (flow.cupon?.toNumber() || 0), 0);
-
-                interestPaidYTD += ytdCoupons;
-            } else {
-                // Estimación aproximada si no hay flujos calculados
-                const estimatedAnnualInterest = bond.valorNominal.toNumber() * bond.tasaAnual.toNumber();
-                const monthsPassed = new Date().getMonth() + 1;
-                interestPaidYTD += (estimatedAnnualInterest * monthsPassed) / 12;
+        for (const bond of bonds) {
+            for (const pago of bond.couponPayments) {
+                if (pago.fechaPago.getFullYear() !== currentYear) continue;
+                interestPaidYTD += pago.interesPagado.toNumber();
+                couponsPaidYTD += pago.montoPagado.toNumber();
             }
         }
 
-        // 5. Calcular próximo pago de cupón
+        // Cupones pagados con atraso o de forma parcial, o aún impagos pasados los días de gracia
+        const paymentAlerts = bonds
+            .filter(bond => ['ACTIVE', 'PAUSED', 'EXPIRED'].includes(bond.status))
+            .flatMap(bond => CouponPaymentService.buildSchedule(
+                bond.cashFlows.map(toCouponFlow),
+                bond.couponPayments.map(toCouponPaymentRecord),
+                bond.investments.map(toCouponHolding)
+            )
+                .filter(entry => entry.status === 'LATE' || entry.status === 'PARTIAL' || entry.status === 'MISSED')
+                .map(entry => ({
+                    bondId: bond.id,
+                    bondName: bond.name,
+                    periodo: entry.periodo,
+                    fechaProgramada: entry.fechaProgramada,
+                    status: entry.status,
+                    diasAtraso: entry.diasAtraso,
+                    montoProgramado: entry.montoProgramado,
+                })));
+
+        // 5. Calcular próximo pago (cupón + principal amortizado + prima)
         let nextPaymentAmount = 0;
+        let nextPaymentPrincipal = 0;
         let nextPaymentDate: Date | null = null;
 
         const now = new Date();
+        // Lo que el emisor desembolsa en el período: I[n]+K[n] (en gracia total no se paga nada)
+        const pagoDelPeriodo = (flow: typeof bonds[number]['cashFlows'][number]) =>
+            (flow.cuota?.toNumber() || 0) + (flow.prima?.toNumber() || 0);
+
         for (const bond of activeBonds) {
             if (bond.cashFlows.length > 0) {
-                // Buscar el próximo cupón futuro
+                // Buscar el próximo pago futuro (incluye rescates del fondo de amortización)
                 const nextCoupon = bond.cashFlows
-                    .filter(flow => new Date(flow.fecha) > now && flow.cupon && flow.periodo > 0)
+                    .filter(flow => new Date(flow.fecha) > now && flow.periodo > 0 && pagoDelPeriodo(flow) !== 0)
                     .sort((a, b) => new Date(a.fecha).getTime() - new Date(b.fecha).getTime())[0];
 
                 if (nextCoupon) {
-                    nextPaymentAmount += nextCoupon.cupon?.toNumber() || 0;
+                    nextPaymentAmount += pagoDelPeriodo(nextCoupon);
+                    nextPaymentPrincipal += nextCoupon.amortizacion?.toNumber() || 0;
 
                     // Usar la fecha más próxima
                     const couponDate = new Date(nextCoupon.fecha);
@@ -143,14 +175,21 @@ export async function GET(
             totalNominalValue,
             averageTCEA,
             interestPaidYTD,
+            couponsPaidYTD,
+            latePayments: paymentAlerts.filter(alert => alert.status === 'LATE').length,
+            partialPayments: paymentAlerts.filter(alert => alert.status === 'PARTIAL').length,
+            missedPayments: paymentAlerts.filter(alert => alert.status === 'MISSED').length,
+            paymentAlerts,
             nextPayment: {
                 amount: nextPaymentAmount,
+                principal: nextPaymentPrincipal, // Parte del pago que amortiza capital
                 date: nextPaymentDate?.toISOString().split('T')[0] || null,
             },
             // Métricas adicionales
             draftBonds: bonds.filter(bond => bond.status === 'DRAFT').length,
             pausedBonds: bonds.filter(bond => bond.status === 'PAUSED').length,
             completedBonds: bonds.filter(bond => bond.status === 'COMPLETED').length,
+            cancelledBonds: bonds.filter(bond => bond.status === 'CANCELLED').length,
         };
 
         console.log('✅ Métricas calculadas:', metrics);
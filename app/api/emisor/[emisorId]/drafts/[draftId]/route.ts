@@ -0,0 +1,119 @@
+// app/api/emisor/[emisorId]/drafts/[draftId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '../../../../../../lib/generated/client';
+import { z } from 'zod';
+import { getRequestUserId } from '@/lib/auth';
+import { BondDraftError, BondDraftInputSchema, BondDraftService } from '@/lib/services/bonds/BondDrafts';
+
+/**
+ * GET /api/emisor/[emisorId]/drafts/[draftId]
+ * - Pasos guardados para retomar el wizard
+ *
+ * PUT /api/emisor/[emisorId]/drafts/[draftId]
+ * - Autosave: { currentStep, data } reemplaza lo guardado
+ *
+ * DELETE /api/emisor/[emisorId]/drafts/[draftId]
+ * - Descarta el borrador (también al crear el bono)
+ */
+
+const prisma = new PrismaClient();
+const draftService = new BondDraftService(prisma);
+
+const ParamsSchema = z.object({
+    emisorId: z.string().cuid('ID de emisor inválido'),
+    draftId: z.string().cuid('ID de borrador inválido'),
+});
+
+// Códigos de BondDraftError → HTTP
+const ERROR_STATUS: Record<BondDraftError['code'], number> = {
+    EMISOR_NOT_FOUND: 404,
+    DRAFT_NOT_FOUND: 404,
+    FORBIDDEN: 403,
+    TOO_MANY_DRAFTS: 409,
+    DRAFT_TOO_LARGE: 413,
+};
+
+type Params = { params: Promise<{ emisorId: string; draftId: string }> };
+
+const noAutorizado = () =>
+    NextResponse.json({ error: 'No autorizado', code: 'UNAUTHORIZED' }, { status: 401 });
+
+export async function GET(request: NextRequest, { params }: Params) {
+    try {
+        const { emisorId, draftId } = ParamsSchema.parse(await params);
+
+        const userId = await getRequestUserId(request);
+        if (!userId) return noAutorizado();
+
+        const draft = await draftService.get(emisorId, draftId, userId);
+
+        return NextResponse.json({ success: true, draft });
+
+    } catch (error) {
+        return errorResponse(error, 'Error obteniendo borrador');
+    }
+}
+
+export async function PUT(request: NextRequest, { params }: Params) {
+    try {
+        const { emisorId, draftId } = ParamsSchema.parse(await params);
+
+        const userId = await getRequestUserId(request);
+        if (!userId) return noAutorizado();
+
+        const input = BondDraftInputSchema.parse(await request.json());
+        const draft = await draftService.save(emisorId, draftId, userId, input);
+
+        return NextResponse.json({ success: true, draft });
+
+    } catch (error) {
+        return errorResponse(error, 'Error guardando borrador');
+    }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+    try {
+        const { emisorId, draftId } = ParamsSchema.parse(await params);
+
+        const userId = await getRequestUserId(request);
+        if (!userId) return noAutorizado();
+
+        await draftService.remove(emisorId, draftId, userId);
+
+        return NextResponse.json({ success: true });
+
+    } catch (error) {
+        return errorResponse(error, 'Error eliminando borrador');
+    }
+}
+
+function errorResponse(error: unknown, mensaje: string) {
+    console.error(`${mensaje}:`, error);
+
+    if (error instanceof z.ZodError) {
+        return NextResponse.json({
+            error: 'Datos inválidos',
+            code: 'VALIDATION_ERROR',
+            details: error.errors,
+        }, { status: 400 });
+    }
+
+    if (error instanceof BondDraftError) {
+        return NextResponse.json({
+            error: error.message,
+            code: error.code,
+        }, { status: ERROR_STATUS[error.code] });
+    }
+
+    return NextResponse.json(
+        { error: mensaje, code: 'INTERNAL_ERROR' },
+        { status: 500 }
+    );
+}
+
+// Cerrar conexión de Prisma al finalizar
+if (process.env.NODE_ENV !== 'development') {
+    process.on('beforeExit', async () => {
+        await prisma.$disconnect();
+    });
+}
@@ -0,0 +1,104 @@
+// app/api/emisor/[emisorId]/drafts/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '../../../../../lib/generated/client';
+import { z } from 'zod';
+import { getRequestUserId } from '@/lib/auth';
+import { BondDraftError, BondDraftInputSchema, BondDraftService } from '@/lib/services/bonds/BondDrafts';
+
+/**
+ * GET /api/emisor/[emisorId]/drafts
+ * - Borradores del wizard del emisor, del más reciente al más antiguo
+ *
+ * POST /api/emisor/[emisorId]/drafts
+ * - { currentStep, data }: primer guardado del wizard; devuelve el id para el autosave
+ */
+
+const prisma = new PrismaClient();
+const draftService = new BondDraftService(prisma);
+
+const ParamsSchema = z.object({
+    emisorId: z.string().cuid('ID de emisor inválido'),
+});
+
+// Códigos de BondDraftError → HTTP
+const ERROR_STATUS: Record<BondDraftError['code'], number> = {
+    EMISOR_NOT_FOUND: 404,
+    DRAFT_NOT_FOUND: 404,
+    FORBIDDEN: 403,
+    TOO_MANY_DRAFTS: 409,
+    DRAFT_TOO_LARGE: 413,
+};
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ emisorId: string }> }
+) {
+    try {
+        const { emisorId } = ParamsSchema.parse(await params);
+
+        const userId = await getRequestUserId(request);
+        if (!userId) {
+            return NextResponse.json({ error: 'No autorizado', code: 'UNAUTHORIZED' }, { status: 401 });
+        }
+
+        const drafts = await draftService.list(emisorId, userId);
+
+        return NextResponse.json({ success: true, drafts });
+
+    } catch (error) {
+        return errorResponse(error, 'Error obteniendo borradores');
+    }
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ emisorId: string }> }
+) {
+    try {
+        const { emisorId } = ParamsSchema.parse(await params);
+
+        const userId = await getRequestUserId(request);
+        if (!userId) {
+            return NextResponse.json({ error: 'No autorizado', code: 'UNAUTHORIZED' }, { status: 401 });
+        }
+
+        const input = BondDraftInputSchema.parse(await request.json());
+        const draft = await draftService.create(emisorId, userId, input);
+
+        return NextResponse.json({ success: true, draft }, { status: 201 });
+
+    } catch (error) {
+        return errorResponse(error, 'Error guardando borrador');
+    }
+}
+
+function errorResponse(error: unknown, mensaje: string) {
+    console.error(`${mensaje}:`, error);
+
+    if (error instanceof z.ZodError) {
+        return NextResponse.json({
+            error: 'Datos inválidos',
+            code: 'VALIDATION_ERROR',
+            details: error.errors,
+        }, { status: 400 });
+    }
+
+    if (error instanceof BondDraftError) {
+        return NextResponse.json({
+            error: error.message,
+            code: error.code,
+        }, { status: ERROR_STATUS[error.code] });
+    }
+
+    return NextResponse.json(
+        { error: mensaje, code: 'INTERNAL_ERROR' },
+        { status: 500 }
+    );
+}
+
+// Cerrar conexión de Prisma al finalizar
+if (process.env.NODE_ENV !== 'development') {
+    process.on('beforeExit', async () => {
+        await prisma.$disconnect();
+    });
+}
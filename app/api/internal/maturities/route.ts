@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '../../../../lib/generated/client';
+import { z } from 'zod';
+import { BondMaturityService } from '@/lib/services/bonds/BondMaturity';
+
+/**
+ * POST /api/internal/maturities
+ * - Ejecuta el proceso de vencimientos (mismo servicio que scripts/process-maturities.ts)
+ * - Requiere el header x-job-secret igual a INTERNAL_JOB_SECRET
+ * - Body opcional: { fecha?, dryRun?, bondIds? }
+ */
+
+const prisma = new PrismaClient();
+const maturityService = new BondMaturityService(prisma);
+
+const MaturityJobSchema = z.object({
+    fecha: z.string().datetime().or(z.string().date()).optional(),
+    dryRun: z.boolean().default(false),
+    bondIds: z.array(z.string().cuid('ID de bono inválido')).optional(),
+});
+
+export async function POST(request: NextRequest) {
+    try {
+        // 1. Solo invocable por el programador de tareas
+        const secret = process.env.INTERNAL_JOB_SECRET;
+        if (!secret || request.headers.get('x-job-secret') !== secret) {
+            return NextResponse.json(
+                { error: 'No autorizado', code: 'UNAUTHORIZED' },
+                { status: 401 }
+            );
+        }
+
+        // 2. Validar parámetros
+        const texto = await request.text();
+        const { fecha, dryRun, bondIds } = MaturityJobSchema.parse(texto ? JSON.parse(texto) : {});
+
+        // 3. Ejecutar proceso
+        const result = await maturityService.processMaturities({
+            fecha: fecha ? new Date(fecha) : undefined,
+            dryRun,
+            bondIds,
+        });
+
+        return NextResponse.json({
+            success: result.errores === 0,
+            ...result,
+        });
+
+    } catch (error) {
+        console.error('Error processing maturities:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json({
+                error: 'Datos inválidos',
+                code: 'VALIDATION_ERROR',
+                details: error.errors,
+            }, { status: 400 });
+        }
+
+        if (error instanceof SyntaxError) {
+            return NextResponse.json({
+                error: 'El cuerpo no es un JSON válido',
+                code: 'VALIDATION_ERROR',
+            }, { status: 400 });
+        }
+
+        return NextResponse.json(
+            { error: 'Error procesando vencimientos', code: 'INTERNAL_ERROR' },
+            { status: 500 }
+        );
+    }
+}
+
+// Cerrar conexión de Prisma al finalizar
+if (process.env.NODE_ENV !== 'development') {
+    process.on('beforeExit', async () => {
+        await prisma.$disconnect();
+    });
+}
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient, InvestmentStatus } from '../../../../../lib/generated/client';
 import { z } from 'zod';
+import {
+    CouponPaymentService,
+    toCouponFlow,
+    toCouponHolding,
+    toCouponPaymentRecord,
+} from '@/lib/services/bonds/CouponPayments';
 
 const prisma = new PrismaClient();
 
@@ -73,10 +79,22 @@ export async function GET(
                                 periodo: true,
                                 fecha: true,
                                 cupon: true,
+                                cuota: true,
+                                amortizacion: true,
                                 flujoBonista: true
                             }
+                        },
+                        couponPayments: {
+                            select: { periodo: true, montoProgramado: true, montoPagado: true, interesPagado: true, fechaPago: true, referencia: true },
                         }
                     }
+                },
+                couponEntitlements: {
+                    select: {
+                        monto: true,
+                        interes: true,
+                        couponPayment: { select: { fechaPago: true } },
+                    }
                 }
             },
             orderBy: { fechaInversion: 'desc' },
@@ -97,35 +115,40 @@ export async function GET(
             ? activeInvestments.reduce((sum, inv) => sum + inv.rendimientoActual.toNumber(), 0) / activeInvestments.length
             : 0;
 
-        // 5. Calcular intereses YTD (Year to Date)
+        // 5. Intereses YTD (Year to Date) según los pagos de cupón recibidos
         const currentYear = new Date().getFullYear();
-        const yearStart = new Date(currentYear, 0, 1);
-        const yearEnd = new Date(currentYear, 11, 31);
-        
+
         let totalInterestYTD = 0;
-        activeInvestments.forEach(investment => {
-            const bond = investment.bond;
-            const investedAmount = investment.montoInvertido.toNumber();
-            const nominalValue = bond.valorNominal.toNumber();
-            const couponRate = bond.tasaAnual.toNumber();
-            
-            // Calcular cupones recibidos este año
-            const couponPayments = bond.cashFlows.filter(flow => {
-                const flowDate = new Date(flow.fecha);
-                return flowDate >= yearStart && flowDate <= yearEnd && flow.cupon && flow.cupon.toNumber() > 0;
-            });
-            
-            // Sumar cupones recibidos
-            const yearCoupons = couponPayments.reduce((sum, flow) => {
-                const couponAmount = flow.cupon!.toNumber();
-                // Proporcionar el cupón según el monto invertido
-                const proportionalCoupon = (investedAmount / nominalValue) * couponAmount;
-                return sum + proportionalCoupon;
-            }, 0);
-            
-            totalInterestYTD += yearCoupons;
+        let totalCouponsYTD = 0;
+        investments.forEach(investment => {
+            investment.couponEntitlements
+                .filter(parte => parte.couponPayment.fechaPago.getFullYear() === currentYear)
+                .forEach(parte => {
+                    totalInterestYTD += parte.interes.toNumber();
+                    totalCouponsYTD += parte.monto.toNumber();
+                });
         });
 
+        // Cupones de las inversiones vigentes pagados con atraso, pagados en parte o impagos
+        const paymentAlerts = investments
+            .filter(inv => inv.status !== InvestmentStatus.CANCELLED)
+            .flatMap(inv => CouponPaymentService.buildSchedule(
+                inv.bond.cashFlows.map(toCouponFlow),
+                inv.bond.couponPayments.map(toCouponPaymentRecord),
+                [toCouponHolding(inv)]
+            )
+                .filter(entry => entry.status === 'LATE' || entry.status === 'PARTIAL' || entry.status === 'MISSED')
+                .map(entry => ({
+                    bondId: inv.bondId,
+                    bondName: inv.bond.name,
+                    emisor: inv.bond.emisor.companyName,
+                    periodo: entry.periodo,
+                    fechaProgramada: entry.fechaProgramada,
+                    status: entry.status,
+                    diasAtraso: entry.diasAtraso,
+                    montoEsperado: entry.montoProgramado,
+                })));
+
         // 6. Calcular valor actual del portfolio
         let currentPortfolioValue = 0;
         let portfolioReturn = 0;
@@ -262,7 +285,11 @@ export async function GET(
                 totalInvested,
                 currentPortfolioValue,
                 totalUnrealizedGain,
-                totalInterestYTD, // Intereses reales YTD
+                totalInterestYTD, // Intereses cobrados YTD (pagos confirmados)
+                totalCouponsYTD,  // Cuotas cobradas YTD, incluye amortización y prima
+                latePayments: paymentAlerts.filter(alert => alert.status === 'LATE').length,
+                partialPayments: paymentAlerts.filter(alert => alert.status === 'PARTIAL').length,
+                missedPayments: paymentAlerts.filter(alert => alert.status === 'MISSED').length,
                 portfolioReturn: averagePortfolioReturn,
                 totalInvestments: investments.length,
                 activeInvestments: activeInvestments.length,
@@ -276,6 +303,7 @@ export async function GET(
                 byIndustry: Object.values(industryDistribution),
             },
             upcomingPayments: nextCouponPayments,
+            paymentAlerts,
             performance: {
                 monthly: monthlyPerformance,
                 topPerformers: activeInvestments
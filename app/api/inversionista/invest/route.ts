@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient, BondStatus, InvestmentStatus } from '../../../../lib/generated/client';
+import { BondCalculationsService } from '@/lib/services/bonds/BondCalculations';
 import { z } from 'zod';
 
 const prisma = new PrismaClient();
+const calculationsService = new BondCalculationsService(prisma);
 
 // Schema de validación para el request body
 const InvestRequestSchema = z.object({
@@ -60,13 +62,6 @@ export async function POST(request: NextRequest) {
                         companyName: true,
                     }
                 },
-                financialMetrics: {
-                    where: { role: 'BONISTA' },
-                    select: {
-                        precioActual: true,
-                        trea: true,
-                    }
-                }
             },
         });
 
@@ -104,10 +99,23 @@ export async function POST(request: NextRequest) {
             }, { status: 400 });
         }
 
-        // 5. Calcular precio de compra si no se proporciona
+        // 5. Calcular precio de compra a la fecha de liquidación si no se proporciona
+        // El inversionista paga el precio sucio (precio limpio + interés corrido)
+        const fechaLiquidacion = fechaInversion ? new Date(fechaInversion) : new Date();
         let precioCompraFinal = precioCompra;
+        let precioLiquidacion = null;
         if (!precioCompraFinal) {
-            precioCompraFinal = bond.financialMetrics[0]?.precioActual.toNumber() || 100;
+            try {
+                precioLiquidacion = await calculationsService.calculateSettlementPrice(bondId, fechaLiquidacion);
+            } catch (error: any) {
+                console.log('❌ No se pudo calcular el precio de liquidación:', bondId, error.message);
+                return NextResponse.json({
+                    error: 'No se pudo calcular el precio de compra para la fecha de inversión',
+                    code: 'SETTLEMENT_PRICE_UNAVAILABLE',
+                    details: error.message,
+                }, { status: 422 });
+            }
+            precioCompraFinal = precioLiquidacion.precioSucio;
         }
 
         // 6. Calcular ganancia no realizada inicial (0 al momento de la compra)
@@ -122,7 +130,7 @@ export async function POST(request: NextRequest) {
                     userId: inversionista.userId,
                     bondId: bondId,
                     montoInvertido: montoInvertido,
-                    fechaInversion: fechaInversion ? new Date(fechaInversion) : new Date(),
+                    fechaInversion: fechaLiquidacion,
                     precioCompra: precioCompraFinal,
                     status: InvestmentStatus.ACTIVE,
                     gananciaNoRealizada: gananciaNoRealizada,
@@ -154,6 +162,10 @@ export async function POST(request: NextRequest) {
                         bondId: bondId,
                         montoInvertido: montoInvertido,
                         precioCompra: precioCompraFinal,
+                        ...(precioLiquidacion && {
+                            precioLimpio: precioLiquidacion.precioLimpio,
+                            interesCorrido: precioLiquidacion.interesCorrido,
+                        }),
                         emisor: bond.emisor.companyName,
                         bondName: bond.name,
                     },
@@ -198,6 +210,13 @@ export async function POST(request: NextRequest) {
                 montoInvertido: investment.montoInvertido.toNumber(),
                 fechaInversion: investment.fechaInversion.toISOString().split('T')[0],
                 precioCompra: investment.precioCompra.toNumber(),
+                precioLiquidacion: precioLiquidacion && {
+                    precioSucio: precioLiquidacion.precioSucio,
+                    precioLimpio: precioLiquidacion.precioLimpio,
+                    interesCorrido: precioLiquidacion.interesCorrido,
+                    diasDevengados: precioLiquidacion.diasDevengados,
+                    periodoCupon: precioLiquidacion.periodoCupon,
+                },
                 status: investment.status,
                 gananciaNoRealizada: investment.gananciaNoRealizada.toNumber(),
                 rendimientoActual: investment.rendimientoActual.toNumber(),
@@ -1,13 +1,17 @@
 "use client"
 
-import { useEffect, useState, useRef, use as usePromise } from "react"
+import { Fragment, useEffect, useState, useRef, use as usePromise } from "react"
 import { useRouter } from "next/navigation"
-import { ArrowLeft, Calculator, Download, Play, Pause, Share2, RefreshCw } from "lucide-react"
+import { ArrowLeft, Calculator, Download, Play, Pause, Share2, RefreshCw, CheckCircle, XCircle, Undo2, Pencil } from "lucide-react"
 import Chart from "chart.js/auto"
 import { useAuth } from "@/lib/hooks/useAuth"
 import { useCalculations } from "@/lib/hooks/useCalculations"
 import { useCashFlows } from "@/lib/hooks/useCashFlows"
-import { useBondStatus } from "@/lib/hooks/useBondStatus"
+import { useBondStatus, BondStatusTransition } from "@/lib/hooks/useBondStatus"
+import { useSensitivity, SensitivityMetrics, SensitivityParameter } from "@/lib/hooks/useSensitivity"
+import { useCalculationTrace, CalculationTraceEntry } from "@/lib/hooks/useCalculationTrace"
+import { useCouponPayments, CouponScheduleStatus } from "@/lib/hooks/useCouponPayments"
+import { useBondVersions } from "@/lib/hooks/useBondVersions"
 import useSWR from 'swr'
 
 interface BondDetailProps {
@@ -17,11 +21,140 @@ interface BondDetailProps {
 
 const fetcher = (url: string) => fetch(url).then(res => res.json())
 
+// Acciones del ciclo de vida según el estado destino (ver BondLifecycle)
+const TRANSITION_ACTIONS: Record<BondStatusTransition["status"], { label: string; icon: typeof Play }> = {
+  ACTIVE: { label: "Publicar", icon: Play },
+  PAUSED: { label: "Pausar", icon: Pause },
+  COMPLETED: { label: "Completar", icon: CheckCircle },
+  CANCELLED: { label: "Cancelar bono", icon: XCircle },
+  DRAFT: { label: "Volver a borrador", icon: Undo2 },
+  EXPIRED: { label: "Marcar vencido", icon: XCircle },
+}
+
+// Estado de cada cupón en el libro de pagos (ver CouponPayments)
+const COUPON_STATUS_BADGES: Record<CouponScheduleStatus, { label: string; className: string }> = {
+  PAID: { label: "Pagado", className: "bg-green-900/30 text-green-400" },
+  LATE: { label: "Pagado con atraso", className: "bg-yellow-900/30 text-yellow-400" },
+  PARTIAL: { label: "Pago parcial", className: "bg-orange-900/30 text-orange-400" },
+  UPCOMING: { label: "Programado", className: "bg-gray-800 text-gray-400" },
+  DUE: { label: "Por confirmar", className: "bg-blue-900/30 text-blue-400" },
+  MISSED: { label: "Impago", className: "bg-red-900/30 text-red-400" },
+}
+
+// Nombres de los términos en el historial de versiones (ver BondVersions)
+const TERM_LABELS: Record<string, string> = {
+  name: "Nombre",
+  codigoIsin: "Código ISIN",
+  valorNominal: "Valor nominal",
+  valorComercial: "Valor comercial",
+  numAnios: "Años",
+  fechaEmision: "Fecha de emisión",
+  fechaVencimiento: "Fecha de vencimiento",
+  frecuenciaCupon: "Frecuencia de cupón",
+  baseDias: "Días por año",
+  tasaAnual: "Tasa cupón",
+  tipoTasa: "Tipo de tasa",
+  primaVencimiento: "Prima al vencimiento",
+  impuestoRenta: "Impuesto a la renta",
+  amortizationMethod: "Método de amortización",
+  "costes.estructuracionPct": "Estructuración",
+  "costes.colocacionPct": "Colocación",
+  "costes.flotacionPct": "Flotación",
+  "costes.cavaliPct": "CAVALI",
+  opciones: "Opciones call/put",
+  fondoAmortizacion: "Fondo de amortización",
+  inflacionSerie: "Serie de inflación",
+  graciaSerie: "Serie de gracia",
+  tasaCuponSerie: "Serie de tasas cupón",
+}
+
+// Términos expresados como fracción que se muestran en porcentaje
+const PERCENT_TERMS = new Set([
+  "tasaAnual", "primaVencimiento", "impuestoRenta", "spreadFlotante", "tasaMaxima", "tasaMinima",
+  "inflacionAnual", "primaRescate", "costes.estructuracionPct", "costes.colocacionPct",
+  "costes.flotacionPct", "costes.cavaliPct",
+])
+
+const VERSION_METRICS: Record<string, { label: string; format: "percent" | "currency" | "number" }> = {
+  precioActual: { label: "Precio", format: "currency" },
+  utilidadPerdida: { label: "Utilidad / pérdida", format: "currency" },
+  tceaEmisor: { label: "TCEA Emisor", format: "percent" },
+  tceaEmisorConEscudo: { label: "TCEA c/Escudo", format: "percent" },
+  treaBonista: { label: "TREA Bonista", format: "percent" },
+  duracion: { label: "Duración", format: "number" },
+  duracionModificada: { label: "Duración modificada", format: "number" },
+  convexidad: { label: "Convexidad", format: "number" },
+  duracionEfectiva: { label: "Duración efectiva", format: "number" },
+  convexidadEfectiva: { label: "Convexidad efectiva", format: "number" },
+  dv01: { label: "DV01", format: "number" },
+  ytc: { label: "YTC", format: "percent" },
+  ytp: { label: "YTP", format: "percent" },
+  ytw: { label: "YTW", format: "percent" },
+  zSpread: { label: "Z-spread", format: "percent" },
+}
+
+type TermsForm = Record<
+    "name" | "valorNominal" | "valorComercial" | "numAnios" | "fechaEmision" | "tasaAnual" | "primaVencimiento" |
+    "impuestoRenta" | "estructuracionPct" | "colocacionPct" | "flotacionPct" | "cavaliPct" | "motivo",
+    string
+>
+
+// Grilla de desplazamientos del análisis de sensibilidad (puntos; costes en variación relativa)
+const SENSITIVITY_GRID: Record<SensitivityParameter, number[]> = {
+  tasaAnual: [-0.02, -0.01, 0, 0.01, 0.02],
+  tasaDescuento: [-0.02, -0.01, 0, 0.01, 0.02],
+  inflacion: [-0.02, -0.01, 0, 0.01, 0.02],
+  impuestoRenta: [-0.05, 0, 0.05],
+  costes: [-0.2, 0, 0.2],
+}
+
+const SENSITIVITY_LABELS: Record<SensitivityParameter, string> = {
+  tasaAnual: "Tasa cupón",
+  tasaDescuento: "Tasa de descuento",
+  inflacion: "Inflación",
+  impuestoRenta: "Impuesto a la renta",
+  costes: "Costes",
+}
+
+const SENSITIVITY_METRICS: { key: keyof SensitivityMetrics; label: string; isCurrency?: boolean }[] = [
+  { key: "tceaEmisor", label: "TCEA Emisor" },
+  { key: "tceaEmisorConEscudo", label: "TCEA c/Escudo" },
+  { key: "treaBonista", label: "TREA Bonista" },
+  { key: "precioActual", label: "Precio", isCurrency: true },
+]
+
+// Valores de la traza: tasas y montos con los decimales que muestra el Excel
+const formatTraceValue = (value: number | string | null) => {
+  if (value === null) return "-"
+  if (typeof value === "string") return value
+  return value.toLocaleString("es-PE", { maximumFractionDigits: Math.abs(value) < 1 ? 8 : 4 })
+}
+
+function TraceEntries({ entries }: { entries: CalculationTraceEntry[] }) {
+  return (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {entries.map((entry) => (
+            <div key={entry.celda} className="bg-[#1E1E1E] rounded-lg px-3 py-2 text-xs">
+              <div className="flex justify-between items-baseline">
+                <span className="font-mono text-[#39FF14]">{entry.formula}</span>
+                <span className="font-semibold ml-3">{formatTraceValue(entry.resultado)}</span>
+              </div>
+              {Object.keys(entry.entradas).length > 0 && (
+                  <div className="text-gray-400 mt-1 font-mono">
+                    {Object.entries(entry.entradas).map(([celda, valor]) => `${celda} = ${formatTraceValue(valor)}`).join(" · ")}
+                  </div>
+              )}
+            </div>
+        ))}
+      </div>
+  )
+}
+
 export default function BondDetailPage({ params, searchParams }: BondDetailProps) {
   const resolvedParams = usePromise(params)
   const resolvedSearch = searchParams ? usePromise(searchParams) : undefined
   const router = useRouter()
-  const [activeTab, setActiveTab] = useState<"summary" | "flows" | "analytics">(
+  const [activeTab, setActiveTab] = useState<"summary" | "flows" | "payments" | "versions" | "analytics">(
       (resolvedSearch?.tab as any) || "summary"
   )
   const [showSuccessMessage, setShowSuccessMessage] = useState(!!resolvedSearch?.created)
@@ -30,6 +163,14 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
   const flowChartRef = useRef<HTMLCanvasElement>(null)
   const costChartInstance = useRef<Chart | null>(null)
   const flowChartInstance = useRef<Chart | null>(null)
+  const tornadoChartRef = useRef<HTMLCanvasElement>(null)
+  const tornadoChartInstance = useRef<Chart | null>(null)
+  const [sensitivityMetric, setSensitivityMetric] = useState<keyof SensitivityMetrics>("tceaEmisor")
+  const [tracePeriod, setTracePeriod] = useState<number | null>(null)
+  const [showTraceSummary, setShowTraceSummary] = useState(false)
+  const [paymentForm, setPaymentForm] = useState<{ periodo: number; fechaPago: string; montoPagado: string; referencia: string } | null>(null)
+  const [termsForm, setTermsForm] = useState<TermsForm | null>(null)
+  const [compareRange, setCompareRange] = useState<{ desde: number; hasta: number } | null>(null)
 
   // 🔗 HOOKS CONECTADOS
   const { user } = useAuth({ requireRole: 'EMISOR' })
@@ -63,6 +204,7 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
     flows,
     isLoading: flowsLoading,
     downloadCSV,
+    downloadXLSX,
     recalculate: recalculateFlows,
     summary,
     hasFlows: hasFlowsData
@@ -71,14 +213,60 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
     autoCalculate: false // DESACTIVADO para evitar bucle infinito
   })
 
+  // Análisis de sensibilidad (tornado y mapa de calor)
+  const {
+    result: sensitivity,
+    loading: sensitivityLoading,
+    error: sensitivityError,
+    analyze: analyzeSensitivity
+  } = useSensitivity(resolvedParams.bondId)
+
+  // Traza de cálculo celda por celda (panel "¿cómo se calculó?")
+  const {
+    loading: traceLoading,
+    error: traceError,
+    loadTrace,
+    resetTrace,
+    entriesFor: traceEntriesFor
+  } = useCalculationTrace(resolvedParams.bondId)
+
+  // Libro de pagos de cupón
+  const {
+    schedule: couponSchedule,
+    loading: couponsLoading,
+    confirming: confirmingPayment,
+    error: couponsError,
+    loadSchedule: loadCouponSchedule,
+    confirmPayment
+  } = useCouponPayments(resolvedParams.bondId)
+
+  // Edición en borrador e historial de versiones de términos
+  const {
+    versions,
+    comparison,
+    loading: versionsLoading,
+    saving: savingTerms,
+    error: versionsError,
+    loadVersions,
+    compareVersions,
+    updateTerms
+  } = useBondVersions(resolvedParams.bondId)
+
   // Hook de estado del bono
   const {
     updateStatus,
     publishBond,
-    pauseBond,
+    transitions,
+    loadTransitions,
+    error: statusError,
     isUpdating
   } = useBondStatus(resolvedParams.bondId)
 
+  // Transiciones disponibles para el estado actual
+  useEffect(() => {
+    if (bond?.status) loadTransitions()
+  }, [bond?.status, loadTransitions])
+
   // Ocultar mensaje de éxito después de 5 segundos
   useEffect(() => {
     if (showSuccessMessage) {
@@ -118,6 +306,26 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
     return `${(value * 100).toFixed(3)}%`
   }
 
+  const formatShift = (parametro: SensitivityParameter, value: number) => {
+    const sign = value > 0 ? "+" : ""
+    return parametro === "costes" ? `${sign}${(value * 100).toFixed(0)}%` : `${sign}${(value * 100).toFixed(2)} pp`
+  }
+
+  const selectedMetric = SENSITIVITY_METRICS.find((m) => m.key === sensitivityMetric)!
+  const formatMetric = (value: number | null | undefined) =>
+    selectedMetric.isCurrency ? formatCurrency(value) : formatPercent(value)
+
+  // Mapa de calor: intensidad proporcional al valor de la métrica dentro de la matriz
+  const heatmapValues = (sensitivity?.matriz?.metricas.flat() ?? [])
+      .filter((m): m is SensitivityMetrics => m !== null)
+      .map((m) => m[sensitivityMetric])
+  const heatmapMin = Math.min(...heatmapValues)
+  const heatmapMax = Math.max(...heatmapValues)
+  const heatmapColor = (value: number) => {
+    const t = heatmapMax > heatmapMin ? (value - heatmapMin) / (heatmapMax - heatmapMin) : 0.5
+    return `rgba(57, 255, 20, ${(0.08 + 0.6 * t).toFixed(2)})`
+  }
+
   // 🔧 FUNCIONES DE ACCIÓN
   const handleCalculateFlows = async () => {
     if (!resolvedParams.bondId || !canCalculate) return
@@ -126,12 +334,20 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
         recalculate: needsRecalculation,
         saveResults: true
       })
+      resetTrace()
       await refreshBond()
     } catch (error) {
       console.error('Error calculando flujos:', error)
     }
   }
 
+  const handleRunSensitivity = async () => {
+    await analyzeSensitivity({
+      parametros: SENSITIVITY_GRID,
+      matriz: { filas: "tasaAnual", columnas: "tasaDescuento" },
+    })
+  }
+
   const handleDownloadFlows = async () => {
     try {
       await downloadCSV()
@@ -140,6 +356,137 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
     }
   }
 
+  const handleDownloadWorkbook = async () => {
+    try {
+      await downloadXLSX()
+    } catch (error) {
+      console.error('Error descargando XLSX:', error)
+    }
+  }
+
+  // "¿Cómo se calculó?": la traza se pide al abrir el primer panel
+  const handleToggleTracePeriod = async (periodo: number) => {
+    if (tracePeriod === periodo) {
+      setTracePeriod(null)
+      return
+    }
+    setTracePeriod(periodo)
+    await loadTrace()
+  }
+
+  const handleToggleTraceSummary = async () => {
+    setShowTraceSummary(!showTraceSummary)
+    if (!showTraceSummary) await loadTrace()
+  }
+
+  const handleConfirmPayment = async () => {
+    if (!paymentForm) return
+    const confirmed = await confirmPayment({
+      periodo: paymentForm.periodo,
+      fechaPago: paymentForm.fechaPago,
+      montoPagado: paymentForm.montoPagado ? parseFloat(paymentForm.montoPagado) : undefined,
+      referencia: paymentForm.referencia || undefined,
+    })
+    if (confirmed) setPaymentForm(null)
+  }
+
+  // El formulario parte de los términos vigentes; tasas y costes se editan en porcentaje
+  const handleEditTerms = () => {
+    if (!bond) return
+    const pct = (value: number | null | undefined) => ((value ?? 0) * 100).toString()
+    setTermsForm({
+      name: bond.name,
+      valorNominal: String(bond.valorNominal),
+      valorComercial: String(bond.valorComercial),
+      numAnios: String(bond.numAnios),
+      fechaEmision: bond.fechaEmision.split("T")[0],
+      tasaAnual: pct(bond.tasaAnual),
+      primaVencimiento: pct(bond.primaVencimiento),
+      impuestoRenta: pct(bond.impuestoRenta),
+      estructuracionPct: pct(bond.costs?.estructuracionPorcentaje),
+      colocacionPct: pct(bond.costs?.colocacionPorcentaje),
+      flotacionPct: pct(bond.costs?.flotacionPorcentaje),
+      cavaliPct: pct(bond.costs?.cavaliPorcentaje),
+      motivo: "",
+    })
+    setActiveTab("versions")
+  }
+
+  const handleSaveTerms = async () => {
+    if (!termsForm) return
+    const fraction = (value: string) => parseFloat(value) / 100
+    const valorComercial = parseFloat(termsForm.valorComercial)
+    const saved = await updateTerms({
+      name: termsForm.name,
+      valorNominal: parseFloat(termsForm.valorNominal),
+      valorComercial,
+      numAnios: parseInt(termsForm.numAnios),
+      fechaEmision: termsForm.fechaEmision,
+      tasaAnual: fraction(termsForm.tasaAnual),
+      primaVencimiento: fraction(termsForm.primaVencimiento),
+      impuestoRenta: fraction(termsForm.impuestoRenta),
+      // Los costes absolutos se recalculan sobre el valor comercial editado
+      costes: {
+        estructuracionPct: fraction(termsForm.estructuracionPct),
+        colocacionPct: fraction(termsForm.colocacionPct),
+        flotacionPct: fraction(termsForm.flotacionPct),
+        cavaliPct: fraction(termsForm.cavaliPct),
+        valorComercial,
+      },
+      motivo: termsForm.motivo || undefined,
+    })
+    if (!saved) return
+
+    setTermsForm(null)
+    await refreshBond()
+    if (saved.cambios.length > 0 && saved.version > 1) {
+      setCompareRange({ desde: saved.version - 1, hasta: saved.version })
+    }
+  }
+
+  // Valores del historial: fracciones en porcentaje y series resumidas por su largo
+  const formatTermValue = (campo: string, value: unknown) => {
+    if (value === null || value === undefined) return "-"
+    if (Array.isArray(value)) return `${value.length} ${value.length === 1 ? "valor" : "valores"}`
+    if (typeof value === "boolean") return value ? "Sí" : "No"
+    if (typeof value === "number") {
+      if (PERCENT_TERMS.has(campo)) return formatPercent(value)
+      return value.toLocaleString("es-PE", { maximumFractionDigits: 4 })
+    }
+    return String(value)
+  }
+
+  const formatVersionMetric = (metrica: string, value: number | null) => {
+    if (value === null) return "-"
+    const format = VERSION_METRICS[metrica]?.format ?? "number"
+    if (format === "percent") return formatPercent(value)
+    if (format === "currency") return value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 2 })
+    return value.toFixed(4)
+  }
+
+  const formatMetricShift = (metrica: string, value: number | null) => {
+    if (value === null) return "-"
+    const sign = value > 0 ? "+" : ""
+    return VERSION_METRICS[metrica]?.format === "percent"
+        ? `${sign}${(value * 10000).toFixed(1)} pb`
+        : `${sign}${formatVersionMetric(metrica, value)}`
+  }
+
+  const handleTransition = async (transition: BondStatusTransition) => {
+    if (transition.status === "ACTIVE" && bond?.status === "DRAFT") {
+      return handlePublishBond()
+    }
+    if (transition.status === "CANCELLED" && !window.confirm("¿Cancelar el bono? Esta acción no se puede deshacer.")) {
+      return
+    }
+    try {
+      await updateStatus(transition.status)
+      await refreshBond()
+    } catch (error) {
+      console.error('Error updating bond status:', error)
+    }
+  }
+
   const handlePublishBond = async () => {
     try {
       if (!hasFlows || needsRecalculation) {
@@ -283,6 +630,87 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
     }
   }, [bond, activeTab, flows])
 
+  // El calendario de pagos se carga al abrir la pestaña
+  useEffect(() => {
+    if (activeTab === "payments") loadCouponSchedule()
+  }, [activeTab, loadCouponSchedule])
+
+  // El historial también; por defecto se comparan las dos últimas versiones
+  useEffect(() => {
+    if (activeTab === "versions") loadVersions()
+  }, [activeTab, loadVersions])
+
+  useEffect(() => {
+    if (!compareRange && versions.length > 1) {
+      setCompareRange({ desde: versions[1].version, hasta: versions[0].version })
+    }
+  }, [versions, compareRange])
+
+  useEffect(() => {
+    if (activeTab === "versions" && compareRange) compareVersions(compareRange.desde, compareRange.hasta)
+  }, [activeTab, compareRange, compareVersions])
+
+  // Gráfico tornado: rango de la métrica al mover cada parámetro por separado
+  useEffect(() => {
+    if (tornadoChartInstance.current) {
+      tornadoChartInstance.current.destroy()
+      tornadoChartInstance.current = null
+    }
+    if (activeTab !== "analytics" || !tornadoChartRef.current || !sensitivity) return
+
+    const base = sensitivity.base[sensitivityMetric]
+    const bars = (Object.keys(SENSITIVITY_LABELS) as SensitivityParameter[])
+        .map((parametro) => {
+          const values = sensitivity.escenarios
+              .filter((e) => e.parametro === parametro && e.metricas)
+              .map((e) => e.metricas![sensitivityMetric] - base)
+          return values.length > 0
+              ? { label: SENSITIVITY_LABELS[parametro], low: Math.min(...values), high: Math.max(...values) }
+              : null
+        })
+        .filter((bar): bar is { label: string; low: number; high: number } => bar !== null)
+        .sort((a, b) => (b.high - b.low) - (a.high - a.low))
+
+    const ctx = tornadoChartRef.current.getContext("2d")
+    if (!ctx) return
+
+    const scale = selectedMetric.isCurrency ? 1 : 100
+    tornadoChartInstance.current = new Chart(ctx, {
+      type: "bar",
+      data: {
+        labels: bars.map((bar) => bar.label),
+        datasets: [
+          {
+            label: `Variación de ${selectedMetric.label}${selectedMetric.isCurrency ? " (USD)" : " (pp)"}`,
+            data: bars.map((bar) => [bar.low * scale, bar.high * scale]),
+            backgroundColor: "#39FF14",
+          },
+        ],
+      },
+      options: {
+        indexAxis: "y",
+        responsive: true,
+        maintainAspectRatio: false,
+        scales: {
+          x: {
+            grid: { color: "rgba(42, 42, 42, 0.5)" },
+            ticks: { color: "#CCCCCC" },
+          },
+          y: {
+            grid: { display: false },
+            ticks: { color: "#CCCCCC" },
+          },
+        },
+        plugins: {
+          legend: {
+            position: "top",
+            labels: { color: "#CCCCCC", font: { family: "Inter" } },
+          },
+        },
+      },
+    })
+  }, [activeTab, sensitivity, sensitivityMetric])
+
   // Cleanup gráficos al desmontar
   useEffect(() => {
     return () => {
@@ -292,6 +720,9 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
       if (flowChartInstance.current) {
         flowChartInstance.current.destroy()
       }
+      if (tornadoChartInstance.current) {
+        tornadoChartInstance.current.destroy()
+      }
     }
   }, [])
 
@@ -330,6 +761,11 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
   const duracion = metricas?.duracion || 0
   const convexidad = metricas?.convexidad || 0
   const duracionModificada = metricas?.duracionModificada || 0
+  const duracionEfectiva = metricas?.duracionEfectiva || 0
+  const convexidadEfectiva = metricas?.convexidadEfectiva || 0
+  const dv01 = metricas?.dv01 || 0
+  const duracionesClave: { plazo: number; duracion: number }[] = metricas?.duracionesClave || []
+  const maxDuracionClave = Math.max(...duracionesClave.map((krd) => Math.abs(krd.duracion)), 0)
 
   return (
       <div className="min-h-screen bg-[#0D0D0D] text-white">
@@ -340,16 +776,29 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
               <span className="text-white text-xl font-semibold">BonoApp</span>
             </div>
             <div className="flex items-center space-x-4">
-              {bond?.status === 'DRAFT' && hasFlowsData && (
-                  <button
-                      onClick={handlePublishBond}
-                      disabled={isUpdating}
-                      className="flex items-center bg-[#39FF14] text-black px-4 py-2 rounded-lg hover:shadow-[0_0_8px_rgba(57,255,20,0.47)] transition"
-                  >
-                    <Play size={16} className="mr-2" />
-                    {isUpdating ? 'Publicando...' : 'Publicar'}
-                  </button>
-              )}
+              {statusError && <span className="text-red-400 text-sm">{statusError}</span>}
+              {transitions.map((transition) => {
+                const { label, icon: Icon } = TRANSITION_ACTIONS[transition.status]
+                // Publicar un borrador calcula antes los flujos que falten
+                const enabled = transition.permitida ||
+                    (transition.status === "ACTIVE" && transition.error?.code === "FLOWS_NOT_CALCULATED")
+                return (
+                    <button
+                        key={transition.status}
+                        onClick={() => handleTransition(transition)}
+                        disabled={isUpdating || !enabled}
+                        title={enabled ? undefined : transition.error?.message}
+                        className={`flex items-center px-4 py-2 rounded-lg transition disabled:opacity-50 ${
+                            transition.status === "ACTIVE"
+                                ? "bg-[#39FF14] text-black hover:shadow-[0_0_8px_rgba(57,255,20,0.47)]"
+                                : "border border-[#2A2A2A] text-gray-300 hover:bg-[#1E1E1E]"
+                        }`}
+                    >
+                      <Icon size={16} className="mr-2" />
+                      {transition.status === "ACTIVE" && bond?.status === "PAUSED" ? "Reanudar" : label}
+                    </button>
+                )
+              })}
               <button
                   onClick={() => router.push("/emisor/dashboard")}
                   className="flex items-center text-gray-400 hover:text-white transition"
@@ -383,16 +832,32 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
                               ? "bg-yellow-500 text-black"
                               : bond?.status === "PAUSED"
                                   ? "bg-orange-500 text-black"
-                                  : "bg-red-500 text-white"
+                                  : bond?.status === "COMPLETED"
+                                      ? "bg-blue-500 text-white"
+                                      : bond?.status === "CANCELLED"
+                                          ? "bg-gray-600 text-white"
+                                          : "bg-red-500 text-white"
                   }`}
               >
               {bond?.status === "ACTIVE" ? "Activo" :
                   bond?.status === "DRAFT" ? "Borrador" :
-                      bond?.status === "PAUSED" ? "Pausado" : "Vencido"}
+                      bond?.status === "PAUSED" ? "Pausado" :
+                          bond?.status === "COMPLETED" ? "Completado" :
+                              bond?.status === "CANCELLED" ? "Cancelado" : "Vencido"}
             </span>
             </div>
 
             <div className="flex items-center space-x-3">
+              {bond?.status === "DRAFT" && (
+                  <button
+                      onClick={handleEditTerms}
+                      className="flex items-center border border-[#2A2A2A] text-gray-300 px-4 py-2 rounded-lg hover:bg-[#1E1E1E] transition"
+                  >
+                    <Pencil size={16} className="mr-2" />
+                    Editar términos
+                  </button>
+              )}
+
               <button
                   onClick={handleCalculateFlows}
                   disabled={isCalculating || !canCalculate}
@@ -424,6 +889,8 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
               {[
                 { id: "summary", label: "Resumen" },
                 { id: "flows", label: "Flujos" },
+                { id: "payments", label: "Pagos" },
+                { id: "versions", label: "Versiones" },
                 { id: "analytics", label: "Analytics" },
               ].map((tab) => (
                   <button
@@ -576,6 +1043,13 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
                 <div className="flex justify-between items-center mb-6">
                   <h2 className="text-xl font-semibold">Flujos de Caja Proyectados (Emisor)</h2>
                   <div className="flex space-x-3">
+                    <button
+                        onClick={handleToggleTraceSummary}
+                        disabled={!hasFlowsData}
+                        className="px-4 py-2 bg-[#1E1E1E] border border-[#2A2A2A] rounded-lg hover:bg-[#252525] transition flex items-center disabled:opacity-50"
+                    >
+                      <span className="mr-2">🧮</span> {showTraceSummary ? "Ocultar fórmulas" : "¿Cómo se calculó?"}
+                    </button>
                     <button
                         onClick={handleDownloadFlows}
                         disabled={!hasFlowsData}
@@ -584,7 +1058,7 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
                       <span className="mr-2">📄</span> Exportar CSV
                     </button>
                     <button
-                        onClick={handleDownloadFlows}
+                        onClick={handleDownloadWorkbook}
                         disabled={!hasFlowsData}
                         className="px-4 py-2 bg-[#1E1E1E] border border-[#2A2A2A] rounded-lg hover:bg-[#252525] transition flex items-center disabled:opacity-50"
                     >
@@ -593,6 +1067,27 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
                   </div>
                 </div>
 
+                {hasFlowsData && showTraceSummary && (
+                    <div className="mb-6 space-y-4">
+                      {traceLoading ? (
+                          <p className="text-sm text-gray-400">Cargando traza...</p>
+                      ) : traceError ? (
+                          <p className="text-sm text-red-500">{traceError}</p>
+                      ) : (
+                          <>
+                            <div>
+                              <h3 className="text-sm text-gray-400 mb-2">Cálculos intermedios (L4-L12)</h3>
+                              <TraceEntries entries={traceEntriesFor("intermedios")} />
+                            </div>
+                            <div>
+                              <h3 className="text-sm text-gray-400 mb-2">Métricas</h3>
+                              <TraceEntries entries={traceEntriesFor("metricas")} />
+                            </div>
+                          </>
+                      )}
+                    </div>
+                )}
+
                 {hasFlowsData ? (
                     <div className="relative overflow-x-auto">
                       <div className="absolute right-0 top-0 bottom-0 w-12 bg-gradient-to-l from-[#151515] to-transparent pointer-events-none z-10"></div>
@@ -605,17 +1100,20 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
                           <th className="py-2 px-3 text-right font-medium">Infl. Sem.</th>
                           <th className="py-2 px-3 text-center font-medium">P. Gracia</th>
                           <th className="py-2 px-3 text-right font-medium">Bono Indexado</th>
+                          <th className="py-2 px-3 text-right font-medium">Int. Capitalizado</th>
                           <th className="py-2 px-3 text-right font-medium">Cupón (Int.)</th>
                           <th className="py-2 px-3 text-right font-medium">Amort.</th>
                           <th className="py-2 px-3 text-right font-medium">Prima</th>
                           <th className="py-2 px-3 text-right font-medium">Escudo</th>
                           <th className="py-2 px-3 text-right font-medium">Flujo Emisor</th>
                           <th className="py-2 px-3 text-right font-medium">Flujo Emisor c/Escudo</th>
+                          <th className="py-2 px-3 text-center font-medium">Fórmulas</th>
                         </tr>
                         </thead>
                         <tbody className="text-sm">
                         {flows.map((flow) => (
-                            <tr key={flow.periodo} className="border-b border-[#2A2A2A] hover:bg-[#1E1E1E]">
+                            <Fragment key={flow.periodo}>
+                            <tr className="border-b border-[#2A2A2A] hover:bg-[#1E1E1E]">
                               <td className="py-2 px-3 text-center sticky left-0 bg-[#151515] hover:bg-[#1E1E1E] z-10">
                                 {flow.periodo}
                               </td>
@@ -630,6 +1128,9 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
                               <td className="py-2 px-3 text-right">
                                 {flow.bonoIndexado !== null ? formatCurrency(flow.bonoIndexado) : "-"}
                               </td>
+                              <td className="py-2 px-3 text-right">
+                                {flow.interesCapitalizado ? formatCurrency(flow.interesCapitalizado) : "-"}
+                              </td>
                               <td className={`py-2 px-3 text-right ${flow.cupon && flow.cupon < 0 ? "text-red-500" : ""}`}>
                                 {flow.cupon !== null ? formatCurrency(flow.cupon) : "-"}
                               </td>
@@ -654,7 +1155,29 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
                               }`}>
                                 {flow.flujoEmisorConEscudo !== null ? formatCurrency(flow.flujoEmisorConEscudo) : "-"}
                               </td>
+                              <td className="py-2 px-3 text-center">
+                                <button
+                                    onClick={() => handleToggleTracePeriod(flow.periodo)}
+                                    className="text-xs text-gray-400 hover:text-[#39FF14] transition whitespace-nowrap"
+                                >
+                                  {tracePeriod === flow.periodo ? "Ocultar" : "¿cómo se calculó?"}
+                                </button>
+                              </td>
                             </tr>
+                            {tracePeriod === flow.periodo && (
+                                <tr className="border-b border-[#2A2A2A] bg-[#151515]">
+                                  <td colSpan={14} className="px-3 py-3">
+                                    {traceLoading ? (
+                                        <p className="text-xs text-gray-400">Cargando traza...</p>
+                                    ) : traceError ? (
+                                        <p className="text-xs text-red-500">{traceError}</p>
+                                    ) : (
+                                        <TraceEntries entries={traceEntriesFor("flujos", flow.periodo)} />
+                                    )}
+                                  </td>
+                                </tr>
+                            )}
+                            </Fragment>
                         ))}
                         </tbody>
                       </table>
@@ -678,6 +1201,361 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
               </div>
           )}
 
+          {/* Pestaña Pagos */}
+          {activeTab === "payments" && (
+              <div className="bg-[#151515] rounded-xl p-6">
+                <div className="flex justify-between items-center mb-6">
+                  <div>
+                    <h2 className="text-xl font-semibold">Pagos de Cupón</h2>
+                    {couponSchedule && (
+                        <p className="text-sm text-gray-400 mt-1">
+                          {couponSchedule.resumen.pagados + couponSchedule.resumen.tardios} pagados
+                          {" · "}{couponSchedule.resumen.tardios} con atraso
+                          {" · "}{couponSchedule.resumen.impagos} impagos
+                          {" · "}Total pagado {formatCurrency(couponSchedule.resumen.totalPagado)}
+                        </p>
+                    )}
+                  </div>
+                  <button
+                      onClick={() => loadCouponSchedule()}
+                      disabled={couponsLoading}
+                      className="p-2 text-gray-400 hover:text-white transition disabled:opacity-50"
+                  >
+                    <RefreshCw size={18} className={couponsLoading ? "animate-spin" : ""} />
+                  </button>
+                </div>
+
+                {couponsError && <p className="text-sm text-red-500 mb-4">{couponsError}</p>}
+
+                {paymentForm && (
+                    <div className="mb-6 p-4 bg-[#1E1E1E] border border-[#2A2A2A] rounded-lg">
+                      <h3 className="text-sm font-medium mb-3">Confirmar pago del cupón {paymentForm.periodo}</h3>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <label className="text-xs text-gray-400">
+                          Fecha de pago
+                          <input
+                              type="date"
+                              value={paymentForm.fechaPago}
+                              max={new Date().toISOString().split("T")[0]}
+                              onChange={(e) => setPaymentForm({ ...paymentForm, fechaPago: e.target.value })}
+                              className="mt-1 w-full bg-[#151515] border border-[#2A2A2A] rounded px-3 py-2 text-sm text-white"
+                          />
+                        </label>
+                        <label className="text-xs text-gray-400">
+                          Monto pagado
+                          <input
+                              type="number"
+                              step="0.01"
+                              value={paymentForm.montoPagado}
+                              onChange={(e) => setPaymentForm({ ...paymentForm, montoPagado: e.target.value })}
+                              className="mt-1 w-full bg-[#151515] border border-[#2A2A2A] rounded px-3 py-2 text-sm text-white"
+                          />
+                        </label>
+                        <label className="text-xs text-gray-400">
+                          Referencia
+                          <input
+                              type="text"
+                              value={paymentForm.referencia}
+                              placeholder="Nº de operación"
+                              onChange={(e) => setPaymentForm({ ...paymentForm, referencia: e.target.value })}
+                              className="mt-1 w-full bg-[#151515] border border-[#2A2A2A] rounded px-3 py-2 text-sm text-white"
+                          />
+                        </label>
+                      </div>
+                      <div className="flex justify-end space-x-3 mt-4">
+                        <button
+                            onClick={() => setPaymentForm(null)}
+                            className="px-4 py-2 border border-[#2A2A2A] rounded-lg text-sm text-gray-300 hover:bg-[#252525] transition"
+                        >
+                          Cancelar
+                        </button>
+                        <button
+                            onClick={handleConfirmPayment}
+                            disabled={confirmingPayment || !paymentForm.fechaPago}
+                            className="px-4 py-2 bg-[#39FF14] text-black rounded-lg text-sm font-medium hover:shadow-[0_0_8px_rgba(57,255,20,0.47)] transition disabled:opacity-50"
+                        >
+                          {confirmingPayment ? "Registrando..." : "Confirmar pago"}
+                        </button>
+                      </div>
+                    </div>
+                )}
+
+                {couponSchedule && couponSchedule.calendario.length > 0 ? (
+                    <div className="overflow-x-auto">
+                      <table className="w-full border-collapse">
+                        <thead>
+                        <tr className="bg-[#1A1A1A] text-gray-400 text-xs">
+                          <th className="py-2 px-3 text-center font-medium">Nº</th>
+                          <th className="py-2 px-3 text-left font-medium">Fecha programada</th>
+                          <th className="py-2 px-3 text-right font-medium">Bonos</th>
+                          <th className="py-2 px-3 text-right font-medium">Monto programado</th>
+                          <th className="py-2 px-3 text-right font-medium">Monto pagado</th>
+                          <th className="py-2 px-3 text-left font-medium">Fecha de pago</th>
+                          <th className="py-2 px-3 text-left font-medium">Referencia</th>
+                          <th className="py-2 px-3 text-left font-medium">Estado</th>
+                          <th className="py-2 px-3 text-center font-medium"></th>
+                        </tr>
+                        </thead>
+                        <tbody className="text-sm">
+                        {couponSchedule.calendario.map((entry) => (
+                            <tr key={entry.periodo} className="border-b border-[#2A2A2A] hover:bg-[#1E1E1E]">
+                              <td className="py-2 px-3 text-center">{entry.periodo}</td>
+                              <td className="py-2 px-3 text-left">{formatDate(entry.fechaProgramada)}</td>
+                              <td className="py-2 px-3 text-right">{entry.bonosEnCirculacion.toFixed(2)}</td>
+                              <td className="py-2 px-3 text-right">{formatCurrency(entry.montoProgramado)}</td>
+                              <td className="py-2 px-3 text-right">
+                                {entry.pago ? formatCurrency(entry.pago.montoPagado) : "-"}
+                                {entry.pago && entry.pago.montoFaltante > 0 && (
+                                    <span className="block text-xs text-orange-400">Faltan {formatCurrency(entry.pago.montoFaltante)}</span>
+                                )}
+                              </td>
+                              <td className="py-2 px-3 text-left">{entry.pago ? formatDate(entry.pago.fechaPago) : "-"}</td>
+                              <td className="py-2 px-3 text-left text-gray-400">{entry.pago?.referencia || "-"}</td>
+                              <td className="py-2 px-3 text-left">
+                                <span className={`px-2 py-1 rounded text-xs ${COUPON_STATUS_BADGES[entry.status].className}`}>
+                                  {COUPON_STATUS_BADGES[entry.status].label}
+                                  {entry.diasAtraso > 0 && entry.status !== "PAID" && ` (${entry.diasAtraso} días)`}
+                                </span>
+                              </td>
+                              <td className="py-2 px-3 text-center">
+                                {!entry.pago && entry.status !== "UPCOMING" && (
+                                    <button
+                                        onClick={() => setPaymentForm({
+                                          periodo: entry.periodo,
+                                          fechaPago: new Date().toISOString().split("T")[0],
+                                          montoPagado: entry.montoProgramado.toFixed(2),
+                                          referencia: "",
+                                        })}
+                                        className="text-xs text-[#39FF14] hover:underline whitespace-nowrap"
+                                    >
+                                      Confirmar pago
+                                    </button>
+                                )}
+                              </td>
+                            </tr>
+                        ))}
+                        </tbody>
+                      </table>
+                    </div>
+                ) : (
+                    <div className="py-16 text-center text-gray-400">
+                      {couponsLoading
+                          ? "Cargando pagos..."
+                          : "No hay cupones programados: el bono necesita flujos calculados e inversiones."}
+                    </div>
+                )}
+              </div>
+          )}
+
+          {/* Pestaña Versiones */}
+          {activeTab === "versions" && (
+              <div className="space-y-6">
+                {termsForm && (
+                    <div className="bg-[#151515] rounded-xl p-6">
+                      <h2 className="text-xl font-semibold mb-1">Editar términos</h2>
+                      <p className="text-sm text-gray-400 mb-6">
+                        Cada edición guarda una nueva versión; recalcula los flujos para ver cómo cambian las métricas.
+                      </p>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        {([
+                          ["name", "Nombre", "text"],
+                          ["valorNominal", "Valor nominal", "number"],
+                          ["valorComercial", "Valor comercial", "number"],
+                          ["numAnios", "Años", "number"],
+                          ["fechaEmision", "Fecha de emisión", "date"],
+                          ["tasaAnual", "Tasa cupón (%)", "number"],
+                          ["primaVencimiento", "Prima al vencimiento (%)", "number"],
+                          ["impuestoRenta", "Impuesto a la renta (%)", "number"],
+                          ["estructuracionPct", "Estructuración (%)", "number"],
+                          ["colocacionPct", "Colocación (%)", "number"],
+                          ["flotacionPct", "Flotación (%)", "number"],
+                          ["cavaliPct", "CAVALI (%)", "number"],
+                        ] as [keyof TermsForm, string, string][]).map(([key, label, type]) => (
+                            <label key={key} className="text-xs text-gray-400">
+                              {label}
+                              <input
+                                  type={type}
+                                  step="any"
+                                  value={termsForm[key]}
+                                  onChange={(e) => setTermsForm({ ...termsForm, [key]: e.target.value })}
+                                  className="mt-1 w-full bg-[#1E1E1E] border border-[#2A2A2A] rounded px-3 py-2 text-sm text-white"
+                              />
+                            </label>
+                        ))}
+                        <label className="text-xs text-gray-400 md:col-span-3">
+                          Motivo del cambio
+                          <input
+                              type="text"
+                              value={termsForm.motivo}
+                              placeholder="Opcional"
+                              onChange={(e) => setTermsForm({ ...termsForm, motivo: e.target.value })}
+                              className="mt-1 w-full bg-[#1E1E1E] border border-[#2A2A2A] rounded px-3 py-2 text-sm text-white"
+                          />
+                        </label>
+                      </div>
+                      {versionsError && <p className="text-sm text-red-500 mt-4">{versionsError}</p>}
+                      <div className="flex justify-end space-x-3 mt-4">
+                        <button
+                            onClick={() => setTermsForm(null)}
+                            className="px-4 py-2 border border-[#2A2A2A] rounded-lg text-sm text-gray-300 hover:bg-[#252525] transition"
+                        >
+                          Cancelar
+                        </button>
+                        <button
+                            onClick={handleSaveTerms}
+                            disabled={savingTerms || !termsForm.name}
+                            className="px-4 py-2 bg-[#39FF14] text-black rounded-lg text-sm font-medium hover:shadow-[0_0_8px_rgba(57,255,20,0.47)] transition disabled:opacity-50"
+                        >
+                          {savingTerms ? "Guardando..." : "Guardar versión"}
+                        </button>
+                      </div>
+                    </div>
+                )}
+
+                <div className="bg-[#151515] rounded-xl p-6">
+                  <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-xl font-semibold">Historial de versiones</h2>
+                    <button
+                        onClick={() => loadVersions()}
+                        disabled={versionsLoading}
+                        className="p-2 text-gray-400 hover:text-white transition disabled:opacity-50"
+                    >
+                      <RefreshCw size={18} className={versionsLoading ? "animate-spin" : ""} />
+                    </button>
+                  </div>
+
+                  {!termsForm && versionsError && <p className="text-sm text-red-500 mb-4">{versionsError}</p>}
+
+                  {versions.length > 0 ? (
+                      <div className="overflow-x-auto">
+                        <table className="w-full border-collapse">
+                          <thead>
+                          <tr className="bg-[#1A1A1A] text-gray-400 text-xs">
+                            <th className="py-2 px-3 text-center font-medium">Versión</th>
+                            <th className="py-2 px-3 text-left font-medium">Fecha</th>
+                            <th className="py-2 px-3 text-left font-medium">Motivo</th>
+                            <th className="py-2 px-3 text-left font-medium">Campos modificados</th>
+                            <th className="py-2 px-3 text-left font-medium">Calculada</th>
+                          </tr>
+                          </thead>
+                          <tbody className="text-sm">
+                          {versions.map((version) => (
+                              <tr key={version.version} className="border-b border-[#2A2A2A] hover:bg-[#1E1E1E]">
+                                <td className="py-2 px-3 text-center">v{version.version}</td>
+                                <td className="py-2 px-3 text-left">{formatDate(version.createdAt)}</td>
+                                <td className="py-2 px-3 text-left text-gray-400">{version.motivo || "-"}</td>
+                                <td className="py-2 px-3 text-left text-gray-400">
+                                  {version.cambios.length > 0
+                                      ? version.cambios.map((c) => TERM_LABELS[c.campo] || c.campo).join(", ")
+                                      : "-"}
+                                </td>
+                                <td className="py-2 px-3 text-left">
+                                  {version.calculadoEn
+                                      ? formatDate(version.calculadoEn)
+                                      : <span className="text-yellow-400 text-xs">Sin calcular</span>}
+                                </td>
+                              </tr>
+                          ))}
+                          </tbody>
+                        </table>
+                      </div>
+                  ) : (
+                      <div className="py-16 text-center text-gray-400">
+                        {versionsLoading
+                            ? "Cargando versiones..."
+                            : "El bono aún no tiene versiones: la primera se registra al calcular o editar sus términos."}
+                      </div>
+                  )}
+                </div>
+
+                {versions.length > 1 && compareRange && (
+                    <div className="bg-[#151515] rounded-xl p-6">
+                      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+                        <h2 className="text-xl font-semibold">Comparar versiones</h2>
+                        <div className="flex items-center space-x-2 text-sm">
+                          {(["desde", "hasta"] as const).map((extremo) => (
+                              <select
+                                  key={extremo}
+                                  value={compareRange[extremo]}
+                                  onChange={(e) => setCompareRange({ ...compareRange, [extremo]: parseInt(e.target.value) })}
+                                  className="bg-[#1E1E1E] border border-[#2A2A2A] rounded px-3 py-2 text-white"
+                              >
+                                {versions.map((version) => (
+                                    <option key={version.version} value={version.version}>v{version.version}</option>
+                                ))}
+                              </select>
+                          ))}
+                        </div>
+                      </div>
+
+                      {comparison && (
+                          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            <div>
+                              <h3 className="text-sm font-medium text-gray-400 mb-3">Inputs modificados</h3>
+                              {comparison.cambios.length > 0 ? (
+                                  <table className="w-full border-collapse text-sm">
+                                    <thead>
+                                    <tr className="bg-[#1A1A1A] text-gray-400 text-xs">
+                                      <th className="py-2 px-3 text-left font-medium">Campo</th>
+                                      <th className="py-2 px-3 text-right font-medium">v{comparison.desde.version}</th>
+                                      <th className="py-2 px-3 text-right font-medium">v{comparison.hasta.version}</th>
+                                    </tr>
+                                    </thead>
+                                    <tbody>
+                                    {comparison.cambios.map((cambio) => (
+                                        <tr key={cambio.campo} className="border-b border-[#2A2A2A]">
+                                          <td className="py-2 px-3 text-left">{TERM_LABELS[cambio.campo] || cambio.campo}</td>
+                                          <td className="py-2 px-3 text-right text-gray-400">{formatTermValue(cambio.campo, cambio.anterior)}</td>
+                                          <td className="py-2 px-3 text-right">{formatTermValue(cambio.campo, cambio.nuevo)}</td>
+                                        </tr>
+                                    ))}
+                                    </tbody>
+                                  </table>
+                              ) : (
+                                  <p className="text-sm text-gray-400">Los términos de ambas versiones son iguales.</p>
+                              )}
+                            </div>
+
+                            <div>
+                              <h3 className="text-sm font-medium text-gray-400 mb-3">Métricas calculadas</h3>
+                              {comparison.desde.calculadoEn && comparison.hasta.calculadoEn ? (
+                                  <table className="w-full border-collapse text-sm">
+                                    <thead>
+                                    <tr className="bg-[#1A1A1A] text-gray-400 text-xs">
+                                      <th className="py-2 px-3 text-left font-medium">Métrica</th>
+                                      <th className="py-2 px-3 text-right font-medium">v{comparison.desde.version}</th>
+                                      <th className="py-2 px-3 text-right font-medium">v{comparison.hasta.version}</th>
+                                      <th className="py-2 px-3 text-right font-medium">Variación</th>
+                                    </tr>
+                                    </thead>
+                                    <tbody>
+                                    {comparison.metricas.map((cambio) => (
+                                        <tr key={cambio.metrica} className="border-b border-[#2A2A2A]">
+                                          <td className="py-2 px-3 text-left">{VERSION_METRICS[cambio.metrica]?.label || cambio.metrica}</td>
+                                          <td className="py-2 px-3 text-right text-gray-400">{formatVersionMetric(cambio.metrica, cambio.anterior)}</td>
+                                          <td className="py-2 px-3 text-right">{formatVersionMetric(cambio.metrica, cambio.nuevo)}</td>
+                                          <td className={`py-2 px-3 text-right ${
+                                              cambio.variacion ? (cambio.variacion > 0 ? "text-[#39FF14]" : "text-red-400") : "text-gray-400"
+                                          }`}>
+                                            {formatMetricShift(cambio.metrica, cambio.variacion)}
+                                          </td>
+                                        </tr>
+                                    ))}
+                                    </tbody>
+                                  </table>
+                              ) : (
+                                  <p className="text-sm text-gray-400">
+                                    Alguna de las versiones no se calculó mientras estuvo vigente: no hay métricas que comparar.
+                                  </p>
+                              )}
+                            </div>
+                          </div>
+                      )}
+                    </div>
+                )}
+              </div>
+          )}
+
           {/* Pestaña Analytics */}
           {activeTab === "analytics" && (
               <div className="bg-[#151515] rounded-xl p-6">
@@ -708,6 +1586,48 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
                         </div>
                       </div>
 
+                      <h3 className="text-lg font-semibold mb-4">Sensibilidad a Tasas</h3>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                        <div className="bg-[#1E1E1E] rounded-lg p-4">
+                          <p className="text-gray-400 text-sm mb-1">Duración Efectiva</p>
+                          <p className="text-[#39FF14] font-medium text-xl">
+                            {duracionEfectiva ? duracionEfectiva.toFixed(2) : "N/A"}
+                          </p>
+                        </div>
+                        <div className="bg-[#1E1E1E] rounded-lg p-4">
+                          <p className="text-gray-400 text-sm mb-1">Convexidad Efectiva</p>
+                          <p className="text-[#39FF14] font-medium text-xl">
+                            {convexidadEfectiva ? convexidadEfectiva.toFixed(2) : "N/A"}
+                          </p>
+                        </div>
+                        <div className="bg-[#1E1E1E] rounded-lg p-4">
+                          <p className="text-gray-400 text-sm mb-1">DV01 (valor de 1 pb)</p>
+                          <p className="text-[#39FF14] font-medium text-xl">
+                            {dv01 ? formatCurrency(dv01) : "N/A"}
+                          </p>
+                        </div>
+                      </div>
+
+                      {duracionesClave.length > 0 && (
+                          <div className="bg-[#1E1E1E] rounded-lg p-4 mb-6">
+                            <p className="text-gray-400 text-sm mb-3">Duraciones de Plazo Clave</p>
+                            <div className="space-y-2">
+                              {duracionesClave.map((krd) => (
+                                  <div key={krd.plazo} className="flex items-center gap-3 text-sm">
+                                    <span className="w-12 text-gray-400">{krd.plazo}a</span>
+                                    <div className="flex-1 bg-[#151515] rounded h-3">
+                                      <div
+                                          className="bg-[#39FF14] h-3 rounded"
+                                          style={{ width: `${maxDuracionClave ? (Math.abs(krd.duracion) / maxDuracionClave) * 100 : 0}%` }}
+                                      ></div>
+                                    </div>
+                                    <span className="w-14 text-right">{krd.duracion.toFixed(2)}</span>
+                                  </div>
+                              ))}
+                            </div>
+                          </div>
+                      )}
+
                       <div className="bg-[#1A1A1A] rounded-lg p-4 mb-6">
                         <h4 className="font-semibold mb-2">Nota sobre Analytics:</h4>
                         <p className="text-sm text-gray-400">
@@ -721,6 +1641,90 @@ export default function BondDetailPage({ params, searchParams }: BondDetailProps
                       <div className="h-[400px]">
                         <canvas ref={flowChartRef}></canvas>
                       </div>
+
+                      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mt-10 mb-6 gap-4">
+                        <h2 className="text-xl font-semibold">Análisis de Sensibilidad</h2>
+                        <div className="flex items-center gap-3">
+                          <select
+                              value={sensitivityMetric}
+                              onChange={(e) => setSensitivityMetric(e.target.value as keyof SensitivityMetrics)}
+                              className="bg-[#1E1E1E] border border-[#2A2A2A] rounded-lg px-3 py-2 text-sm"
+                          >
+                            {SENSITIVITY_METRICS.map((metric) => (
+                                <option key={metric.key} value={metric.key}>{metric.label}</option>
+                            ))}
+                          </select>
+                          <button
+                              onClick={handleRunSensitivity}
+                              disabled={sensitivityLoading}
+                              className="bg-[#39FF14] text-black px-4 py-2 rounded-lg text-sm hover:shadow-[0_0_8px_rgba(57,255,20,0.47)] transition disabled:opacity-50"
+                          >
+                            {sensitivityLoading ? "Calculando..." : sensitivity ? "Recalcular" : "Ejecutar análisis"}
+                          </button>
+                        </div>
+                      </div>
+
+                      {sensitivityError && (
+                          <p className="text-red-400 text-sm mb-4">{sensitivityError}</p>
+                      )}
+
+                      {sensitivity ? (
+                          <>
+                            <p className="text-sm text-gray-400 mb-4">
+                              {selectedMetric.label} base: <span className="text-white">{formatMetric(sensitivity.base[sensitivityMetric])}</span>.
+                              Cada barra muestra el rango de variación al mover un solo parámetro.
+                            </p>
+                            <div className="h-[300px] mb-8">
+                              <canvas ref={tornadoChartRef}></canvas>
+                            </div>
+
+                            {sensitivity.matriz && (
+                                <>
+                                  <h3 className="text-lg font-semibold mb-4">
+                                    {selectedMetric.label}: {SENSITIVITY_LABELS[sensitivity.matriz.filas.parametro]} vs. {SENSITIVITY_LABELS[sensitivity.matriz.columnas.parametro]}
+                                  </h3>
+                                  <div className="overflow-x-auto">
+                                    <table className="w-full text-sm">
+                                      <thead>
+                                      <tr className="text-gray-400 border-b border-[#2A2A2A]">
+                                        <th className="py-2 px-3 text-left font-medium">
+                                          {SENSITIVITY_LABELS[sensitivity.matriz.filas.parametro]} \ {SENSITIVITY_LABELS[sensitivity.matriz.columnas.parametro]}
+                                        </th>
+                                        {sensitivity.matriz.columnas.desplazamientos.map((shift) => (
+                                            <th key={shift} className="py-2 px-3 text-center font-medium">
+                                              {formatShift(sensitivity.matriz!.columnas.parametro, shift)}
+                                            </th>
+                                        ))}
+                                      </tr>
+                                      </thead>
+                                      <tbody>
+                                      {sensitivity.matriz.metricas.map((row, i) => (
+                                          <tr key={i} className="border-b border-[#2A2A2A]">
+                                            <td className="py-2 px-3 text-gray-400">
+                                              {formatShift(sensitivity.matriz!.filas.parametro, sensitivity.matriz!.filas.desplazamientos[i])}
+                                            </td>
+                                            {row.map((cell, j) => (
+                                                <td
+                                                    key={j}
+                                                    className="py-2 px-3 text-center"
+                                                    style={{ backgroundColor: cell ? heatmapColor(cell[sensitivityMetric]) : undefined }}
+                                                >
+                                                  {cell ? formatMetric(cell[sensitivityMetric]) : "N/A"}
+                                                </td>
+                                            ))}
+                                          </tr>
+                                      ))}
+                                      </tbody>
+                                    </table>
+                                  </div>
+                                </>
+                            )}
+                          </>
+                      ) : (
+                          <p className="text-sm text-gray-400">
+                            Recalcula el bono moviendo tasa cupón, tasa de descuento, inflación, impuesto y costes para ver cómo cambian la TCEA, la TREA y el precio.
+                          </p>
+                      )}
                     </>
                 ) : (
                     <div className="py-16 text-center">
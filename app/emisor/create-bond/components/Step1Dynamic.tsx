@@ -14,6 +14,9 @@ interface BondData {
         fechaEmision: string;
         frecuenciaCupon: string;
         diasPorAno: string;
+        dayCountConvention?: string;
+        mercadoCalendario?: string;
+        businessDayConvention?: string;
     };
 }
 
@@ -33,6 +36,9 @@ export default function Step1Dynamic({ bondData, saveDataAction }: Step1Props) {
         fechaEmision: bondData.step1?.fechaEmision || new Date().toISOString().split('T')[0],
         frecuenciaCupon: bondData.step1?.frecuenciaCupon || 'semestral',
         diasPorAno: bondData.step1?.diasPorAno || '360',
+        dayCountConvention: bondData.step1?.dayCountConvention || '',
+        mercadoCalendario: bondData.step1?.mercadoCalendario || '',
+        businessDayConvention: bondData.step1?.businessDayConvention || 'none',
     });
 
     const [errors, setErrors] = useState<Record<string, string>>({});
@@ -243,6 +249,67 @@ export default function Step1Dynamic({ bondData, saveDataAction }: Step1Props) {
                         <option value="365">365 días</option>
                     </select>
                 </div>
+
+                {/* Convención de Conteo de Días */}
+                <div>
+                    <label className="block text-[#AAAAAA] text-sm mb-2">
+                        Convención de Días
+                    </label>
+                    <select
+                        value={formData.dayCountConvention}
+                        onChange={(e) => handleChange('dayCountConvention', e.target.value)}
+                        className="w-full bg-transparent text-white border border-[#2A2A2A] rounded-lg px-4 py-3 focus:outline-none focus:border-[#39FF14] focus:shadow-[0_0_8px_rgba(57,255,20,0.47)] transition"
+                    >
+                        <option value="">Base fija (Excel)</option>
+                        <option value="30/360">30/360</option>
+                        <option value="ACT/360">ACT/360</option>
+                        <option value="ACT/365">ACT/365</option>
+                        <option value="ACT/ACT">ACT/ACT (ICMA)</option>
+                    </select>
+                    {formData.dayCountConvention && (
+                        <p className="mt-2 text-xs text-gray-400">
+                            Las fechas de cupón avanzan por meses calendario desde la emisión
+                        </p>
+                    )}
+                </div>
+
+                {/* Calendario de Pagos */}
+                <div>
+                    <label className="block text-[#AAAAAA] text-sm mb-2">
+                        Calendario de Feriados
+                    </label>
+                    <select
+                        value={formData.mercadoCalendario}
+                        onChange={(e) => handleChange('mercadoCalendario', e.target.value)}
+                        className="w-full bg-transparent text-white border border-[#2A2A2A] rounded-lg px-4 py-3 focus:outline-none focus:border-[#39FF14] focus:shadow-[0_0_8px_rgba(57,255,20,0.47)] transition"
+                    >
+                        <option value="">Ninguno</option>
+                        <option value="PE">Perú (BVL)</option>
+                    </select>
+                </div>
+
+                {/* Ajuste de Día Hábil */}
+                <div>
+                    <label className="block text-[#AAAAAA] text-sm mb-2">
+                        Ajuste de Fecha de Pago
+                    </label>
+                    <select
+                        value={formData.businessDayConvention}
+                        onChange={(e) => handleChange('businessDayConvention', e.target.value)}
+                        disabled={!formData.mercadoCalendario}
+                        className="w-full bg-transparent text-white border border-[#2A2A2A] rounded-lg px-4 py-3 focus:outline-none focus:border-[#39FF14] focus:shadow-[0_0_8px_rgba(57,255,20,0.47)] transition disabled:opacity-50"
+                    >
+                        <option value="none">Sin ajuste</option>
+                        <option value="following">Following</option>
+                        <option value="modified_following">Modified Following</option>
+                        <option value="preceding">Preceding</option>
+                    </select>
+                    {formData.mercadoCalendario && formData.businessDayConvention !== 'none' && (
+                        <p className="mt-2 text-xs text-gray-400">
+                            Los intereses se devengan con las fechas sin ajustar
+                        </p>
+                    )}
+                </div>
             </div>
 
             {/* Información Calculada */}
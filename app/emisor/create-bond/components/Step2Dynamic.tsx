@@ -3,6 +3,8 @@
 
 import { useState, useEffect } from 'react';
 import { Info, Percent, ChevronDown } from 'lucide-react';
+import { ExcelFormulas } from '@/lib/services/calculations/ExcelFormulas';
+import type { FrequenciaCupon } from '@/lib/types/calculations';
 
 interface BondData {
     step1?: {
@@ -18,15 +20,23 @@ interface BondData {
         diasPorAno?: string;
     };
     step2?: {
+        instrumentType: string;
         tipoTasa: string;
         periodicidadCapitalizacion: string;
         tasaAnual: string;
+        couponRateType: string;
+        tasasCupon: string[];
+        spreadFlotante: string;
+        tasaMaxima: string;
+        tasaMinima: string;
         indexadoInflacion: boolean;
         inflacionAnual: string;
         primaVencimiento: string;
         impuestoRenta: string;
+        amortizationMethod: string;
         numGracePeriods: number;
         gracePeriodsConfig: GracePeriodConfig[];
+        capitalizarGraciaTotal?: boolean;
     };
 }
 
@@ -43,15 +53,23 @@ interface Step2Props {
 // ✅ EXPORT POR DEFECTO
 export default function Step2Dynamic({ bondData, saveDataAction }: Step2Props) {
     const [formData, setFormData] = useState({
+        instrumentType: bondData.step2?.instrumentType || 'cupon',
         tipoTasa: bondData.step2?.tipoTasa || 'efectiva',
         periodicidadCapitalizacion: bondData.step2?.periodicidadCapitalizacion || 'semestral',
         tasaAnual: bondData.step2?.tasaAnual || '',
+        couponRateType: bondData.step2?.couponRateType || 'fija',
+        tasasCupon: bondData.step2?.tasasCupon || [],
+        spreadFlotante: bondData.step2?.spreadFlotante || '',
+        tasaMaxima: bondData.step2?.tasaMaxima || '',
+        tasaMinima: bondData.step2?.tasaMinima || '',
         indexadoInflacion: bondData.step2?.indexadoInflacion || false,
         inflacionAnual: bondData.step2?.inflacionAnual || '',
         primaVencimiento: bondData.step2?.primaVencimiento || '',
         impuestoRenta: bondData.step2?.impuestoRenta || '30',
+        amortizationMethod: bondData.step2?.amortizationMethod || 'americano',
         numGracePeriods: bondData.step2?.numGracePeriods || 0,
         gracePeriodsConfig: bondData.step2?.gracePeriodsConfig || [],
+        capitalizarGraciaTotal: bondData.step2?.capitalizarGraciaTotal ?? true,
     });
 
     const [errors, setErrors] = useState<Record<string, boolean>>({});
@@ -62,18 +80,14 @@ export default function Step2Dynamic({ bondData, saveDataAction }: Step2Props) {
     useEffect(() => {
         if (bondData.step1) {
             const years = parseInt(bondData.step1.numAnios || bondData.step1.numAnios || '5');
-            const frequency = bondData.step1.frecuenciaCupon || 'anual';
-
-            const frequencyMap: Record<string, number> = {
-                'mensual': 12,
-                'bimestral': 6,
-                'trimestral': 4,
-                'cuatrimestral': 3,
-                'semestral': 2,
-                'anual': 1,
-            };
-
-            const calculatedTotalCoupons = years * (frequencyMap[frequency] || 1);
+            const frequency = (bondData.step1.frecuenciaCupon || 'anual') as FrequenciaCupon;
+            const diasPorAno = parseInt(bondData.step1.diasPorAno || '360');
+
+            // Mismo número de cupones que el motor de cálculo (=ENTERO(L7))
+            const calculatedTotalCoupons = ExcelFormulas.numeroCupones(
+                ExcelFormulas.periodosPorAno(diasPorAno, ExcelFormulas.frecuenciaCuponDias(frequency)),
+                years
+            );
             const calculatedMaxGrace = Math.max(0, calculatedTotalCoupons - 1);
 
             setTotalCoupons(calculatedTotalCoupons);
@@ -88,6 +102,49 @@ export default function Step2Dynamic({ bondData, saveDataAction }: Step2Props) {
         saveDataAction(newFormData, 2);
     };
 
+    const esCuponCero = formData.instrumentType === 'cupon_cero';
+
+    const handleInstrumentTypeChange = (instrumentType: string) => {
+        // Un cupón cero no tiene tasa cupón, cronograma, gracia ni amortización parcial
+        const newFormData = instrumentType === 'cupon_cero'
+            ? {
+                ...formData,
+                instrumentType,
+                tasaAnual: '',
+                couponRateType: 'fija',
+                tasasCupon: [],
+                amortizationMethod: 'americano',
+                numGracePeriods: 0,
+                gracePeriodsConfig: [],
+            }
+            : { ...formData, instrumentType };
+
+        setFormData(newFormData);
+        setErrors({ ...errors, tasaAnual: false });
+        saveDataAction(newFormData, 2);
+    };
+
+    const handleCouponRateTypeChange = (couponRateType: string) => {
+        // Una entrada por cupón; la escalonada parte de la tasa anual
+        const tasasCupon = couponRateType === 'fija'
+            ? []
+            : Array.from({ length: totalCoupons }, (_, i) =>
+                formData.tasasCupon[i] ?? (couponRateType === 'escalonada' ? formData.tasaAnual : ''));
+
+        const newFormData = { ...formData, couponRateType, tasasCupon };
+        setFormData(newFormData);
+        saveDataAction(newFormData, 2);
+    };
+
+    const updateTasaCupon = (index: number, value: string) => {
+        const tasasCupon = [...formData.tasasCupon];
+        tasasCupon[index] = value;
+
+        const newFormData = { ...formData, tasasCupon };
+        setFormData(newFormData);
+        saveDataAction(newFormData, 2);
+    };
+
     const handleGracePeriodsChange = (numPeriods: number) => {
         if (numPeriods > maxGracePeriods) {
             numPeriods = maxGracePeriods;
@@ -149,7 +206,30 @@ export default function Step2Dynamic({ bondData, saveDataAction }: Step2Props) {
 
             <form>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {/* Tipo de Instrumento */}
+                    <div className="md:col-span-2">
+                        <label className="block text-[#AAAAAA] text-sm mb-2">Tipo de instrumento</label>
+                        <div className="relative max-w-md">
+                            <select
+                                value={formData.instrumentType}
+                                onChange={(e) => handleInstrumentTypeChange(e.target.value)}
+                                className="w-full bg-transparent text-white border border-[#2A2A2A] rounded-lg px-4 py-3 focus:outline-none focus:border-[#39FF14] focus:shadow-[0_0_8px_rgba(57,255,20,0.47)] transition appearance-none"
+                            >
+                                <option value="cupon">Bono con cupones</option>
+                                <option value="cupon_cero">Cupón cero (bono de descuento)</option>
+                            </select>
+                            <ChevronDown className="absolute inset-y-0 right-0 flex items-center pr-4 pointer-events-none text-gray-500" size={16} />
+                        </div>
+                        {esCuponCero && (
+                            <div className="mt-2 text-xs text-gray-400">
+                                <Info className="inline mr-1" size={12} />
+                                Sin cupones: el rendimiento proviene del descuento entre el valor comercial y el valor nominal (más la prima) pagado al vencimiento
+                            </div>
+                        )}
+                    </div>
+
                     {/* Tipo de Tasa */}
+                    {!esCuponCero && (
                     <div>
                         <label className="block text-[#AAAAAA] text-sm mb-2">Tipo de tasa</label>
                         <div className="relative">
@@ -170,9 +250,10 @@ export default function Step2Dynamic({ bondData, saveDataAction }: Step2Props) {
                             </div>
                         )}
                     </div>
+                    )}
 
                     {/* Periodicidad de Capitalización (solo para nominal) */}
-                    {formData.tipoTasa === 'nominal' && (
+                    {!esCuponCero && formData.tipoTasa === 'nominal' && (
                         <div>
                             <label className="block text-[#AAAAAA] text-sm mb-2">Periodicidad de capitalización</label>
                             <div className="relative">
@@ -191,6 +272,7 @@ export default function Step2Dynamic({ bondData, saveDataAction }: Step2Props) {
                     )}
 
                     {/* Tasa Anual */}
+                    {!esCuponCero && (
                     <div>
                         <label className="block text-[#AAAAAA] text-sm mb-2">Tasa anual (%)</label>
                         <div className="relative">
@@ -207,6 +289,34 @@ export default function Step2Dynamic({ bondData, saveDataAction }: Step2Props) {
                             <Percent className="absolute inset-y-0 right-0 flex items-center pr-4 pointer-events-none text-gray-500" size={16} />
                         </div>
                     </div>
+                    )}
+
+                    {/* Estructura del Cupón */}
+                    {!esCuponCero && (
+                    <div>
+                        <label className="block text-[#AAAAAA] text-sm mb-2">Estructura del cupón</label>
+                        <div className="relative">
+                            <select
+                                value={formData.couponRateType}
+                                onChange={(e) => handleCouponRateTypeChange(e.target.value)}
+                                className="w-full bg-transparent text-white border border-[#2A2A2A] rounded-lg px-4 py-3 focus:outline-none focus:border-[#39FF14] focus:shadow-[0_0_8px_rgba(57,255,20,0.47)] transition appearance-none"
+                            >
+                                <option value="fija">Tasa fija</option>
+                                <option value="escalonada">Escalonada (step-up / step-down)</option>
+                                <option value="flotante">Flotante (referencia + spread)</option>
+                            </select>
+                            <ChevronDown className="absolute inset-y-0 right-0 flex items-center pr-4 pointer-events-none text-gray-500" size={16} />
+                        </div>
+                        <div className="mt-2 text-xs text-gray-400">
+                            <Info className="inline mr-1" size={12} />
+                            {formData.couponRateType === 'escalonada'
+                                ? 'Cada cupón usa la tasa anual definida para su período'
+                                : formData.couponRateType === 'flotante'
+                                    ? 'Cada cupón usa la tasa de referencia del período más el spread, dentro del cap/floor'
+                                    : 'La tasa anual se aplica a todos los cupones'}
+                        </div>
+                    </div>
+                    )}
 
                     {/* Indexado a Inflación */}
                     <div>
@@ -274,9 +384,92 @@ export default function Step2Dynamic({ bondData, saveDataAction }: Step2Props) {
                             <Percent className="absolute inset-y-0 right-0 flex items-center pr-4 pointer-events-none text-gray-500" size={16} />
                         </div>
                     </div>
+
+                    {/* Método de Amortización */}
+                    {!esCuponCero && (
+                    <div>
+                        <label className="block text-[#AAAAAA] text-sm mb-2">Método de amortización</label>
+                        <div className="relative">
+                            <select
+                                value={formData.amortizationMethod}
+                                onChange={(e) => handleChange('amortizationMethod', e.target.value)}
+                                className="w-full bg-transparent text-white border border-[#2A2A2A] rounded-lg px-4 py-3 focus:outline-none focus:border-[#39FF14] focus:shadow-[0_0_8px_rgba(57,255,20,0.47)] transition appearance-none"
+                            >
+                                <option value="americano">Americano</option>
+                                <option value="frances">Francés</option>
+                                <option value="aleman">Alemán</option>
+                            </select>
+                            <ChevronDown className="absolute inset-y-0 right-0 flex items-center pr-4 pointer-events-none text-gray-500" size={16} />
+                        </div>
+                        <div className="mt-2 text-xs text-gray-400">
+                            <Info className="inline mr-1" size={12} />
+                            {formData.amortizationMethod === 'frances'
+                                ? 'Cuota constante: cada pago combina cupón y amortización'
+                                : formData.amortizationMethod === 'aleman'
+                                    ? 'Amortización constante: el cupón decrece con el saldo'
+                                    : 'Todo el principal se devuelve al vencimiento'}
+                        </div>
+                    </div>
+                    )}
                 </div>
 
+                {/* Cronograma de Tasas Cupón */}
+                {!esCuponCero && formData.couponRateType !== 'fija' && (
+                    <div className="mt-8 border-t border-[#2A2A2A] pt-8">
+                        <h3 className="text-lg font-semibold mb-4">
+                            {formData.couponRateType === 'escalonada' ? 'Cronograma de Tasas por Cupón' : 'Tasa de Referencia por Cupón'}
+                        </h3>
+
+                        {formData.couponRateType === 'flotante' && (
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                                {([
+                                    ['spreadFlotante', 'Spread (%)', '1.50'],
+                                    ['tasaMaxima', 'Cap (%)', 'Sin límite'],
+                                    ['tasaMinima', 'Floor (%)', 'Sin límite'],
+                                ] as const).map(([field, label, placeholder]) => (
+                                    <div key={field}>
+                                        <label className="block text-[#AAAAAA] text-sm mb-2">{label}</label>
+                                        <div className="relative">
+                                            <input
+                                                type="number"
+                                                value={formData[field]}
+                                                onChange={(e) => handleChange(field, e.target.value)}
+                                                className="w-full bg-transparent text-white border border-[#2A2A2A] rounded-lg px-4 py-3 focus:outline-none focus:border-[#39FF14] focus:shadow-[0_0_8px_rgba(57,255,20,0.47)] transition"
+                                                placeholder={placeholder}
+                                                step="0.01"
+                                            />
+                                            <Percent className="absolute inset-y-0 right-0 flex items-center pr-4 pointer-events-none text-gray-500" size={16} />
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        <div className="bg-[#1A1A1A] rounded-lg p-4 border border-[#2A2A2A]">
+                            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+                                {formData.tasasCupon.map((tasa, index) => (
+                                    <div key={index}>
+                                        <label className="block text-xs text-gray-400 mb-1">Cupón {index + 1}</label>
+                                        <input
+                                            type="number"
+                                            value={tasa}
+                                            onChange={(e) => updateTasaCupon(index, e.target.value)}
+                                            className="w-full bg-transparent text-white border border-[#2A2A2A] rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-[#39FF14] transition"
+                                            placeholder="%"
+                                            step="0.01"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                        <p className="mt-2 text-xs text-gray-400">
+                            Tasas anuales en %, expresadas según el tipo de tasa seleccionado.
+                        </p>
+                    </div>
+                )}
+
                 {/* Configuración de Períodos de Gracia */}
+                {!esCuponCero && (
                 <div className="mt-8 border-t border-[#2A2A2A] pt-8">
                     <h3 className="text-lg font-semibold mb-4">Configuración de Períodos de Gracia Iniciales</h3>
 
@@ -368,7 +561,31 @@ export default function Step2Dynamic({ bondData, saveDataAction }: Step2Props) {
                             </p>
                         </div>
                     )}
+
+                    {/* Capitalización del cupón impago en gracia total */}
+                    {formData.gracePeriodsConfig.some(config => config.graceType === 'T') && (
+                        <div className="mt-6">
+                            <label className="block text-[#AAAAAA] text-sm mb-2">Capitalizar cupones en gracia total</label>
+                            <div className="flex items-center mt-3">
+                                <label className="relative inline-flex items-center cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={formData.capitalizarGraciaTotal}
+                                        onChange={(e) => handleChange('capitalizarGraciaTotal', e.target.checked)}
+                                        className="sr-only peer"
+                                    />
+                                    <div className="w-11 h-6 bg-[#2A2A2A] peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-[#888] after:border-gray-300 after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-[#39FF1422] peer-checked:after:bg-[#39FF14]"></div>
+                                </label>
+                            </div>
+                            <p className="mt-2 text-xs text-gray-400">
+                                {formData.capitalizarGraciaTotal
+                                    ? 'El cupón no pagado en un período "T" se suma al capital del período siguiente'
+                                    : 'El cupón no pagado en un período "T" no se recupera'}
+                            </p>
+                        </div>
+                    )}
                 </div>
+                )}
             </form>
         </div>
     );
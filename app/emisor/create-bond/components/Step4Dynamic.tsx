@@ -6,6 +6,8 @@ import { ChevronDown, Calculator, CheckCircle, AlertCircle, Download } from 'luc
 import { useCalculations } from '@/lib/hooks/useCalculations';
 import { useCashFlows } from '@/lib/hooks/useCashFlows';
 import type { EmisorCashFlow } from '@/lib/hooks/useCashFlows';
+import { ExcelFormulas } from '@/lib/services/calculations/ExcelFormulas';
+import type { FrequenciaCupon } from '@/lib/types/calculations';
 
 interface BondData {
     step1?: {
@@ -18,21 +20,32 @@ interface BondData {
         fechaEmision?: string;
         frecuenciaCupon?: string;
         diasPorAno?: string;
+        dayCountConvention?: string;
+        mercadoCalendario?: string;
+        businessDayConvention?: string;
     };
     step2?: {
+        instrumentType?: string;
         tipoTasa?: string;
         periodicidadCapitalizacion?: string;
         tasaAnual?: string;
         tasaDescuento?: string;
+        couponRateType?: string;
+        tasasCupon?: string[];
+        spreadFlotante?: string;
+        tasaMaxima?: string;
+        tasaMinima?: string;
         indexadoInflacion?: boolean;
         inflacionAnual?: string;
         primaVencimiento?: string;
         impuestoRenta?: string;
+        amortizationMethod?: string;
         numGracePeriods?: number;
         gracePeriodsConfig?: Array<{
             couponNumber: number;
             graceType: 'T' | 'P' | 'S';
         }>;
+        capitalizarGraciaTotal?: boolean;
     };
     step3?: {
         estructuracionEmisor?: string;
@@ -47,6 +60,30 @@ interface BondData {
     };
 }
 
+const AMORTIZATION_METHOD_LABELS: Record<string, string> = {
+    americano: 'Americano',
+    frances: 'Francés',
+    aleman: 'Alemán',
+};
+
+const INSTRUMENT_TYPE_LABELS: Record<string, string> = {
+    cupon: 'Bono con cupones',
+    cupon_cero: 'Cupón cero',
+};
+
+const COUPON_RATE_TYPE_LABELS: Record<string, string> = {
+    fija: 'Fija',
+    escalonada: 'Escalonada',
+    flotante: 'Flotante',
+};
+
+const BUSINESS_DAY_CONVENTION_LABELS: Record<string, string> = {
+    none: 'Sin ajuste',
+    following: 'Following',
+    modified_following: 'Modified Following',
+    preceding: 'Preceding',
+};
+
 interface Step4Props {
     bondData: BondData;
     bondId?: string | null; // ID del bono creado
@@ -115,37 +152,52 @@ export default function Step4Dynamic({ bondData, bondId }: Step4Props) {
             if (numAnios <= 0) throw new Error("Número de años no válido");
 
             const frecuencia = bondData.step1?.frecuenciaCupon || 'semestral';
+            const diasPorAno = parseInt(bondData.step1?.diasPorAno || '360');
 
-            // Calcular dinámicamente los cupones por año
-            const couponsPerYearMap: { [key: string]: number } = {
-                mensual: 12, bimestral: 6, trimestral: 4,
-                cuatrimestral: 3, semestral: 2, anual: 1
-            };
-            const couponsPerYear = couponsPerYearMap[frecuencia] || 1;
+            // Series por cupón: un elemento por período de pago
+            const numeroCupones = ExcelFormulas.numeroCupones(
+                ExcelFormulas.periodosPorAno(diasPorAno, ExcelFormulas.frecuenciaCuponDias(frecuencia as FrequenciaCupon)),
+                numAnios
+            );
 
-            // Construir la 'graciaSerie' con la longitud correcta
-            const graciaSerie = Array<'S' | 'P' | 'T'>(numAnios).fill('S');
+            const graciaSerie = Array<'S' | 'P' | 'T'>(numeroCupones).fill('S');
             bondData.step2?.gracePeriodsConfig?.forEach((config) => {
-                const yearIndex = Math.floor((config.couponNumber - 1) / couponsPerYear);
-                if (yearIndex >= 0 && yearIndex < numAnios) {
-                    graciaSerie[yearIndex] = config.graceType;
+                if (config.couponNumber >= 1 && config.couponNumber <= numeroCupones) {
+                    graciaSerie[config.couponNumber - 1] = config.graceType;
                 }
             });
 
             const inflacionAnual = parseFloat(bondData.step2?.inflacionAnual || '0') / 100;
-            const inflacionSerie = Array(numAnios).fill(inflacionAnual);
+            const inflacionSerie = Array(numeroCupones).fill(inflacionAnual);
+
+            const couponRateType = bondData.step2?.couponRateType || 'fija';
+            const parsePorcentaje = (valor?: string) => valor ? parseFloat(valor) / 100 : undefined;
+            const couponSchedule = couponRateType !== 'fija'
+                ? {
+                    tipo: couponRateType,
+                    tasas: (bondData.step2?.tasasCupon || []).map((tasa) => parseFloat(tasa || '0') / 100),
+                    spread: parsePorcentaje(bondData.step2?.spreadFlotante),
+                    tasaMaxima: parsePorcentaje(bondData.step2?.tasaMaxima),
+                    tasaMinima: parsePorcentaje(bondData.step2?.tasaMinima),
+                }
+                : undefined;
 
             return {
                 valorNominal: parseFloat(bondData.step1?.valorNominal || '1000'),
                 valorComercial: parseFloat(bondData.step1?.valorComercial || '1050'),
                 numAnios,
                 frecuenciaCupon: frecuencia,
-                diasPorAno: parseInt(bondData.step1?.diasPorAno || '360'),
+                diasPorAno,
+                dayCountConvention: bondData.step1?.dayCountConvention || undefined,
                 tipoTasa: bondData.step2?.tipoTasa || 'efectiva',
                 periodicidadCapitalizacion: bondData.step2?.periodicidadCapitalizacion || 'semestral',
                 tasaAnual: parseFloat(bondData.step2?.tasaAnual || '0') / 100,
                 tasaDescuento: parseFloat(bondData.step2?.tasaDescuento || '0') / 100,
                 impuestoRenta: parseFloat(bondData.step2?.impuestoRenta || '30') / 100,
+                amortizationMethod: bondData.step2?.amortizationMethod || 'americano',
+                capitalizarGraciaTotal: graciaSerie.includes('T') && (bondData.step2?.capitalizarGraciaTotal ?? true),
+                instrumentType: bondData.step2?.instrumentType || 'cupon',
+                couponSchedule,
                 fechaEmision: bondData.step1?.fechaEmision ? new Date(bondData.step1.fechaEmision) : new Date(),
                 primaPorcentaje: parseFloat(bondData.step2?.primaVencimiento || '0') / 100,
                 estructuracionPorcentaje: parseFloat(bondData.step3?.estructuracionEmisor || '0') / 100,
@@ -258,6 +310,18 @@ export default function Step4Dynamic({ bondData, bondId }: Step4Props) {
                                     <label className="text-gray-400 text-sm">Base de Días</label>
                                     <p className="text-white font-medium">{bondData.step1?.diasPorAno || "360"} días</p>
                                 </div>
+                                <div>
+                                    <label className="text-gray-400 text-sm">Convención de Días</label>
+                                    <p className="text-white font-medium">{bondData.step1?.dayCountConvention || "Base fija (Excel)"}</p>
+                                </div>
+                                <div>
+                                    <label className="text-gray-400 text-sm">Calendario de Pagos</label>
+                                    <p className="text-white font-medium">
+                                        {bondData.step1?.mercadoCalendario
+                                            ? `${bondData.step1.mercadoCalendario} · ${BUSINESS_DAY_CONVENTION_LABELS[bondData.step1?.businessDayConvention || 'none']}`
+                                            : "Sin ajuste"}
+                                    </p>
+                                </div>
                             </div>
                         </div>
                     )}
@@ -276,6 +340,10 @@ export default function Step4Dynamic({ bondData, bondId }: Step4Props) {
                     {expandedSections.condiciones && (
                         <div className="p-4 pt-0 border-t border-[#2A2A2A]">
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                    <label className="text-gray-400 text-sm">Tipo de Instrumento</label>
+                                    <p className="text-white font-medium">{INSTRUMENT_TYPE_LABELS[bondData.step2?.instrumentType || 'cupon']}</p>
+                                </div>
                                 <div>
                                     <label className="text-gray-400 text-sm">Tipo de Tasa</label>
                                     <p className="text-white font-medium capitalize">{bondData.step2?.tipoTasa || "efectiva"}</p>
@@ -284,6 +352,15 @@ export default function Step4Dynamic({ bondData, bondId }: Step4Props) {
                                     <label className="text-gray-400 text-sm">Tasa Anual</label>
                                     <p className="text-white font-medium">{bondData.step2?.tasaAnual || "0"}%</p>
                                 </div>
+                                <div>
+                                    <label className="text-gray-400 text-sm">Estructura del Cupón</label>
+                                    <p className="text-white font-medium">
+                                        {COUPON_RATE_TYPE_LABELS[bondData.step2?.couponRateType || 'fija']}
+                                        {bondData.step2?.couponRateType && bondData.step2.couponRateType !== 'fija' && (
+                                            <span className="text-gray-400 text-sm"> ({(bondData.step2.tasasCupon || []).join('% · ')}%)</span>
+                                        )}
+                                    </p>
+                                </div>
                                 <div>
                                     <label className="text-gray-400 text-sm">Tasa de Descuento</label>
                                     <p className="text-white font-medium">{bondData.step2?.tasaDescuento || "0"}%</p>
@@ -296,6 +373,10 @@ export default function Step4Dynamic({ bondData, bondId }: Step4Props) {
                                     <label className="text-gray-400 text-sm">Impuesto a la Renta</label>
                                     <p className="text-white font-medium">{bondData.step2?.impuestoRenta || "30"}%</p>
                                 </div>
+                                <div>
+                                    <label className="text-gray-400 text-sm">Método de Amortización</label>
+                                    <p className="text-white font-medium">{AMORTIZATION_METHOD_LABELS[bondData.step2?.amortizationMethod || 'americano']}</p>
+                                </div>
                                 <div>
                                     <label className="text-gray-400 text-sm">Indexado a Inflación</label>
                                     <p className="text-white font-medium">{bondData.step2?.indexadoInflacion ? "Sí" : "No"}</p>
@@ -306,6 +387,14 @@ export default function Step4Dynamic({ bondData, bondId }: Step4Props) {
                                         <p className="text-white font-medium">{bondData.step2?.inflacionAnual || "0"}%</p>
                                     </div>
                                 )}
+                                {bondData.step2?.gracePeriodsConfig?.some(config => config.graceType === 'T') && (
+                                    <div>
+                                        <label className="text-gray-400 text-sm">Cupón en Gracia Total</label>
+                                        <p className="text-white font-medium">
+                                            {(bondData.step2?.capitalizarGraciaTotal ?? true) ? "Se capitaliza" : "No se capitaliza"}
+                                        </p>
+                                    </div>
+                                )}
                             </div>
                         </div>
                     )}
@@ -9,12 +9,20 @@ import {
   ArrowRight,
   Check,
   RocketIcon,
+  Upload,
+  Download,
+  AlertCircle,
+  Cloud,
 } from 'lucide-react';
 
 import Step1Dynamic from './components/Step1Dynamic';
 import Step2Dynamic from './components/Step2Dynamic';
 import Step3Dynamic from './components/Step3Dynamic';
 import Step4Dynamic from './components/Step4Dynamic';
+import { ExcelFormulas } from '@/lib/services/calculations/ExcelFormulas';
+import type { FrequenciaCupon } from '@/lib/types/calculations';
+import { useBondImport, type ImportedBond } from '@/lib/hooks/useBondImport';
+import { useBondDraft } from '@/lib/hooks/useBondDrafts';
 
 // Interfaces de datos
 interface GracePeriodConfig {
@@ -32,18 +40,29 @@ interface BondData {
     fechaEmision: string;
     frecuenciaCupon: string;
     diasPorAno: string;
+    dayCountConvention?: string;
+    mercadoCalendario?: string;
+    businessDayConvention?: string;
   };
   step2?: {
+    instrumentType: string;
     tipoTasa: string;
     periodicidadCapitalizacion: string;
     tasaAnual: string;
     tasaDescuento: string;
+    couponRateType: string;
+    tasasCupon: string[];
+    spreadFlotante: string;
+    tasaMaxima: string;
+    tasaMinima: string;
     indexadoInflacion: boolean;
     inflacionAnual: string;
     primaVencimiento: string;
     impuestoRenta: string;
+    amortizationMethod: string;
     numGracePeriods: number;
     gracePeriodsConfig: GracePeriodConfig[];
+    capitalizarGraciaTotal?: boolean;
   };
   step3?: {
     estructuracionEmisor: string;
@@ -58,6 +77,63 @@ interface BondData {
   };
 }
 
+// Tasas decimales de la plantilla → porcentaje en texto como los inputs del wizard
+const aPorcentaje = (valor?: number) => valor === undefined ? '' : parseFloat((valor * 100).toFixed(6)).toString();
+
+// Precarga los pasos 1-3 con un bono importado desde Excel/CSV
+const bondDataFromImport = (bono: ImportedBond): BondData => {
+  const ultimaGracia = bono.graciaSerie.reduce((ultima, gracia, i) => gracia !== 'S' ? i + 1 : ultima, 0);
+
+  return {
+    step1: {
+      name: bono.name,
+      codigoIsin: bono.codigoIsin || '',
+      valorNominal: bono.valorNominal.toString(),
+      valorComercial: bono.valorComercial.toString(),
+      numAnios: bono.numAnios.toString(),
+      fechaEmision: bono.fechaEmision,
+      frecuenciaCupon: bono.frecuenciaCupon,
+      diasPorAno: bono.diasPorAno.toString(),
+    },
+    step2: {
+      instrumentType: 'cupon',
+      tipoTasa: bono.tipoTasa,
+      periodicidadCapitalizacion: bono.periodicidadCapitalizacion,
+      tasaAnual: aPorcentaje(bono.tasaAnual),
+      tasaDescuento: aPorcentaje(bono.tasaDescuento),
+      couponRateType: 'fija',
+      tasasCupon: [],
+      spreadFlotante: '',
+      tasaMaxima: '',
+      tasaMinima: '',
+      // El wizard solo maneja inflación constante: se toma la del primer cupón
+      indexadoInflacion: bono.inflacionSerie.some(inflacion => inflacion !== 0),
+      inflacionAnual: aPorcentaje(bono.inflacionSerie[0] ?? 0),
+      primaVencimiento: aPorcentaje(bono.primaPorcentaje ?? 0),
+      impuestoRenta: aPorcentaje(bono.impuestoRenta),
+      amortizationMethod: 'americano',
+      numGracePeriods: ultimaGracia,
+      gracePeriodsConfig: bono.graciaSerie.map((graceType, i) => ({ couponNumber: i + 1, graceType })),
+    },
+    step3: {
+      estructuracionEmisor: aPorcentaje(bono.estructuracionPorcentaje ?? 0),
+      colocacionEmisor: aPorcentaje(bono.colocacionPorcentaje ?? 0),
+      flotacionEmisor: aPorcentaje(bono.flotacionPorcentaje ?? 0),
+      cavaliEmisor: aPorcentaje(bono.cavaliPorcentaje ?? 0),
+      emisorTotalAbs: '',
+      bonistaTotalAbs: '',
+      totalCostsAbs: '',
+      flotacionBonista: '',
+      cavaliBonista: '',
+    },
+  };
+};
+
+// Los pasos guardan sus valores por defecto al montarse: el borrador se crea recién
+// cuando el emisor escribe algo propio del bono
+const tieneDatosPropios = (data: BondData) =>
+    !!(data.step1?.name || data.step1?.valorNominal || data.step1?.valorComercial);
+
 export default function CreateBondWizard() {
   const router = useRouter();
   const [currentStep, setCurrentStep] = useState(1);
@@ -65,6 +141,11 @@ export default function CreateBondWizard() {
   const [createdBondId, setCreatedBondId] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [emisorProfile, setEmisorProfile] = useState<any>(null);
+  const [importVersion, setImportVersion] = useState(0);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [loadingDraft, setLoadingDraft] = useState(false);
+  const bondImport = useBondImport(emisorProfile?.id || '');
+  const bondDraft = useBondDraft(emisorProfile?.id || '');
 
   useEffect(() => {
     const userRole = localStorage.getItem("userRole");
@@ -77,21 +158,88 @@ export default function CreateBondWizard() {
     if (profileStr) {
       setEmisorProfile(JSON.parse(profileStr));
     }
+  }, [router]);
 
-    const savedData = localStorage.getItem('bondWizardData');
-    if (savedData) {
-      try {
-        setBondData(JSON.parse(savedData));
-      } catch (error) {
-        console.warn('Error parsing saved wizard data:', error);
+  // Retomar un borrador guardado (?draft=<id> desde el dashboard)
+  useEffect(() => {
+    const draftId = new URLSearchParams(window.location.search).get('draft');
+    if (!emisorProfile?.id || !draftId) return;
+
+    setLoadingDraft(true);
+    bondDraft.loadDraft(draftId).then((draft) => {
+      if (draft) {
+        setBondData(draft.data as BondData);
+        setCurrentStep(draft.currentStep);
+        // Los pasos leen bondData al montarse
+        setImportVersion(version => version + 1);
       }
+      setLoadingDraft(false);
+    });
+  }, [emisorProfile?.id, bondDraft.loadDraft]);
+
+  // La URL apunta al borrador para poder recargar o retomarlo en otro dispositivo
+  useEffect(() => {
+    if (bondDraft.draftId) {
+      window.history.replaceState(null, '', `/emisor/create-bond?draft=${bondDraft.draftId}`);
     }
-  }, [router]);
+  }, [bondDraft.draftId]);
+
+  const autosave = (data: BondData, step: number) => {
+    if (createdBondId || (!bondDraft.draftId && !tieneDatosPropios(data))) return;
+    bondDraft.scheduleSave(data as Record<string, unknown>, step);
+  };
 
   const saveData = (stepData: any, step: number) => {
     const newData = { ...bondData, [`step${step}`]: stepData };
     setBondData(newData);
-    localStorage.setItem('bondWizardData', JSON.stringify(newData));
+    autosave(newData, currentStep);
+  };
+
+  const handleImport = async (archivo: File) => {
+    setImportFile(archivo);
+    const result = await bondImport.importFile(archivo, 'validar');
+    if (result?.success && result.bono) {
+      const newData = bondDataFromImport(result.bono);
+      setBondData(newData);
+      bondDraft.saveNow(newData as Record<string, unknown>, 1);
+      // Los pasos leen bondData al montarse: se vuelven a montar con los datos importados
+      setImportVersion(version => version + 1);
+      setCurrentStep(1);
+    }
+  };
+
+  const handleImportAsDraft = async () => {
+    if (!importFile) return;
+
+    const result = await bondImport.importFile(importFile, 'borrador');
+    if (result?.success && result.bondId) {
+      await bondDraft.discardDraft();
+      await runInitialCalculation(result.bondId);
+      router.push(`/emisor/bond/${result.bondId}`);
+    }
+  };
+
+  const importedSerieVariable = !!bondImport.result?.bono &&
+      new Set(bondImport.result.bono.inflacionSerie).size > 1;
+
+  // Cálculo inicial de flujos justo después de la creación
+  const runInitialCalculation = async (newBondId: string) => {
+    console.log(`🚀 Disparando cálculo inicial para el bono ${newBondId}...`);
+    try {
+      const calcResponse = await fetch(`/api/bonds/${newBondId}/calculate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ saveResults: true }) // Asegurarse de que los resultados se guarden
+      });
+      if (!calcResponse.ok) {
+        const calcError = await calcResponse.json();
+        throw new Error(calcError.error || 'El cálculo inicial falló.');
+      }
+      console.log(`✅ Cálculo inicial para ${newBondId} completado.`);
+    } catch (calcError: any) {
+      console.warn(`⚠️ El cálculo inicial falló, pero el bono fue creado. Se podrá recalcular más tarde. Error: ${calcError.message}`);
+      // No relanzar el error para no asustar al usuario. El bono ya está creado.
+    }
   };
 
   const getUserEmisorId = (): string => {
@@ -106,7 +254,8 @@ export default function CreateBondWizard() {
       case 1:
         return bondData.step1?.name && bondData.step1?.valorNominal && bondData.step1?.valorComercial;
       case 2:
-        return bondData.step2?.tasaAnual && bondData.step2?.primaVencimiento && bondData.step2?.impuestoRenta;
+        return (bondData.step2?.instrumentType === 'cupon_cero' || bondData.step2?.tasaAnual) &&
+            bondData.step2?.primaVencimiento && bondData.step2?.impuestoRenta;
       case 3:
         return bondData.step3?.estructuracionEmisor;
       default:
@@ -117,12 +266,14 @@ export default function CreateBondWizard() {
   const handleNext = () => {
     if (canProceedToNext() && currentStep < 4) {
       setCurrentStep(currentStep + 1);
+      autosave(bondData, currentStep + 1);
     }
   };
 
   const handlePrevious = () => {
     if (currentStep > 1) {
       setCurrentStep(currentStep - 1);
+      autosave(bondData, currentStep - 1);
     }
   };
 
@@ -139,21 +290,19 @@ export default function CreateBondWizard() {
       // ✅ --- INICIO DE LA CORRECCIÓN ---
       const numAnios = parseInt(bondData.step1?.numAnios || '0');
       const frecuencia = bondData.step1?.frecuenciaCupon || 'semestral';
+      const diasPorAno = parseInt(bondData.step1?.diasPorAno || '360');
 
-      // 1. Calcular dinámicamente los cupones por año
-      const couponsPerYearMap: { [key: string]: number } = {
-        mensual: 12, bimestral: 6, trimestral: 4,
-        cuatrimestral: 3, semestral: 2, anual: 1
-      };
-      const couponsPerYear = couponsPerYearMap[frecuencia] || 1;
+      // 1. Número de cupones del bono: las series van por cupón
+      const numeroCupones = ExcelFormulas.numeroCupones(
+        ExcelFormulas.periodosPorAno(diasPorAno, ExcelFormulas.frecuenciaCuponDias(frecuencia as FrequenciaCupon)),
+        numAnios
+      );
 
-      // 2. Construir la 'graciaSerie' con la longitud correcta (igual a numAnios)
-      const graciaSerie = Array<'S' | 'P' | 'T'>(numAnios).fill('S');
+      // 2. Construir la 'graciaSerie' con un elemento por cupón
+      const graciaSerie = Array<'S' | 'P' | 'T'>(numeroCupones).fill('S');
       bondData.step2?.gracePeriodsConfig?.forEach((config) => {
-        // Convertir el número de cupón al índice del año correspondiente
-        const yearIndex = Math.floor((config.couponNumber - 1) / couponsPerYear);
-        if (yearIndex >= 0 && yearIndex < numAnios) {
-          graciaSerie[yearIndex] = config.graceType;
+        if (config.couponNumber >= 1 && config.couponNumber <= numeroCupones) {
+          graciaSerie[config.couponNumber - 1] = config.graceType;
         }
       });
       // ✅ --- FIN DE LA CORRECCIÓN ---
@@ -167,17 +316,30 @@ export default function CreateBondWizard() {
         numAnios: numAnios,
         fechaEmision: bondData.step1?.fechaEmision || new Date().toISOString().split('T')[0],
         frecuenciaCupon: frecuencia,
-        diasPorAno: parseInt(bondData.step1?.diasPorAno || '360'),
+        diasPorAno: diasPorAno,
+        dayCountConvention: bondData.step1?.dayCountConvention || undefined,
+        mercadoCalendario: bondData.step1?.mercadoCalendario || undefined,
+        businessDayConvention: bondData.step1?.mercadoCalendario
+            ? bondData.step1?.businessDayConvention || 'none'
+            : 'none',
 
         // Step 2 data
+        instrumentType: bondData.step2?.instrumentType || 'cupon',
         tipoTasa: bondData.step2?.tipoTasa || 'efectiva',
         periodicidadCapitalizacion: bondData.step2?.periodicidadCapitalizacion || 'semestral',
         tasaAnual: parseFloat(bondData.step2?.tasaAnual || '0') / 100,
         tasaDescuento: parseFloat(bondData.step2?.tasaDescuento || '0') / 100,
         primaPorcentaje: parseFloat(bondData.step2?.primaVencimiento || '0') / 100,
         impuestoRenta: parseFloat(bondData.step2?.impuestoRenta || '30') / 100,
+        amortizationMethod: bondData.step2?.amortizationMethod || 'americano',
+        capitalizarGraciaTotal: graciaSerie.includes('T') && (bondData.step2?.capitalizarGraciaTotal ?? true),
+        couponRateType: bondData.step2?.couponRateType || 'fija',
+        tasaCuponSerie: (bondData.step2?.tasasCupon || []).map((tasa) => parseFloat(tasa || '0') / 100),
+        spreadFlotante: bondData.step2?.spreadFlotante ? parseFloat(bondData.step2.spreadFlotante) / 100 : undefined,
+        tasaMaxima: bondData.step2?.tasaMaxima ? parseFloat(bondData.step2.tasaMaxima) / 100 : undefined,
+        tasaMinima: bondData.step2?.tasaMinima ? parseFloat(bondData.step2.tasaMinima) / 100 : undefined,
         inflacionSerie: bondData.step2?.indexadoInflacion
-            ? Array(numAnios).fill(parseFloat(bondData.step2?.inflacionAnual || '0') / 100)
+            ? Array(numeroCupones).fill(parseFloat(bondData.step2?.inflacionAnual || '0') / 100)
             : [],
 
         // Step 3 data
@@ -211,26 +373,10 @@ export default function CreateBondWizard() {
       console.log('✅ Bono creado exitosamente:', newBondId);
       setCreatedBondId(newBondId);
 
-      localStorage.removeItem('bondWizardData');
+      await bondDraft.discardDraft();
 
       // ✅ MEJORA: Disparar el cálculo inicial de flujos justo después de la creación
-      console.log(`🚀 Disparando cálculo inicial para el bono ${newBondId}...`);
-      try {
-        const calcResponse = await fetch(`/api/bonds/${newBondId}/calculate`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ saveResults: true }) // Asegurarse de que los resultados se guarden
-        });
-        if (!calcResponse.ok) {
-          const calcError = await calcResponse.json();
-          throw new Error(calcError.error || 'El cálculo inicial falló.');
-        }
-        console.log(`✅ Cálculo inicial para ${newBondId} completado.`);
-      } catch (calcError: any) {
-        console.warn(`⚠️ El cálculo inicial falló, pero el bono fue creado. Se podrá recalcular más tarde. Error: ${calcError.message}`);
-        // No relanzar el error para no asustar al usuario. El bono ya está creado.
-      }
-
+      await runInitialCalculation(newBondId);
 
     } catch (error: any) {
       console.error('❌ Error en handleSubmit:', error);
@@ -264,7 +410,18 @@ export default function CreateBondWizard() {
           <div className="bg-[#151515] rounded-xl w-full max-w-[960px] overflow-hidden">
             <div className="border-b border-[#2A2A2A] p-6">
               <h1 className="text-2xl font-bold mb-1">Crear Nuevo Bono</h1>
-              <p className="text-gray-400">Complete la información necesaria para configurar su nuevo bono</p>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-gray-400">Complete la información necesaria para configurar su nuevo bono</p>
+                {bondDraft.saveStatus !== 'idle' && (
+                    <span className={`text-xs flex items-center ${bondDraft.saveStatus === 'error' ? 'text-red-400' : 'text-gray-500'}`}>
+                      <Cloud className="mr-1" size={14} />
+                      {bondDraft.saveStatus === 'saving' && 'Guardando borrador...'}
+                      {bondDraft.saveStatus === 'saved' && bondDraft.lastSavedAt &&
+                          `Borrador guardado ${new Date(bondDraft.lastSavedAt).toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })}`}
+                      {bondDraft.saveStatus === 'error' && `No se pudo guardar el borrador: ${bondDraft.error}`}
+                    </span>
+                )}
+              </div>
             </div>
             <div className="px-6 pt-6">
               <div className="flex items-center justify-between mb-2">
@@ -302,9 +459,91 @@ export default function CreateBondWizard() {
             </div>
 
             <div className="px-6 pb-6">
-              {currentStep === 1 && <Step1Dynamic bondData={bondData} saveDataAction={saveData} />}
-              {currentStep === 2 && <Step2Dynamic bondData={bondData} saveDataAction={saveData} />}
-              {currentStep === 3 && <Step3Dynamic bondData={bondData} saveDataAction={saveData} />}
+              {currentStep === 1 && (
+                  <div className="bg-[#1E1E1E] border border-[#2A2A2A] rounded-lg p-4 mb-6">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <h3 className="font-medium">Importar desde Excel/CSV</h3>
+                        <p className="text-sm text-gray-400">
+                          Hoja de cálculo con los datos en E4:E20 o la plantilla CSV
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <a
+                            href="/api/bonds/import"
+                            download
+                            className="px-3 py-2 border border-[#2A2A2A] rounded-lg text-sm text-gray-300 hover:bg-[#2A2A2A] transition flex items-center"
+                        >
+                          <Download className="mr-2" size={14} />
+                          Plantilla CSV
+                        </a>
+                        <label className="px-3 py-2 bg-[#39FF14] text-black rounded-lg text-sm font-medium cursor-pointer hover:shadow-[0_0_8px_rgba(57,255,20,0.47)] transition flex items-center">
+                          <Upload className="mr-2" size={14} />
+                          {bondImport.loading ? 'Importando...' : 'Importar archivo'}
+                          <input
+                              type="file"
+                              accept=".xlsx,.csv"
+                              className="hidden"
+                              disabled={bondImport.loading || !emisorProfile?.id}
+                              onChange={(e) => {
+                                const archivo = e.target.files?.[0];
+                                if (archivo) handleImport(archivo);
+                                e.target.value = '';
+                              }}
+                          />
+                        </label>
+                      </div>
+                    </div>
+
+                    {bondImport.error && (
+                        <p className="text-sm text-red-400 mt-3">{bondImport.error}</p>
+                    )}
+
+                    {bondImport.result && !bondImport.result.success && (
+                        <div className="mt-3">
+                          <p className="text-sm text-red-400 flex items-center mb-2">
+                            <AlertCircle className="mr-2" size={14} />
+                            {importFile?.name} tiene {bondImport.result.errores.length} error(es)
+                          </p>
+                          <ul className="text-sm text-gray-300 space-y-1 max-h-48 overflow-y-auto">
+                            {bondImport.result.errores.map((error, i) => (
+                                <li key={i}>
+                                  <span className="font-mono text-[#39FF14] mr-2">
+                                    {error.celda ?? error.campo}{error.linea ? ` (línea ${error.linea})` : ''}
+                                  </span>
+                                  {error.mensaje}
+                                </li>
+                            ))}
+                          </ul>
+                        </div>
+                    )}
+
+                    {bondImport.result?.success && (
+                        <div className="mt-3 flex flex-wrap items-center justify-between gap-3">
+                          <p className="text-sm text-gray-300">
+                            <Check className="inline mr-1 text-[#39FF14]" size={14} />
+                            Datos de {importFile?.name} cargados en el formulario
+                            {importedSerieVariable && ' (inflación variable: el formulario usa la del primer cupón)'}
+                          </p>
+                          <button
+                              onClick={handleImportAsDraft}
+                              disabled={bondImport.loading}
+                              className="px-3 py-2 border border-[#39FF14] text-[#39FF14] rounded-lg text-sm hover:bg-[#39FF14] hover:text-black transition disabled:opacity-50"
+                          >
+                            Crear como borrador
+                          </button>
+                        </div>
+                    )}
+                  </div>
+              )}
+              {loadingDraft && (
+                  <div className="py-16 flex justify-center">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#39FF14]" />
+                  </div>
+              )}
+              {!loadingDraft && currentStep === 1 && <Step1Dynamic key={importVersion} bondData={bondData} saveDataAction={saveData} />}
+              {!loadingDraft && currentStep === 2 && <Step2Dynamic key={importVersion} bondData={bondData} saveDataAction={saveData} />}
+              {!loadingDraft && currentStep === 3 && <Step3Dynamic key={importVersion} bondData={bondData} saveDataAction={saveData} />}
               {currentStep === 4 && <Step4Dynamic bondData={bondData} bondId={createdBondId} />}
 
               <div className="flex justify-between mt-10">
@@ -22,10 +22,14 @@ import {
   CheckCircle,
   Clock,
   Pause,
+  Upload,
+  FileText,
+  Trash2,
 } from 'lucide-react';
 import { useAuth } from '@/lib/hooks/useAuth';
 import { useEmisorBonds } from '@/lib/hooks/useEmisorBonds';
 import { useDashboardMetrics } from '@/lib/hooks/useDashboardMetrics';
+import { useBondDrafts } from '@/lib/hooks/useBondDrafts';
 
 interface Bond {
   id: string;
@@ -69,6 +73,9 @@ export default function EmisorDashboard() {
     refresh: refreshMetrics,
   } = useDashboardMetrics(user?.emisorProfile?.id || '');
 
+  // Borradores del wizard guardados en el servidor
+  const { drafts, deleteDraft } = useBondDrafts(user?.emisorProfile?.id || '');
+
   // Verificar autenticación con localStorage como fallback
   useEffect(() => {
     if (!authLoading && !user) {
@@ -132,7 +139,11 @@ export default function EmisorDashboard() {
         totalNominal: 0,
         activeBondsCount: 0,
         interestPaidYTD: 0,
+        missedPayments: 0,
+        latePayments: 0,
+        partialPayments: 0,
         nextPaymentAmount: 0,
+        nextPaymentPrincipal: 0,
         nextPaymentDate: null,
       };
     }
@@ -141,7 +152,11 @@ export default function EmisorDashboard() {
       totalNominal: dashboardMetrics.totalNominalValue || 0,
       activeBondsCount: dashboardMetrics.activeBonds || 0,
       interestPaidYTD: dashboardMetrics.interestPaidYTD || 0,
+      missedPayments: dashboardMetrics.missedPayments || 0,
+      latePayments: dashboardMetrics.latePayments || 0,
+      partialPayments: dashboardMetrics.partialPayments || 0,
       nextPaymentAmount: dashboardMetrics.nextPayment?.amount || 0,
+      nextPaymentPrincipal: dashboardMetrics.nextPayment?.principal || 0,
       nextPaymentDate: dashboardMetrics.nextPayment?.date || null,
     };
   }, [dashboardMetrics]);
@@ -187,6 +202,13 @@ export default function EmisorDashboard() {
               <span className="text-white text-xl font-semibold">BonoApp</span>
             </div>
             <div className="flex items-center space-x-4">
+              <button
+                  onClick={() => router.push("/emisor/import-bonds")}
+                  className="border border-[#39FF14] text-[#39FF14] font-bold px-5 py-2 rounded-lg hover:bg-[#39FF14] hover:text-black transition duration-250"
+              >
+                <Upload className="mr-1 inline" size={16} />
+                Importar Lote
+              </button>
               <button
                   onClick={() => router.push("/emisor/create-bond")}
                   className="bg-[#39FF14] text-black font-bold px-5 py-2 rounded-lg hover:shadow-[0_0_8px_rgba(57,255,20,0.47)] transition duration-250"
@@ -241,11 +263,17 @@ export default function EmisorDashboard() {
                 <span className="text-[#39FF14] text-3xl font-bold">{formatCurrency(kpis.interestPaidYTD)}</span>
               </div>
               <p className="text-xs text-gray-500 mt-1">Desde 01 Ene, {new Date().getFullYear()}</p>
+              {(kpis.missedPayments > 0 || kpis.latePayments > 0 || kpis.partialPayments > 0) && (
+                  <p className="text-xs text-red-400 mt-1">
+                    {kpis.missedPayments} cupones impagos · {kpis.latePayments} pagados con atraso
+                    {" · "}{kpis.partialPayments} pagados en parte
+                  </p>
+              )}
             </div>
 
             <div className="bg-gradient-to-br from-[#1E1E1E] to-[#242424] rounded-xl p-5">
               <div className="flex justify-between items-start mb-4">
-                <h3 className="text-gray-400 font-medium">Próximo pago de cupón</h3>
+                <h3 className="text-gray-400 font-medium">Próximo pago</h3>
                 <Calendar className="text-gray-500" size={20} />
               </div>
               <div className="flex flex-col">
@@ -254,10 +282,52 @@ export default function EmisorDashboard() {
                   {kpis.nextPaymentDate ? formatDate(kpis.nextPaymentDate) : "--"}
                 </span>
               </div>
-              <p className="text-xs text-gray-500 mt-1">Total de todos los bonos</p>
+              <p className="text-xs text-gray-500 mt-1">
+                Total de todos los bonos
+                {kpis.nextPaymentPrincipal !== 0 && ` · incluye ${formatCurrency(kpis.nextPaymentPrincipal)} de principal`}
+              </p>
             </div>
           </div>
 
+          {/* Borradores en progreso */}
+          {drafts.length > 0 && (
+              <div className="bg-[#151515] rounded-xl p-5 mb-8">
+                <h2 className="text-lg font-semibold mb-4">Borradores en progreso</h2>
+                <div className="divide-y divide-[#2A2A2A]">
+                  {drafts.map((draft) => (
+                      <div key={draft.id} className="flex items-center justify-between py-3">
+                        <div className="flex items-center">
+                          <FileText className="text-gray-500 mr-3" size={18} />
+                          <div>
+                            <p className="font-medium">{draft.name || 'Bono sin nombre'}</p>
+                            <p className="text-xs text-gray-500">
+                              Paso {draft.currentStep} de 4 · Guardado {formatDate(draft.updatedAt)}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          <button
+                              onClick={() => router.push(`/emisor/create-bond?draft=${draft.id}`)}
+                              className="text-[#39FF14] text-sm hover:underline"
+                          >
+                            Continuar
+                          </button>
+                          <button
+                              onClick={() => {
+                                if (window.confirm('¿Descartar este borrador?')) deleteDraft(draft.id);
+                              }}
+                              className="text-gray-500 hover:text-red-400 transition"
+                              title="Descartar borrador"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      </div>
+                  ))}
+                </div>
+              </div>
+          )}
+
           {/* Filters */}
           <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 space-y-4 md:space-y-0">
             <div className="relative">
@@ -271,6 +341,8 @@ export default function EmisorDashboard() {
                 <option value="active">Activo</option>
                 <option value="paused">Pausado</option>
                 <option value="completed">Completado</option>
+                <option value="expired">Vencido</option>
+                <option value="cancelled">Cancelado</option>
               </select>
               <ChevronDown
                   className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 pointer-events-none"
@@ -380,12 +452,18 @@ export default function EmisorDashboard() {
                                       ? "bg-yellow-900 text-yellow-400"
                                       : bond.status === "PAUSED"
                                           ? "bg-orange-900 text-orange-400"
-                                          : "bg-red-900 text-red-400"
+                                          : bond.status === "COMPLETED"
+                                              ? "bg-blue-900 text-blue-400"
+                                              : bond.status === "CANCELLED"
+                                                  ? "bg-gray-800 text-gray-400"
+                                                  : "bg-red-900 text-red-400"
                           }`}
                       >
                         {bond.status === "ACTIVE" ? "Activo" :
                             bond.status === "DRAFT" ? "Borrador" :
-                                bond.status === "PAUSED" ? "Pausado" : "Vencido"}
+                                bond.status === "PAUSED" ? "Pausado" :
+                                    bond.status === "COMPLETED" ? "Completado" :
+                                        bond.status === "CANCELLED" ? "Cancelado" : "Vencido"}
                       </span>
                       </td>
                     </tr>
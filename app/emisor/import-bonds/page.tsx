@@ -0,0 +1,216 @@
+// app/emisor/import-bonds/page.tsx
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  LineChartIcon as ChartLine,
+  ArrowLeft,
+  Upload,
+  Download,
+  AlertCircle,
+  CheckCircle,
+  FileSpreadsheet,
+} from 'lucide-react';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { useBondBatchImport } from '@/lib/hooks/useBondBatchImport';
+
+const formatPercent = (value: number | null) =>
+    value === null ? '—' : `${(value * 100).toFixed(5)}%`;
+
+export default function ImportBondsPage() {
+  const router = useRouter();
+  const { user, isLoading: authLoading } = useAuth({ requireRole: 'EMISOR' });
+  const emisorId = user?.emisorProfile?.id || '';
+  const { result, loading, error, previewBatch, importBatch, resetBatch } = useBondBatchImport(emisorId);
+  const [archivo, setArchivo] = useState<File | null>(null);
+
+  const handleFile = async (file: File) => {
+    setArchivo(file);
+    await previewBatch(file);
+  };
+
+  const handleImport = async () => {
+    if (!archivo) return;
+    await importBatch(archivo);
+  };
+
+  const handleReset = () => {
+    setArchivo(null);
+    resetBatch();
+  };
+
+  if (authLoading) {
+    return (
+        <div className="min-h-screen bg-[#0D0D0D] flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#39FF14]" />
+        </div>
+    );
+  }
+
+  const importado = result !== null && !result.dryRun;
+
+  return (
+      <div className="min-h-screen bg-[#0D0D0D] text-white font-inter">
+        <header className="fixed top-0 left-0 w-full bg-black bg-opacity-75 backdrop-blur-md z-50 py-4">
+          <div className="container mx-auto px-6 flex justify-between items-center">
+            <div className="flex items-center">
+              <ChartLine className="text-[#39FF14] text-2xl mr-2" size={24} />
+              <span className="text-white text-xl font-semibold">BonoApp</span>
+            </div>
+            <button
+                onClick={() => router.push("/emisor/dashboard")}
+                className="text-gray-400 hover:text-white transition flex items-center"
+            >
+              <ArrowLeft className="mr-1" size={16} />
+              Volver
+            </button>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-6 pt-24 pb-8">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2">Importar Bonos en Lote</h1>
+            <p className="text-gray-400">
+              Cargue un CSV o JSON con una fila por bono. Se validará cada fila y se calculará su TCEA antes de crearlos.
+            </p>
+          </div>
+
+          <div className="bg-[#151515] rounded-xl p-6 mb-6 flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center">
+              <FileSpreadsheet className="text-[#39FF14] mr-3" size={24} />
+              <div>
+                <p className="font-medium">{archivo ? archivo.name : 'Ningún archivo seleccionado'}</p>
+                <p className="text-sm text-gray-400">Los bonos se crean como borrador</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <a
+                  href={emisorId ? `/api/emisor/${emisorId}/bonds/import` : undefined}
+                  download
+                  className="px-4 py-2 border border-[#2A2A2A] rounded-lg text-sm text-gray-300 hover:bg-[#1E1E1E] transition flex items-center"
+              >
+                <Download className="mr-2" size={14} />
+                Plantilla CSV
+              </a>
+              <label className="px-4 py-2 bg-[#39FF14] text-black rounded-lg text-sm font-medium cursor-pointer hover:shadow-[0_0_8px_rgba(57,255,20,0.47)] transition flex items-center">
+                <Upload className="mr-2" size={14} />
+                {loading ? 'Procesando...' : 'Seleccionar archivo'}
+                <input
+                    type="file"
+                    accept=".csv,.json"
+                    className="hidden"
+                    disabled={loading || !emisorId}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleFile(file);
+                      e.target.value = '';
+                    }}
+                />
+              </label>
+            </div>
+          </div>
+
+          {error && (
+              <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-4 mb-6 flex items-center text-red-400">
+                <AlertCircle className="mr-2" size={16} />
+                {error}
+              </div>
+          )}
+
+          {result && (
+              <div className="bg-[#151515] rounded-xl overflow-hidden">
+                <div className="p-6 border-b border-[#2A2A2A] flex flex-wrap items-center justify-between gap-4">
+                  <div>
+                    <h2 className="text-xl font-semibold">
+                      {importado ? 'Resultado de la importación' : 'Vista previa'}
+                    </h2>
+                    <p className="text-sm text-gray-400">
+                      {result.total} filas · {result.validas} válidas · {result.total - result.validas} con errores
+                      {importado && ` · ${result.creadas} bonos creados`}
+                    </p>
+                  </div>
+                  {importado ? (
+                      <div className="flex gap-3">
+                        <button
+                            onClick={handleReset}
+                            className="px-4 py-2 border border-[#2A2A2A] rounded-lg text-sm text-gray-300 hover:bg-[#1E1E1E] transition"
+                        >
+                          Importar otro archivo
+                        </button>
+                        <button
+                            onClick={() => router.push("/emisor/dashboard")}
+                            className="px-4 py-2 bg-[#39FF14] text-black rounded-lg text-sm font-medium"
+                        >
+                          Ir al Dashboard
+                        </button>
+                      </div>
+                  ) : (
+                      <button
+                          onClick={handleImport}
+                          disabled={loading || result.validas === 0}
+                          className="px-4 py-2 bg-[#39FF14] text-black rounded-lg text-sm font-medium hover:shadow-[0_0_8px_rgba(57,255,20,0.47)] transition disabled:bg-gray-600 disabled:text-gray-400"
+                      >
+                        Crear {result.validas} bonos válidos
+                      </button>
+                  )}
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-[#1E1E1E] text-gray-400">
+                    <tr>
+                      <th className="px-4 py-3 text-left">Fila</th>
+                      <th className="px-4 py-3 text-left">Bono</th>
+                      <th className="px-4 py-3 text-left">ISIN</th>
+                      <th className="px-4 py-3 text-right">TCEA Emisor</th>
+                      <th className="px-4 py-3 text-right">TREA Bonista</th>
+                      <th className="px-4 py-3 text-left">Estado</th>
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {result.filas.map((fila) => (
+                        <tr key={fila.fila} className="border-t border-[#2A2A2A] align-top">
+                          <td className="px-4 py-3 text-gray-400">{fila.fila}</td>
+                          <td className="px-4 py-3">{fila.name ?? '—'}</td>
+                          <td className="px-4 py-3 text-gray-400">{fila.codigoIsin ?? '—'}</td>
+                          <td className="px-4 py-3 text-right">{formatPercent(fila.tceaEmisor)}</td>
+                          <td className="px-4 py-3 text-right">{formatPercent(fila.treaBonista)}</td>
+                          <td className="px-4 py-3">
+                            {fila.valido ? (
+                                fila.bondId ? (
+                                    <button
+                                        onClick={() => router.push(`/emisor/bond/${fila.bondId}`)}
+                                        className="text-[#39FF14] flex items-center hover:underline"
+                                    >
+                                      <CheckCircle className="mr-1" size={14} />
+                                      Creado
+                                    </button>
+                                ) : (
+                                    <span className="text-[#39FF14] flex items-center">
+                                      <CheckCircle className="mr-1" size={14} />
+                                      Válido
+                                    </span>
+                                )
+                            ) : (
+                                <ul className="text-red-400 space-y-1">
+                                  {fila.errores.map((e, i) => (
+                                      <li key={i}>
+                                        <span className="font-mono mr-1">{e.campo}:</span>
+                                        {e.mensaje}
+                                      </li>
+                                  ))}
+                                </ul>
+                            )}
+                          </td>
+                        </tr>
+                    ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+          )}
+        </main>
+      </div>
+  );
+}
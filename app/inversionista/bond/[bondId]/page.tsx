@@ -4,6 +4,7 @@ import { useEffect, useState, useRef } from "react"
 import { useRouter, useParams } from "next/navigation"
 import { useAuth } from '@/lib/hooks/useAuth'
 import { useBondDetails } from '@/lib/hooks/useBondDetails'
+import { useInflationSimulation } from '@/lib/hooks/useInflationSimulation'
 import { ArrowLeft, Download } from "lucide-react"
 import Chart from "chart.js/auto"
 import { formatCurrency, formatDate, formatPercent } from "@/utils/format"
@@ -22,9 +23,24 @@ export default function BondDetailPage() {
   const flowChartRef = useRef<HTMLCanvasElement>(null)
   const costChartInstance = useRef<Chart | null>(null)
   const flowChartInstance = useRef<Chart | null>(null)
+  const fanChartRef = useRef<HTMLCanvasElement>(null)
+  const fanChartInstance = useRef<Chart | null>(null)
+
+  // Parámetros de la simulación de inflación (en % anual)
+  const [simulationMean, setSimulationMean] = useState("3")
+  const [simulationVolatility, setSimulationVolatility] = useState("1.5")
+  const [simulationReversion, setSimulationReversion] = useState("0.5")
+  const [simulationCount, setSimulationCount] = useState("500")
+  const [simulationSeed, setSimulationSeed] = useState("")
 
   // Hook para datos reales del bono
   const { bondDetails, loading: bondLoading, error: bondError } = useBondDetails(bondId)
+  const {
+    result: simulation,
+    loading: simulationLoading,
+    error: simulationError,
+    simulate: simulateInflation
+  } = useInflationSimulation(bondId)
 
   // Funciones de formateo seguro para manejar valores nulos
   const safeFormatCurrency = (value: number | null | undefined) => {
@@ -174,6 +190,82 @@ export default function BondDetailPage() {
     }
   }, [bondDetails, activeTab])
 
+  // Gráfico de abanico: bandas de percentiles del flujo bonista simulado
+  useEffect(() => {
+    if (fanChartInstance.current) {
+      fanChartInstance.current.destroy()
+      fanChartInstance.current = null
+    }
+    if (activeTab !== "analytics" || !fanChartRef.current || !simulation) return
+
+    const ctx = fanChartRef.current.getContext("2d")
+    if (!ctx) return
+
+    const flows = simulation.flujosBonista.filter((flow) => flow.periodo > 0)
+    const percentileSeries = simulation.percentiles.map((p, i) => ({
+      label: `P${Math.round(p * 100)}`,
+      data: flows.map((flow) => flow.valores[i]),
+    }))
+    // Se pintan en pares desde los extremos: la banda exterior más tenue
+    const half = Math.floor(percentileSeries.length / 2)
+    const bandDatasets = percentileSeries.slice(0, half).flatMap((lower, i) => {
+      const upper = percentileSeries[percentileSeries.length - 1 - i]
+      const alpha = 0.15 + (0.25 * i) / Math.max(half, 1)
+      return [
+        { label: lower.label, data: lower.data, borderColor: "transparent", pointRadius: 0, fill: false },
+        {
+          label: upper.label,
+          data: upper.data,
+          borderColor: "transparent",
+          backgroundColor: `rgba(57, 255, 20, ${alpha.toFixed(2)})`,
+          pointRadius: 0,
+          fill: "-1",
+        },
+      ]
+    })
+
+    fanChartInstance.current = new Chart(ctx, {
+      type: "line",
+      data: {
+        labels: flows.map((flow) => flow.periodo.toString()),
+        datasets: [
+          ...bandDatasets,
+          {
+            label: "Media",
+            data: flows.map((flow) => flow.media),
+            borderColor: "#FF33FF",
+            borderWidth: 2,
+            pointBackgroundColor: "#FF33FF",
+            fill: false,
+            tension: 0.1,
+          },
+        ],
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        scales: {
+          x: {
+            title: { display: true, text: "Periodo", color: "#CCCCCC" },
+            grid: { color: "rgba(42, 42, 42, 0.5)" },
+            ticks: { color: "#CCCCCC" },
+          },
+          y: {
+            title: { display: true, text: "Flujo Bonista (USD)", color: "#CCCCCC" },
+            grid: { color: "rgba(42, 42, 42, 0.5)" },
+            ticks: { color: "#CCCCCC" },
+          },
+        },
+        plugins: {
+          legend: {
+            position: "top",
+            labels: { color: "#CCCCCC", font: { family: "Inter" } },
+          },
+        },
+      },
+    })
+  }, [activeTab, simulation])
+
   // Cleanup gráficos al desmontar
   useEffect(() => {
     return () => {
@@ -183,9 +275,22 @@ export default function BondDetailPage() {
       if (flowChartInstance.current) {
         flowChartInstance.current.destroy()
       }
+      if (fanChartInstance.current) {
+        fanChartInstance.current.destroy()
+      }
     }
   }, [])
 
+  const handleSimulateInflation = async () => {
+    await simulateInflation({
+      media: parseFloat(simulationMean) / 100,
+      volatilidad: parseFloat(simulationVolatility) / 100,
+      reversion: parseFloat(simulationReversion),
+      simulaciones: parseInt(simulationCount, 10),
+      semilla: simulationSeed !== "" ? parseInt(simulationSeed, 10) : undefined,
+    })
+  }
+
   useEffect(() => {
     if (!bondLoading) {
       setLoading(false)
@@ -412,6 +517,55 @@ export default function BondDetailPage() {
                 </div>
               </div>
             </div>
+
+            {bondDetails.options.length > 0 && (
+              <div className="bg-[#151515] rounded-xl p-6 mt-6">
+                <h2 className="text-xl font-semibold mb-4">Opciones de Rescate (Call / Put)</h2>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                  <div className="bg-[#1E1E1E] p-3 rounded-lg">
+                    <div className="text-gray-400 text-xs">Yield-to-Call (primer call)</div>
+                    <div className="text-lg font-semibold">
+                      {bondDetails.yieldToCall !== null ? safeFormatPercent(bondDetails.yieldToCall) : "-"}
+                    </div>
+                  </div>
+                  <div className="bg-[#1E1E1E] p-3 rounded-lg">
+                    <div className="text-gray-400 text-xs">Yield-to-Put (primer put)</div>
+                    <div className="text-lg font-semibold">
+                      {bondDetails.yieldToPut !== null ? safeFormatPercent(bondDetails.yieldToPut) : "-"}
+                    </div>
+                  </div>
+                  <div className="bg-[#1E1E1E] p-3 rounded-lg">
+                    <div className="text-gray-400 text-xs">Yield-to-Worst</div>
+                    <div className="text-lg font-semibold text-[#39FF14]">
+                      {bondDetails.yieldToWorst !== null ? safeFormatPercent(bondDetails.yieldToWorst) : "-"}
+                    </div>
+                  </div>
+                </div>
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="bg-[#1A1A1A] text-gray-400 text-xs">
+                      <th className="py-2 px-3 text-left font-medium">Tipo</th>
+                      <th className="py-2 px-3 text-left font-medium">Fecha de Ejercicio</th>
+                      <th className="py-2 px-3 text-right font-medium">Precio de Ejercicio</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-sm">
+                    {bondDetails.options.map((option) => (
+                      <tr key={`${option.type}-${option.exerciseDate}`} className="border-b border-[#2A2A2A]">
+                        <td className="py-2 px-3">
+                          {option.type === "CALL" ? "Call (rescate del emisor)" : "Put (venta del bonista)"}
+                        </td>
+                        <td className="py-2 px-3">{safeFormatDate(option.exerciseDate)}</td>
+                        <td className="py-2 px-3 text-right">{safeFormatNumber(option.exercisePrice * 100, 2)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs text-gray-400 mt-3">
+                  El Yield-to-Worst es el menor rendimiento entre la TREA al vencimiento y el ejercicio de cada call.
+                </p>
+              </div>
+            )}
           </div>
         )}
 
@@ -421,12 +575,20 @@ export default function BondDetailPage() {
             <div className="flex justify-between items-center mb-6">
               <h2 className="text-xl font-semibold">Mis Flujos de Caja Proyectados</h2>
               <div className="flex space-x-3">
-                <button className="px-4 py-2 bg-[#1E1E1E] border border-[#2A2A2A] rounded-lg hover:bg-[#252525] transition flex items-center text-sm">
+                <a
+                  href={`/api/bonds/${bondId}/flows?role=inversionista&format=csv`}
+                  download
+                  className="px-4 py-2 bg-[#1E1E1E] border border-[#2A2A2A] rounded-lg hover:bg-[#252525] transition flex items-center text-sm"
+                >
                   <span className="mr-2">📄</span> Exportar CSV
-                </button>
-                <button className="px-4 py-2 bg-[#1E1E1E] border border-[#2A2A2A] rounded-lg hover:bg-[#252525] transition flex items-center text-sm">
+                </a>
+                <a
+                  href={`/api/bonds/${bondId}/flows?role=inversionista&format=xlsx`}
+                  download
+                  className="px-4 py-2 bg-[#1E1E1E] border border-[#2A2A2A] rounded-lg hover:bg-[#252525] transition flex items-center text-sm"
+                >
                   <span className="mr-2">📊</span> Exportar XLSX
-                </button>
+                </a>
               </div>
             </div>
             <div className="relative overflow-x-auto">
@@ -440,6 +602,7 @@ export default function BondDetailPage() {
                     <th className="py-2 px-3 text-right font-medium">Infl. Sem.</th>
                     <th className="py-2 px-3 text-center font-medium">P. Gracia</th>
                     <th className="py-2 px-3 text-right font-medium">Bono Indexado</th>
+                    <th className="py-2 px-3 text-right font-medium">Int. Capitalizado</th>
                     <th className="py-2 px-3 text-right font-medium">Cupón (Int.)</th>
                     <th className="py-2 px-3 text-right font-medium">Amort.</th>
                     <th className="py-2 px-3 text-right font-medium">Prima Rec.</th>
@@ -466,6 +629,9 @@ export default function BondDetailPage() {
                       <td className="py-2 px-3 text-right">
                         {flow.indexedBond !== null ? safeFormatCurrency(flow.indexedBond) : "-"}
                       </td>
+                      <td className="py-2 px-3 text-right">
+                        {flow.capitalizedInterest ? safeFormatCurrency(flow.capitalizedInterest) : "-"}
+                      </td>
                       <td className={`py-2 px-3 text-right ${flow.coupon && flow.coupon > 0 ? "text-[#39FF14]" : ""}`}>
                         {flow.coupon !== null ? safeFormatCurrency(flow.coupon) : "-"}
                       </td>
@@ -521,19 +687,143 @@ export default function BondDetailPage() {
                 </p>
               </div>
             </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+              <div className="bg-[#1E1E1E] rounded-lg p-4">
+                <p className="text-gray-400 text-sm mb-1">Duración Efectiva</p>
+                <p className="text-[#39FF14] font-medium text-xl">
+                  {bondDetails.effectiveDuration !== null ? safeFormatNumber(bondDetails.effectiveDuration) : "N/A"}
+                </p>
+              </div>
+              <div className="bg-[#1E1E1E] rounded-lg p-4">
+                <p className="text-gray-400 text-sm mb-1">Convexidad Efectiva</p>
+                <p className="text-[#39FF14] font-medium text-xl">
+                  {bondDetails.effectiveConvexity !== null ? safeFormatNumber(bondDetails.effectiveConvexity) : "N/A"}
+                </p>
+              </div>
+              <div className="bg-[#1E1E1E] rounded-lg p-4">
+                <p className="text-gray-400 text-sm mb-1">DV01 (valor de 1 pb)</p>
+                <p className="text-[#39FF14] font-medium text-xl">
+                  {bondDetails.dv01 !== null ? safeFormatCurrency(bondDetails.dv01) : "N/A"}
+                </p>
+              </div>
+            </div>
+            {bondDetails.discountCurve && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                <div className="bg-[#1E1E1E] rounded-lg p-4">
+                  <p className="text-gray-400 text-sm mb-1">Curva de Descuento</p>
+                  <p className="text-white font-medium text-xl">{bondDetails.discountCurve.name}</p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Al {bondDetails.discountCurve.asOfDate} · interpolación {bondDetails.discountCurve.interpolation}
+                  </p>
+                </div>
+                <div className="bg-[#1E1E1E] rounded-lg p-4">
+                  <p className="text-gray-400 text-sm mb-1">Z-Spread</p>
+                  <p className="text-[#39FF14] font-medium text-xl">
+                    {bondDetails.zSpread !== null ? safeFormatPercent(bondDetails.zSpread) : "N/A"}
+                  </p>
+                </div>
+              </div>
+            )}
+            {bondDetails.keyRateDurations.length > 0 && (
+              <div className="bg-[#1E1E1E] rounded-lg p-4 mb-6">
+                <p className="text-gray-400 text-sm mb-3">Duraciones de Plazo Clave</p>
+                <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
+                  {bondDetails.keyRateDurations.map((krd) => (
+                    <div key={krd.tenor} className="text-center">
+                      <div className="text-xs text-gray-400">{krd.tenor} años</div>
+                      <div className="text-lg font-semibold">{safeFormatNumber(krd.duration)}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
             <div className="bg-[#1A1A1A] rounded-lg p-4 mb-6">
               <h4 className="font-semibold mb-2">Nota sobre Indicadores:</h4>
               <p className="text-sm text-gray-400">
                 El VAN (Valor Actual Neto) indica la ganancia o pérdida de valor presente de su inversión, usando la
                 tasa de descuento del mercado (COK). La TREA (Tasa de Rendimiento Efectivo Anual) o TIR es su
                 rentabilidad anualizada. La Duración y Convexidad miden la sensibilidad del valor de su bono a cambios
-                en las tasas de interés.
+                en las tasas de interés. El DV01 es el cambio en el precio ante un punto básico (0.01%) de variación
+                en la tasa, y las duraciones de plazo clave reparten esa sensibilidad entre los plazos de la curva.
               </p>
             </div>
             <h2 className="text-xl font-semibold mb-6">Gráfico: Mis Flujos de Cupón vs. Evolución del Bono Indexado</h2>
             <div className="h-[400px]">
               <canvas ref={flowChartRef}></canvas>
             </div>
+
+            <h2 className="text-xl font-semibold mt-10 mb-2">Escenarios de Inflación (Monte Carlo)</h2>
+            <p className="text-sm text-gray-400 mb-6">
+              Simula trayectorias de inflación con reversión a la media y muestra la distribución de sus flujos, su TREA
+              y el precio. Use la misma semilla para reproducir un resultado.
+            </p>
+            <div className="flex flex-col md:flex-row md:items-end gap-4 mb-6">
+              {[
+                { label: "Inflación media (%)", value: simulationMean, set: setSimulationMean, step: "0.1" },
+                { label: "Volatilidad (%)", value: simulationVolatility, set: setSimulationVolatility, step: "0.1" },
+                { label: "Reversión a la media", value: simulationReversion, set: setSimulationReversion, step: "0.1" },
+                { label: "Simulaciones", value: simulationCount, set: setSimulationCount, step: "100" },
+                { label: "Semilla (opcional)", value: simulationSeed, set: setSimulationSeed, step: "1" },
+              ].map((field) => (
+                <div key={field.label} className="flex flex-col flex-1">
+                  <label className="text-[#AAAAAA] text-sm mb-1">{field.label}</label>
+                  <input
+                    type="number"
+                    step={field.step}
+                    value={field.value}
+                    onChange={(e) => field.set(e.target.value)}
+                    className="bg-[#1E1E1E] border border-[#2A2A2A] rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-[#39FF14]"
+                  />
+                </div>
+              ))}
+              <button
+                onClick={handleSimulateInflation}
+                disabled={simulationLoading}
+                className="bg-[#39FF14] text-black px-4 py-2 rounded-lg text-sm hover:shadow-[0_0_8px_rgba(57,255,20,0.47)] transition disabled:opacity-50"
+              >
+                {simulationLoading ? "Simulando..." : "Simular"}
+              </button>
+            </div>
+
+            {simulationError && (
+              <p className="text-red-400 text-sm mb-4">{simulationError}</p>
+            )}
+
+            {simulation && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                  {[
+                    { label: "TREA", band: simulation.treaBonista, format: safeFormatPercent },
+                    { label: "Precio", band: simulation.precioActual, format: safeFormatCurrency },
+                  ].map(({ label, band, format }) => (
+                    <div key={label} className="bg-[#1E1E1E] rounded-lg p-4">
+                      <p className="text-gray-400 text-sm mb-2">{label} por percentil</p>
+                      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+                        {simulation.percentiles.map((p, i) => (
+                          <span key={p}>
+                            <span className="text-gray-400">P{Math.round(p * 100)}: </span>
+                            <span className={i === Math.floor(simulation.percentiles.length / 2) ? "text-[#39FF14] font-medium" : ""}>
+                              {format(band.valores[i])}
+                            </span>
+                          </span>
+                        ))}
+                        <span>
+                          <span className="text-gray-400">Media: </span>
+                          {format(band.media)}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mb-4">
+                  {simulation.simulaciones} trayectorias · semilla {simulation.semilla}
+                  {simulation.descartadas > 0 && ` · ${simulation.descartadas} descartadas por no ser calculables`}
+                </p>
+                <div className="h-[400px]">
+                  <canvas ref={fanChartRef}></canvas>
+                </div>
+              </>
+            )}
           </div>
         )}
       </main>
@@ -186,6 +186,15 @@ export default function InversionistaDashboard() {
                     {metricsLoading ? "..." : formatCurrency(metrics?.totalInterestYTD || 0)}
                   </span>
                 </div>
+                {!!metrics?.paymentAlerts.length && (
+                    <p className="text-xs text-red-400 mt-1">
+                      {metrics.paymentAlerts.filter(a => a.status === "MISSED").length} cupones impagos
+                      {" · "}
+                      {metrics.paymentAlerts.filter(a => a.status === "LATE").length} pagados con atraso
+                      {" · "}
+                      {metrics.paymentAlerts.filter(a => a.status === "PARTIAL").length} pagados en parte
+                    </p>
+                )}
               </div>
 
               <div className="bg-[#1E1E1E] rounded-xl p-5">
@@ -5,6 +5,7 @@ import { useRouter, useParams } from "next/navigation"
 import { useAuth } from '@/lib/hooks/useAuth'
 import { useBondDetails } from '@/lib/hooks/useBondDetails'
 import { useInvestInBond } from '@/lib/hooks/useInvestInBond'
+import { usePriceYield } from '@/lib/hooks/usePriceYield'
 import {
   LineChartIcon as ChartLine,
   ArrowLeft,
@@ -16,6 +17,7 @@ import {
   UserCircle,
   ArrowRight,
   Loader2,
+  ArrowLeftRight,
 } from "lucide-react"
 
 interface InvestmentCosts {
@@ -60,10 +62,19 @@ export default function InvestBondWizard() {
   const [confirmationChecked, setConfirmationChecked] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
   const [showSuccessToast, setShowSuccessToast] = useState(false)
+  const [priceYieldMode, setPriceYieldMode] = useState<'precio' | 'rendimiento'>('precio')
+  const [priceYieldValue, setPriceYieldValue] = useState("")
 
   // Hooks para datos reales
   const { bondDetails, loading: bondLoading, error: bondError } = useBondDetails(bondId)
   const { investInBond, loading: investLoading, error: investError } = useInvestInBond()
+  const {
+    result: priceYieldResult,
+    loading: priceYieldLoading,
+    error: priceYieldError,
+    solveYieldFromPrice,
+    solvePriceFromYield,
+  } = usePriceYield(bondId)
 
   // Debug: Log bond details
   useEffect(() => {
@@ -223,6 +234,17 @@ export default function InvestBondWizard() {
     }
   }
 
+  const handleSolvePriceYield = async () => {
+    const value = parseFloat(priceYieldValue)
+    if (isNaN(value)) return
+
+    if (priceYieldMode === 'precio') {
+      await solveYieldFromPrice(value)
+    } else {
+      await solvePriceFromYield(value / 100)
+    }
+  }
+
   const formatCurrency = (amount: number) => {
     if (isNaN(amount) || amount === undefined || amount === null) {
       return 'S/ 0.00'
@@ -401,6 +423,79 @@ export default function InvestBondWizard() {
                         <span className="font-medium">{bondDetails.discountRate}%</span>
                       </div>
                     </div>
+
+                    {/* Price / Yield Solver */}
+                    <div className="border-t border-[#2A2A2A] pt-4 mt-6">
+                      <h3 className="text-sm font-medium mb-3 flex items-center">
+                        <ArrowLeftRight className="mr-2 text-[#39FF14]" size={16} />
+                        Precio ↔ Rendimiento
+                      </h3>
+
+                      <div className="flex flex-col md:flex-row md:items-end gap-3">
+                        <div className="flex flex-col">
+                          <label className="text-[#AAAAAA] text-sm mb-1">Calcular a partir de</label>
+                          <select
+                            value={priceYieldMode}
+                            onChange={(e) => {
+                              setPriceYieldMode(e.target.value as 'precio' | 'rendimiento')
+                              setPriceYieldValue("")
+                            }}
+                            className="bg-[#1E1E1E] border border-[#2A2A2A] rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-[#39FF14]"
+                          >
+                            <option value="precio">Precio (S/)</option>
+                            <option value="rendimiento">Rendimiento (%)</option>
+                          </select>
+                        </div>
+
+                        <div className="flex flex-col flex-1">
+                          <label className="text-[#AAAAAA] text-sm mb-1">
+                            {priceYieldMode === 'precio' ? 'Precio ofrecido' : 'Rendimiento objetivo (TEA %)'}
+                          </label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={priceYieldValue}
+                            onChange={(e) => setPriceYieldValue(e.target.value)}
+                            placeholder={priceYieldMode === 'precio' ? String(bondDetails.commercialPrice ?? '') : String(bondDetails.discountRate ?? '')}
+                            className="bg-[#1E1E1E] border border-[#2A2A2A] rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-[#39FF14]"
+                          />
+                        </div>
+
+                        <button
+                          onClick={handleSolvePriceYield}
+                          disabled={priceYieldLoading || priceYieldValue === ""}
+                          className="bg-[#2A2A2A] text-white px-4 py-2 rounded-lg hover:bg-[#333333] transition duration-250 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center text-sm"
+                        >
+                          {priceYieldLoading ? <Loader2 className="mr-2 animate-spin" size={16} /> : <Calculator className="mr-2" size={16} />}
+                          Resolver
+                        </button>
+                      </div>
+
+                      {priceYieldError && (
+                        <p className="text-red-400 text-sm mt-3">{priceYieldError}</p>
+                      )}
+
+                      {priceYieldResult && !priceYieldError && (
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+                          <div className="flex flex-col">
+                            <span className="text-[#AAAAAA] text-sm">Precio</span>
+                            <span className="font-medium">{formatCurrency(priceYieldResult.precio)}</span>
+                          </div>
+                          <div className="flex flex-col">
+                            <span className="text-[#AAAAAA] text-sm">Rendimiento (YTM)</span>
+                            <span className="font-medium text-[#39FF14]">{(priceYieldResult.rendimiento * 100).toFixed(5)}%</span>
+                          </div>
+                          <div className="flex flex-col">
+                            <span className="text-[#AAAAAA] text-sm">Duración</span>
+                            <span className="font-medium">{priceYieldResult.duracion.toFixed(2)} años</span>
+                          </div>
+                          <div className="flex flex-col">
+                            <span className="text-[#AAAAAA] text-sm">Duración Modificada</span>
+                            <span className="font-medium">{priceYieldResult.duracionModificada.toFixed(2)}</span>
+                          </div>
+                        </div>
+                      )}
+                    </div>
                   </div>
 
                   {/* Investment Card */}
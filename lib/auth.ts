@@ -47,4 +47,14 @@ export async function verifyToken(token: string): Promise<JwtPayload | null> {
         }
         return null;
     }
-}
\ No newline at end of file
+}
+
+// userId del token de la cookie o del header Authorization; null si no hay sesión válida
+export async function getRequestUserId(request: { cookies: { get(name: string): { value: string } | undefined }; headers: Headers }): Promise<string | null> {
+    const token = request.cookies.get('token')?.value ||
+        request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!token) return null;
+
+    const payload = await verifyToken(token);
+    return payload?.userId ?? null;
+}
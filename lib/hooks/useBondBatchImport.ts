@@ -0,0 +1,73 @@
+import { useState } from 'react'
+
+export interface BondBatchRowResult {
+  fila: number
+  name: string | null
+  codigoIsin: string | null
+  valido: boolean
+  errores: { campo: string; mensaje: string }[]
+  tceaEmisor: number | null
+  treaBonista: number | null
+  bondId?: string
+}
+
+export interface BondBatchResponse {
+  success: boolean
+  emisorId: string
+  dryRun: boolean
+  total: number
+  validas: number
+  creadas: number
+  filas: BondBatchRowResult[]
+}
+
+export function useBondBatchImport(emisorId: string) {
+  const [result, setResult] = useState<BondBatchResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const sendBatch = async (archivo: File, dryRun: boolean): Promise<BondBatchResponse | null> => {
+    if (!emisorId) return null
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const formData = new FormData()
+      formData.append('archivo', archivo)
+
+      const response = await fetch(`/api/emisor/${emisorId}/bonds/import?dryRun=${dryRun}`, {
+        method: 'POST',
+        body: formData,
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || `Error ${response.status}`)
+      }
+
+      setResult(data)
+      return data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Error desconocido'
+      setError(errorMessage)
+      setResult(null)
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Vista previa: valida filas y calcula TCEA sin crear bonos
+  const previewBatch = (archivo: File) => sendBatch(archivo, true)
+
+  // Crea las filas válidas del mismo archivo
+  const importBatch = (archivo: File) => sendBatch(archivo, false)
+
+  const resetBatch = () => {
+    setResult(null)
+    setError(null)
+  }
+
+  return { result, loading, error, previewBatch, importBatch, resetBatch }
+}
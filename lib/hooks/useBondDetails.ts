@@ -36,7 +36,28 @@ interface BondDetails {
   duration: number
   convexity: number
   modifiedDuration: number
+  effectiveDuration: number | null
+  effectiveConvexity: number | null
+  dv01: number | null
+  keyRateDurations: Array<{
+    tenor: number
+    duration: number
+  }>
   trea: number
+  yieldToCall: number | null
+  yieldToPut: number | null
+  yieldToWorst: number | null
+  zSpread: number | null
+  discountCurve: {
+    name: string
+    asOfDate: string
+    interpolation: string
+  } | null
+  options: Array<{
+    type: 'CALL' | 'PUT'
+    exerciseDate: string
+    exercisePrice: number
+  }>
   costs: {
     placement: number
     flotation: number
@@ -49,6 +70,7 @@ interface BondDetails {
     semesterInflation: number | null
     gracePeriod: string | null
     indexedBond: number | null
+    capitalizedInterest: number | null
     coupon: number | null
     amortization: number | null
     premium: number | null
@@ -102,6 +124,7 @@ export function useBondDetails(bondId: string) {
               semesterInflation: flow.inflacionSemestral,
               gracePeriod: flow.periodoGracia,
               indexedBond: flow.bonoIndexado,
+              capitalizedInterest: flow.interesCapitalizado ?? null,
               coupon: flow.cupon,
               amortization: flow.amortizacion,
               premium: flow.prima,
@@ -123,6 +146,7 @@ export function useBondDetails(bondId: string) {
               semesterInflation: null,
               gracePeriod: null,
               indexedBond: null,
+              capitalizedInterest: null,
               coupon: null,
               amortization: null,
               premium: null,
@@ -171,7 +195,28 @@ export function useBondDetails(bondId: string) {
           duration: bondData.bond.financialMetrics?.duracion || 0,
           convexity: bondData.bond.financialMetrics?.convexidad || 0,
           modifiedDuration: bondData.bond.financialMetrics?.duracionModificada || 0,
+          effectiveDuration: bondData.bond.financialMetrics?.duracionEfectiva ?? null,
+          effectiveConvexity: bondData.bond.financialMetrics?.convexidadEfectiva ?? null,
+          dv01: bondData.bond.financialMetrics?.dv01 ?? null,
+          keyRateDurations: (bondData.bond.financialMetrics?.duracionesClave || []).map((krd: any) => ({
+            tenor: krd.plazo,
+            duration: krd.duracion
+          })),
           trea: bondData.bond.financialMetrics?.tcea || 0,
+          yieldToCall: bondData.bond.rendimientosBonista?.ytc ?? null,
+          yieldToPut: bondData.bond.rendimientosBonista?.ytp ?? null,
+          yieldToWorst: bondData.bond.rendimientosBonista?.ytw ?? null,
+          zSpread: bondData.bond.rendimientosBonista?.zSpread ?? null,
+          discountCurve: bondData.bond.curvaDescuento ? {
+            name: bondData.bond.curvaDescuento.nombre,
+            asOfDate: bondData.bond.curvaDescuento.fechaReferencia.split('T')[0],
+            interpolation: bondData.bond.curvaDescuento.interpolacion
+          } : null,
+          options: (bondData.bond.opciones || []).map((opcion: any) => ({
+            type: opcion.tipo,
+            exerciseDate: opcion.fechaEjercicio.split('T')[0],
+            exercisePrice: opcion.precioEjercicio
+          })),
           costs: {
             placement: (bondData.bond.costs?.colocacionPorcentaje || 0) * bondData.bond.valorNominal,
             flotation: (bondData.bond.costs?.flotacionPorcentaje || 0) * bondData.bond.valorNominal,
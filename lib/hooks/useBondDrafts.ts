@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+export interface BondDraftSummary {
+  id: string
+  name: string | null
+  currentStep: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface BondDraft extends BondDraftSummary {
+  data: Record<string, unknown>
+}
+
+export type DraftSaveStatus = 'idle' | 'saving' | 'saved' | 'error'
+
+// Espera tras el último cambio antes de guardar
+const AUTOSAVE_DELAY_MS = 1500
+
+const readError = async (response: Response) => {
+  const data = await response.json().catch(() => ({}))
+  return data.error || `Error ${response.status}`
+}
+
+/**
+ * Borradores del wizard guardados en el servidor (listado del dashboard)
+ */
+export function useBondDrafts(emisorId: string) {
+  const [drafts, setDrafts] = useState<BondDraftSummary[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadDrafts = useCallback(async () => {
+    if (!emisorId) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/emisor/${emisorId}/drafts`)
+      if (!response.ok) {
+        throw new Error(await readError(response))
+      }
+
+      const data = await response.json()
+      setDrafts(data.drafts)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido')
+    } finally {
+      setLoading(false)
+    }
+  }, [emisorId])
+
+  const deleteDraft = async (draftId: string) => {
+    try {
+      const response = await fetch(`/api/emisor/${emisorId}/drafts/${draftId}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error(await readError(response))
+      }
+      setDrafts(prev => prev.filter(draft => draft.id !== draftId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido')
+    }
+  }
+
+  useEffect(() => {
+    loadDrafts()
+  }, [loadDrafts])
+
+  return { drafts, loading, error, loadDrafts, deleteDraft }
+}
+
+/**
+ * Autosave del wizard: el primer guardado crea el borrador y los siguientes lo reemplazan
+ */
+export function useBondDraft(emisorId: string, initialDraftId: string | null = null) {
+  const [draftId, setDraftId] = useState<string | null>(initialDraftId)
+  const [saveStatus, setSaveStatus] = useState<DraftSaveStatus>('idle')
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Refs para que los guardados en cola usen el id recién creado y no creen dos borradores
+  const draftIdRef = useRef<string | null>(initialDraftId)
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve())
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const pendingRef = useRef<{ data: Record<string, unknown>; currentStep: number } | null>(null)
+
+  const saveNow = useCallback((data: Record<string, unknown>, currentStep: number) => {
+    const save = async () => {
+      if (!emisorId) return null
+
+      try {
+        setSaveStatus('saving')
+        setError(null)
+
+        const id = draftIdRef.current
+        const response = await fetch(
+          id ? `/api/emisor/${emisorId}/drafts/${id}` : `/api/emisor/${emisorId}/drafts`,
+          {
+            method: id ? 'PUT' : 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ data, currentStep }),
+          }
+        )
+        if (!response.ok) {
+          throw new Error(await readError(response))
+        }
+
+        const { draft } = await response.json()
+        draftIdRef.current = draft.id
+        setDraftId(draft.id)
+        setLastSavedAt(draft.updatedAt)
+        setSaveStatus('saved')
+        return draft as BondDraftSummary
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Error desconocido')
+        setSaveStatus('error')
+        return null
+      }
+    }
+
+    const pending = queueRef.current.then(save)
+    queueRef.current = pending
+    return pending
+  }, [emisorId])
+
+  const scheduleSave = useCallback((data: Record<string, unknown>, currentStep: number) => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+    pendingRef.current = { data, currentStep }
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null
+      pendingRef.current = null
+      saveNow(data, currentStep)
+    }, AUTOSAVE_DELAY_MS)
+  }, [saveNow])
+
+  const loadDraft = useCallback(async (id: string): Promise<BondDraft | null> => {
+    try {
+      setError(null)
+
+      const response = await fetch(`/api/emisor/${emisorId}/drafts/${id}`)
+      if (!response.ok) {
+        throw new Error(await readError(response))
+      }
+
+      const { draft } = await response.json()
+      draftIdRef.current = draft.id
+      setDraftId(draft.id)
+      setLastSavedAt(draft.updatedAt)
+      setSaveStatus('saved')
+      return draft
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido')
+      return null
+    }
+  }, [emisorId])
+
+  // Al crear el bono (o descartar) el borrador deja de existir
+  const discardDraft = useCallback(async () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+    pendingRef.current = null
+    await queueRef.current
+
+    const id = draftIdRef.current
+    draftIdRef.current = null
+    setDraftId(null)
+    setSaveStatus('idle')
+    setLastSavedAt(null)
+    if (!id) return
+
+    await fetch(`/api/emisor/${emisorId}/drafts/${id}`, { method: 'DELETE' }).catch(() => null)
+  }, [emisorId])
+
+  // Al salir del wizard se guarda el último cambio aún en espera
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+    if (pendingRef.current) saveNow(pendingRef.current.data, pendingRef.current.currentStep)
+  }, [saveNow])
+
+  return { draftId, saveStatus, lastSavedAt, error, scheduleSave, saveNow, loadDraft, discardDraft }
+}
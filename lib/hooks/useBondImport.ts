@@ -0,0 +1,89 @@
+import { useState } from 'react'
+
+export interface BondImportError {
+  celda: string | null
+  linea?: number
+  campo: string
+  mensaje: string
+}
+
+// Datos en el formato de POST /api/bonds (tasas como decimal)
+export interface ImportedBond {
+  name: string
+  codigoIsin?: string
+  valorNominal: number
+  valorComercial: number
+  numAnios: number
+  fechaEmision: string
+  frecuenciaCupon: string
+  diasPorAno: number
+  tipoTasa: string
+  periodicidadCapitalizacion: string
+  tasaAnual: number
+  tasaDescuento: number
+  impuestoRenta: number
+  primaPorcentaje?: number
+  estructuracionPorcentaje?: number
+  colocacionPorcentaje?: number
+  flotacionPorcentaje?: number
+  cavaliPorcentaje?: number
+  inflacionSerie: number[]
+  graciaSerie: ('S' | 'P' | 'T')[]
+}
+
+export interface BondImportResponse {
+  success: boolean
+  bondId?: string
+  bono: ImportedBond | null
+  errores: BondImportError[]
+}
+
+export function useBondImport(emisorId: string) {
+  const [result, setResult] = useState<BondImportResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // 'validar' solo revisa la plantilla; 'borrador' además crea el bono en DRAFT
+  const importFile = async (archivo: File, modo: 'validar' | 'borrador' = 'validar'): Promise<BondImportResponse | null> => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const formData = new FormData()
+      formData.append('archivo', archivo)
+      formData.append('emisorId', emisorId)
+      formData.append('modo', modo)
+
+      const response = await fetch('/api/bonds/import', { method: 'POST', body: formData })
+      const data = await response.json()
+
+      // 422 trae los errores por celda
+      if (!response.ok && !data.errores) {
+        throw new Error(data.error || `Error ${response.status}`)
+      }
+
+      const importResult: BondImportResponse = {
+        success: response.ok,
+        bondId: data.bondId,
+        bono: data.bono ?? null,
+        errores: data.errores ?? [],
+      }
+      setResult(importResult)
+      return importResult
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Error desconocido'
+      setError(errorMessage)
+      setResult(null)
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const resetImport = () => {
+    setResult(null)
+    setError(null)
+  }
+
+  return { result, loading, error, importFile, resetImport }
+}
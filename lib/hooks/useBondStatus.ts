@@ -1,12 +1,38 @@
 import { useState, useCallback } from 'react';
 
-type BondStatus = 'DRAFT' | 'ACTIVE' | 'PAUSED' | 'COMPLETED';
+type BondStatus = 'DRAFT' | 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'CANCELLED' | 'EXPIRED';
+
+// Transición disponible para el emisor (GET /api/bonds/[bondId]/status)
+export interface BondStatusTransition {
+    status: BondStatus;
+    permitida: boolean;
+    error?: { code: string; message: string };
+}
 
 export function useBondStatus(bondId: string) {
     const [isUpdating, setIsUpdating] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [transitions, setTransitions] = useState<BondStatusTransition[]>([]);
+
+    const loadTransitions = useCallback(async () => {
+        try {
+            const response = await fetch(`/api/bonds/${bondId}/status`);
+            const result = await response.json();
+
+            if (!response.ok) {
+                throw new Error(result.error || 'Error obteniendo transiciones');
+            }
 
-    const updateStatus = useCallback(async (newStatus: BondStatus) => {
+            setTransitions(result.transiciones);
+            return result.transiciones as BondStatusTransition[];
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Error desconocido';
+            setError(errorMessage);
+            return [];
+        }
+    }, [bondId]);
+
+    const updateStatus = useCallback(async (newStatus: BondStatus, motivo?: string) => {
         setIsUpdating(true);
         setError(null);
 
@@ -16,10 +42,7 @@ export function useBondStatus(bondId: string) {
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({
-                    status: newStatus,
-                    publishedAt: newStatus === 'ACTIVE' ? new Date().toISOString() : null
-                }),
+                body: JSON.stringify({ status: newStatus, motivo }),
             });
 
             const result = await response.json();
@@ -28,6 +51,7 @@ export function useBondStatus(bondId: string) {
                 throw new Error(result.error || 'Error actualizando estado');
             }
 
+            await loadTransitions();
             return result.bond;
 
         } catch (err) {
@@ -37,12 +61,13 @@ export function useBondStatus(bondId: string) {
         } finally {
             setIsUpdating(false);
         }
-    }, [bondId]);
+    }, [bondId, loadTransitions]);
 
     const publishBond = useCallback(() => updateStatus('ACTIVE'), [updateStatus]);
     const pauseBond = useCallback(() => updateStatus('PAUSED'), [updateStatus]);
     const completeBond = useCallback(() => updateStatus('COMPLETED'), [updateStatus]);
     const draftBond = useCallback(() => updateStatus('DRAFT'), [updateStatus]);
+    const cancelBond = useCallback((motivo?: string) => updateStatus('CANCELLED', motivo), [updateStatus]);
 
     return {
         updateStatus,
@@ -50,6 +75,9 @@ export function useBondStatus(bondId: string) {
         pauseBond,
         completeBond,
         draftBond,
+        cancelBond,
+        transitions,
+        loadTransitions,
         isUpdating,
         error,
     };
@@ -0,0 +1,131 @@
+import { useCallback, useState } from 'react'
+
+export interface BondTermChange {
+  campo: string
+  anterior: unknown
+  nuevo: unknown
+}
+
+export interface BondMetricChange {
+  metrica: string
+  anterior: number | null
+  nuevo: number | null
+  variacion: number | null
+}
+
+export interface BondVersionSummary {
+  version: number
+  motivo: string | null
+  userId: string | null
+  createdAt: string
+  cambios: BondTermChange[]
+  calculadoEn: string | null
+}
+
+export interface BondVersionComparison {
+  desde: Omit<BondVersionSummary, 'cambios'>
+  hasta: Omit<BondVersionSummary, 'cambios'>
+  cambios: BondTermChange[]
+  metricas: BondMetricChange[]
+}
+
+// Campos editables; porcentajes como fracción (0.08 = 8%)
+export interface UpdateBondTermsData {
+  name?: string
+  valorNominal?: number
+  valorComercial?: number
+  numAnios?: number
+  fechaEmision?: string
+  tasaAnual?: number
+  primaVencimiento?: number
+  impuestoRenta?: number
+  costes?: {
+    estructuracionPct: number
+    colocacionPct: number
+    flotacionPct: number
+    cavaliPct: number
+    valorComercial?: number
+  }
+  motivo?: string
+}
+
+const readError = async (response: Response) => {
+  const data = await response.json().catch(() => ({}))
+  return data.error || `Error ${response.status}`
+}
+
+/**
+ * Edición de bonos en borrador con historial de versiones de términos
+ */
+export function useBondVersions(bondId: string) {
+  const [versions, setVersions] = useState<BondVersionSummary[]>([])
+  const [comparison, setComparison] = useState<BondVersionComparison | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/bonds/${bondId}/versions`)
+      if (!response.ok) {
+        throw new Error(await readError(response))
+      }
+
+      const data = await response.json()
+      setVersions(data.versiones)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido')
+    } finally {
+      setLoading(false)
+    }
+  }, [bondId])
+
+  const compareVersions = useCallback(async (desde: number, hasta: number) => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/bonds/${bondId}/versions?desde=${desde}&hasta=${hasta}`)
+      if (!response.ok) {
+        throw new Error(await readError(response))
+      }
+
+      setComparison(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido')
+    } finally {
+      setLoading(false)
+    }
+  }, [bondId])
+
+  // Tras guardar se recarga el historial para mostrar la nueva versión
+  const updateTerms = async (terms: UpdateBondTermsData): Promise<{ version: number; cambios: BondTermChange[] } | null> => {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const response = await fetch(`/api/bonds/${bondId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(terms),
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response))
+      }
+
+      const data = await response.json()
+      await loadVersions()
+      return { version: data.version, cambios: data.cambios }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido')
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return { versions, comparison, loading, saving, error, loadVersions, compareVersions, updateTerms }
+}
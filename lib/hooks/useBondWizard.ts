@@ -1,5 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useCreateBond } from './useCreateBond';
+import { useBondDraft } from './useBondDrafts';
 
 interface WizardStep {
     isValid: boolean;
@@ -7,12 +8,12 @@ interface WizardStep {
 }
 
 interface UseBondWizardOptions {
-    persistKey?: string;
+    draftId?: string | null;     // Borrador del servidor a retomar
     onComplete?: (bondId: string) => void;
 }
 
 export function useBondWizard(emisorId: string, options: UseBondWizardOptions = {}) {
-    const { persistKey = 'bondWizardData', onComplete } = options;
+    const { draftId: initialDraftId = null, onComplete } = options;
 
     const [currentStep, setCurrentStep] = useState(1);
     const [steps, setSteps] = useState<Record<number, WizardStep>>({
@@ -22,35 +23,44 @@ export function useBondWizard(emisorId: string, options: UseBondWizardOptions =
         4: { isValid: false, data: {} },
     });
 
+    // Solo se guarda en el servidor tras un cambio del usuario
+    const [isDirty, setIsDirty] = useState(false);
+
     const { createBond, isCreating, error, createdBondId } = useCreateBond({
         onSuccess: onComplete,
     });
 
-    // Cargar datos persistidos
+    const { draftId, saveStatus, scheduleSave, loadDraft, discardDraft } = useBondDraft(emisorId, initialDraftId);
+
+    // Retomar el borrador (mismo formato { step1, step2, step3 } que la página del wizard)
     useEffect(() => {
-        if (typeof window !== 'undefined') {
-            const saved = localStorage.getItem(persistKey);
-            if (saved) {
-                try {
-                    const parsedData = JSON.parse(saved);
-                    setSteps(parsedData.steps || steps);
-                    setCurrentStep(parsedData.currentStep || 1);
-                } catch (e) {
-                    console.warn('Error parsing saved wizard data:', e);
-                }
-            }
-        }
-    }, [persistKey, steps]);
-
-    // Persistir datos
-    const persistData = useCallback(() => {
-        if (typeof window !== 'undefined') {
-            localStorage.setItem(persistKey, JSON.stringify({
-                steps,
-                currentStep,
-            }));
-        }
-    }, [steps, currentStep, persistKey]);
+        if (!emisorId || !initialDraftId) return;
+
+        loadDraft(initialDraftId).then(draft => {
+            if (!draft) return;
+            setSteps(prev => {
+                const loaded = { ...prev };
+                [1, 2, 3].forEach(n => {
+                    loaded[n] = {
+                        data: draft.data[`step${n}`] ?? {},
+                        isValid: n < draft.currentStep,
+                    };
+                });
+                return loaded;
+            });
+            setCurrentStep(draft.currentStep);
+        });
+    }, [emisorId, initialDraftId, loadDraft]);
+
+    // Autosave
+    useEffect(() => {
+        if (!isDirty) return;
+        scheduleSave({
+            step1: steps[1].data,
+            step2: steps[2].data,
+            step3: steps[3].data,
+        }, currentStep);
+    }, [isDirty, steps, currentStep, scheduleSave]);
 
     // Actualizar step
     const updateStep = useCallback((stepNumber: number, data: any, isValid: boolean) => {
@@ -58,30 +68,27 @@ export function useBondWizard(emisorId: string, options: UseBondWizardOptions =
             ...prev,
             [stepNumber]: { data, isValid }
         }));
-        persistData();
-    }, [persistData]);
+        setIsDirty(true);
+    }, []);
 
     // Navegación
     const goToStep = useCallback((stepNumber: number) => {
         if (stepNumber >= 1 && stepNumber <= 4) {
             setCurrentStep(stepNumber);
-            persistData();
         }
-    }, [persistData]);
+    }, []);
 
     const nextStep = useCallback(() => {
         if (currentStep < 4 && steps[currentStep]?.isValid) {
             setCurrentStep(prev => prev + 1);
-            persistData();
         }
-    }, [currentStep, steps, persistData]);
+    }, [currentStep, steps]);
 
     const previousStep = useCallback(() => {
         if (currentStep > 1) {
             setCurrentStep(prev => prev - 1);
-            persistData();
         }
-    }, [currentStep, persistData]);
+    }, [currentStep]);
 
     // Validación y envío
     const canProceed = useCallback((step: number) => {
@@ -105,13 +112,12 @@ export function useBondWizard(emisorId: string, options: UseBondWizardOptions =
 
         const result = await createBond(bondData);
 
-        // Limpiar datos persistidos
-        if (typeof window !== 'undefined') {
-            localStorage.removeItem(persistKey);
-        }
+        // El bono ya existe: el borrador no se vuelve a guardar
+        setIsDirty(false);
+        await discardDraft();
 
         return result;
-    }, [steps, emisorId, createBond, persistKey]);
+    }, [steps, emisorId, createBond, discardDraft]);
 
     return {
         // Estado actual
@@ -126,6 +132,8 @@ export function useBondWizard(emisorId: string, options: UseBondWizardOptions =
 
         // Gestión de datos
         updateStep,
+        draftId,
+        saveStatus,
 
         // Envío
         submitBond,
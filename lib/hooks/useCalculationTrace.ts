@@ -0,0 +1,59 @@
+import { useState } from 'react'
+
+export interface CalculationTraceEntry {
+  seccion: 'intermedios' | 'flujos' | 'metricas'
+  periodo: number | null
+  celda: string
+  campo: string
+  formula: string
+  entradas: Record<string, number | string | null>
+  resultado: number | string | null
+}
+
+export interface CalculationTraceResponse {
+  success: boolean
+  bondId: string
+  bondName: string
+  traza: CalculationTraceEntry[]
+}
+
+export function useCalculationTrace(bondId: string) {
+  const [result, setResult] = useState<CalculationTraceResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // La traza completa se pide una vez; cada fila se filtra en el cliente
+  const loadTrace = async (): Promise<CalculationTraceResponse | null> => {
+    if (result) return result
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/bonds/${bondId}/trace`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || `Error ${response.status}`)
+      }
+
+      setResult(data)
+      return data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Error desconocido'
+      setError(errorMessage)
+      setResult(null)
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Tras recalcular el bono la traza guardada ya no corresponde
+  const resetTrace = () => setResult(null)
+
+  const entriesFor = (seccion: CalculationTraceEntry['seccion'], periodo: number | null = null) =>
+    (result?.traza ?? []).filter(entry => entry.seccion === seccion && entry.periodo === periodo)
+
+  return { result, loading, error, loadTrace, resetTrace, entriesFor }
+}
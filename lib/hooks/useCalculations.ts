@@ -1,6 +1,7 @@
 // lib/hooks/useCalculations.ts
 import { useState, useEffect, useCallback } from 'react';
 import useSWR from 'swr';
+import { ExcelFormulas } from '@/lib/services/calculations/ExcelFormulas';
 
 /**
  * Custom hooks para manejar cálculos financieros en el frontend
@@ -18,6 +19,10 @@ interface CalculationMetrics {
         duracionModificada: number;
         convexidad: number;
         totalRatiosDecision: number;
+        duracionEfectiva: number;
+        convexidadEfectiva: number;
+        dv01: number;
+        duracionesClave: { plazo: number; duracion: number }[];
     };
     bonista: {
         precioActual: number;
@@ -27,6 +32,10 @@ interface CalculationMetrics {
         duracionModificada: number;
         convexidad: number;
         totalRatiosDecision: number;
+        duracionEfectiva: number;
+        convexidadEfectiva: number;
+        dv01: number;
+        duracionesClave: { plazo: number; duracion: number }[];
     };
 }
 
@@ -290,13 +299,20 @@ export function useCalculationValidation() {
                 errors.tasaAnual = 'Tasa anual debe estar entre 0% y 100%';
             }
 
-            // Validación de series
-            if (inputs.inflacionSerie && inputs.inflacionSerie.length !== inputs.numAnios) {
-                errors.inflacionSerie = `Debe tener ${inputs.numAnios} valores de inflación`;
+            // Validación de series: un valor por cupón
+            const numeroCupones = inputs.frecuenciaCupon && inputs.diasPorAno
+                ? ExcelFormulas.numeroCupones(
+                    ExcelFormulas.periodosPorAno(inputs.diasPorAno, ExcelFormulas.frecuenciaCuponDias(inputs.frecuenciaCupon)),
+                    inputs.numAnios
+                )
+                : inputs.numAnios;
+
+            if (inputs.inflacionSerie && ![numeroCupones, inputs.numAnios].includes(inputs.inflacionSerie.length)) {
+                errors.inflacionSerie = `Debe tener ${numeroCupones} valores de inflación (uno por cupón)`;
             }
 
-            if (inputs.graciaSerie && inputs.graciaSerie.length !== inputs.numAnios) {
-                errors.graciaSerie = `Debe tener ${inputs.numAnios} valores de gracia`;
+            if (inputs.graciaSerie && ![numeroCupones, inputs.numAnios].includes(inputs.graciaSerie.length)) {
+                errors.graciaSerie = `Debe tener ${numeroCupones} valores de gracia (uno por cupón)`;
             }
 
             setValidationErrors(errors);
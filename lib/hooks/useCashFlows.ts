@@ -15,6 +15,7 @@ export interface EmisorCashFlow {
     periodoGracia: string | null;
     bonoCapital: number | null;
     bonoIndexado: number | null;
+    interesCapitalizado: number | null;
     cupon: number | null;
     amortizacion: number | null;
     cuota: number | null;
@@ -31,6 +32,7 @@ export interface InversionistaCashFlow {
     inflacionAnual: number | null;
     inflacionSemestral: number | null;
     bonoIndexado: number | null;
+    interesCapitalizado: number | null;
     cupon: number | null;
     amortizacion: number | null;
     flujoBonista: number | null;
@@ -168,31 +170,34 @@ export function useCashFlows<R extends Role>(
         }
     }, [bondId, mutate]);
 
-    // Función para descargar CSV
-    const downloadCSV = useCallback(async () => {
+    // Función para descargar CSV o el libro .xlsx con la hoja de cálculo
+    const downloadFile = useCallback(async (fileFormat: 'csv' | 'xlsx') => {
         if (!bondId) return;
 
         try {
-            const response = await fetch(`/api/bonds/${bondId}/flows?role=${role}&format=csv`);
+            const response = await fetch(`/api/bonds/${bondId}/flows?role=${role}&format=${fileFormat}`);
 
-            if (!response.ok) throw new Error('Error descargando CSV');
+            if (!response.ok) throw new Error(`Error descargando ${fileFormat.toUpperCase()}`);
 
             const blob = await response.blob();
             const url = URL.createObjectURL(blob);
             const link = document.createElement('a');
             link.href = url;
-            link.download = `flujos_${data?.bondName || bondId}_${role}.csv`;
+            link.download = `flujos_${data?.bondName || bondId}_${role}.${fileFormat}`;
             document.body.appendChild(link);
             link.click();
             document.body.removeChild(link);
             URL.revokeObjectURL(url);
 
         } catch (error) {
-            console.error('Error downloading CSV:', error);
+            console.error(`Error downloading ${fileFormat.toUpperCase()}:`, error);
             throw error;
         }
     }, [bondId, role, data?.bondName]);
 
+    const downloadCSV = useCallback(() => downloadFile('csv'), [downloadFile]);
+    const downloadXLSX = useCallback(() => downloadFile('xlsx'), [downloadFile]);
+
     // ✅ CORRECCIÓN 3: 'flows' tipado con el genérico
     const flows = useMemo(() => {
         if (!data?.flows) return [] as FlowType<R>[];
@@ -217,6 +222,7 @@ export function useCashFlows<R extends Role>(
         // Acciones
         refreshFlows,
         downloadCSV,
+        downloadXLSX,
         mutate,
         // Helpers
         hasFlows: flows.length > 0,
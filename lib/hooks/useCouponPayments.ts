@@ -0,0 +1,104 @@
+import { useCallback, useState } from 'react'
+
+export type CouponScheduleStatus = 'PAID' | 'LATE' | 'PARTIAL' | 'UPCOMING' | 'DUE' | 'MISSED'
+
+export interface CouponScheduleEntry {
+  periodo: number
+  fechaProgramada: string
+  montoPorBono: number
+  interesPorBono: number
+  bonosEnCirculacion: number
+  montoProgramado: number
+  status: CouponScheduleStatus
+  diasAtraso: number
+  pago: {
+    montoPagado: number
+    montoFaltante: number
+    interesPagado: number
+    fechaPago: string
+    referencia: string | null
+  } | null
+}
+
+export interface CouponScheduleResponse {
+  success: boolean
+  bondId: string
+  bondName: string
+  status: string
+  calendario: CouponScheduleEntry[]
+  resumen: {
+    pagados: number
+    tardios: number
+    parciales: number
+    pendientes: number
+    impagos: number
+    totalPagado: number
+  }
+}
+
+export interface ConfirmCouponPaymentData {
+  periodo: number
+  fechaPago: string
+  montoPagado?: number
+  referencia?: string
+}
+
+export function useCouponPayments(bondId: string) {
+  const [schedule, setSchedule] = useState<CouponScheduleResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [confirming, setConfirming] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSchedule = useCallback(async (): Promise<CouponScheduleResponse | null> => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/bonds/${bondId}/coupons`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || `Error ${response.status}`)
+      }
+
+      setSchedule(data)
+      return data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Error desconocido'
+      setError(errorMessage)
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }, [bondId])
+
+  // Tras confirmar se recarga el calendario para reflejar el nuevo estado
+  const confirmPayment = async (payment: ConfirmCouponPaymentData): Promise<boolean> => {
+    try {
+      setConfirming(true)
+      setError(null)
+
+      const response = await fetch(`/api/bonds/${bondId}/coupons`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payment),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || `Error ${response.status}`)
+      }
+
+      await loadSchedule()
+      return true
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Error desconocido'
+      setError(errorMessage)
+      return false
+    } finally {
+      setConfirming(false)
+    }
+  }
+
+  return { schedule, loading, confirming, error, loadSchedule, confirmPayment }
+}
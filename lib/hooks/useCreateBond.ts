@@ -11,8 +11,12 @@ interface CreateBondData {
     fechaEmision: string;
     frecuenciaCupon: 'mensual' | 'bimestral' | 'trimestral' | 'cuatrimestral' | 'semestral' | 'anual';
     diasPorAno: number;
+    dayCountConvention?: '30/360' | 'ACT/360' | 'ACT/365' | 'ACT/ACT';
+    mercadoCalendario?: string;
+    businessDayConvention?: 'none' | 'following' | 'modified_following' | 'preceding';
 
     // Step 2
+    instrumentType?: 'cupon' | 'cupon_cero';
     tipoTasa: 'nominal' | 'efectiva';
     periodicidadCapitalizacion: string;
     tasaAnual: number;
@@ -20,6 +24,13 @@ interface CreateBondData {
     inflacionSerie: number[];
     primaPorcentaje: number;
     impuestoRenta: number;
+    amortizationMethod?: 'americano' | 'frances' | 'aleman';
+    capitalizarGraciaTotal?: boolean;
+    couponRateType?: 'fija' | 'escalonada' | 'flotante';
+    tasaCuponSerie?: number[];
+    spreadFlotante?: number;
+    tasaMaxima?: number;
+    tasaMinima?: number;
 
     // Step 3
     estructuracionPorcentaje: number;
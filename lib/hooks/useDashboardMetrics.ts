@@ -1,19 +1,37 @@
 // lib/hooks/useDashboardMetrics.ts
 import useSWR from 'swr';
 
+// Cupón pagado con atraso, pagado en parte o impago pasados los días de gracia
+export interface CouponPaymentAlert {
+    bondId: string;
+    bondName: string;
+    periodo: number;
+    fechaProgramada: string;
+    status: 'LATE' | 'PARTIAL' | 'MISSED';
+    diasAtraso: number;
+    montoProgramado: number;
+}
+
 interface DashboardMetrics {
     totalBonds: number;
     activeBonds: number;
     totalNominalValue: number;
     averageTCEA: number;
     interestPaidYTD: number;
+    couponsPaidYTD: number;
+    latePayments: number;
+    partialPayments: number;
+    missedPayments: number;
+    paymentAlerts: CouponPaymentAlert[];
     nextPayment: {
         amount: number;
+        principal: number;
         date: string | null;
     };
     draftBonds: number;
     pausedBonds: number;
     completedBonds: number;
+    cancelledBonds: number;
 }
 
 interface DashboardMetricsResponse {
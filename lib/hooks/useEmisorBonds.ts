@@ -26,7 +26,7 @@ interface BondSummary {
 }
 
 interface UseEmisorBondsOptions {
-    status?: 'all' | 'draft' | 'active' | 'paused' | 'completed';
+    status?: 'all' | 'draft' | 'active' | 'paused' | 'completed' | 'expired' | 'cancelled';
     refreshInterval?: number;
 }
 
@@ -0,0 +1,69 @@
+import { useState } from 'react'
+
+export interface PercentileBand {
+  media: number
+  valores: number[]
+}
+
+export interface InflationSimulationResponse {
+  success: boolean
+  bondId: string
+  bondName: string
+  simulaciones: number
+  descartadas: number
+  semilla: number
+  percentiles: number[]
+  inflacion: (PercentileBand & { periodo: number })[]
+  flujosBonista: (PercentileBand & { periodo: number; fecha: string })[]
+  treaBonista: PercentileBand
+  precioActual: PercentileBand
+}
+
+export interface InflationSimulationInput {
+  simulaciones?: number
+  media: number
+  volatilidad: number
+  reversion?: number
+  inflacionInicial?: number
+  semilla?: number
+  percentiles?: number[]
+}
+
+export function useInflationSimulation(bondId: string) {
+  const [result, setResult] = useState<InflationSimulationResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const simulate = async (input: InflationSimulationInput): Promise<InflationSimulationResponse | null> => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/bonds/${bondId}/inflation-simulation`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || `Error ${response.status}`)
+      }
+
+      setResult(data)
+      return data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Error desconocido'
+      setError(errorMessage)
+      setResult(null)
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return { result, loading, error, simulate }
+}
@@ -27,6 +27,15 @@ interface DashboardMetrics {
     amount: number
     date: string
   }>
+  // Cupones cobrados con atraso (LATE), cobrados en parte (PARTIAL) o impagos pasados los días de gracia (MISSED)
+  paymentAlerts: Array<{
+    bondId: string
+    bondName: string
+    periodo: number
+    date: string
+    status: 'LATE' | 'PARTIAL' | 'MISSED'
+    daysLate: number
+  }>
   performanceMetrics: {
     averageTREA: number
     totalReturn: number
@@ -87,6 +96,14 @@ export function useInversionistaDashboardMetrics() {
               amount: payment.couponAmount, // Usar el cupón calculado
               date: payment.nextPayment
             })) || [],
+            paymentAlerts: data.paymentAlerts?.map((alert: any) => ({
+              bondId: alert.bondId,
+              bondName: alert.bondName,
+              periodo: alert.periodo,
+              date: alert.fechaProgramada,
+              status: alert.status,
+              daysLate: alert.diasAtraso
+            })) || [],
             performanceMetrics: {
               averageTREA: data.kpis?.averageReturn || 0,
               totalReturn: data.kpis?.portfolioReturn || 0,
@@ -115,6 +132,7 @@ export function useInversionistaDashboardMetrics() {
             byIndustry: []
           },
           upcomingPayments: [],
+          paymentAlerts: [],
           performanceMetrics: {
             averageTREA: 0,
             totalReturn: 0,
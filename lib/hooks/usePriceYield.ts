@@ -0,0 +1,60 @@
+import { useState } from 'react'
+
+export interface PriceYieldResponse {
+  success: boolean
+  bondId: string
+  bondName: string
+  input: 'precio' | 'rendimiento'
+  precio: number
+  rendimiento: number
+  tasaPeriodica: number
+  duracion: number
+  duracionModificada: number
+  iteraciones: number
+  precioPorcentaje: number | null
+  valorComercial: number
+}
+
+type PriceYieldInput = { precio: number } | { rendimiento: number }
+
+export function usePriceYield(bondId: string) {
+  const [result, setResult] = useState<PriceYieldResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const solve = async (input: PriceYieldInput): Promise<PriceYieldResponse | null> => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/bonds/${bondId}/price-yield`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || `Error ${response.status}`)
+      }
+
+      setResult(data)
+      return data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Error desconocido'
+      setError(errorMessage)
+      setResult(null)
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const solveYieldFromPrice = (precio: number) => solve({ precio })
+  const solvePriceFromYield = (rendimiento: number) => solve({ rendimiento })
+
+  return { result, loading, error, solveYieldFromPrice, solvePriceFromYield }
+}
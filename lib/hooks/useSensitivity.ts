@@ -0,0 +1,78 @@
+import { useState } from 'react'
+
+export type SensitivityParameter = 'tasaAnual' | 'tasaDescuento' | 'inflacion' | 'impuestoRenta' | 'costes'
+
+export interface SensitivityMetrics {
+  precioActual: number
+  utilidadPerdida: number
+  tceaEmisor: number
+  tceaEmisorConEscudo: number
+  treaBonista: number
+  duracion: number
+  duracionModificada: number
+  convexidad: number
+}
+
+export interface SensitivityScenario {
+  parametro: SensitivityParameter
+  desplazamiento: number
+  metricas: SensitivityMetrics | null
+  error?: string
+}
+
+export interface SensitivityResponse {
+  success: boolean
+  bondId: string
+  bondName: string
+  base: SensitivityMetrics
+  escenarios: SensitivityScenario[]
+  matriz?: {
+    filas: { parametro: SensitivityParameter; desplazamientos: number[] }
+    columnas: { parametro: SensitivityParameter; desplazamientos: number[] }
+    metricas: (SensitivityMetrics | null)[][]
+  }
+}
+
+export interface SensitivityInput {
+  parametros: Partial<Record<SensitivityParameter, number[]>>
+  matriz?: { filas: SensitivityParameter; columnas: SensitivityParameter }
+}
+
+export function useSensitivity(bondId: string) {
+  const [result, setResult] = useState<SensitivityResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const analyze = async (input: SensitivityInput): Promise<SensitivityResponse | null> => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/bonds/${bondId}/sensitivity`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || `Error ${response.status}`)
+      }
+
+      setResult(data)
+      return data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Error desconocido'
+      setError(errorMessage)
+      setResult(null)
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return { result, loading, error, analyze }
+}
@@ -6,12 +6,20 @@ import {
     BondStatus,
     FrequenciaCupon,
     TipoTasa,
+    InstrumentType,
+    AmortizationMethod,
+    CouponRateType,
+    BondOptionType,
+    DayCountConvention,
+    BusinessDayConvention,
     // Emisor as PrismaEmisor, // No es estrictamente necesario si usamos Pick en BondWithFullRelations
     BondCosts as PrismaBondCosts,
     Prisma
 } from '../../lib/generated/client';
 import { z } from 'zod';
 import { Decimal } from 'decimal.js';
+import { ExcelFormulas } from '../services/calculations/ExcelFormulas';
+import { FrequenciaCupon as FrecuenciaCuponCalculo } from '../types/calculations';
 
 // --- ESQUEMAS DE VALIDACIÓN ZOD ---
 export const CreateBondSchema = z.object({
@@ -25,14 +33,36 @@ export const CreateBondSchema = z.object({
     fechaEmision: z.coerce.date(),
     frecuenciaCupon: z.nativeEnum(FrequenciaCupon),
     baseDias: z.union([z.literal(360), z.literal(365)]),
+    dayCountConvention: z.nativeEnum(DayCountConvention).optional(),
+    mercadoCalendario: z.string().trim().toUpperCase().optional(),
+    businessDayConvention: z.nativeEnum(BusinessDayConvention).default(BusinessDayConvention.NONE),
 
+    instrumentType: z.nativeEnum(InstrumentType).default(InstrumentType.CUPON),
     tipoTasa: z.nativeEnum(TipoTasa),
     periodicidadCapitalizacion: z.string().min(1, 'Periodicidad de capitalización requerida'),
     tasaAnual: z.number().min(0).max(1),
+    couponRateType: z.nativeEnum(CouponRateType).default(CouponRateType.FIJA),
+    spreadFlotante: z.number().min(-1).max(1).optional(),
+    tasaMaxima: z.number().min(0).max(1).optional(),
+    tasaMinima: z.number().min(0).max(1).optional(),
+    tasaCuponSerie: z.array(z.number().min(-1).max(1)).default([]),
     indexadoInflacion: z.boolean().default(false),
     inflacionAnual: z.number().min(0).max(1).optional(),
     primaVencimiento: z.number().min(0).max(1).default(0),
     impuestoRenta: z.number().min(0).max(1),
+    amortizationMethod: z.nativeEnum(AmortizationMethod).default(AmortizationMethod.AMERICANO),
+    capitalizarGraciaTotal: z.boolean().default(false),
+    opciones: z.array(z.object({
+        tipo: z.nativeEnum(BondOptionType),
+        fechaEjercicio: z.coerce.date(),
+        precioEjercicio: z.number().positive(),
+    })).default([]),
+    fondoAmortizacion: z.array(z.object({
+        periodo: z.number().int().positive(),
+        porcentaje: z.number().positive().max(1),
+    })).default([]),
+    primaRescate: z.number().min(0).max(1).optional(),
+    curvaDescuentoId: z.string().cuid().nullable().optional(),
 
     costes: z.object({
         estructuracionPct: z.number().min(0).max(1),
@@ -61,6 +91,9 @@ export type BondWithFullRelations = Prisma.BondGetPayload<{
     include: {
         emisor: { select: { companyName: true, ruc: true } };
         costs: true; // PrismaBondCosts | null
+        options: true;
+        sinkingFund: true;
+        curvaDescuento: true;
         _count: { select: { cashFlows: true, investments: true } };
     };
 }>;
@@ -90,7 +123,7 @@ export class BondModel {
         const fechaVencimiento = new Date(validatedData.fechaEmision);
         fechaVencimiento.setFullYear(fechaVencimiento.getFullYear() + validatedData.numAnios);
 
-        const { costes: costesInput, inflacionSerie, graciaSerie, ...directBondData } = validatedData;
+        const { costes: costesInput, inflacionSerie, graciaSerie, tasaCuponSerie, opciones, fondoAmortizacion, curvaDescuentoId, ...directBondData } = validatedData;
 
         // Los campos de Zod que son `number` se pasarán como `number` a Prisma.
         // Prisma Client se encargará de convertirlos a `Decimal` si el campo en la DB es `Decimal`.
@@ -99,6 +132,7 @@ export class BondModel {
             ...directBondData,
             fechaVencimiento,
             emisor: { connect: { id: validatedData.emisorId } }, // <-- Añadir esta línea
+            ...(curvaDescuentoId ? { curvaDescuento: { connect: { id: curvaDescuentoId } } } : {}),
             // Otros campos...
         };
 
@@ -135,8 +169,21 @@ export class BondModel {
                     },
                     inflacionSerie: inflacionSerie,
                     graciaSerie: graciaSerie,
+                    tasaCuponSerie: validatedData.couponRateType === CouponRateType.FIJA ? undefined : tasaCuponSerie,
                 },
             });
+
+            if (opciones.length > 0) {
+                await tx.bondOption.createMany({
+                    data: opciones.map(opcion => ({ ...opcion, bondId: bond.id })),
+                });
+            }
+
+            if (fondoAmortizacion.length > 0) {
+                await tx.sinkingFundTranche.createMany({
+                    data: fondoAmortizacion.map(cuota => ({ ...cuota, bondId: bond.id })),
+                });
+            }
             return bond.id;
         });
 
@@ -154,6 +201,9 @@ export class BondModel {
             include: {
                 emisor: { select: { companyName: true, ruc: true } },
                 costs: true,
+                options: { orderBy: { fechaEjercicio: 'asc' } },
+                sinkingFund: { orderBy: { periodo: 'asc' } },
+                curvaDescuento: true,
                 _count: { select: { cashFlows: true, investments: true } },
             },
         });
@@ -182,6 +232,9 @@ export class BondModel {
             include: {
                 emisor: { select: { companyName: true, ruc: true } },
                 costs: true,
+                options: { orderBy: { fechaEjercicio: 'asc' } },
+                sinkingFund: { orderBy: { periodo: 'asc' } },
+                curvaDescuento: true,
                 _count: { select: { cashFlows: true, investments: true } },
             },
             orderBy: { createdAt: 'desc' },
@@ -190,25 +243,48 @@ export class BondModel {
         });
     }
 
-    async update(id: string, data: UpdateBondInput): Promise<BondWithFullRelations> {
+    // Con tx la edición participa de la transacción del llamador en lugar de abrir la suya
+    async update(id: string, data: UpdateBondInput, tx?: Prisma.TransactionClient): Promise<BondWithFullRelations> {
+        const client = tx || this.prisma;
         const validatedData = UpdateBondSchema.parse(data);
         const {
             costes: costesInput,
             inflacionSerie,
             graciaSerie,
+            tasaCuponSerie,
+            opciones,
+            fondoAmortizacion,
+            curvaDescuentoId,
             ...directBondDataToUpdate // Contiene solo los campos directos del modelo Bond que están en UpdateBondSchema
         } = validatedData;
 
         if (directBondDataToUpdate.numAnios !== undefined) {
-            const newLength = directBondDataToUpdate.numAnios;
-            if (inflacionSerie && inflacionSerie.length !== newLength) {
+            const newNumAnios = directBondDataToUpdate.numAnios;
+            // Las series van por cupón: hace falta la frecuencia y la base de días vigentes
+            const currentBond = await client.bond.findUnique({
+                where: { id },
+                select: { frecuenciaCupon: true, baseDias: true },
+            });
+            const frecuenciaCupon = directBondDataToUpdate.frecuenciaCupon ?? currentBond?.frecuenciaCupon;
+            const baseDias = directBondDataToUpdate.baseDias ?? currentBond?.baseDias;
+            if (!frecuenciaCupon || !baseDias) throw new Error('Bono no encontrado para validar series');
+
+            const numeroCupones = ExcelFormulas.numeroCupones(
+                ExcelFormulas.periodosPorAno(
+                    baseDias,
+                    ExcelFormulas.frecuenciaCuponDias(frecuenciaCupon.toLowerCase() as FrecuenciaCuponCalculo)
+                ),
+                newNumAnios
+            );
+            // Se aceptan aún series por año; convertBondToCalculationInputs las migra a series por cupón
+            if (inflacionSerie && ![numeroCupones, newNumAnios].includes(inflacionSerie.length)) {
                 throw new Error(
-                    `Validation failed: inflacionSerie length (${inflacionSerie.length}) must match numAnios (${newLength})`
+                    `Validation failed: inflacionSerie length (${inflacionSerie.length}) must match the number of coupons (${numeroCupones})`
                 );
             }
-            if (graciaSerie && graciaSerie.length !== newLength) {
+            if (graciaSerie && ![numeroCupones, newNumAnios].includes(graciaSerie.length)) {
                 throw new Error(
-                    `Validation failed: graciaSerie length (${graciaSerie.length}) must match numAnios (${newLength})`
+                    `Validation failed: graciaSerie length (${graciaSerie.length}) must match the number of coupons (${numeroCupones})`
                 );
             }
         }
@@ -221,9 +297,16 @@ export class BondModel {
             }
         }
 
+        // null quita la curva: el bono vuelve a descontar a tasaDescuento
+        if (curvaDescuentoId !== undefined) {
+            bondUpdatePayload.curvaDescuento = curvaDescuentoId
+                ? { connect: { id: curvaDescuentoId } }
+                : { disconnect: true };
+        }
+
         // Recalcular fechaVencimiento si es necesario
         if (bondUpdatePayload.fechaEmision || bondUpdatePayload.numAnios) {
-            const currentBond = await this.prisma.bond.findUnique({ where: { id }, select: { fechaEmision: true, numAnios: true } });
+            const currentBond = await client.bond.findUnique({ where: { id }, select: { fechaEmision: true, numAnios: true } });
             if (!currentBond) throw new Error('Bono no encontrado para actualizar fecha de vencimiento');
 
             const newFechaEmision = (bondUpdatePayload.fechaEmision as Date | undefined) || currentBond.fechaEmision;
@@ -234,12 +317,32 @@ export class BondModel {
             bondUpdatePayload.fechaVencimiento = fechaVencimiento;
         }
 
-        const updatedBondId = await this.prisma.$transaction(async (tx) => {
+        const aplicarCambios = async (tx: Prisma.TransactionClient) => {
             await tx.bond.update({
                 where: { id },
                 data: bondUpdatePayload,
             });
 
+            // El cronograma de call/put se reemplaza completo
+            if (opciones !== undefined) {
+                await tx.bondOption.deleteMany({ where: { bondId: id } });
+                if (opciones.length > 0) {
+                    await tx.bondOption.createMany({
+                        data: opciones.map(opcion => ({ ...opcion, bondId: id })),
+                    });
+                }
+            }
+
+            // El fondo de amortización también se reemplaza completo
+            if (fondoAmortizacion !== undefined) {
+                await tx.sinkingFundTranche.deleteMany({ where: { bondId: id } });
+                if (fondoAmortizacion.length > 0) {
+                    await tx.sinkingFundTranche.createMany({
+                        data: fondoAmortizacion.map(cuota => ({ ...cuota, bondId: id })),
+                    });
+                }
+            }
+
             if (costesInput) {
                 const bondForCostUpdate = await tx.bond.findUnique({ where: { id }, select: { valorComercial: true } });
                 if (!bondForCostUpdate) throw new Error('Bono no encontrado para actualizar costes');
@@ -303,6 +406,10 @@ export class BondModel {
                 calculationInputsUpdateData.graciaSerie = graciaSerie;
                 needsCalcUpdate = true;
             }
+            if (tasaCuponSerie !== undefined) {
+                calculationInputsUpdateData.tasaCuponSerie = tasaCuponSerie;
+                needsCalcUpdate = true;
+            }
 
             // Reconstruir inputsData para CalculationInputs si algún campo relevante del bono cambió
             // o si las series cambiaron (para mantener inputsData actualizado)
@@ -360,9 +467,11 @@ export class BondModel {
                 });
             }
             return id;
-        });
+        };
 
-        const result = await this.findById(updatedBondId);
+        const updatedBondId = tx ? await aplicarCambios(tx) : await this.prisma.$transaction(aplicarCambios);
+
+        const result = await this.findById(updatedBondId, tx);
         if (!result) {
             throw new Error('Error crítico: El bono recién actualizado no se pudo recuperar.');
         }
@@ -415,8 +524,9 @@ export class BondModel {
         return summaries.filter(bond => bond.status === BondStatus.ACTIVE);
     }
 
-    async canModify(id: string): Promise<boolean> {
-        const bond = await this.prisma.bond.findUnique({
+    async canModify(id: string, tx?: Prisma.TransactionClient): Promise<boolean> {
+        const client = tx || this.prisma;
+        const bond = await client.bond.findUnique({
             where: { id },
             select: { status: true, _count: { select: { investments: true } } },
         });
@@ -19,6 +19,7 @@ export const CreateCashFlowSchema = z.object({
     bondId: z.string().cuid(),
     periodo: z.number().int().min(0),
     fecha: z.coerce.date(), // Coerce a Date
+    fechaDevengo: z.coerce.date().optional(),
 
     inflacionAnual: z.number().min(-1).max(10).optional(),
     inflacionSemestral: z.number().min(-1).max(10).optional(),
@@ -26,6 +27,7 @@ export const CreateCashFlowSchema = z.object({
 
     bonoCapital: z.number().optional(),
     bonoIndexado: z.number().optional(),
+    interesCapitalizado: z.number().min(0).optional(),
     cupon: z.number().optional(),
     amortizacion: z.number().optional(),
     cuota: z.number().optional(),
@@ -54,6 +56,7 @@ export interface EmisorCashFlowView {
     periodoGracia: GracePeriodType | null; // Usar el tipo importado
     bonoCapital: number | null;
     bonoIndexado: number | null;
+    interesCapitalizado: number | null; // Cupón impago sumado al capital (gracia total)
     cupon: number | null;
     amortizacion: number | null;
     cuota: number | null;
@@ -70,6 +73,7 @@ export interface InversionistaCashFlowView {
     inflacionSemestral: number | null;
     // periodoGracia no está en tu select para InversionistaView, así que lo quito
     bonoIndexado: number | null;
+    interesCapitalizado: number | null; // Cupón impago sumado al capital (gracia total)
     cupon: number | null;
     amortizacion: number | null; // Este no estaba en tu select, pero sí en el map. Lo mantengo por si acaso.
     flujoBonista: number | null;
@@ -105,6 +109,7 @@ export class CashFlowModel {
                 bondId,
                 periodo: flow.periodo,
                 fecha: flow.fecha,
+                fechaDevengo: flow.fechaDevengo,
                 // Aquí, si flow.X es null, queremos que se guarde como NULL en la DB.
                 // Si es un número, Prisma lo convertirá a Decimal.
                 inflacionAnual: flow.inflacionAnual, // Asumiendo que CashFlowPeriod.inflacionAnual es number | null
@@ -112,6 +117,7 @@ export class CashFlowModel {
                 periodoGracia: flow.gracia,
                 bonoCapital: flow.bonoCapital,
                 bonoIndexado: flow.bonoIndexado,
+                interesCapitalizado: flow.interesCapitalizado,
                 cupon: flow.cupon,
                 amortizacion: flow.amortizacion,
                 cuota: flow.cuota,
@@ -146,7 +152,7 @@ export class CashFlowModel {
             where: { bondId },
             select: {
                 periodo: true, fecha: true, inflacionAnual: true, inflacionSemestral: true,
-                periodoGracia: true, bonoCapital: true, bonoIndexado: true, cupon: true,
+                periodoGracia: true, bonoCapital: true, bonoIndexado: true, interesCapitalizado: true, cupon: true,
                 amortizacion: true, cuota: true, prima: true, escudoFiscal: true,
                 flujoEmisor: true, flujoEmisorConEscudo: true,
             },
@@ -161,6 +167,7 @@ export class CashFlowModel {
             periodoGracia: flow.periodoGracia as GracePeriodType | null, // Casting explícito
             bonoCapital: flow.bonoCapital?.toNumber() ?? null,
             bonoIndexado: flow.bonoIndexado?.toNumber() ?? null,
+            interesCapitalizado: flow.interesCapitalizado?.toNumber() ?? null,
             cupon: flow.cupon?.toNumber() ?? null,
             amortizacion: flow.amortizacion?.toNumber() ?? null,
             cuota: flow.cuota?.toNumber() ?? null,
@@ -176,7 +183,7 @@ export class CashFlowModel {
             where: { bondId },
             select: {
                 periodo: true, fecha: true, inflacionAnual: true, inflacionSemestral: true,
-                bonoIndexado: true, cupon: true, amortizacion: true, // Amortizacion está en el select
+                bonoIndexado: true, interesCapitalizado: true, cupon: true, amortizacion: true, // Amortizacion está en el select
                 flujoBonista: true, flujoActualizado: true, faPlazoPonderado: true,
                 factorConvexidad: true,
                 // periodoGracia no está aquí, así que el mapeo no debería incluirlo
@@ -190,6 +197,7 @@ export class CashFlowModel {
             inflacionAnual: flow.inflacionAnual?.toNumber() ?? null,
             inflacionSemestral: flow.inflacionSemestral?.toNumber() ?? null,
             bonoIndexado: flow.bonoIndexado?.toNumber() ?? null,
+            interesCapitalizado: flow.interesCapitalizado?.toNumber() ?? null,
             cupon: flow.cupon?.toNumber() ?? null,
             amortizacion: flow.amortizacion?.toNumber() ?? null, // Correcto, ya que está en el select
             flujoBonista: flow.flujoBonista?.toNumber() ?? null,
@@ -241,7 +249,7 @@ export class CashFlowModel {
                 where: { bondId, periodo: { gte: startPeriod, lte: endPeriod } },
                 select: { /* ... mismos campos que getEmisorView ... */
                     periodo: true, fecha: true, inflacionAnual: true, inflacionSemestral: true,
-                    periodoGracia: true, bonoCapital: true, bonoIndexado: true, cupon: true,
+                    periodoGracia: true, bonoCapital: true, bonoIndexado: true, interesCapitalizado: true, cupon: true,
                     amortizacion: true, cuota: true, prima: true, escudoFiscal: true,
                     flujoEmisor: true, flujoEmisorConEscudo: true,
                 },
@@ -255,6 +263,7 @@ export class CashFlowModel {
                 periodoGracia: flow.periodoGracia as GracePeriodType | null,
                 bonoCapital: flow.bonoCapital?.toNumber() ?? null,
                 bonoIndexado: flow.bonoIndexado?.toNumber() ?? null,
+                interesCapitalizado: flow.interesCapitalizado?.toNumber() ?? null,
                 cupon: flow.cupon?.toNumber() ?? null,
                 amortizacion: flow.amortizacion?.toNumber() ?? null,
                 cuota: flow.cuota?.toNumber() ?? null,
@@ -268,7 +277,7 @@ export class CashFlowModel {
                 where: { bondId, periodo: { gte: startPeriod, lte: endPeriod } },
                 select: { /* ... mismos campos que getInversionistaView ... */
                     periodo: true, fecha: true, inflacionAnual: true, inflacionSemestral: true,
-                    bonoIndexado: true, cupon: true, amortizacion: true,
+                    bonoIndexado: true, interesCapitalizado: true, cupon: true, amortizacion: true,
                     flujoBonista: true, flujoActualizado: true, faPlazoPonderado: true,
                     factorConvexidad: true,
                 },
@@ -280,6 +289,7 @@ export class CashFlowModel {
                 inflacionAnual: flow.inflacionAnual?.toNumber() ?? null,
                 inflacionSemestral: flow.inflacionSemestral?.toNumber() ?? null,
                 bonoIndexado: flow.bonoIndexado?.toNumber() ?? null,
+                interesCapitalizado: flow.interesCapitalizado?.toNumber() ?? null,
                 cupon: flow.cupon?.toNumber() ?? null,
                 amortizacion: flow.amortizacion?.toNumber() ?? null,
                 flujoBonista: flow.flujoBonista?.toNumber() ?? null,
@@ -300,16 +310,26 @@ export class CashFlowModel {
     }
 
     async getFlowMetrics(bondId: string) {
-        const metrics = await this.prisma.cashFlow.aggregate({
-            where: { bondId },
-            _sum: {
-                flujoEmisor: true, flujoBonista: true, flujoActualizado: true,
-                faPlazoPonderado: true, factorConvexidad: true,
-            },
-            _count: { periodo: true }, // _count es sobre todos los registros que cumplen el where
-        });
+        const [metrics, periodosConAmortizacion] = await Promise.all([
+            this.prisma.cashFlow.aggregate({
+                where: { bondId },
+                _sum: {
+                    flujoEmisor: true, flujoBonista: true, flujoActualizado: true,
+                    faPlazoPonderado: true, factorConvexidad: true,
+                    cupon: true, amortizacion: true, prima: true,
+                },
+                _count: { periodo: true }, // _count es sobre todos los registros que cumplen el where
+            }),
+            // Períodos con pago de principal: cuotas del fondo de amortización, método francés/alemán y vencimiento
+            this.prisma.cashFlow.count({ where: { bondId, amortizacion: { lt: 0 } } }),
+        ]);
         return {
             totalPeriodos: metrics._count.periodo,
+            periodosConAmortizacion,
+            // Cupón, amortización y prima son salidas del emisor (negativas), como en el cronograma
+            sumaCupones: metrics._sum.cupon?.toNumber() ?? 0,
+            sumaAmortizacion: metrics._sum.amortizacion?.toNumber() ?? 0,
+            sumaPrimas: metrics._sum.prima?.toNumber() ?? 0,
             sumaFlujoEmisor: metrics._sum.flujoEmisor?.toNumber() ?? 0,
             sumaFlujoBonista: metrics._sum.flujoBonista?.toNumber() ?? 0,
             sumaFlujoActualizado: metrics._sum.flujoActualizado?.toNumber() ?? 0,
@@ -334,6 +354,7 @@ export class CashFlowModel {
             gracia: (flow.periodoGracia as GracePeriodType) ?? null, // Casting y ?? null
             bonoCapital: flow.bonoCapital?.toNumber() ?? null,
             bonoIndexado: flow.bonoIndexado?.toNumber() ?? null,
+            interesCapitalizado: flow.interesCapitalizado?.toNumber() ?? null,
             cupon: flow.cupon?.toNumber() ?? null,
             amortizacion: flow.amortizacion?.toNumber() ?? null,
             cuota: flow.cuota?.toNumber() ?? null,
@@ -379,21 +400,23 @@ export class CashFlowModel {
         const toFixedOrEmpty = (val: number | null, dp: number) => val === null ? '' : val.toFixed(dp);
 
         if (role === 'emisor') {
-            headers = 'Período,Fecha,Inflación Anual,Bono Indexado,Cupón,Amortización,Escudo Fiscal,Flujo Emisor,Flujo c/Escudo';
+            headers = 'Período,Fecha,Inflación Anual,Bono Indexado,Interés Capitalizado,Cupón,Amortización,Escudo Fiscal,Flujo Emisor,Flujo c/Escudo';
             const dataFlows = await this.getEmisorView(bondId);
             rows = dataFlows.map(flow => [
                 flow.periodo, flow.fecha.toISOString().split('T')[0],
                 toFixedOrEmpty(flow.inflacionAnual, 4), toFixedOrEmpty(flow.bonoIndexado, 2),
+                toFixedOrEmpty(flow.interesCapitalizado, 2),
                 toFixedOrEmpty(flow.cupon, 2), toFixedOrEmpty(flow.amortizacion, 2),
                 toFixedOrEmpty(flow.escudoFiscal, 2), toFixedOrEmpty(flow.flujoEmisor, 2),
                 toFixedOrEmpty(flow.flujoEmisorConEscudo, 2),
             ].join(','));
         } else {
-            headers = 'Período,Fecha,Inflación Anual,Bono Indexado,Cupón,Flujo Bonista,Flujo Actualizado';
+            headers = 'Período,Fecha,Inflación Anual,Bono Indexado,Interés Capitalizado,Cupón,Flujo Bonista,Flujo Actualizado';
             const dataFlows = await this.getInversionistaView(bondId);
             rows = dataFlows.map(flow => [
                 flow.periodo, flow.fecha.toISOString().split('T')[0],
                 toFixedOrEmpty(flow.inflacionAnual, 4), toFixedOrEmpty(flow.bonoIndexado, 2),
+                toFixedOrEmpty(flow.interesCapitalizado, 2),
                 toFixedOrEmpty(flow.cupon, 2), toFixedOrEmpty(flow.flujoBonista, 2),
                 toFixedOrEmpty(flow.flujoActualizado, 2),
             ].join(','));
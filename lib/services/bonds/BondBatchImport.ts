@@ -0,0 +1,353 @@
+// lib/services/bonds/BondBatchImport.ts
+
+import { PrismaClient } from '../../generated/client';
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import {
+    BondCreationError,
+    BondCreationService,
+    CreateBondRequestInput,
+    CreateBondRequestSchema,
+    cuponesDe,
+    toCalculationInputs,
+} from '@/lib/services/bonds/BondCreation';
+
+/**
+ * Importación de bonos en lote para un emisor
+ *
+ * CSV: una fila por bono, con encabezado de campos de POST /api/bonds
+ * - Separador ',' ';' o tabulador, detectado en el encabezado; con ';' o tabulador se admite
+ *   coma decimal (1.050,5)
+ * - Campos entre comillas dobles para textos que contienen el separador
+ * - Tasas decimales (0.08) o porcentaje (8%)
+ * - Series separadas por '|': inflacionSerie 10%|10%, graciaSerie T|P|S
+ * JSON: arreglo de bonos o { bonos: [...] } con los mismos campos
+ *
+ * Sin series se asume inflación 0 y sin gracia en todos los cupones
+ * La vista previa valida cada fila y calcula TCEA/TREA sin tocar la base;
+ * la importación crea cada fila válida en su propia transacción con registro en AuditLog
+ */
+
+export const MAX_FILAS_LOTE = 200;
+
+export interface BondBatchRow {
+    fila: number;                       // Fila del CSV (con encabezado) o índice 1-based del JSON
+    datos: Record<string, unknown>;
+}
+
+export interface BondBatchRowError {
+    campo: string;
+    mensaje: string;
+}
+
+export interface BondBatchRowResult {
+    fila: number;
+    name: string | null;
+    codigoIsin: string | null;
+    valido: boolean;
+    errores: BondBatchRowError[];
+    tceaEmisor: number | null;
+    treaBonista: number | null;
+    bondId?: string;                    // Solo al importar
+}
+
+export interface BondBatchResult {
+    dryRun: boolean;
+    total: number;
+    validas: number;
+    creadas: number;
+    filas: BondBatchRowResult[];
+}
+
+export type BondBatchImportErrorCode = 'INVALID_FILE' | 'EMPTY_BATCH' | 'BATCH_TOO_LARGE' | 'FORBIDDEN';
+
+export class BondBatchImportError extends Error {
+    constructor(public readonly code: BondBatchImportErrorCode, message: string) {
+        super(message);
+        this.name = 'BondBatchImportError';
+    }
+}
+
+const CAMPOS_NUMERICOS = new Set([
+    'valorNominal', 'valorComercial', 'numAnios', 'diasPorAno',
+    'tasaAnual', 'tasaDescuento', 'impuestoRenta', 'primaPorcentaje',
+    'estructuracionPorcentaje', 'colocacionPorcentaje', 'flotacionPorcentaje', 'cavaliPorcentaje',
+    'spreadFlotante', 'tasaMaxima', 'tasaMinima', 'primaRescate',
+]);
+const CAMPOS_SERIE_NUMERICA = new Set(['inflacionSerie', 'tasaCuponSerie']);
+const CAMPOS_BOOLEANOS = new Set(['capitalizarGraciaTotal']);
+const CAMPOS_TEXTO = new Set([
+    'name', 'codigoIsin', 'fechaEmision', 'frecuenciaCupon', 'dayCountConvention',
+    'mercadoCalendario', 'businessDayConvention', 'instrumentType', 'tipoTasa',
+    'periodicidadCapitalizacion', 'amortizationMethod', 'couponRateType', 'curvaDescuentoId',
+]);
+const CAMPOS_CSV = new Set([...CAMPOS_NUMERICOS, ...CAMPOS_SERIE_NUMERICA, ...CAMPOS_BOOLEANOS, ...CAMPOS_TEXTO, 'graciaSerie']);
+
+// Separador del lote, tomado solo del encabezado
+const separadorDe = (encabezado: string) =>
+    encabezado.includes(';') ? ';' : encabezado.includes('\t') ? '\t' : ',';
+
+/**
+ * Registros del CSV con la línea en que empiezan
+ * Un campo entre comillas puede contener el separador, saltos de línea y comillas dobles ("")
+ * Las líneas vacías y las que empiezan con '#' se ignoran
+ */
+function leerRegistros(contenido: string, separador: string): { linea: number; campos: string[] }[] {
+    const registros: { linea: number; campos: string[] }[] = [];
+    let campos: string[] = [];
+    let campo = '';
+    let entreComillas = false;
+    let linea = 1;
+    let inicio = 1;
+
+    const cerrarRegistro = () => {
+        campos.push(campo.trim());
+        if (campos.some(c => c !== '')) registros.push({ linea: inicio, campos });
+        campos = [];
+        campo = '';
+    };
+
+    for (let i = 0; i < contenido.length; i++) {
+        const c = contenido[i];
+
+        if (entreComillas) {
+            if (c === '"' && contenido[i + 1] === '"') {
+                campo += '"';
+                i++;
+            } else if (c === '"') {
+                entreComillas = false;
+            } else {
+                if (c === '\n') linea++;
+                campo += c;
+            }
+        } else if (c === '#' && campos.length === 0 && campo.trim() === '') {
+            // Comentario: hasta el fin de la línea
+            while (i + 1 < contenido.length && contenido[i + 1] !== '\n') i++;
+        } else if (c === '"' && campo.trim() === '') {
+            entreComillas = true;
+            campo = '';
+        } else if (c === separador) {
+            campos.push(campo.trim());
+            campo = '';
+        } else if (c === '\n') {
+            cerrarRegistro();
+            linea++;
+            inicio = linea;
+        } else if (c !== '\r') {
+            campo += c;
+        }
+    }
+    cerrarRegistro();
+
+    return registros;
+}
+
+/**
+ * Número del CSV: punto decimal, o coma decimal (con punto de miles) si el separador no es ','
+ * Con '%' al final se divide entre 100; lo que no es un número queda NaN y lo rechaza la validación
+ */
+function aNumero(valor: string, comaDecimal: boolean): number {
+    let texto = valor.trim();
+    const porcentaje = texto.endsWith('%');
+    if (porcentaje) texto = texto.slice(0, -1).trim();
+
+    if (comaDecimal && texto.includes(',')) {
+        texto = texto.replace(/\./g, '').replace(',', '.');
+    }
+
+    const n = texto === '' ? NaN : Number(texto);
+    return porcentaje ? n / 100 : n;
+}
+
+/**
+ * Lee un lote CSV; el primer registro es el encabezado y define el separador
+ */
+export function parseBatchCSV(contenido: string): BondBatchRow[] {
+    const primeraLinea = contenido.split(/\r?\n/).map(l => l.trim()).find(l => l && !l.startsWith('#'));
+    if (!primeraLinea) return [];
+
+    const separador = separadorDe(primeraLinea);
+    const [cabecera, ...registros] = leerRegistros(contenido, separador);
+    const encabezado = cabecera.campos;
+
+    const desconocidas = encabezado.filter(c => !CAMPOS_CSV.has(c));
+    if (desconocidas.length > 0) {
+        throw new BondBatchImportError('INVALID_FILE', `Columnas desconocidas: ${desconocidas.join(', ')}`);
+    }
+
+    const numero = (valor: string) => aNumero(valor, separador !== ',');
+
+    return registros.map(({ linea, campos }) => {
+        const datos: Record<string, unknown> = {};
+        encabezado.forEach((campo, j) => {
+            const valor = campos[j] ?? '';
+            if (valor === '') return;
+
+            if (CAMPOS_NUMERICOS.has(campo)) datos[campo] = numero(valor);
+            else if (CAMPOS_SERIE_NUMERICA.has(campo)) datos[campo] = valor.split('|').map(numero);
+            else if (campo === 'graciaSerie') datos[campo] = valor.split('|').map(v => v.trim().toUpperCase());
+            else if (CAMPOS_BOOLEANOS.has(campo)) datos[campo] = ['true', 'si', 'sí', '1'].includes(valor.toLowerCase());
+            else datos[campo] = valor;
+        });
+
+        return { fila: linea, datos };
+    });
+}
+
+/**
+ * Lee un lote JSON: [bono, ...] o { bonos: [bono, ...] }
+ */
+export function parseBatchJSON(contenido: string | unknown): BondBatchRow[] {
+    let json: unknown;
+    try {
+        json = typeof contenido === 'string' ? JSON.parse(contenido) : contenido;
+    } catch {
+        throw new BondBatchImportError('INVALID_FILE', 'El archivo no es un JSON válido');
+    }
+
+    const bonos = Array.isArray(json) ? json : (json as { bonos?: unknown })?.bonos;
+    if (!Array.isArray(bonos)) {
+        throw new BondBatchImportError('INVALID_FILE', 'Se esperaba un arreglo de bonos o { bonos: [...] }');
+    }
+
+    return bonos.map((datos, i) => ({
+        fila: i + 1,
+        datos: typeof datos === 'object' && datos !== null ? datos as Record<string, unknown> : {},
+    }));
+}
+
+export class BondBatchImportService {
+    private calculator = new FinancialCalculator();
+    private bondCreationService: BondCreationService;
+
+    constructor(private prisma: PrismaClient) {
+        this.bondCreationService = new BondCreationService(prisma);
+    }
+
+    /**
+     * Valida cada fila y calcula TCEA/TREA; con dryRun=false crea las filas válidas
+     * Solo el usuario del emisor importa bonos, y queda como autor en AuditLog
+     */
+    async importBatch(emisorId: string, userId: string, filas: BondBatchRow[], dryRun: boolean): Promise<BondBatchResult> {
+        if (filas.length === 0) {
+            throw new BondBatchImportError('EMPTY_BATCH', 'El lote no contiene bonos');
+        }
+        if (filas.length > MAX_FILAS_LOTE) {
+            throw new BondBatchImportError('BATCH_TOO_LARGE', `El lote supera el máximo de ${MAX_FILAS_LOTE} bonos`);
+        }
+
+        const emisor = await this.prisma.emisorProfile.findUnique({
+            where: { id: emisorId },
+            select: { id: true, userId: true },
+        });
+        if (!emisor) {
+            throw new BondCreationError('EMISOR_NOT_FOUND', 'Emisor no encontrado');
+        }
+        if (emisor.userId !== userId) {
+            throw new BondBatchImportError('FORBIDDEN', 'No tiene acceso a este emisor');
+        }
+
+        // Copia: las series vacías se completan por cupón antes de validar y crear
+        const normalizadas = filas.map(f => ({ fila: f.fila, datos: { ...f.datos } }));
+        const resultados = await this.previewRows(emisorId, normalizadas);
+
+        if (!dryRun) {
+            // Cada fila en su propia transacción: un error no revierte las demás
+            for (const resultado of resultados.filter(r => r.valido)) {
+                const { datos } = normalizadas.find(f => f.fila === resultado.fila)!;
+                try {
+                    const { bond } = await this.bondCreationService.createBond(
+                        { ...datos, emisorId } as CreateBondRequestInput,
+                        { origen: 'importacion_lote', userId, detalle: { fila: resultado.fila } }
+                    );
+                    resultado.bondId = bond.id;
+                } catch (error: any) {
+                    resultado.valido = false;
+                    resultado.errores.push({
+                        campo: error?.code === 'P2002' ? 'codigoIsin' : 'bono',
+                        mensaje: error?.code === 'P2002' ? 'El código ISIN ya existe' : error?.message || 'Error creando el bono',
+                    });
+                }
+            }
+        }
+
+        return {
+            dryRun,
+            total: resultados.length,
+            validas: resultados.filter(r => r.valido).length,
+            creadas: resultados.filter(r => r.bondId).length,
+            filas: resultados,
+        };
+    }
+
+    private async previewRows(emisorId: string, filas: BondBatchRow[]): Promise<BondBatchRowResult[]> {
+        // ISIN repetidos en el lote o ya registrados
+        const isins = filas
+            .map(f => f.datos.codigoIsin)
+            .filter((isin): isin is string => typeof isin === 'string' && isin !== '');
+        const existentes = new Set(
+            isins.length === 0 ? [] : (await this.prisma.bond.findMany({
+                where: { codigoIsin: { in: isins } },
+                select: { codigoIsin: true },
+            })).map(b => b.codigoIsin)
+        );
+        const vistos = new Set<string>();
+
+        const resultados: BondBatchRowResult[] = [];
+        for (const { fila, datos } of filas) {
+            const resultado: BondBatchRowResult = {
+                fila,
+                name: typeof datos.name === 'string' ? datos.name : null,
+                codigoIsin: typeof datos.codigoIsin === 'string' && datos.codigoIsin !== '' ? datos.codigoIsin : null,
+                valido: false,
+                errores: [],
+                tceaEmisor: null,
+                treaBonista: null,
+            };
+            resultados.push(resultado);
+
+            if (resultado.codigoIsin) {
+                if (existentes.has(resultado.codigoIsin)) {
+                    resultado.errores.push({ campo: 'codigoIsin', mensaje: 'El código ISIN ya existe' });
+                } else if (vistos.has(resultado.codigoIsin)) {
+                    resultado.errores.push({ campo: 'codigoIsin', mensaje: 'Código ISIN repetido en el lote' });
+                }
+                vistos.add(resultado.codigoIsin);
+            }
+
+            const parsed = CreateBondRequestSchema.safeParse({ ...datos, emisorId });
+            if (!parsed.success) {
+                parsed.error.errors.forEach(issue =>
+                    resultado.errores.push({ campo: issue.path.join('.'), mensaje: issue.message })
+                );
+                continue;
+            }
+
+            const { numeroCupones } = cuponesDe(parsed.data);
+            if (parsed.data.inflacionSerie.length === 0) {
+                datos.inflacionSerie = parsed.data.inflacionSerie = Array(numeroCupones).fill(0);
+            }
+            if (parsed.data.graciaSerie.length === 0) {
+                datos.graciaSerie = parsed.data.graciaSerie = Array(numeroCupones).fill('S');
+            }
+
+            const inputs = toCalculationInputs(parsed.data);
+            const validacion = this.calculator.validateInputs(inputs);
+            if (!validacion.isValid) {
+                validacion.errors.forEach(e => resultado.errores.push({ campo: e.field, mensaje: e.message }));
+                continue;
+            }
+
+            try {
+                const { metricas } = await this.calculator.calculate(inputs);
+                resultado.tceaEmisor = metricas.tceaEmisor;
+                resultado.treaBonista = metricas.treaBonista;
+            } catch (error: any) {
+                resultado.errores.push({ campo: 'calculo', mensaje: error?.message || 'Error en el cálculo' });
+            }
+
+            resultado.valido = resultado.errores.length === 0;
+        }
+
+        return resultados;
+    }
+}
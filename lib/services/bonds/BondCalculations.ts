@@ -7,14 +7,38 @@ import {
     BondStatus
 } from '../../generated/client';
 import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { PriceYieldSolver } from '@/lib/services/calculations/PriceYieldSolver';
+import { SensitivityAnalyzer } from '@/lib/services/calculations/SensitivityAnalyzer';
+import { InflationSimulator } from '@/lib/services/calculations/InflationSimulator';
+import { ExcelFormulas } from '@/lib/services/calculations/ExcelFormulas';
+import { CalculationWorkbook } from '@/lib/services/export/CalculationWorkbook';
+import { BondLifecycleError, BondLifecycleService } from '@/lib/services/bonds/BondLifecycle';
+import { BondVersionService } from '@/lib/services/bonds/BondVersions';
 import { BondModel, BondWithFullRelations } from '@/lib/models/Bond';
-import { CashFlowModel } from '@/lib/models/CashFlow';
+import { CashFlowModel, InversionistaCashFlowView } from '@/lib/models/CashFlow';
+import { loadMarketCalendar } from '@/lib/services/calendars/CalendarLoader';
 import {
     CalculationInputs,
     CalculationResult,
     FrequenciaCupon,
     GracePeriodType,
-    PrecisionConfig
+    AmortizationMethod,
+    InstrumentType,
+    DayCountConvention,
+    BusinessDayConvention,
+    CouponRateSchedule,
+    OptionExerciseDate,
+    SinkingFundSchedule,
+    KeyRateDuration,
+    YieldCurveDefinition,
+    YieldCurvePoint,
+    PrecisionConfig,
+    PriceYieldResult,
+    SettlementPrice,
+    SensitivityResult,
+    InflationSimulationResult,
+    CalculationWarning,
+    CalculationTraceEntry
 } from '@/lib/types/calculations';
 import { z } from 'zod';
 import { Decimal } from 'decimal.js';
@@ -27,28 +51,88 @@ export const CalculateBondRequestSchema = z.object({
 
 export type CalculateBondRequest = z.infer<typeof CalculateBondRequestSchema>;
 
+export const PriceYieldRequestSchema = z.object({
+    precio: z.number().positive('El precio debe ser mayor a 0').optional(),
+    rendimiento: z.number().gt(-0.99, 'Rendimiento fuera de rango').max(10, 'Rendimiento fuera de rango').optional(),
+}).refine(
+    data => (data.precio === undefined) !== (data.rendimiento === undefined),
+    { message: 'Debe indicar precio o rendimiento, pero no ambos' }
+);
+
+export type PriceYieldRequest = z.infer<typeof PriceYieldRequestSchema>;
+
+const SENSITIVITY_PARAMETERS = ['tasaAnual', 'tasaDescuento', 'inflacion', 'impuestoRenta', 'costes'] as const;
+
+const DesplazamientosSchema = z.array(z.number().min(-1).max(1))
+    .min(1, 'Indique al menos un desplazamiento')
+    .max(SensitivityAnalyzer.MAX_DESPLAZAMIENTOS, `Máximo ${SensitivityAnalyzer.MAX_DESPLAZAMIENTOS} desplazamientos por parámetro`);
+
+export const SensitivityRequestSchema = z.object({
+    parametros: z.object({
+        tasaAnual: DesplazamientosSchema.optional(),
+        tasaDescuento: DesplazamientosSchema.optional(),
+        inflacion: DesplazamientosSchema.optional(),
+        impuestoRenta: DesplazamientosSchema.optional(),
+        costes: DesplazamientosSchema.optional(),
+    }).strict(),
+    matriz: z.object({
+        filas: z.enum(SENSITIVITY_PARAMETERS),
+        columnas: z.enum(SENSITIVITY_PARAMETERS),
+    }).optional(),
+}).refine(
+    data => Object.keys(data.parametros).length > 0,
+    { message: 'Debe indicar al menos un parámetro a desplazar', path: ['parametros'] }
+).refine(
+    data => !data.matriz || (data.matriz.filas !== data.matriz.columnas &&
+        data.parametros[data.matriz.filas] !== undefined && data.parametros[data.matriz.columnas] !== undefined),
+    { message: 'La matriz cruza dos parámetros distintos incluidos en la grilla', path: ['matriz'] }
+);
+
+export type SensitivityRequest = z.infer<typeof SensitivityRequestSchema>;
+
+export const InflationSimulationRequestSchema = z.object({
+    simulaciones: z.number().int().min(1).max(InflationSimulator.MAX_SIMULACIONES).default(500),
+    media: z.number().min(-0.5).max(1),
+    volatilidad: z.number().min(0, 'La volatilidad no puede ser negativa').max(1),
+    reversion: z.number().min(0, 'La reversión no puede ser negativa').max(10).default(0.5),
+    inflacionInicial: z.number().min(-0.5).max(1).optional(),
+    semilla: z.number().int().min(0).max(2 ** 32 - 1).optional(),
+    percentiles: z.array(z.number().min(0).max(1)).min(1).max(9).optional(),
+});
+
+export type InflationSimulationRequest = z.infer<typeof InflationSimulationRequestSchema>;
+
+// Duración/convexidad efectivas, DV01 y duraciones de plazo clave (iguales para emisor y bonista)
+interface RateSensitivityMetrics {
+    duracionEfectiva: number; convexidadEfectiva: number; dv01: number; duracionesClave: KeyRateDuration[];
+}
+
 export interface BondCalculationResponse {
     bondId: string;
     success: boolean;
     calculatedAt: Date;
     metricas: {
-        emisor: {
+        emisor: RateSensitivityMetrics & {
             precioActual: number; van: number; tceaEmisor: number; tceaEmisorConEscudo: number;
             duracion: number; duracionModificada: number; convexidad: number; totalRatiosDecision: number;
         };
-        bonista: {
+        bonista: RateSensitivityMetrics & {
             precioActual: number; van: number; treaBonista: number;
             duracion: number; duracionModificada: number; convexidad: number; totalRatiosDecision: number;
         };
     };
     flowsCount: number;
     errors?: string[];
+    warnings?: CalculationWarning[];
 }
 
 export class BondCalculationsService {
     private calculator: FinancialCalculator;
+    private tracingCalculator: FinancialCalculator;
     private bondModel: BondModel;
     private cashFlowModel: CashFlowModel;
+    private lifecycleService: BondLifecycleService;
+    private versionService: BondVersionService;
 
     constructor(private prisma: PrismaClient) {
         const precisionSettings: PrecisionConfig = {
@@ -57,12 +141,19 @@ export class BondCalculationsService {
             roundingMode: Decimal.ROUND_HALF_UP,
         };
         this.calculator = new FinancialCalculator({
+            validateInputs: true,
+            includeIntermediateSteps: false,
+            precision: precisionSettings
+        });
+        this.tracingCalculator = new FinancialCalculator({
             validateInputs: true,
             includeIntermediateSteps: true,
             precision: precisionSettings
         });
         this.bondModel = new BondModel(prisma);
         this.cashFlowModel = new CashFlowModel(prisma);
+        this.lifecycleService = new BondLifecycleService(prisma);
+        this.versionService = new BondVersionService(prisma, this.bondModel);
     }
 
     async calculateBond(request: CalculateBondRequest): Promise<BondCalculationResponse> {
@@ -110,18 +201,20 @@ export class BondCalculationsService {
     private async validateSeriesConsistency(bondId: string, calculationInputs: CalculationInputs): Promise<void> {
         const errors: string[] = [];
         const numAnios = calculationInputs.numAnios;
+        const periodosPorAno = this.periodosPorAnoDe(calculationInputs.frecuenciaCupon, calculationInputs.diasPorAno);
+        const numeroCupones = ExcelFormulas.numeroCupones(periodosPorAno, numAnios);
 
-        // Validar longitud de inflacionSerie
-        if (calculationInputs.inflacionSerie.length !== numAnios) {
+        // Validar longitud de inflacionSerie (un elemento por cupón)
+        if (calculationInputs.inflacionSerie.length !== numeroCupones) {
             errors.push(
-                `La serie de inflación debe tener ${numAnios} elementos (recibidos ${calculationInputs.inflacionSerie.length})`
+                `La serie de inflación debe tener ${numeroCupones} elementos, uno por cupón (recibidos ${calculationInputs.inflacionSerie.length})`
             );
         }
 
-        // Validar longitud de graciaSerie
-        if (calculationInputs.graciaSerie.length !== numAnios) {
+        // Validar longitud de graciaSerie (un elemento por cupón)
+        if (calculationInputs.graciaSerie.length !== numeroCupones) {
             errors.push(
-                `La serie de gracia debe tener ${numAnios} elementos (recibidos ${calculationInputs.graciaSerie.length})`
+                `La serie de gracia debe tener ${numeroCupones} elementos, uno por cupón (recibidos ${calculationInputs.graciaSerie.length})`
             );
         }
 
@@ -153,7 +246,7 @@ export class BondCalculationsService {
 
             // ✅ AUTO-CORRECCIÓN: Intentar reparar las series automáticamente
             try {
-                await this.repairInconsistentSeries(bondId, numAnios);
+                await this.repairInconsistentSeries(bondId, numAnios, periodosPorAno);
                 console.log(`🔧 Series auto-reparadas para bono ${bondId}`);
 
                 // ✅ FORZAR REINTENTO: Lanzar excepción especial para reintento
@@ -170,9 +263,16 @@ export class BondCalculationsService {
         }
     }
 
+    // Períodos por año (L6) de un bono, para dimensionar las series por cupón
+    private periodosPorAnoDe(frecuenciaCupon: FrequenciaCupon, diasPorAno: number): number {
+        return ExcelFormulas.periodosPorAno(diasPorAno, ExcelFormulas.frecuenciaCuponDias(frecuenciaCupon));
+    }
+
     // ✅ MÉTODO NUEVO: Auto-reparar series inconsistentes/corruptas
-    private async repairInconsistentSeries(bondId: string, expectedLength: number): Promise<void> {
-        console.log(`🔧 Iniciando reparación para bono ${bondId} con ${expectedLength} años...`);
+    // Las series por año (formato anterior) se migran a una serie por cupón en lugar de descartarse
+    private async repairInconsistentSeries(bondId: string, numAnios: number, periodosPorAno: number): Promise<void> {
+        const expectedLength = ExcelFormulas.numeroCupones(periodosPorAno, numAnios);
+        console.log(`🔧 Iniciando reparación para bono ${bondId} con ${expectedLength} cupones...`);
 
         await this.prisma.$transaction(async (tx) => {
             const calcInputs = await tx.calculationInputs.findUnique({
@@ -184,8 +284,12 @@ export class BondCalculationsService {
                 throw new Error(`CalculationInputs no encontrado para bono ${bondId}`);
             }
 
-            const currentInflacion = calcInputs.inflacionSerie;
-            const currentGracia = calcInputs.graciaSerie;
+            const currentInflacion = Array.isArray(calcInputs.inflacionSerie)
+                ? ExcelFormulas.seriePorCupon(calcInputs.inflacionSerie, periodosPorAno, numAnios)
+                : calcInputs.inflacionSerie;
+            const currentGracia = Array.isArray(calcInputs.graciaSerie)
+                ? ExcelFormulas.seriePorCupon(calcInputs.graciaSerie, periodosPorAno, numAnios)
+                : calcInputs.graciaSerie;
 
             console.log('🔍 Datos antes de reparación:', {
                 inflacion: currentInflacion,
@@ -275,6 +379,7 @@ export class BondCalculationsService {
                         duracionModificada: quickMetricsResult.duracionModificada,
                         convexidad: quickMetricsResult.convexidad,
                         totalRatiosDecision: quickMetricsResult.totalRatiosDecision,
+                        ...this.rateSensitivityOf(quickMetricsResult),
                     },
                     bonista: {
                         precioActual: quickMetricsResult.precioActual,
@@ -284,6 +389,7 @@ export class BondCalculationsService {
                         duracionModificada: quickMetricsResult.duracionModificada,
                         convexidad: quickMetricsResult.convexidad,
                         totalRatiosDecision: quickMetricsResult.totalRatiosDecision,
+                        ...this.rateSensitivityOf(quickMetricsResult),
                     },
                 },
                 flowsCount: 0,
@@ -353,6 +459,103 @@ export class BondCalculationsService {
             : this.cashFlowModel.getInversionistaView(bondId);
     }
 
+    /**
+     * Resuelve precio ↔ rendimiento sobre los flujos del bonista ya generados
+     */
+    async solvePriceYield(bondId: string, request: PriceYieldRequest): Promise<PriceYieldResult> {
+        const { precio, rendimiento } = PriceYieldRequestSchema.parse(request);
+
+        const bond = await this.bondModel.findById(bondId);
+        if (!bond) throw new Error(`Bono ${bondId} no encontrado`);
+
+        const flows = await this.getCalculatedFlows(bondId, 'inversionista') as InversionistaCashFlowView[];
+        const flujosBonista = flows.map(flow => flow.flujoBonista ?? 0);
+
+        const frecuenciaCuponDias = ExcelFormulas.frecuenciaCuponDias(
+            bond.frecuenciaCupon.toLowerCase() as FrequenciaCupon
+        );
+
+        return rendimiento !== undefined
+            ? PriceYieldSolver.precioDesdeRendimiento(flujosBonista, rendimiento, frecuenciaCuponDias, bond.baseDias)
+            : PriceYieldSolver.rendimientoDesdePrecio(flujosBonista, precio as number, frecuenciaCuponDias, bond.baseDias);
+    }
+
+    /**
+     * Análisis de sensibilidad: métricas con tasas, inflación, impuesto o costes desplazados
+     * No guarda resultados; parte de los inputs vigentes del bono
+     */
+    async analyzeSensitivity(bondId: string, request: SensitivityRequest): Promise<SensitivityResult> {
+        const { parametros, matriz } = SensitivityRequestSchema.parse(request);
+
+        const bond = await this.bondModel.findById(bondId);
+        if (!bond) throw new Error(`Bono ${bondId} no encontrado`);
+
+        await this.validateBondForCalculation(bond);
+        const calculationInputs = await this.convertBondToCalculationInputs(bond);
+
+        return new SensitivityAnalyzer(this.calculator).analizar(calculationInputs, parametros, matriz);
+    }
+
+    /**
+     * Monte Carlo de inflación: bandas de percentiles de flujos del bonista, TREA y precio
+     * No guarda resultados; la serie de inflación del bono se reemplaza en cada trayectoria
+     */
+    async simulateInflation(bondId: string, request: InflationSimulationRequest): Promise<InflationSimulationResult> {
+        const config = InflationSimulationRequestSchema.parse(request);
+
+        const bond = await this.bondModel.findById(bondId);
+        if (!bond) throw new Error(`Bono ${bondId} no encontrado`);
+
+        await this.validateBondForCalculation(bond);
+        const calculationInputs = await this.convertBondToCalculationInputs(bond);
+
+        return new InflationSimulator(this.calculator).simular(calculationInputs, config);
+    }
+
+    /**
+     * Traza de auditoría: fórmula, entradas y resultado de cada celda de la hoja
+     * Recalcula con los inputs vigentes sin guardar; con periodo solo devuelve esa fila
+     */
+    async traceCalculation(bondId: string, periodo?: number): Promise<CalculationTraceEntry[]> {
+        const bond = await this.bondModel.findById(bondId);
+        if (!bond) throw new Error(`Bono ${bondId} no encontrado`);
+
+        await this.validateBondForCalculation(bond);
+        const calculationInputs = await this.convertBondToCalculationInputs(bond);
+        const { traza = [] } = await this.tracingCalculator.calculate(calculationInputs);
+
+        return periodo === undefined ? traza : traza.filter(entrada => entrada.periodo === periodo);
+    }
+
+    /**
+     * Libro .xlsx con la disposición de la hoja original: datos, intermedios, flujos con fórmulas y métricas
+     * Recalcula con los inputs vigentes sin guardar
+     */
+    async exportWorkbook(bondId: string): Promise<Buffer> {
+        const bond = await this.bondModel.findById(bondId);
+        if (!bond) throw new Error(`Bono ${bondId} no encontrado`);
+
+        await this.validateBondForCalculation(bond);
+        const calculationInputs = await this.convertBondToCalculationInputs(bond);
+        const calculationResult = await this.calculator.calculate(calculationInputs);
+
+        return CalculationWorkbook.generar(calculationResult, bond.name);
+    }
+
+    /**
+     * Interés corrido, precio sucio y precio limpio del bono a una fecha de liquidación
+     */
+    async calculateSettlementPrice(bondId: string, fechaLiquidacion: Date): Promise<SettlementPrice> {
+        const bond = await this.bondModel.findById(bondId);
+        if (!bond) throw new Error(`Bono ${bondId} no encontrado`);
+
+        await this.validateBondForCalculation(bond);
+        const calculationInputs = await this.convertBondToCalculationInputs(bond);
+        const calculationResult = await this.calculator.calculate(calculationInputs);
+
+        return this.calculator.calculateSettlementPrice(calculationResult, fechaLiquidacion);
+    }
+
     async needsRecalculation(bondId: string): Promise<{ needsRecalc: boolean; reasons: string[]; }> {
         const reasons: string[] = [];
         const hasFlows = await this.cashFlowModel.hasFlows(bondId);
@@ -371,14 +574,17 @@ export class BondCalculationsService {
             const bond = await this.bondModel.findById(bondId);
             if (bond) {
                 const calculationInputs = await this.convertBondToCalculationInputs(bond);
-                const numAnios = calculationInputs.numAnios;
+                const numeroCupones = ExcelFormulas.numeroCupones(
+                    this.periodosPorAnoDe(calculationInputs.frecuenciaCupon, calculationInputs.diasPorAno),
+                    calculationInputs.numAnios
+                );
 
-                if (calculationInputs.inflacionSerie.length !== numAnios) {
-                    reasons.push(`Serie de inflación inconsistente: ${calculationInputs.inflacionSerie.length} vs ${numAnios} años`);
+                if (calculationInputs.inflacionSerie.length !== numeroCupones) {
+                    reasons.push(`Serie de inflación inconsistente: ${calculationInputs.inflacionSerie.length} vs ${numeroCupones} cupones`);
                 }
 
-                if (calculationInputs.graciaSerie.length !== numAnios) {
-                    reasons.push(`Serie de gracia inconsistente: ${calculationInputs.graciaSerie.length} vs ${numAnios} años`);
+                if (calculationInputs.graciaSerie.length !== numeroCupones) {
+                    reasons.push(`Serie de gracia inconsistente: ${calculationInputs.graciaSerie.length} vs ${numeroCupones} cupones`);
                 }
             }
         } catch (error) {
@@ -429,6 +635,7 @@ export class BondCalculationsService {
                         duracionModificada: emisorMetrics.duracionModificada.toNumber(),
                         convexidad: emisorMetrics.convexidad.toNumber(),
                         totalRatiosDecision: emisorMetrics.totalRatiosDecision.toNumber(),
+                        ...this.storedRateSensitivityOf(emisorMetrics),
                     },
                     bonista: {
                         precioActual: bonistaMetrics.precioActual.toNumber(), van: bonistaMetrics.van.toNumber(),
@@ -437,6 +644,7 @@ export class BondCalculationsService {
                         duracionModificada: bonistaMetrics.duracionModificada.toNumber(),
                         convexidad: bonistaMetrics.convexidad.toNumber(),
                         totalRatiosDecision: bonistaMetrics.totalRatiosDecision.toNumber(),
+                        ...this.storedRateSensitivityOf(bonistaMetrics),
                     },
                 },
                 flowsCount,
@@ -469,6 +677,18 @@ export class BondCalculationsService {
         const tipoTasaMap: Record<string, 'efectiva' | 'nominal'> = {
             EFECTIVA: 'efectiva', NOMINAL: 'nominal',
         };
+        const amortizationMethodMap: Record<string, AmortizationMethod> = {
+            AMERICANO: 'americano', FRANCES: 'frances', ALEMAN: 'aleman',
+        };
+        const instrumentTypeMap: Record<string, InstrumentType> = {
+            CUPON: 'cupon', CUPON_CERO: 'cupon_cero',
+        };
+        const dayCountConventionMap: Record<string, DayCountConvention> = {
+            THIRTY_360: '30/360', ACT_360: 'ACT/360', ACT_365: 'ACT/365', ACT_ACT_ICMA: 'ACT/ACT',
+        };
+        const businessDayConventionMap: Record<string, BusinessDayConvention> = {
+            NONE: 'none', FOLLOWING: 'following', MODIFIED_FOLLOWING: 'modified_following', PRECEDING: 'preceding',
+        };
 
         const mappedFrecuenciaCupon = frecuenciaCuponMap[bond.frecuenciaCupon as keyof typeof frecuenciaCuponMap];
         const mappedTipoTasa = tipoTasaMap[bond.tipoTasa as keyof typeof tipoTasaMap];
@@ -476,6 +696,31 @@ export class BondCalculationsService {
         if (!mappedFrecuenciaCupon) throw new Error(`Frecuencia de cupón no mapeada: ${bond.frecuenciaCupon}`);
         if (!mappedTipoTasa) throw new Error(`Tipo de tasa no mapeado: ${bond.tipoTasa}`);
 
+        const mappedAmortizationMethod = amortizationMethodMap[bond.amortizationMethod] ?? 'americano';
+        const mappedInstrumentType = instrumentTypeMap[bond.instrumentType] ?? 'cupon';
+        const mappedDayCountConvention = bond.dayCountConvention
+            ? dayCountConventionMap[bond.dayCountConvention]
+            : undefined;
+        const mappedBusinessDayConvention = businessDayConventionMap[bond.businessDayConvention] ?? 'none';
+
+        // Cronograma de tasas cupón (escalonado o flotante)
+        const couponSchedule = this.buildCouponSchedule(bond, calcInputsRecord.tasaCuponSerie);
+
+        // Opciones embebidas (call/put)
+        const callSchedule = this.buildOptionSchedule(bond, 'CALL');
+        const putSchedule = this.buildOptionSchedule(bond, 'PUT');
+
+        // Fondo de amortización (rescates parciales programados)
+        const sinkingFund = this.buildSinkingFund(bond);
+
+        // Curva cero de descuento (sin curva: todos los flujos a tasaDescuento)
+        const curvaDescuento = this.buildYieldCurve(bond);
+
+        // Feriados del mercado: solo hacen falta si hay regla de ajuste
+        const feriados = bond.mercadoCalendario && mappedBusinessDayConvention !== 'none'
+            ? (await loadMarketCalendar(bond.mercadoCalendario)).getFeriados()
+            : [];
+
         // ✅ OBTENER SERIES DE LA BASE DE DATOS CON VALIDACIÓN ADICIONAL
         let rawInflacionSerie = calcInputsRecord.inflacionSerie as any;
         let rawGraciaSerie = calcInputsRecord.graciaSerie as any;
@@ -521,14 +766,18 @@ export class BondCalculationsService {
         const hasCorruptGracia = Array.isArray(rawGraciaSerie) &&
             rawGraciaSerie.some(item => typeof item === 'string' && item.includes('['));
 
-        const hasWrongLength = (Array.isArray(rawInflacionSerie) && rawInflacionSerie.length !== bond.numAnios) ||
-            (Array.isArray(rawGraciaSerie) && rawGraciaSerie.length !== bond.numAnios);
+        // Series por cupón; las series por año del formato anterior también se migran en la reparación
+        const periodosPorAno = this.periodosPorAnoDe(mappedFrecuenciaCupon, bond.baseDias);
+        const numeroCupones = ExcelFormulas.numeroCupones(periodosPorAno, bond.numAnios);
+
+        const hasWrongLength = (Array.isArray(rawInflacionSerie) && rawInflacionSerie.length !== numeroCupones) ||
+            (Array.isArray(rawGraciaSerie) && rawGraciaSerie.length !== numeroCupones);
 
         if (hasCorruptInflacion || hasCorruptGracia || hasWrongLength || !Array.isArray(rawInflacionSerie) || !Array.isArray(rawGraciaSerie)) {
             console.log(`🔧 Datos corruptos detectados para bono ${bond.id}, iniciando auto-reparación...`);
 
             try {
-                await this.repairInconsistentSeries(bond.id, bond.numAnios);
+                await this.repairInconsistentSeries(bond.id, bond.numAnios, periodosPorAno);
                 console.log(`🔧 Auto-reparación completada para bono ${bond.id}`);
 
                 // ✅ RECARGAR DATOS DESPUÉS DE LA REPARACIÓN
@@ -556,6 +805,7 @@ export class BondCalculationsService {
                     numAnios: bond.numAnios,
                     frecuenciaCupon: mappedFrecuenciaCupon,
                     diasPorAno: bond.baseDias as 360 | 365,
+                    dayCountConvention: mappedDayCountConvention,
                     tipoTasa: mappedTipoTasa,
                     periodicidadCapitalizacion: bond.periodicidadCapitalizacion as any,
                     tasaAnual: bond.tasaAnual.toNumber(),
@@ -569,6 +819,16 @@ export class BondCalculationsService {
                     cavaliPorcentaje: bond.costs.cavaliPct.toNumber(),
                     inflacionSerie: repairedInflacion,
                     graciaSerie: repairedGracia,
+                    amortizationMethod: mappedAmortizationMethod,
+                    capitalizarGraciaTotal: bond.capitalizarGraciaTotal,
+                    instrumentType: mappedInstrumentType,
+                    couponSchedule,
+                    callSchedule,
+                    putSchedule,
+                    sinkingFund,
+                    businessDayConvention: mappedBusinessDayConvention,
+                    feriados,
+                    curvaDescuento,
                 };
 
             } catch (repairError) {
@@ -617,6 +877,7 @@ export class BondCalculationsService {
             numAnios: bond.numAnios,
             frecuenciaCupon: mappedFrecuenciaCupon,
             diasPorAno: bond.baseDias as 360 | 365,
+            dayCountConvention: mappedDayCountConvention,
             tipoTasa: mappedTipoTasa,
             periodicidadCapitalizacion: bond.periodicidadCapitalizacion as any,
             tasaAnual: bond.tasaAnual.toNumber(),
@@ -630,12 +891,87 @@ export class BondCalculationsService {
             cavaliPorcentaje: bond.costs.cavaliPct.toNumber(),
             inflacionSerie: inflacionSerie,
             graciaSerie: graciaSerie,
+            amortizationMethod: mappedAmortizationMethod,
+            capitalizarGraciaTotal: bond.capitalizarGraciaTotal,
+            instrumentType: mappedInstrumentType,
+            couponSchedule,
+            callSchedule,
+            putSchedule,
+            sinkingFund,
+            businessDayConvention: mappedBusinessDayConvention,
+            feriados,
+            curvaDescuento,
         };
 
         console.log('✅ convertBondToCalculationInputs completado para bono:', bond.id);
         return result;
     }
 
+    private buildCouponSchedule(
+        bond: BondWithFullRelations,
+        rawTasaCuponSerie: Prisma.JsonValue | null
+    ): CouponRateSchedule | undefined {
+        if (bond.couponRateType === 'FIJA') return undefined;
+
+        const serie = typeof rawTasaCuponSerie === 'string' ? JSON.parse(rawTasaCuponSerie) : rawTasaCuponSerie;
+        if (!Array.isArray(serie) || serie.length === 0) {
+            throw new Error(`tasaCuponSerie requerida para cupón ${bond.couponRateType} en bono ${bond.id}`);
+        }
+
+        const tasas = serie.map((item, index) => {
+            if (typeof item !== 'number' || !isFinite(item)) {
+                throw new Error(`tasaCuponSerie[${index}] must be a finite number. Got: ${item} (${typeof item})`);
+            }
+            return item;
+        });
+
+        return bond.couponRateType === 'ESCALONADA'
+            ? { tipo: 'escalonada', tasas }
+            : {
+                tipo: 'flotante',
+                tasas,
+                spread: bond.spreadFlotante?.toNumber() ?? 0,
+                tasaMaxima: bond.tasaMaxima?.toNumber(),
+                tasaMinima: bond.tasaMinima?.toNumber(),
+            };
+    }
+
+    private buildOptionSchedule(
+        bond: BondWithFullRelations,
+        tipo: 'CALL' | 'PUT'
+    ): OptionExerciseDate[] | undefined {
+        const opciones = bond.options.filter(o => o.tipo === tipo);
+        if (opciones.length === 0) return undefined;
+
+        return opciones.map(o => ({
+            fecha: o.fechaEjercicio,
+            precio: o.precioEjercicio.toNumber(),
+        }));
+    }
+
+    private buildSinkingFund(bond: BondWithFullRelations): SinkingFundSchedule | undefined {
+        if (bond.sinkingFund.length === 0) return undefined;
+
+        return {
+            cuotas: bond.sinkingFund.map(cuota => ({
+                periodo: cuota.periodo,
+                porcentaje: cuota.porcentaje.toNumber(),
+            })),
+            primaRescate: bond.primaRescate?.toNumber(),
+        };
+    }
+
+    private buildYieldCurve(bond: BondWithFullRelations): YieldCurveDefinition | undefined {
+        if (!bond.curvaDescuento) return undefined;
+
+        return {
+            nombre: bond.curvaDescuento.nombre,
+            fechaReferencia: bond.curvaDescuento.fechaReferencia,
+            interpolacion: bond.curvaDescuento.interpolacion === 'CUBICA' ? 'cubica' : 'lineal',
+            puntos: bond.curvaDescuento.puntos as unknown as YieldCurvePoint[],
+        };
+    }
+
     private async saveCalculationResults(
         bondId: string,
         calculationInputsId: string,
@@ -645,12 +981,13 @@ export class BondCalculationsService {
             if (result.flujos && result.flujos.length > 0) {
                 const prismaFlowsData = result.flujos.map(flow => {
                     const data: Prisma.CashFlowCreateManyInput = {
-                        bondId, periodo: flow.periodo, fecha: flow.fecha,
+                        bondId, periodo: flow.periodo, fecha: flow.fecha, fechaDevengo: flow.fechaDevengo,
                         inflacionAnual: flow.inflacionAnual !== null ? new Decimal(flow.inflacionAnual) : null,
                         inflacionSemestral: flow.inflacionSemestral !== null ? new Decimal(flow.inflacionSemestral) : null,
                         periodoGracia: flow.gracia,
                         bonoCapital: flow.bonoCapital !== null ? new Decimal(flow.bonoCapital) : null,
                         bonoIndexado: flow.bonoIndexado !== null ? new Decimal(flow.bonoIndexado) : null,
+                        interesCapitalizado: flow.interesCapitalizado != null ? new Decimal(flow.interesCapitalizado) : null,
                         cupon: flow.cupon !== null ? new Decimal(flow.cupon) : null,
                         amortizacion: flow.amortizacion !== null ? new Decimal(flow.amortizacion) : null,
                         cuota: flow.cuota !== null ? new Decimal(flow.cuota) : null,
@@ -677,6 +1014,10 @@ export class BondCalculationsService {
                 duracionModificada: metrics.duracionModificada,
                 convexidad: metrics.convexidad,
                 totalRatiosDecision: metrics.totalRatiosDecision,
+                duracionEfectiva: metrics.duracionEfectiva,
+                convexidadEfectiva: metrics.convexidadEfectiva,
+                dv01: metrics.dv01,
+                duracionesClave: metrics.duracionesClave as unknown as Prisma.InputJsonValue,
                 fechaCalculo: result.fechaCalculo || new Date(),
             });
 
@@ -706,25 +1047,31 @@ export class BondCalculationsService {
                     van: result.metricas.precioActual,
                     tir: result.metricas.treaBonista,
                     trea: result.metricas.treaBonista,
+                    ytc: result.metricas.ytc ?? null,
+                    ytp: result.metricas.ytp ?? null,
+                    ytw: result.metricas.ytw ?? null,
+                    zSpread: result.metricas.zSpread ?? null,
                 },
                 update: {
                     ...commonMetricsCreatePayload(result.metricas),
                     van: result.metricas.precioActual,
                     tir: result.metricas.treaBonista,
                     trea: result.metricas.treaBonista,
+                    ytc: result.metricas.ytc ?? null,
+                    ytp: result.metricas.ytp ?? null,
+                    ytw: result.metricas.ytw ?? null,
+                    zSpread: result.metricas.zSpread ?? null,
                 },
             });
 
+            // Un resultado por versión de términos: recalcular la misma versión lo reemplaza
+            const termsVersion = await this.versionService.currentVersion(tx, bondId);
             await tx.calculationResult.upsert({
-                where: {
-                    CalculationResult_bondId_calculationInputsId_key: {
-                        bondId,
-                        calculationInputsId
-                    }
-                },
+                where: { termsVersionId: termsVersion.id },
                 create: {
                     bond: { connect: { id: bondId } },
                     inputs: { connect: { id: calculationInputsId } },
+                    termsVersion: { connect: { id: termsVersion.id } },
                     calculosIntermedios: result.intermedios as unknown as Prisma.InputJsonValue || Prisma.JsonNull,
                     metricasCalculadas: result.metricas as unknown as Prisma.InputJsonValue || Prisma.JsonNull,
                 },
@@ -735,10 +1082,15 @@ export class BondCalculationsService {
                 }
             });
         });
-        // Activate bond if it was still in draft status
+        // Activate bond if it was still in draft status (system transition, audited)
         const current = await this.bondModel.findById(bondId);
         if (current && current.status === BondStatus.DRAFT) {
-            await this.bondModel.updateStatus(bondId, BondStatus.ACTIVE);
+            try {
+                await this.lifecycleService.transition(bondId, 'ACTIVE', { actor: 'SISTEMA', motivo: 'Cálculo inicial de flujos' });
+            } catch (error) {
+                if (!(error instanceof BondLifecycleError)) throw error;
+                console.warn(`Bond ${bondId} stays in DRAFT: ${error.message}`);
+            }
         }
     }
 
@@ -752,20 +1104,47 @@ export class BondCalculationsService {
                     tceaEmisorConEscudo: result.metricas.tceaEmisorConEscudo,
                     duracion: result.metricas.duracion, duracionModificada: result.metricas.duracionModificada,
                     convexidad: result.metricas.convexidad, totalRatiosDecision: result.metricas.totalRatiosDecision,
+                    ...this.rateSensitivityOf(result.metricas),
                 },
                 bonista: {
                     precioActual: result.metricas.precioActual, van: result.metricas.precioActual,
                     treaBonista: result.metricas.treaBonista,
                     duracion: result.metricas.duracion, duracionModificada: result.metricas.duracionModificada,
                     convexidad: result.metricas.convexidad, totalRatiosDecision: result.metricas.totalRatiosDecision,
+                    ...this.rateSensitivityOf(result.metricas),
                 },
             },
             flowsCount: result.flujos?.length || 0,
+            warnings: result.advertencias ?? [],
+        };
+    }
+
+    private rateSensitivityOf(metricas: CalculationResult['metricas']): RateSensitivityMetrics {
+        return {
+            duracionEfectiva: metricas.duracionEfectiva,
+            convexidadEfectiva: metricas.convexidadEfectiva,
+            dv01: metricas.dv01,
+            duracionesClave: metricas.duracionesClave,
+        };
+    }
+
+    // Métricas guardadas antes de existir estas columnas quedan en 0 hasta recalcular
+    private storedRateSensitivityOf(metrics: {
+        duracionEfectiva: Decimal | null; convexidadEfectiva: Decimal | null; dv01: Decimal | null; duracionesClave: unknown;
+    }): RateSensitivityMetrics {
+        return {
+            duracionEfectiva: metrics.duracionEfectiva?.toNumber() ?? 0,
+            convexidadEfectiva: metrics.convexidadEfectiva?.toNumber() ?? 0,
+            dv01: metrics.dv01?.toNumber() ?? 0,
+            duracionesClave: (metrics.duracionesClave as KeyRateDuration[] | null) ?? [],
         };
     }
 
     private getEmptyMetrics() {
-        const emptyBase = { precioActual: 0, van: 0, duracion: 0, duracionModificada: 0, convexidad: 0, totalRatiosDecision: 0 };
+        const emptyBase = {
+            precioActual: 0, van: 0, duracion: 0, duracionModificada: 0, convexidad: 0, totalRatiosDecision: 0,
+            duracionEfectiva: 0, convexidadEfectiva: 0, dv01: 0, duracionesClave: [],
+        };
         return {
             emisor: { ...emptyBase, tceaEmisor: 0, tceaEmisorConEscudo: 0 },
             bonista: { ...emptyBase, treaBonista: 0 },
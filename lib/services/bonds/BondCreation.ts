@@ -0,0 +1,448 @@
+// lib/services/bonds/BondCreation.ts
+
+import { PrismaClient, Prisma } from '../../generated/client';
+import { z } from 'zod';
+import { ExcelFormulas } from '@/lib/services/calculations/ExcelFormulas';
+import {
+    CalculationInputs,
+    CouponRateSchedule,
+    DayCountConvention,
+    PeriocidadCapitalizacion,
+} from '@/lib/types/calculations';
+
+/**
+ * Alta de bonos desde los datos del wizard (POST /api/bonds) o de una importación
+ * El bono siempre se crea en DRAFT con sus costes, inputs de cálculo, opciones y fondo de amortización
+ */
+
+// Mapeos de valores frontend → Prisma enum
+export const FRECUENCIA_CUPON_MAP = {
+    'mensual': 'MENSUAL',
+    'bimestral': 'BIMESTRAL',
+    'trimestral': 'TRIMESTRAL',
+    'cuatrimestral': 'CUATRIMESTRAL',
+    'semestral': 'SEMESTRAL',
+    'anual': 'ANUAL'
+} as const;
+
+const TIPO_TASA_MAP = {
+    'nominal': 'NOMINAL',
+    'efectiva': 'EFECTIVA'
+} as const;
+
+const DAY_COUNT_CONVENTION_MAP = {
+    '30/360': 'THIRTY_360',
+    'ACT/360': 'ACT_360',
+    'ACT/365': 'ACT_365',
+    'ACT/ACT': 'ACT_ACT_ICMA'
+} as const;
+
+const BUSINESS_DAY_CONVENTION_MAP = {
+    'none': 'NONE',
+    'following': 'FOLLOWING',
+    'modified_following': 'MODIFIED_FOLLOWING',
+    'preceding': 'PRECEDING'
+} as const;
+
+const COUPON_RATE_TYPE_MAP = {
+    'fija': 'FIJA',
+    'escalonada': 'ESCALONADA',
+    'flotante': 'FLOTANTE'
+} as const;
+
+const INSTRUMENT_TYPE_MAP = {
+    'cupon': 'CUPON',
+    'cupon_cero': 'CUPON_CERO'
+} as const;
+
+const AMORTIZATION_METHOD_MAP = {
+    'americano': 'AMERICANO',
+    'frances': 'FRANCES',
+    'aleman': 'ALEMAN'
+} as const;
+
+// Fecha de ejercicio de call/put (precio como % del capital vivo, 1.02 = 102%)
+const OptionExerciseSchema = z.object({
+    fecha: z.string().transform(str => new Date(str)),
+    precio: z.number().positive('Precio de ejercicio debe ser positivo'),
+});
+
+// Cuota del fondo de amortización (porcentaje del valor nominal original, 0.20 = 20%)
+const SinkingFundInstallmentSchema = z.object({
+    periodo: z.number().int().positive('Período de rescate debe ser positivo'),
+    porcentaje: z.number().positive('Porcentaje de rescate debe ser positivo').max(1),
+});
+
+// Períodos por año (L6) y número de cupones del bono a crear
+export const cuponesDe = (data: { numAnios: number; diasPorAno: number; frecuenciaCupon: keyof typeof FRECUENCIA_CUPON_MAP }) => {
+    const periodosPorAno = ExcelFormulas.periodosPorAno(data.diasPorAno, ExcelFormulas.frecuenciaCuponDias(data.frecuenciaCupon));
+    return { periodosPorAno, numeroCupones: ExcelFormulas.numeroCupones(periodosPorAno, data.numAnios) };
+};
+
+// Una serie es válida con un valor por cupón o, por compatibilidad, uno por año
+const serieValida = (longitud: number, data: Parameters<typeof cuponesDe>[0]) =>
+    longitud === 0 || longitud === data.numAnios || longitud === cuponesDe(data).numeroCupones;
+
+// Schema de validación
+export const CreateBondRequestSchema = z.object({
+    // Step 1 - Datos básicos
+    name: z.string().min(1, 'Nombre requerido'),
+    codigoIsin: z.string().optional(),
+    valorNominal: z.number().positive('Valor nominal debe ser positivo'),
+    valorComercial: z.number().positive('Valor comercial debe ser positivo'),
+    numAnios: z.number().int().positive('Número de años debe ser positivo'),
+    fechaEmision: z.string().transform(str => new Date(str)),
+    frecuenciaCupon: z.enum(['mensual', 'bimestral', 'trimestral', 'cuatrimestral', 'semestral', 'anual']),
+    diasPorAno: z.number().int().positive().default(360),
+    dayCountConvention: z.enum(['30/360', 'ACT/360', 'ACT/365', 'ACT/ACT']).optional(),
+    mercadoCalendario: z.string().trim().toUpperCase().optional(),
+    businessDayConvention: z.enum(['none', 'following', 'modified_following', 'preceding']).default('none'),
+
+    // Step 2 - Condiciones financieras
+    instrumentType: z.enum(['cupon', 'cupon_cero']).default('cupon'),
+    tipoTasa: z.enum(['nominal', 'efectiva']),
+    periodicidadCapitalizacion: z.string().default('semestral'),
+    tasaAnual: z.number().min(0).max(1, 'Tasa debe estar entre 0 y 1'),
+    couponRateType: z.enum(['fija', 'escalonada', 'flotante']).default('fija'),
+    tasaCuponSerie: z.array(z.number().min(-1).max(1)).default([]), // Escalonada: tasa por período | Flotante: referencia por período
+    spreadFlotante: z.number().min(-1).max(1).optional(),
+    tasaMaxima: z.number().min(0).max(1).optional(),
+    tasaMinima: z.number().min(0).max(1).optional(),
+    tasaDescuento: z.number().min(0).max(1).optional(),
+    inflacionSerie: z.array(z.number()).default([]), // Un valor por cupón
+    primaPorcentaje: z.number().min(0).default(0),
+    impuestoRenta: z.number().min(0).max(1).default(0.3),
+    amortizationMethod: z.enum(['americano', 'frances', 'aleman']).default('americano'),
+    capitalizarGraciaTotal: z.boolean().default(false), // Gracia total: el cupón impago se suma al capital
+
+    // Opciones embebidas: rescate anticipado del emisor (call) y venta del bonista (put)
+    callSchedule: z.array(OptionExerciseSchema).default([]),
+    putSchedule: z.array(OptionExerciseSchema).default([]),
+
+    // Fondo de amortización: rescates parciales antes del vencimiento (el resto se paga al final)
+    fondoAmortizacion: z.array(SinkingFundInstallmentSchema).default([]),
+    primaRescate: z.number().min(0).max(1).optional(),
+
+    // Curva cero de descuento (ver /api/curves); sin curva los flujos se descuentan a tasaDescuento
+    curvaDescuentoId: z.string().cuid().optional(),
+
+    // Step 3 - Costes
+    estructuracionPorcentaje: z.number().min(0).default(0),
+    colocacionPorcentaje: z.number().min(0).default(0),
+    flotacionPorcentaje: z.number().min(0).default(0),
+    cavaliPorcentaje: z.number().min(0).default(0),
+
+    // Períodos de gracia
+    graciaSerie: z.array(z.enum(['S', 'P', 'T'])).default([]), // Un valor por cupón
+
+    // Metadata
+    emisorId: z.string().cuid('ID de emisor inválido'),
+}).refine(
+    data => data.couponRateType === 'fija' || data.tasaCuponSerie.length > 0,
+    { message: 'El cronograma de tasas es requerido para cupones escalonados o flotantes', path: ['tasaCuponSerie'] }
+).refine(
+    data => data.instrumentType === 'cupon' || (data.couponRateType === 'fija' && data.amortizationMethod === 'americano'),
+    { message: 'Un bono cupón cero no admite cronograma de tasas ni amortización parcial', path: ['instrumentType'] }
+).refine(
+    data => serieValida(data.inflacionSerie.length, data),
+    { message: 'La serie de inflación debe tener un valor por cupón', path: ['inflacionSerie'] }
+).refine(
+    data => serieValida(data.graciaSerie.length, data),
+    { message: 'La serie de gracia debe tener un valor por cupón', path: ['graciaSerie'] }
+).refine(
+    data => data.fondoAmortizacion.length === 0 ||
+        (data.instrumentType === 'cupon' && data.amortizationMethod === 'americano'),
+    { message: 'El fondo de amortización solo aplica a bonos con cupón y método americano', path: ['fondoAmortizacion'] }
+).refine(
+    data => data.fondoAmortizacion.every(c => c.periodo < cuponesDe(data).numeroCupones) &&
+        new Set(data.fondoAmortizacion.map(c => c.periodo)).size === data.fondoAmortizacion.length,
+    { message: 'Cada rescate debe caer en un cupón distinto anterior al vencimiento', path: ['fondoAmortizacion'] }
+).refine(
+    data => data.fondoAmortizacion.reduce((sum, c) => sum + c.porcentaje, 0) <= 1 + 1e-9,
+    { message: 'Los rescates no pueden superar el 100% del valor nominal', path: ['fondoAmortizacion'] }
+);
+
+export type CreateBondRequestInput = z.input<typeof CreateBondRequestSchema>;
+export type CreateBondRequest = z.infer<typeof CreateBondRequestSchema>;
+
+export type BondCreationErrorCode = 'EMISOR_NOT_FOUND' | 'CURVE_NOT_FOUND';
+
+export class BondCreationError extends Error {
+    constructor(public readonly code: BondCreationErrorCode, message: string) {
+        super(message);
+        this.name = 'BondCreationError';
+    }
+}
+
+/**
+ * Inputs del motor para los datos de alta, sin pasar por la base de datos
+ * Las series por año se expanden a un valor por cupón, como al guardar
+ */
+export function toCalculationInputs(data: CreateBondRequest): CalculationInputs {
+    const { periodosPorAno } = cuponesDe(data);
+    const esCuponCero = data.instrumentType === 'cupon_cero';
+
+    const couponSchedule: CouponRateSchedule | undefined = data.couponRateType === 'fija'
+        ? undefined
+        : data.couponRateType === 'escalonada'
+            ? { tipo: 'escalonada', tasas: data.tasaCuponSerie }
+            : {
+                tipo: 'flotante',
+                tasas: data.tasaCuponSerie,
+                spread: data.spreadFlotante ?? 0,
+                tasaMaxima: data.tasaMaxima,
+                tasaMinima: data.tasaMinima,
+            };
+
+    return {
+        valorNominal: data.valorNominal,
+        valorComercial: data.valorComercial,
+        numAnios: data.numAnios,
+        frecuenciaCupon: data.frecuenciaCupon,
+        diasPorAno: data.diasPorAno as 360 | 365,
+        dayCountConvention: data.dayCountConvention as DayCountConvention | undefined,
+        tipoTasa: data.tipoTasa,
+        periodicidadCapitalizacion: data.periodicidadCapitalizacion as PeriocidadCapitalizacion,
+        tasaAnual: esCuponCero ? 0 : data.tasaAnual,
+        tasaDescuento: data.tasaDescuento || 0.045,
+        impuestoRenta: data.impuestoRenta,
+        fechaEmision: data.fechaEmision,
+        primaPorcentaje: data.primaPorcentaje,
+        estructuracionPorcentaje: data.estructuracionPorcentaje,
+        colocacionPorcentaje: data.colocacionPorcentaje,
+        flotacionPorcentaje: data.flotacionPorcentaje,
+        cavaliPorcentaje: data.cavaliPorcentaje,
+        inflacionSerie: ExcelFormulas.seriePorCupon(data.inflacionSerie, periodosPorAno, data.numAnios),
+        graciaSerie: ExcelFormulas.seriePorCupon(data.graciaSerie, periodosPorAno, data.numAnios),
+        capitalizarGraciaTotal: data.capitalizarGraciaTotal,
+        amortizationMethod: data.amortizationMethod,
+        instrumentType: data.instrumentType,
+        couponSchedule,
+        callSchedule: data.callSchedule,
+        putSchedule: data.putSchedule,
+        ...(data.fondoAmortizacion.length > 0 && {
+            sinkingFund: { cuotas: data.fondoAmortizacion, primaRescate: data.primaRescate ?? 0 },
+        }),
+        businessDayConvention: data.businessDayConvention,
+    };
+}
+
+// Origen del alta registrado en AuditLog (p.ej. 'importacion_lote')
+export interface BondCreationAudit {
+    origen: string;
+    userId?: string;               // Usuario que da el alta; por defecto el del emisor
+    detalle?: Record<string, string | number | null>;
+}
+
+export class BondCreationService {
+    constructor(private prisma: PrismaClient) {}
+
+    /**
+     * Valida los datos y crea el bono en DRAFT en una sola transacción
+     * Con auditoria, el registro en AuditLog se escribe en la misma transacción
+     */
+    async createBond(input: CreateBondRequestInput, auditoria?: BondCreationAudit) {
+        const validatedData = CreateBondRequestSchema.parse(input);
+
+        // Verificar que el emisor existe
+        const emisor = await this.prisma.emisorProfile.findUnique({
+            where: { id: validatedData.emisorId },
+            select: { id: true, userId: true, companyName: true },
+        });
+
+        if (!emisor) {
+            throw new BondCreationError('EMISOR_NOT_FOUND', 'Emisor no encontrado');
+        }
+
+        if (validatedData.curvaDescuentoId) {
+            const curva = await this.prisma.yieldCurve.findUnique({
+                where: { id: validatedData.curvaDescuentoId },
+                select: { id: true },
+            });
+            if (!curva) {
+                throw new BondCreationError('CURVE_NOT_FOUND', 'Curva de descuento no encontrada');
+            }
+        }
+
+        console.log('✅ Emisor encontrado:', emisor.companyName);
+
+        return this.prisma.$transaction(async tx => {
+            const result = await this.createInTransaction(tx, validatedData);
+
+            if (auditoria) {
+                await tx.auditLog.create({
+                    data: {
+                        userId: auditoria.userId ?? emisor.userId,
+                        tableName: 'bonds',
+                        recordId: result.bond.id,
+                        action: 'CREATE',
+                        newValues: {
+                            name: result.bond.name,
+                            codigoIsin: result.bond.codigoIsin,
+                            emisor: emisor.companyName,
+                            origen: auditoria.origen,
+                            ...auditoria.detalle,
+                        },
+                    },
+                });
+            }
+
+            return result;
+        });
+    }
+
+    private async createInTransaction(tx: Prisma.TransactionClient, validatedData: CreateBondRequest) {
+        console.log('🚀 Iniciando transacción de creación...');
+
+        // Calcular fecha de vencimiento
+        const fechaVencimiento = new Date(validatedData.fechaEmision);
+        fechaVencimiento.setFullYear(fechaVencimiento.getFullYear() + validatedData.numAnios);
+
+        // Mapear valores a enums de Prisma
+        const esFlotante = validatedData.couponRateType === 'flotante';
+        const esCuponCero = validatedData.instrumentType === 'cupon_cero';
+
+        // Las series por año se guardan expandidas a un valor por cupón
+        const { periodosPorAno } = cuponesDe(validatedData);
+        const inflacionSerie = ExcelFormulas.seriePorCupon(validatedData.inflacionSerie, periodosPorAno, validatedData.numAnios);
+        const graciaSerie = ExcelFormulas.seriePorCupon(validatedData.graciaSerie, periodosPorAno, validatedData.numAnios);
+
+        // Calcular costes absolutos
+        const emisorTotalAbs = (
+            validatedData.estructuracionPorcentaje +
+            validatedData.colocacionPorcentaje +
+            validatedData.flotacionPorcentaje +
+            validatedData.cavaliPorcentaje
+        ) * validatedData.valorComercial;
+
+        const bonistaTotalAbs = (
+            Math.max(0, 0.0045 - validatedData.flotacionPorcentaje) +
+            Math.max(0, 0.005 - validatedData.cavaliPorcentaje)
+        ) * validatedData.valorComercial;
+
+        // 1. Crear bono principal
+        const bond = await tx.bond.create({
+            data: {
+                name: validatedData.name,
+                codigoIsin: validatedData.codigoIsin || null,
+                valorNominal: validatedData.valorNominal,
+                valorComercial: validatedData.valorComercial,
+                numAnios: validatedData.numAnios,
+                fechaEmision: validatedData.fechaEmision,
+                fechaVencimiento: fechaVencimiento,
+                frecuenciaCupon: FRECUENCIA_CUPON_MAP[validatedData.frecuenciaCupon],
+                baseDias: validatedData.diasPorAno,
+                dayCountConvention: validatedData.dayCountConvention
+                    ? DAY_COUNT_CONVENTION_MAP[validatedData.dayCountConvention]
+                    : null,
+                mercadoCalendario: validatedData.mercadoCalendario || null,
+                businessDayConvention: BUSINESS_DAY_CONVENTION_MAP[validatedData.businessDayConvention],
+                instrumentType: INSTRUMENT_TYPE_MAP[validatedData.instrumentType],
+                tipoTasa: TIPO_TASA_MAP[validatedData.tipoTasa],
+                periodicidadCapitalizacion: validatedData.periodicidadCapitalizacion,
+                tasaAnual: esCuponCero ? 0 : validatedData.tasaAnual,
+                couponRateType: COUPON_RATE_TYPE_MAP[validatedData.couponRateType],
+                spreadFlotante: esFlotante ? (validatedData.spreadFlotante ?? 0) : null,
+                tasaMaxima: esFlotante ? (validatedData.tasaMaxima ?? null) : null,
+                tasaMinima: esFlotante ? (validatedData.tasaMinima ?? null) : null,
+                indexadoInflacion: false, // Por ahora
+                inflacionAnual: null,
+                primaVencimiento: validatedData.primaPorcentaje,
+                impuestoRenta: validatedData.impuestoRenta,
+                amortizationMethod: AMORTIZATION_METHOD_MAP[validatedData.amortizationMethod],
+                capitalizarGraciaTotal: validatedData.capitalizarGraciaTotal,
+                primaRescate: validatedData.fondoAmortizacion.length > 0 ? (validatedData.primaRescate ?? 0) : null,
+                curvaDescuentoId: validatedData.curvaDescuentoId ?? null,
+                emisorId: validatedData.emisorId,
+                status: 'DRAFT', // Siempre inicia como draft
+            }
+        });
+
+        console.log('✅ Bono creado con ID:', bond.id);
+
+        // 2. Crear costes asociados
+        const costs = await tx.bondCosts.create({
+            data: {
+                bondId: bond.id,
+                estructuracionPct: validatedData.estructuracionPorcentaje,
+                colocacionPct: validatedData.colocacionPorcentaje,
+                flotacionPct: validatedData.flotacionPorcentaje,
+                cavaliPct: validatedData.cavaliPorcentaje,
+                emisorTotalAbs: emisorTotalAbs,
+                bonistaTotalAbs: bonistaTotalAbs,
+                totalCostsAbs: emisorTotalAbs + bonistaTotalAbs,
+            }
+        });
+
+        // 3. Crear inputs de cálculo
+        const calculationInputs = await tx.calculationInputs.create({
+            data: {
+                bondId: bond.id,
+                inputsData: ({
+                    valorNominal: validatedData.valorNominal,
+                    valorComercial: validatedData.valorComercial,
+                    numAnios: validatedData.numAnios,
+                    frecuenciaCupon: validatedData.frecuenciaCupon,
+                    diasPorAno: validatedData.diasPorAno,
+                    dayCountConvention: validatedData.dayCountConvention ?? null,
+                    mercadoCalendario: validatedData.mercadoCalendario || null,
+                    businessDayConvention: validatedData.businessDayConvention,
+                    instrumentType: validatedData.instrumentType,
+                    tipoTasa: validatedData.tipoTasa,
+                    periodicidadCapitalizacion: validatedData.periodicidadCapitalizacion,
+                    tasaAnual: esCuponCero ? 0 : validatedData.tasaAnual,
+                    couponRateType: validatedData.couponRateType,
+                    spreadFlotante: esFlotante ? (validatedData.spreadFlotante ?? 0) : null,
+                    tasaMaxima: esFlotante ? (validatedData.tasaMaxima ?? null) : null,
+                    tasaMinima: esFlotante ? (validatedData.tasaMinima ?? null) : null,
+                    tasaDescuento: validatedData.tasaDescuento || 0.045,
+                    impuestoRenta: validatedData.impuestoRenta,
+                    amortizationMethod: validatedData.amortizationMethod,
+                    capitalizarGraciaTotal: validatedData.capitalizarGraciaTotal,
+                    fechaEmision: validatedData.fechaEmision.toISOString(),
+                    primaPorcentaje: validatedData.primaPorcentaje,
+                    estructuracionPorcentaje: validatedData.estructuracionPorcentaje,
+                    colocacionPorcentaje: validatedData.colocacionPorcentaje,
+                    flotacionPorcentaje: validatedData.flotacionPorcentaje,
+                    cavaliPorcentaje: validatedData.cavaliPorcentaje,
+                }),
+                inflacionSerie: inflacionSerie,
+                graciaSerie: graciaSerie,
+                tasaCuponSerie: validatedData.couponRateType === 'fija' ? undefined : validatedData.tasaCuponSerie,
+            }
+        });
+
+        // 4. Registrar cronograma de call/put
+        const opciones = [
+            ...validatedData.callSchedule.map(o => ({ ...o, tipo: 'CALL' as const })),
+            ...validatedData.putSchedule.map(o => ({ ...o, tipo: 'PUT' as const })),
+        ];
+        if (opciones.length > 0) {
+            await tx.bondOption.createMany({
+                data: opciones.map(o => ({
+                    bondId: bond.id,
+                    tipo: o.tipo,
+                    fechaEjercicio: o.fecha,
+                    precioEjercicio: o.precio,
+                })),
+            });
+        }
+
+        // 5. Registrar fondo de amortización
+        if (validatedData.fondoAmortizacion.length > 0) {
+            await tx.sinkingFundTranche.createMany({
+                data: validatedData.fondoAmortizacion.map(c => ({
+                    bondId: bond.id,
+                    periodo: c.periodo,
+                    porcentaje: c.porcentaje,
+                })),
+            });
+        }
+
+        return {
+            bond,
+            costs,
+            calculationInputs
+        };
+    }
+}
@@ -0,0 +1,158 @@
+// lib/services/bonds/BondDrafts.ts
+
+import { z } from 'zod';
+import { PrismaClient } from '../../generated/client';
+
+/**
+ * Borradores del asistente de creación de bonos
+ *
+ * El wizard guarda sus pasos tal cual (textos de los inputs) mientras el emisor edita;
+ * el bono recién se valida y crea al enviar el último paso, y entonces se borra el borrador.
+ * Solo el usuario dueño del perfil de emisor puede leer o modificar sus borradores.
+ */
+
+export const MAX_BORRADORES_POR_EMISOR = 20;
+export const MAX_TAMANO_BORRADOR = 100_000; // Caracteres del JSON guardado
+
+export type BondDraftErrorCode =
+    | 'EMISOR_NOT_FOUND'
+    | 'FORBIDDEN'
+    | 'DRAFT_NOT_FOUND'
+    | 'TOO_MANY_DRAFTS'
+    | 'DRAFT_TOO_LARGE';
+
+export class BondDraftError extends Error {
+    constructor(public readonly code: BondDraftErrorCode, message: string) {
+        super(message);
+        this.name = 'BondDraftError';
+    }
+}
+
+// Los pasos se guardan tal como los edita el formulario; se validan al crear el bono
+export const BondDraftInputSchema = z.object({
+    currentStep: z.number().int().min(1).max(4),
+    data: z.record(z.string(), z.unknown()),
+});
+
+export type BondDraftInput = z.infer<typeof BondDraftInputSchema>;
+
+export interface BondDraftSummary {
+    id: string;
+    name: string | null;
+    currentStep: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const SUMMARY_SELECT = { id: true, name: true, currentStep: true, createdAt: true, updatedAt: true } as const;
+
+export class BondDraftService {
+    constructor(private prisma: PrismaClient) {}
+
+    /**
+     * Nombre con el que se lista el borrador: el del paso 1 si ya se escribió
+     */
+    static nombreBorrador(data: Record<string, unknown>): string | null {
+        const step1 = data.step1 as { name?: unknown } | undefined;
+        const name = typeof step1?.name === 'string' ? step1.name.trim() : '';
+        return name ? name.slice(0, 200) : null;
+    }
+
+    async list(emisorId: string, userId: string): Promise<BondDraftSummary[]> {
+        await this.assertOwner(emisorId, userId);
+
+        return this.prisma.bondDraft.findMany({
+            where: { emisorId },
+            select: SUMMARY_SELECT,
+            orderBy: { updatedAt: 'desc' },
+        });
+    }
+
+    async get(emisorId: string, draftId: string, userId: string) {
+        await this.assertOwner(emisorId, userId);
+
+        const draft = await this.prisma.bondDraft.findFirst({
+            where: { id: draftId, emisorId },
+            select: { ...SUMMARY_SELECT, data: true },
+        });
+        if (!draft) {
+            throw new BondDraftError('DRAFT_NOT_FOUND', 'Borrador no encontrado');
+        }
+
+        return draft;
+    }
+
+    async create(emisorId: string, userId: string, input: BondDraftInput): Promise<BondDraftSummary> {
+        await this.assertOwner(emisorId, userId);
+        BondDraftService.assertSize(input.data);
+
+        const existentes = await this.prisma.bondDraft.count({ where: { emisorId } });
+        if (existentes >= MAX_BORRADORES_POR_EMISOR) {
+            throw new BondDraftError(
+                'TOO_MANY_DRAFTS',
+                `Máximo ${MAX_BORRADORES_POR_EMISOR} borradores por emisor; elimine alguno para continuar`
+            );
+        }
+
+        return this.prisma.bondDraft.create({
+            data: {
+                emisorId,
+                name: BondDraftService.nombreBorrador(input.data),
+                currentStep: input.currentStep,
+                data: input.data as object,
+            },
+            select: SUMMARY_SELECT,
+        });
+    }
+
+    /**
+     * Autosave: reemplaza los pasos guardados
+     */
+    async save(emisorId: string, draftId: string, userId: string, input: BondDraftInput): Promise<BondDraftSummary> {
+        await this.assertOwner(emisorId, userId);
+        BondDraftService.assertSize(input.data);
+
+        const { count } = await this.prisma.bondDraft.updateMany({
+            where: { id: draftId, emisorId },
+            data: {
+                name: BondDraftService.nombreBorrador(input.data),
+                currentStep: input.currentStep,
+                data: input.data as object,
+            },
+        });
+        if (count === 0) {
+            throw new BondDraftError('DRAFT_NOT_FOUND', 'Borrador no encontrado');
+        }
+
+        return this.prisma.bondDraft.findUniqueOrThrow({ where: { id: draftId }, select: SUMMARY_SELECT });
+    }
+
+    async remove(emisorId: string, draftId: string, userId: string): Promise<void> {
+        await this.assertOwner(emisorId, userId);
+
+        const { count } = await this.prisma.bondDraft.deleteMany({ where: { id: draftId, emisorId } });
+        if (count === 0) {
+            throw new BondDraftError('DRAFT_NOT_FOUND', 'Borrador no encontrado');
+        }
+    }
+
+    private static assertSize(data: Record<string, unknown>) {
+        if (JSON.stringify(data).length > MAX_TAMANO_BORRADOR) {
+            throw new BondDraftError('DRAFT_TOO_LARGE', 'El borrador excede el tamaño permitido');
+        }
+    }
+
+    private async assertOwner(emisorId: string, userId: string) {
+        const emisor = await this.prisma.emisorProfile.findUnique({
+            where: { id: emisorId },
+            select: { userId: true },
+        });
+
+        if (!emisor) {
+            throw new BondDraftError('EMISOR_NOT_FOUND', 'Emisor no encontrado');
+        }
+        if (emisor.userId !== userId) {
+            throw new BondDraftError('FORBIDDEN', 'No tiene acceso a los borradores de este emisor');
+        }
+    }
+}
@@ -0,0 +1,274 @@
+// lib/services/bonds/BondImporter.ts
+
+import ExcelJS from 'exceljs';
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import {
+    CreateBondRequestInput,
+    CreateBondRequestSchema,
+    toCalculationInputs,
+} from '@/lib/services/bonds/BondCreation';
+
+/**
+ * Importación de bonos desde la hoja de cálculo de referencia o desde la plantilla CSV
+ *
+ * Libro .xlsx (la misma disposición que exporta CalculationWorkbook):
+ * - A1 nombre del bono, E4:E20 datos del bono
+ * - Desde la fila 28: C[n] inflación anual y E[n] gracia de cada cupón
+ *
+ * CSV (ver config/templates/bono.csv):
+ * - Filas celda,valor con nombre, isin y E4..E20
+ * - Luego el encabezado periodo,inflacion,gracia y una fila por cupón
+ *
+ * Los errores se reportan por celda de la hoja (y por línea en el CSV)
+ */
+
+export interface BondImportError {
+    celda: string | null;          // 'E11', 'C30'; null si no corresponde a una celda
+    linea?: number;                // Línea del CSV
+    campo: string;
+    mensaje: string;
+}
+
+export type ImportedBond = Omit<CreateBondRequestInput, 'emisorId'>;
+
+export interface BondImportResult {
+    valido: boolean;
+    bono: ImportedBond | null;
+    errores: BondImportError[];
+}
+
+type ValorCelda = number | string | Date | null;
+
+interface PlantillaBono {
+    celdas: Record<string, ValorCelda>;
+    lineas: Record<string, number>;   // Celda → línea del CSV
+}
+
+// Fila del primer cupón en la tabla de flujos (A28 del Excel)
+const FILA_PRIMER_CUPON = 28;
+
+type TipoCelda = 'monto' | 'entero' | 'tasa' | 'texto' | 'fecha';
+
+// E4-E20: celda de la hoja → campo de CreateBondRequestSchema
+const CELDAS_DATOS: { celda: string; campo: keyof ImportedBond; tipo: TipoCelda; opcional?: boolean }[] = [
+    { celda: 'E4', campo: 'valorNominal', tipo: 'monto' },
+    { celda: 'E5', campo: 'valorComercial', tipo: 'monto' },
+    { celda: 'E6', campo: 'numAnios', tipo: 'entero' },
+    { celda: 'E7', campo: 'frecuenciaCupon', tipo: 'texto' },
+    { celda: 'E8', campo: 'diasPorAno', tipo: 'entero' },
+    { celda: 'E9', campo: 'tipoTasa', tipo: 'texto' },
+    { celda: 'E10', campo: 'periodicidadCapitalizacion', tipo: 'texto' },
+    { celda: 'E11', campo: 'tasaAnual', tipo: 'tasa' },
+    { celda: 'E12', campo: 'tasaDescuento', tipo: 'tasa' },
+    { celda: 'E13', campo: 'impuestoRenta', tipo: 'tasa' },
+    { celda: 'E14', campo: 'fechaEmision', tipo: 'fecha' },
+    { celda: 'E16', campo: 'primaPorcentaje', tipo: 'tasa', opcional: true },
+    { celda: 'E17', campo: 'estructuracionPorcentaje', tipo: 'tasa', opcional: true },
+    { celda: 'E18', campo: 'colocacionPorcentaje', tipo: 'tasa', opcional: true },
+    { celda: 'E19', campo: 'flotacionPorcentaje', tipo: 'tasa', opcional: true },
+    { celda: 'E20', campo: 'cavaliPorcentaje', tipo: 'tasa', opcional: true },
+];
+
+const CELDA_POR_CAMPO: Record<string, string> = {
+    name: 'A1',
+    ...Object.fromEntries(CELDAS_DATOS.map(d => [d.campo, d.celda])),
+    inflacionSerie: `C${FILA_PRIMER_CUPON}`,
+    graciaSerie: `E${FILA_PRIMER_CUPON}`,
+};
+
+export class BondImporter {
+    /**
+     * Lee la primera hoja del libro (o la hoja 'Bono' si existe)
+     */
+    static async fromWorkbook(archivo: Buffer | ArrayBuffer, emisorId: string): Promise<BondImportResult> {
+        const libro = new ExcelJS.Workbook();
+        try {
+            await libro.xlsx.load(archivo as ExcelJS.Buffer);
+        } catch {
+            return this.fallido([{ celda: null, campo: 'archivo', mensaje: 'El archivo no es un libro de Excel válido' }]);
+        }
+
+        const hoja = libro.getWorksheet('Bono') ?? libro.worksheets[0];
+        if (!hoja) {
+            return this.fallido([{ celda: null, campo: 'archivo', mensaje: 'El libro no tiene hojas' }]);
+        }
+
+        const valor = (celda: string) => this.valorCelda(hoja.getCell(celda).value);
+        const celdas: Record<string, ValorCelda> = { A1: valor('A1') };
+        CELDAS_DATOS.forEach(({ celda }) => celdas[celda] = valor(celda));
+
+        // Cupones hasta la primera fila sin número en la columna A
+        for (let fila = FILA_PRIMER_CUPON; valor(`A${fila}`) !== null; fila++) {
+            celdas[`C${fila}`] = valor(`C${fila}`);
+            celdas[`E${fila}`] = valor(`E${fila}`);
+        }
+
+        return this.validar({ celdas, lineas: {} }, emisorId);
+    }
+
+    /**
+     * Lee la plantilla CSV; con ';' como separador se admite coma decimal
+     */
+    static fromCSV(contenido: string, emisorId: string): BondImportResult {
+        const celdas: Record<string, ValorCelda> = {};
+        const lineas: Record<string, number> = {};
+        const errores: BondImportError[] = [];
+        let cupon = 0;
+        let enFlujos = false;
+
+        contenido.split(/\r?\n/).forEach((lineaOriginal, i) => {
+            const linea = lineaOriginal.trim();
+            if (!linea || linea.startsWith('#')) return;
+
+            const separador = linea.includes(';') ? ';' : linea.includes('\t') ? '\t' : ',';
+            const columnas = linea.split(separador).map(c => c.trim());
+            const decimal = (texto: string) => separador === ';' ? texto.replace(',', '.') : texto;
+
+            if (columnas[0].toLowerCase() === 'periodo') {
+                enFlujos = true;
+                return;
+            }
+
+            if (enFlujos) {
+                cupon++;
+                const fila = FILA_PRIMER_CUPON + cupon - 1;
+                if (Number(columnas[0]) !== cupon) {
+                    errores.push({ celda: `A${fila}`, linea: i + 1, campo: 'periodo', mensaje: `Se esperaba el cupón ${cupon}` });
+                }
+                celdas[`C${fila}`] = columnas[1] ? decimal(columnas[1]) : null;
+                celdas[`E${fila}`] = columnas[2] || null;
+                lineas[`C${fila}`] = lineas[`E${fila}`] = i + 1;
+                return;
+            }
+
+            const clave = columnas[0].toUpperCase();
+            const celda = clave === 'NOMBRE' ? 'A1' : clave;
+            if (celda !== 'ISIN' && celda !== 'A1' && !CELDAS_DATOS.some(d => d.celda === celda)) {
+                errores.push({ celda: null, linea: i + 1, campo: columnas[0], mensaje: `Celda desconocida en la plantilla: ${columnas[0]}` });
+                return;
+            }
+            celdas[celda] = columnas[1] ? (celda === 'A1' || celda === 'ISIN' ? columnas[1] : decimal(columnas[1])) : null;
+            lineas[celda] = i + 1;
+        });
+
+        const resultado = this.validar({ celdas, lineas }, emisorId);
+        return errores.length > 0
+            ? { valido: false, bono: resultado.bono, errores: [...errores, ...resultado.errores] }
+            : resultado;
+    }
+
+    /**
+     * Convierte las celdas en datos de alta y valida con CreateBondRequestSchema y FinancialCalculator.validateInputs
+     */
+    private static validar(plantilla: PlantillaBono, emisorId: string): BondImportResult {
+        const { celdas, lineas } = plantilla;
+        const errores: BondImportError[] = [];
+        const error = (celda: string | null, campo: string, mensaje: string) =>
+            errores.push({ celda, ...(celda && lineas[celda] && { linea: lineas[celda] }), campo, mensaje });
+
+        const bono: Record<string, unknown> = {
+            name: typeof celdas.A1 === 'string' ? celdas.A1.trim() : '',
+            ...(typeof celdas.ISIN === 'string' && { codigoIsin: celdas.ISIN }),
+        };
+
+        CELDAS_DATOS.forEach(({ celda, campo, tipo, opcional }) => {
+            const valor = celdas[celda] ?? null;
+            if (valor === null || valor === '') {
+                if (!opcional) error(celda, campo, 'La celda está vacía');
+                return;
+            }
+
+            const convertido = this.convertir(valor, tipo);
+            if (convertido === null) {
+                error(celda, campo, `Valor inválido: ${valor instanceof Date ? valor.toISOString() : valor}`);
+            } else {
+                bono[campo] = convertido;
+            }
+        });
+
+        // Series por cupón desde la tabla de flujos
+        const filas = Object.keys(celdas)
+            .filter(celda => /^C\d+$/.test(celda))
+            .map(celda => Number(celda.slice(1)))
+            .sort((a, b) => a - b);
+
+        bono.inflacionSerie = filas.map(fila => {
+            const valor = celdas[`C${fila}`];
+            const inflacion = valor === null ? 0 : this.convertir(valor, 'tasa');
+            if (inflacion === null) error(`C${fila}`, 'inflacionSerie', `Inflación inválida: ${valor}`);
+            return inflacion ?? 0;
+        });
+        bono.graciaSerie = filas.map(fila => {
+            const gracia = String(celdas[`E${fila}`] ?? 'S').trim().toUpperCase();
+            if (!['S', 'P', 'T'].includes(gracia)) error(`E${fila}`, 'graciaSerie', `Gracia inválida: ${gracia} (S, P o T)`);
+            return gracia;
+        });
+
+        if (errores.length > 0) {
+            return { valido: false, bono: bono as ImportedBond, errores };
+        }
+
+        // Reglas del alta (mismas que el wizard)
+        const parsed = CreateBondRequestSchema.safeParse({ ...bono, emisorId });
+        if (!parsed.success) {
+            parsed.error.errors.forEach(issue => error(this.celdaDe(issue.path), issue.path.join('.'), issue.message));
+            return { valido: false, bono: bono as ImportedBond, errores };
+        }
+
+        // Reglas del motor de cálculo
+        const validacion = new FinancialCalculator().validateInputs(toCalculationInputs(parsed.data));
+        validacion.errors.forEach(e => error(this.celdaDe(e.field.split('.')), e.field, e.message));
+
+        return { valido: errores.length === 0, bono: bono as ImportedBond, errores };
+    }
+
+    private static celdaDe(ruta: (string | number)[]): string | null {
+        const [campo, indice] = ruta;
+        if ((campo === 'inflacionSerie' || campo === 'graciaSerie') && typeof indice === 'number') {
+            return `${campo === 'inflacionSerie' ? 'C' : 'E'}${FILA_PRIMER_CUPON + indice}`;
+        }
+        return CELDA_POR_CAMPO[String(campo)] ?? null;
+    }
+
+    private static convertir(valor: Exclude<ValorCelda, null>, tipo: TipoCelda): number | string | null {
+        switch (tipo) {
+            case 'texto':
+                return typeof valor === 'string' ? valor.trim().toLowerCase() : null;
+            case 'fecha': {
+                const fecha = valor instanceof Date ? valor : this.fechaDeTexto(String(valor));
+                return fecha && !isNaN(fecha.getTime()) ? fecha.toISOString().split('T')[0] : null;
+            }
+            default: {
+                if (valor instanceof Date) return null;
+                const texto = String(valor).trim();
+                const porcentaje = texto.endsWith('%');
+                const numero = Number(texto.replace(/%$/, '').replace(/\s/g, ''));
+                if (!Number.isFinite(numero)) return null;
+                if (tipo === 'entero' && !Number.isInteger(numero)) return null;
+                return porcentaje ? numero / 100 : numero;
+            }
+        }
+    }
+
+    // dd/mm/yyyy como la hoja original, o ISO
+    private static fechaDeTexto(texto: string): Date | null {
+        const dmy = texto.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+        if (dmy) return new Date(Date.UTC(Number(dmy[3]), Number(dmy[2]) - 1, Number(dmy[1])));
+        return /^\d{4}-\d{2}-\d{2}/.test(texto) ? new Date(texto) : null;
+    }
+
+    private static valorCelda(valor: ExcelJS.CellValue): ValorCelda {
+        if (valor === null || valor === undefined) return null;
+        if (typeof valor === 'number' || typeof valor === 'string' || valor instanceof Date) return valor;
+        if (typeof valor === 'object' && 'result' in valor) {
+            const resultado = valor.result;
+            return typeof resultado === 'number' || typeof resultado === 'string' || resultado instanceof Date ? resultado : null;
+        }
+        if (typeof valor === 'object' && 'richText' in valor) return valor.richText.map(t => t.text).join('');
+        return null;
+    }
+
+    private static fallido(errores: BondImportError[]): BondImportResult {
+        return { valido: false, bono: null, errores };
+    }
+}
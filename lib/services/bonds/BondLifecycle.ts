@@ -0,0 +1,246 @@
+// lib/services/bonds/BondLifecycle.ts
+
+import { PrismaClient, BondStatus } from '../../generated/client';
+
+/**
+ * Ciclo de vida del bono
+ *
+ * - DRAFT: borrador editable, sin inversiones
+ * - ACTIVE: publicado, acepta inversiones
+ * - PAUSED: publicado pero sin nuevas inversiones
+ * - EXPIRED: alcanzó su fecha de vencimiento (proceso de vencimientos)
+ * - COMPLETED: obligaciones liquidadas
+ * - CANCELLED: retirado sin inversiones activas
+ *
+ * Cada transición se valida contra BOND_TRANSITIONS y queda en AuditLog; como EMISOR
+ * solo opera el usuario dueño del emisor del bono
+ */
+
+export type BondLifecycleStatus = 'DRAFT' | 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'CANCELLED' | 'EXPIRED';
+
+// EMISOR: acciones desde el dashboard; SISTEMA: cálculo inicial y proceso de vencimientos
+export type BondLifecycleActor = 'EMISOR' | 'SISTEMA';
+
+export type BondTransitionPrecondition =
+    | 'FLUJOS_CALCULADOS'          // Hay flujos de caja guardados
+    | 'SIN_INVERSIONES_ACTIVAS'    // Ninguna inversión en estado ACTIVE
+    | 'VIGENTE'                    // No alcanzó la fecha de vencimiento
+    | 'VENCIDO';                   // Alcanzó la fecha de vencimiento
+
+export interface BondTransitionRule {
+    actores: BondLifecycleActor[];
+    precondiciones: BondTransitionPrecondition[];
+}
+
+export const BOND_TRANSITIONS: Record<BondLifecycleStatus, Partial<Record<BondLifecycleStatus, BondTransitionRule>>> = {
+    DRAFT: {
+        ACTIVE: { actores: ['EMISOR', 'SISTEMA'], precondiciones: ['FLUJOS_CALCULADOS', 'VIGENTE'] },
+        CANCELLED: { actores: ['EMISOR'], precondiciones: ['SIN_INVERSIONES_ACTIVAS'] },
+    },
+    ACTIVE: {
+        PAUSED: { actores: ['EMISOR'], precondiciones: [] },
+        DRAFT: { actores: ['EMISOR'], precondiciones: ['SIN_INVERSIONES_ACTIVAS'] },
+        EXPIRED: { actores: ['SISTEMA'], precondiciones: ['VENCIDO'] },
+        COMPLETED: { actores: ['EMISOR', 'SISTEMA'], precondiciones: ['VENCIDO'] },
+        CANCELLED: { actores: ['EMISOR'], precondiciones: ['SIN_INVERSIONES_ACTIVAS'] },
+    },
+    PAUSED: {
+        ACTIVE: { actores: ['EMISOR'], precondiciones: ['FLUJOS_CALCULADOS', 'VIGENTE'] },
+        EXPIRED: { actores: ['SISTEMA'], precondiciones: ['VENCIDO'] },
+        COMPLETED: { actores: ['EMISOR', 'SISTEMA'], precondiciones: ['VENCIDO'] },
+        CANCELLED: { actores: ['EMISOR'], precondiciones: ['SIN_INVERSIONES_ACTIVAS'] },
+    },
+    EXPIRED: {
+        COMPLETED: { actores: ['EMISOR', 'SISTEMA'], precondiciones: [] },
+    },
+    COMPLETED: {},
+    CANCELLED: {},
+};
+
+export type BondLifecycleErrorCode =
+    | 'BOND_NOT_FOUND'
+    | 'FORBIDDEN'
+    | 'INVALID_TRANSITION'
+    | 'ACTOR_NOT_ALLOWED'
+    | 'FLOWS_NOT_CALCULATED'
+    | 'ACTIVE_INVESTMENTS'
+    | 'BOND_MATURED'
+    | 'BOND_NOT_MATURED';
+
+export class BondLifecycleError extends Error {
+    constructor(public readonly code: BondLifecycleErrorCode, message: string) {
+        super(message);
+        this.name = 'BondLifecycleError';
+    }
+}
+
+// Estado del bono necesario para evaluar precondiciones
+export interface BondLifecycleContext {
+    status: BondLifecycleStatus;
+    flujosCalculados: number;
+    inversionesActivas: number;
+    fechaVencimiento: Date;
+}
+
+export interface BondTransitionOption {
+    status: BondLifecycleStatus;
+    permitida: boolean;
+    error?: { code: BondLifecycleErrorCode; message: string };
+}
+
+export interface BondTransitionOptions {
+    actor: BondLifecycleActor;
+    userId?: string | null;        // Obligatorio para EMISOR; para SISTEMA, por defecto el usuario del emisor
+    motivo?: string;
+    fecha?: Date;                  // Referencia para VIGENTE/VENCIDO (por defecto hoy)
+}
+
+const PRECONDITION_ERRORS: Record<BondTransitionPrecondition, { code: BondLifecycleErrorCode; message: string }> = {
+    FLUJOS_CALCULADOS: { code: 'FLOWS_NOT_CALCULATED', message: 'El bono no tiene flujos calculados' },
+    SIN_INVERSIONES_ACTIVAS: { code: 'ACTIVE_INVESTMENTS', message: 'El bono tiene inversiones activas' },
+    VIGENTE: { code: 'BOND_MATURED', message: 'El bono ya alcanzó su fecha de vencimiento' },
+    VENCIDO: { code: 'BOND_NOT_MATURED', message: 'El bono aún no alcanza su fecha de vencimiento' },
+};
+
+export class BondLifecycleService {
+    constructor(private prisma: PrismaClient) {}
+
+    static isTerminal(status: BondLifecycleStatus): boolean {
+        return Object.keys(BOND_TRANSITIONS[status]).length === 0;
+    }
+
+    /**
+     * Valida una transición; devuelve el error que la impide o null
+     */
+    static validateTransition(
+        contexto: BondLifecycleContext,
+        hacia: BondLifecycleStatus,
+        actor: BondLifecycleActor,
+        fecha: Date = new Date()
+    ): BondLifecycleError | null {
+        const regla = BOND_TRANSITIONS[contexto.status][hacia];
+        if (!regla) {
+            return new BondLifecycleError(
+                'INVALID_TRANSITION',
+                `No se puede pasar de ${contexto.status} a ${hacia}`
+            );
+        }
+
+        if (!regla.actores.includes(actor)) {
+            return new BondLifecycleError(
+                'ACTOR_NOT_ALLOWED',
+                `La transición de ${contexto.status} a ${hacia} no está permitida para ${actor}`
+            );
+        }
+
+        const vencido = contexto.fechaVencimiento.getTime() <= fecha.getTime();
+        const cumple: Record<BondTransitionPrecondition, boolean> = {
+            FLUJOS_CALCULADOS: contexto.flujosCalculados > 0,
+            SIN_INVERSIONES_ACTIVAS: contexto.inversionesActivas === 0,
+            VIGENTE: !vencido,
+            VENCIDO: vencido,
+        };
+
+        const fallida = regla.precondiciones.find(p => !cumple[p]);
+        if (fallida) {
+            const { code, message } = PRECONDITION_ERRORS[fallida];
+            return new BondLifecycleError(code, message);
+        }
+
+        return null;
+    }
+
+    /**
+     * Estados a los que el actor puede mover el bono, con el motivo si alguno está bloqueado
+     */
+    async getTransitions(bondId: string, options: Omit<BondTransitionOptions, 'motivo'>) {
+        const { actor, fecha = new Date() } = options;
+        const { contexto } = await this.loadContext(bondId, options);
+
+        const transiciones: BondTransitionOption[] = (Object.keys(BOND_TRANSITIONS[contexto.status]) as BondLifecycleStatus[])
+            .filter(hacia => BOND_TRANSITIONS[contexto.status][hacia]!.actores.includes(actor))
+            .map(hacia => {
+                const error = BondLifecycleService.validateTransition(contexto, hacia, actor, fecha);
+                return {
+                    status: hacia,
+                    permitida: error === null,
+                    ...(error && { error: { code: error.code, message: error.message } }),
+                };
+            });
+
+        return { status: contexto.status, transiciones };
+    }
+
+    /**
+     * Aplica la transición y registra la auditoría en la misma transacción
+     */
+    async transition(bondId: string, hacia: BondLifecycleStatus, options: BondTransitionOptions) {
+        const fecha = options.fecha ?? new Date();
+        const { contexto, emisorUserId } = await this.loadContext(bondId, options);
+
+        const error = BondLifecycleService.validateTransition(contexto, hacia, options.actor, fecha);
+        if (error) throw error;
+
+        return this.prisma.$transaction(async tx => {
+            // Solo si nadie cambió el estado desde la lectura
+            const { count } = await tx.bond.updateMany({
+                where: { id: bondId, status: contexto.status as BondStatus },
+                data: { status: hacia as BondStatus },
+            });
+            if (count === 0) {
+                throw new BondLifecycleError('INVALID_TRANSITION', 'El estado del bono cambió durante la operación');
+            }
+
+            await tx.auditLog.create({
+                data: {
+                    userId: options.userId === undefined ? emisorUserId : options.userId,
+                    tableName: 'bonds',
+                    recordId: bondId,
+                    action: 'UPDATE',
+                    oldValues: { status: contexto.status },
+                    newValues: {
+                        status: hacia,
+                        actor: options.actor,
+                        ...(options.motivo && { motivo: options.motivo }),
+                    },
+                },
+            });
+
+            return tx.bond.findUniqueOrThrow({ where: { id: bondId } });
+        });
+    }
+
+    private async loadContext(bondId: string, { actor, userId }: Pick<BondTransitionOptions, 'actor' | 'userId'>) {
+        const bond = await this.prisma.bond.findUnique({
+            where: { id: bondId },
+            select: {
+                status: true,
+                fechaVencimiento: true,
+                emisor: { select: { userId: true } },
+                _count: {
+                    select: {
+                        cashFlows: true,
+                        investments: { where: { status: 'ACTIVE' } },
+                    },
+                },
+            },
+        });
+
+        if (!bond) {
+            throw new BondLifecycleError('BOND_NOT_FOUND', 'Bono no encontrado');
+        }
+
+        if (actor === 'EMISOR' && userId !== bond.emisor.userId) {
+            throw new BondLifecycleError('FORBIDDEN', 'No tiene acceso a este bono');
+        }
+
+        const contexto: BondLifecycleContext = {
+            status: bond.status as BondLifecycleStatus,
+            flujosCalculados: bond._count.cashFlows,
+            inversionesActivas: bond._count.investments,
+            fechaVencimiento: bond.fechaVencimiento,
+        };
+
+        return { contexto, emisorUserId: bond.emisor.userId };
+    }
+}
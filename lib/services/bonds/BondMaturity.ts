@@ -0,0 +1,192 @@
+// lib/services/bonds/BondMaturity.ts
+
+import { PrismaClient } from '../../generated/client';
+import { BondLifecycleService } from './BondLifecycle';
+
+/**
+ * Proceso de vencimientos
+ *
+ * Para cada bono ACTIVE/PAUSED cuya fechaVencimiento ya pasó:
+ * 1. Lo mueve a EXPIRED (actor SISTEMA, vía BondLifecycleService)
+ * 2. Completa sus inversiones ACTIVE registrando el pago final de redención
+ *
+ * Es idempotente: solo toca bonos aún no vencidos e inversiones aún activas,
+ * y retoma bonos EXPIRED que quedaron con inversiones pendientes.
+ */
+
+export interface MaturityJobOptions {
+    fecha?: Date;            // Fecha de corte (por defecto hoy)
+    bondIds?: string[];      // Limitar a bonos específicos
+    dryRun?: boolean;        // Solo reportar, sin escribir
+}
+
+export interface MaturityBondResult {
+    bondId: string;
+    name: string;
+    statusAnterior: string;
+    expirado: boolean;
+    inversionesCompletadas: number;
+    montoRedencionTotal: number;
+    error?: string;
+}
+
+export interface MaturityJobResult {
+    fecha: string;
+    dryRun: boolean;
+    procesados: number;
+    bonosExpirados: number;
+    inversionesCompletadas: number;
+    errores: number;
+    bonos: MaturityBondResult[];
+}
+
+const MOTIVO_VENCIMIENTO = 'Vencimiento del bono';
+
+export class BondMaturityService {
+    private lifecycleService: BondLifecycleService;
+
+    constructor(private prisma: PrismaClient) {
+        this.lifecycleService = new BondLifecycleService(prisma);
+    }
+
+    /**
+     * Pago final que recibe una inversión: bonos en cartera × flujo del bonista del último período
+     * Los bonos en cartera salen del monto invertido sobre el precio de compra (precio sucio por bono)
+     */
+    static calcularMontoRedencion(montoInvertido: number, precioCompra: number, flujoFinalBonista: number): number {
+        if (precioCompra <= 0) return 0;
+        const bonosEnCartera = montoInvertido / precioCompra;
+        return Math.round(bonosEnCartera * flujoFinalBonista * 10000) / 10000;
+    }
+
+    async processMaturities(options: MaturityJobOptions = {}): Promise<MaturityJobResult> {
+        const fecha = options.fecha ?? new Date();
+        const dryRun = options.dryRun ?? false;
+
+        // 1. Bonos vencidos pendientes de procesar
+        const candidatos = await this.prisma.bond.findMany({
+            where: {
+                fechaVencimiento: { lte: fecha },
+                ...(options.bondIds && { id: { in: options.bondIds } }),
+                OR: [
+                    { status: { in: ['ACTIVE', 'PAUSED'] } },
+                    { status: 'EXPIRED', investments: { some: { status: 'ACTIVE' } } },
+                ],
+            },
+            select: { id: true, name: true, status: true, fechaVencimiento: true },
+            orderBy: { fechaVencimiento: 'asc' },
+        });
+
+        // 2. Procesar cada bono por separado para que un error no detenga el resto
+        const bonos: MaturityBondResult[] = [];
+        for (const bond of candidatos) {
+            const resultado: MaturityBondResult = {
+                bondId: bond.id,
+                name: bond.name,
+                statusAnterior: bond.status,
+                expirado: false,
+                inversionesCompletadas: 0,
+                montoRedencionTotal: 0,
+            };
+
+            try {
+                await this.processBond(bond, fecha, dryRun, resultado);
+            } catch (error) {
+                resultado.error = error instanceof Error ? error.message : String(error);
+            }
+            bonos.push(resultado);
+        }
+
+        return {
+            fecha: fecha.toISOString(),
+            dryRun,
+            procesados: bonos.length,
+            bonosExpirados: bonos.filter(b => b.expirado).length,
+            inversionesCompletadas: bonos.reduce((sum, b) => sum + b.inversionesCompletadas, 0),
+            errores: bonos.filter(b => b.error).length,
+            bonos,
+        };
+    }
+
+    private async processBond(
+        bond: { id: string; status: string; fechaVencimiento: Date },
+        fecha: Date,
+        dryRun: boolean,
+        resultado: MaturityBondResult
+    ) {
+        // El pago final se toma del último flujo guardado
+        const flujoFinal = await this.prisma.cashFlow.findFirst({
+            where: { bondId: bond.id },
+            orderBy: { periodo: 'desc' },
+            select: { flujoBonista: true },
+        });
+        if (!flujoFinal?.flujoBonista) {
+            throw new Error('El bono no tiene flujos calculados para determinar la redención');
+        }
+        const flujoFinalBonista = flujoFinal.flujoBonista.toNumber();
+
+        if (bond.status !== 'EXPIRED') {
+            if (!dryRun) {
+                await this.lifecycleService.transition(bond.id, 'EXPIRED', {
+                    actor: 'SISTEMA',
+                    userId: null,
+                    motivo: MOTIVO_VENCIMIENTO,
+                    fecha,
+                });
+            }
+            resultado.expirado = true;
+        }
+
+        const inversiones = await this.prisma.userInvestment.findMany({
+            where: { bondId: bond.id, status: 'ACTIVE' },
+            select: { id: true, userId: true, montoInvertido: true, precioCompra: true },
+        });
+
+        for (const inversion of inversiones) {
+            const montoRedencion = BondMaturityService.calcularMontoRedencion(
+                inversion.montoInvertido.toNumber(),
+                inversion.precioCompra.toNumber(),
+                flujoFinalBonista
+            );
+
+            if (!dryRun) {
+                const completada = await this.prisma.$transaction(async tx => {
+                    // Solo si sigue activa: otra ejecución pudo completarla
+                    const { count } = await tx.userInvestment.updateMany({
+                        where: { id: inversion.id, status: 'ACTIVE' },
+                        data: {
+                            status: 'COMPLETED',
+                            montoRedencion,
+                            fechaRedencion: bond.fechaVencimiento,
+                            gananciaNoRealizada: 0,
+                        },
+                    });
+                    if (count === 0) return false;
+
+                    await tx.auditLog.create({
+                        data: {
+                            userId: inversion.userId,
+                            tableName: 'user_investments',
+                            recordId: inversion.id,
+                            action: 'UPDATE',
+                            oldValues: { status: 'ACTIVE' },
+                            newValues: {
+                                status: 'COMPLETED',
+                                actor: 'SISTEMA',
+                                motivo: MOTIVO_VENCIMIENTO,
+                                montoRedencion,
+                                fechaRedencion: bond.fechaVencimiento.toISOString(),
+                            },
+                        },
+                    });
+
+                    return true;
+                });
+                if (!completada) continue;
+            }
+
+            resultado.inversionesCompletadas++;
+            resultado.montoRedencionTotal += montoRedencion;
+        }
+    }
+}
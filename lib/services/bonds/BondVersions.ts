@@ -0,0 +1,495 @@
+// lib/services/bonds/BondVersions.ts
+
+import { PrismaClient, Prisma } from '../../generated/client';
+import { BondModel, UpdateBondInput } from '../../models/Bond';
+import { ExcelFormulas } from '../calculations/ExcelFormulas';
+import { FinancialMetrics, FrequenciaCupon as FrecuenciaCuponCalculo } from '../../types/calculations';
+
+/**
+ * Versiones de los términos de un bono
+ *
+ * Un bono en DRAFT y sin inversiones se edita con BondModel.update; cada edición que cambia
+ * algo guarda los términos completos como una nueva versión, con la lista de campos modificados.
+ * Los resultados de cálculo (CalculationResult) quedan ligados a la versión vigente al calcular,
+ * lo que permite comparar entre dos versiones qué inputs cambiaron y cómo se movió cada métrica.
+ *
+ * Los bonos anteriores al versionado reciben su versión 1 al primer cálculo o edición.
+ * Una edición con cambios borra los flujos y métricas guardados: eran de la versión anterior,
+ * y sin flujos el bono no se publica (FLUJOS_CALCULADOS) hasta volver a calcularlo.
+ */
+
+export type BondVersionErrorCode =
+    | 'BOND_NOT_FOUND'
+    | 'FORBIDDEN'
+    | 'BOND_NOT_EDITABLE'
+    | 'VALIDATION_ERROR'
+    | 'VERSION_NOT_FOUND';
+
+export class BondVersionError extends Error {
+    constructor(public readonly code: BondVersionErrorCode, message: string) {
+        super(message);
+        this.name = 'BondVersionError';
+    }
+}
+
+// Términos de una versión: valores planos (números, fechas YYYY-MM-DD) para guardarlos como JSON
+export interface BondTerms {
+    name: string;
+    codigoIsin: string | null;
+    valorNominal: number;
+    valorComercial: number;
+    numAnios: number;
+    fechaEmision: string;
+    fechaVencimiento: string;
+    frecuenciaCupon: string;
+    baseDias: number;
+    dayCountConvention: string | null;
+    mercadoCalendario: string | null;
+    businessDayConvention: string;
+    instrumentType: string;
+    tipoTasa: string;
+    periodicidadCapitalizacion: string;
+    tasaAnual: number;
+    couponRateType: string;
+    spreadFlotante: number | null;
+    tasaMaxima: number | null;
+    tasaMinima: number | null;
+    indexadoInflacion: boolean;
+    inflacionAnual: number | null;
+    primaVencimiento: number;
+    impuestoRenta: number;
+    amortizationMethod: string;
+    capitalizarGraciaTotal: boolean;
+    primaRescate: number | null;
+    curvaDescuentoId: string | null;
+    costes: {
+        estructuracionPct: number;
+        colocacionPct: number;
+        flotacionPct: number;
+        cavaliPct: number;
+    } | null;
+    opciones: { tipo: string; fechaEjercicio: string; precioEjercicio: number }[];
+    fondoAmortizacion: { periodo: number; porcentaje: number }[];
+    inflacionSerie: unknown[];
+    graciaSerie: unknown[];
+    tasaCuponSerie: unknown[];
+}
+
+// Campo modificado; los costes se comparan por componente (p. ej. costes.colocacionPct)
+export interface BondTermChange {
+    campo: string;
+    anterior: unknown;
+    nuevo: unknown;
+}
+
+export interface BondMetricChange {
+    metrica: keyof FinancialMetrics;
+    anterior: number | null;
+    nuevo: number | null;
+    variacion: number | null;
+}
+
+export interface BondVersionSummary {
+    version: number;
+    motivo: string | null;
+    userId: string | null;
+    createdAt: Date;
+    cambios: BondTermChange[];
+    calculadoEn: Date | null;
+}
+
+// Métricas escalares de FinancialMetrics que se comparan entre versiones
+export const METRICAS_COMPARADAS: (keyof FinancialMetrics)[] = [
+    'precioActual',
+    'utilidadPerdida',
+    'tceaEmisor',
+    'tceaEmisorConEscudo',
+    'treaBonista',
+    'duracion',
+    'duracionModificada',
+    'convexidad',
+    'duracionEfectiva',
+    'convexidadEfectiva',
+    'dv01',
+    'ytc',
+    'ytp',
+    'ytw',
+    'zSpread',
+];
+
+type DecimalLike = { toNumber(): number };
+
+// Bono con las relaciones que forman sus términos (ver TERMS_INCLUDE)
+export interface BondTermsSource {
+    name: string;
+    codigoIsin: string | null;
+    valorNominal: DecimalLike;
+    valorComercial: DecimalLike;
+    numAnios: number;
+    fechaEmision: Date;
+    fechaVencimiento: Date;
+    frecuenciaCupon: string;
+    baseDias: number;
+    dayCountConvention: string | null;
+    mercadoCalendario: string | null;
+    businessDayConvention: string;
+    instrumentType: string;
+    tipoTasa: string;
+    periodicidadCapitalizacion: string;
+    tasaAnual: DecimalLike;
+    couponRateType: string;
+    spreadFlotante: DecimalLike | null;
+    tasaMaxima: DecimalLike | null;
+    tasaMinima: DecimalLike | null;
+    indexadoInflacion: boolean;
+    inflacionAnual: DecimalLike | null;
+    primaVencimiento: DecimalLike;
+    impuestoRenta: DecimalLike;
+    amortizationMethod: string;
+    capitalizarGraciaTotal: boolean;
+    primaRescate: DecimalLike | null;
+    curvaDescuentoId: string | null;
+    costs: {
+        estructuracionPct: DecimalLike;
+        colocacionPct: DecimalLike;
+        flotacionPct: DecimalLike;
+        cavaliPct: DecimalLike;
+    } | null;
+    options: { tipo: string; fechaEjercicio: Date; precioEjercicio: DecimalLike }[];
+    sinkingFund: { periodo: number; porcentaje: DecimalLike }[];
+    calculationInputs: { inflacionSerie: unknown; graciaSerie: unknown; tasaCuponSerie: unknown } | null;
+}
+
+const TERMS_INCLUDE = {
+    costs: true,
+    options: { orderBy: { fechaEjercicio: 'asc' } },
+    sinkingFund: { orderBy: { periodo: 'asc' } },
+    calculationInputs: { select: { inflacionSerie: true, graciaSerie: true, tasaCuponSerie: true } },
+} as const;
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+const aFecha = (fecha: Date) => fecha.toISOString().split('T')[0];
+const aNumero = (valor: DecimalLike | null) => valor?.toNumber() ?? null;
+// Las series antiguas pueden estar guardadas como texto JSON
+const aSerie = (valor: unknown): unknown[] => {
+    if (typeof valor === 'string') {
+        try {
+            valor = JSON.parse(valor);
+        } catch {
+            return [];
+        }
+    }
+    return Array.isArray(valor) ? valor : [];
+};
+
+export class BondVersionService {
+    constructor(
+        private prisma: PrismaClient,
+        private bondModel: Pick<BondModel, 'update' | 'canModify'>
+    ) {}
+
+    /**
+     * Términos planos de un bono con sus costes, opciones, fondo de amortización y series
+     */
+    static terminosDe(bond: BondTermsSource): BondTerms {
+        return {
+            name: bond.name,
+            codigoIsin: bond.codigoIsin || null,
+            valorNominal: bond.valorNominal.toNumber(),
+            valorComercial: bond.valorComercial.toNumber(),
+            numAnios: bond.numAnios,
+            fechaEmision: aFecha(bond.fechaEmision),
+            fechaVencimiento: aFecha(bond.fechaVencimiento),
+            frecuenciaCupon: bond.frecuenciaCupon,
+            baseDias: bond.baseDias,
+            dayCountConvention: bond.dayCountConvention,
+            mercadoCalendario: bond.mercadoCalendario,
+            businessDayConvention: bond.businessDayConvention,
+            instrumentType: bond.instrumentType,
+            tipoTasa: bond.tipoTasa,
+            periodicidadCapitalizacion: bond.periodicidadCapitalizacion,
+            tasaAnual: bond.tasaAnual.toNumber(),
+            couponRateType: bond.couponRateType,
+            spreadFlotante: aNumero(bond.spreadFlotante),
+            tasaMaxima: aNumero(bond.tasaMaxima),
+            tasaMinima: aNumero(bond.tasaMinima),
+            indexadoInflacion: bond.indexadoInflacion,
+            inflacionAnual: aNumero(bond.inflacionAnual),
+            primaVencimiento: bond.primaVencimiento.toNumber(),
+            impuestoRenta: bond.impuestoRenta.toNumber(),
+            amortizationMethod: bond.amortizationMethod,
+            capitalizarGraciaTotal: bond.capitalizarGraciaTotal,
+            primaRescate: aNumero(bond.primaRescate),
+            curvaDescuentoId: bond.curvaDescuentoId,
+            costes: bond.costs ? {
+                estructuracionPct: bond.costs.estructuracionPct.toNumber(),
+                colocacionPct: bond.costs.colocacionPct.toNumber(),
+                flotacionPct: bond.costs.flotacionPct.toNumber(),
+                cavaliPct: bond.costs.cavaliPct.toNumber(),
+            } : null,
+            opciones: bond.options.map(opcion => ({
+                tipo: opcion.tipo,
+                fechaEjercicio: aFecha(opcion.fechaEjercicio),
+                precioEjercicio: opcion.precioEjercicio.toNumber(),
+            })),
+            fondoAmortizacion: bond.sinkingFund.map(cuota => ({
+                periodo: cuota.periodo,
+                porcentaje: cuota.porcentaje.toNumber(),
+            })),
+            inflacionSerie: aSerie(bond.calculationInputs?.inflacionSerie),
+            graciaSerie: aSerie(bond.calculationInputs?.graciaSerie),
+            tasaCuponSerie: aSerie(bond.calculationInputs?.tasaCuponSerie),
+        };
+    }
+
+    /**
+     * Campos que cambian entre dos versiones; series, opciones y fondo se comparan completos
+     */
+    static diffTerminos(anterior: BondTerms, nuevo: BondTerms): BondTermChange[] {
+        const planos = (terminos: BondTerms): Record<string, unknown> => {
+            const { costes, ...resto } = terminos;
+            return {
+                ...resto,
+                ...Object.fromEntries(
+                    Object.entries(costes ?? {}).map(([campo, valor]) => [`costes.${campo}`, valor])
+                ),
+            };
+        };
+
+        const antes = planos(anterior);
+        const despues = planos(nuevo);
+        const campos = [...new Set([...Object.keys(antes), ...Object.keys(despues)])];
+
+        return campos
+            .filter(campo => JSON.stringify(antes[campo] ?? null) !== JSON.stringify(despues[campo] ?? null))
+            .map(campo => ({ campo, anterior: antes[campo] ?? null, nuevo: despues[campo] ?? null }));
+    }
+
+    /**
+     * Variación de cada métrica entre dos resultados de cálculo (null si la versión no se calculó)
+     */
+    static compararMetricas(
+        anteriores: Partial<FinancialMetrics> | null,
+        nuevas: Partial<FinancialMetrics> | null
+    ): BondMetricChange[] {
+        const valor = (metricas: Partial<FinancialMetrics> | null, metrica: keyof FinancialMetrics) => {
+            const v = metricas?.[metrica];
+            return typeof v === 'number' && isFinite(v) ? v : null;
+        };
+
+        return METRICAS_COMPARADAS
+            .map(metrica => {
+                const anterior = valor(anteriores, metrica);
+                const nuevo = valor(nuevas, metrica);
+                return {
+                    metrica,
+                    anterior,
+                    nuevo,
+                    variacion: anterior !== null && nuevo !== null ? nuevo - anterior : null,
+                };
+            })
+            .filter(cambio => cambio.anterior !== null || cambio.nuevo !== null);
+    }
+
+    /**
+     * Las series editadas deben tener un valor por cupón (o por año) con el plazo y la frecuencia resultantes
+     */
+    static validarSeries(actuales: BondTerms, datos: UpdateBondInput) {
+        const numAnios = datos.numAnios ?? actuales.numAnios;
+        const frecuencia = (datos.frecuenciaCupon ?? actuales.frecuenciaCupon).toLowerCase() as FrecuenciaCuponCalculo;
+        const numeroCupones = ExcelFormulas.numeroCupones(
+            ExcelFormulas.periodosPorAno(datos.baseDias ?? actuales.baseDias, ExcelFormulas.frecuenciaCuponDias(frecuencia)),
+            numAnios
+        );
+
+        const series = { inflacionSerie: datos.inflacionSerie, graciaSerie: datos.graciaSerie };
+        for (const [campo, serie] of Object.entries(series)) {
+            if (serie && ![numeroCupones, numAnios].includes(serie.length)) {
+                throw new BondVersionError(
+                    'VALIDATION_ERROR',
+                    `La serie ${campo} debe tener ${numeroCupones} valores, uno por cupón (recibidos ${serie.length})`
+                );
+            }
+        }
+    }
+
+    /**
+     * Versión vigente del bono; si aún no tiene ninguna se registra la versión 1 con sus términos actuales
+     */
+    async currentVersion(client: PrismaLike, bondId: string) {
+        const ultima = await client.bondTermsVersion.findFirst({
+            where: { bondId },
+            orderBy: { version: 'desc' },
+        });
+        if (ultima) return ultima;
+
+        const terminos = await this.loadTerms(client, bondId);
+        return client.bondTermsVersion.create({
+            data: {
+                bondId,
+                version: 1,
+                terminos: terminos as unknown as Prisma.InputJsonValue,
+                cambios: [],
+                motivo: 'Versión inicial',
+            },
+        });
+    }
+
+    /**
+     * Edita un bono en DRAFT sin inversiones y registra la nueva versión de sus términos
+     * Si la edición no cambia nada se devuelve la versión vigente sin crear otra
+     *
+     * La edición, la nueva versión y la auditoría van en una sola transacción: si algo
+     * falla, el bono queda con los términos de su versión vigente
+     */
+    async updateTerms(bondId: string, userId: string, datos: UpdateBondInput, motivo?: string) {
+        await this.checkOwner(bondId, userId);
+
+        return this.prisma.$transaction(async (tx) => {
+            if (!(await this.bondModel.canModify(bondId, tx))) {
+                throw new BondVersionError(
+                    'BOND_NOT_EDITABLE',
+                    'Solo se pueden editar bonos en borrador y sin inversiones; vuelva el bono a borrador para editarlo'
+                );
+            }
+
+            const anterior = await this.currentVersion(tx, bondId);
+            BondVersionService.validarSeries(anterior.terminos as unknown as BondTerms, datos);
+            await this.bondModel.update(bondId, datos, tx);
+
+            const terminos = await this.loadTerms(tx, bondId);
+            const cambios = BondVersionService.diffTerminos(anterior.terminos as unknown as BondTerms, terminos);
+            if (cambios.length === 0) {
+                return { version: anterior.version, cambios };
+            }
+
+            // Flujos y métricas de la versión anterior
+            await tx.cashFlow.deleteMany({ where: { bondId } });
+            await tx.financialMetrics.deleteMany({ where: { bondId } });
+
+            const version = await tx.bondTermsVersion.create({
+                data: {
+                    bondId,
+                    version: anterior.version + 1,
+                    terminos: terminos as unknown as Prisma.InputJsonValue,
+                    cambios: cambios as unknown as Prisma.InputJsonValue,
+                    motivo: motivo ?? null,
+                    userId,
+                },
+            });
+
+            await tx.auditLog.create({
+                data: {
+                    userId,
+                    tableName: 'bonds',
+                    recordId: bondId,
+                    action: 'UPDATE',
+                    oldValues: {
+                        version: anterior.version,
+                        ...Object.fromEntries(cambios.map(c => [c.campo, c.anterior])),
+                    } as Prisma.InputJsonValue,
+                    newValues: {
+                        version: version.version,
+                        ...Object.fromEntries(cambios.map(c => [c.campo, c.nuevo])),
+                        ...(motivo && { motivo }),
+                    } as Prisma.InputJsonValue,
+                },
+            });
+
+            return { version: version.version, cambios };
+        });
+    }
+
+    async listVersions(bondId: string, userId: string): Promise<BondVersionSummary[]> {
+        await this.checkOwner(bondId, userId);
+
+        const versiones = await this.prisma.bondTermsVersion.findMany({
+            where: { bondId },
+            select: {
+                version: true,
+                motivo: true,
+                userId: true,
+                createdAt: true,
+                cambios: true,
+                result: { select: { createdAt: true } },
+            },
+            orderBy: { version: 'desc' },
+        });
+
+        return versiones.map(v => ({
+            version: v.version,
+            motivo: v.motivo,
+            userId: v.userId,
+            createdAt: v.createdAt,
+            cambios: v.cambios as unknown as BondTermChange[],
+            calculadoEn: v.result?.createdAt ?? null,
+        }));
+    }
+
+    /**
+     * Inputs que cambiaron entre dos versiones y cómo se movió cada métrica calculada
+     */
+    async compareVersions(bondId: string, userId: string, desde: number, hasta: number) {
+        await this.checkOwner(bondId, userId);
+
+        const versiones = await this.prisma.bondTermsVersion.findMany({
+            where: { bondId, version: { in: [desde, hasta] } },
+            include: { result: { select: { createdAt: true, metricasCalculadas: true } } },
+        });
+
+        const buscar = (numero: number) => {
+            const version = versiones.find(v => v.version === numero);
+            if (!version) {
+                throw new BondVersionError('VERSION_NOT_FOUND', `Versión ${numero} no encontrada`);
+            }
+            return version;
+        };
+        const anterior = buscar(desde);
+        const nueva = buscar(hasta);
+
+        const resumen = (v: typeof anterior) => ({
+            version: v.version,
+            motivo: v.motivo,
+            userId: v.userId,
+            createdAt: v.createdAt,
+            calculadoEn: v.result?.createdAt ?? null,
+        });
+
+        return {
+            desde: resumen(anterior),
+            hasta: resumen(nueva),
+            cambios: BondVersionService.diffTerminos(
+                anterior.terminos as unknown as BondTerms,
+                nueva.terminos as unknown as BondTerms
+            ),
+            metricas: BondVersionService.compararMetricas(
+                (anterior.result?.metricasCalculadas ?? null) as Partial<FinancialMetrics> | null,
+                (nueva.result?.metricasCalculadas ?? null) as Partial<FinancialMetrics> | null
+            ),
+        };
+    }
+
+    // Historial y edición solo para el usuario del emisor del bono
+    private async checkOwner(bondId: string, userId: string) {
+        const bond = await this.prisma.bond.findUnique({
+            where: { id: bondId },
+            select: { emisor: { select: { userId: true } } },
+        });
+
+        if (!bond) {
+            throw new BondVersionError('BOND_NOT_FOUND', 'Bono no encontrado');
+        }
+        if (bond.emisor.userId !== userId) {
+            throw new BondVersionError('FORBIDDEN', 'No tiene acceso a este bono');
+        }
+    }
+
+    private async loadTerms(client: PrismaLike, bondId: string): Promise<BondTerms> {
+        const bond = await client.bond.findUnique({ where: { id: bondId }, include: TERMS_INCLUDE });
+        if (!bond) {
+            throw new BondVersionError('BOND_NOT_FOUND', 'Bono no encontrado');
+        }
+        return BondVersionService.terminosDe(bond);
+    }
+}
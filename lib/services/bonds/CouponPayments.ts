@@ -0,0 +1,434 @@
+// lib/services/bonds/CouponPayments.ts
+
+import { PrismaClient } from '../../generated/client';
+
+/**
+ * Libro de pagos de cupón
+ *
+ * El calendario sale de los flujos guardados (CashFlow); cada pago lo confirma el usuario
+ * del emisor con monto, fecha y referencia, y se reparte entre las inversiones vigentes a la fecha
+ * programada a prorrata de sus bonos en cartera (montoInvertido / precioCompra).
+ *
+ * Estados del calendario:
+ * - PAID / LATE: pago completo confirmado en fecha / después de la fecha programada
+ * - PARTIAL: pago confirmado por debajo del monto programado (el faltante queda en el calendario)
+ * - UPCOMING: aún no llega la fecha
+ * - DUE: fecha vencida dentro de los días de gracia
+ * - MISSED: fecha vencida sin pago pasados los días de gracia
+ */
+
+export type CouponScheduleStatus = 'PAID' | 'LATE' | 'PARTIAL' | 'UPCOMING' | 'DUE' | 'MISSED';
+
+// Días tras la fecha programada antes de marcar un cupón como impago
+export const DIAS_GRACIA_PAGO = 5;
+
+const MS_POR_DIA = 24 * 60 * 60 * 1000;
+
+// Estados del bono en los que el emisor sigue pagando cupones
+const ESTADOS_CON_PAGOS = ['ACTIVE', 'PAUSED', 'EXPIRED'];
+
+export type CouponPaymentErrorCode =
+    | 'BOND_NOT_FOUND'
+    | 'FORBIDDEN'
+    | 'BOND_NOT_PAYABLE'
+    | 'PERIOD_NOT_FOUND'
+    | 'NOT_DUE'
+    | 'NO_HOLDERS'
+    | 'INVALID_PAYMENT_DATE'
+    | 'ALREADY_PAID';
+
+export class CouponPaymentError extends Error {
+    constructor(public readonly code: CouponPaymentErrorCode, message: string) {
+        super(message);
+        this.name = 'CouponPaymentError';
+    }
+}
+
+// Flujo guardado con los campos que definen el pago (signo del emisor: cuota y amortización negativas)
+export interface CouponFlow {
+    periodo: number;
+    fecha: Date;
+    cuota: number | null;
+    amortizacion: number | null;
+    flujoBonista: number | null;
+}
+
+export interface CouponHolding {
+    investmentId: string;
+    bonos: number;
+    fechaInversion: Date;
+}
+
+export interface CouponPaymentRecord {
+    periodo: number;
+    montoProgramado: number;       // Monto adeudado al confirmar el pago
+    montoPagado: number;
+    interesPagado: number;
+    fechaPago: Date;
+    referencia: string | null;
+}
+
+export interface CouponScheduleEntry {
+    periodo: number;
+    fechaProgramada: string;
+    montoPorBono: number;          // Cuota + prima que recibe cada bono
+    interesPorBono: number;
+    bonosEnCirculacion: number;
+    montoProgramado: number;
+    status: CouponScheduleStatus;
+    diasAtraso: number;
+    pago: {
+        montoPagado: number;
+        montoFaltante: number;
+        interesPagado: number;
+        fechaPago: string;
+        referencia: string | null;
+    } | null;
+}
+
+export interface CouponEntitlementShare {
+    investmentId: string;
+    bonos: number;
+    monto: number;
+    interes: number;
+}
+
+export interface ConfirmCouponPaymentInput {
+    periodo: number;
+    fechaPago: Date;
+    montoPagado?: number;          // Por defecto el monto programado
+    referencia?: string;
+}
+
+const redondear = (valor: number, decimales = 4) => {
+    const factor = 10 ** decimales;
+    return Math.round(valor * factor) / factor;
+};
+
+const aFecha = (fecha: Date) => fecha.toISOString().split('T')[0];
+
+// Lo que falta pagar, al céntimo: el formulario propone el monto programado redondeado a 2 decimales
+const montoFaltante = (pago: { montoPagado: number; montoProgramado: number }) =>
+    Math.max(0, redondear(pago.montoProgramado - pago.montoPagado, 2));
+
+// Violación de @@unique([bondId, periodo]): otra confirmación del mismo cupón se guardó antes
+const esPagoDuplicado = (error: unknown) =>
+    typeof error === 'object' && error !== null && 'code' in error && error.code === 'P2002';
+
+export class CouponPaymentService {
+    constructor(private prisma: PrismaClient) {}
+
+    /**
+     * Estado de un cupón a la fecha de referencia
+     */
+    static estadoCupon(
+        fechaProgramada: Date,
+        pago: { fechaPago: Date; montoPagado: number; montoProgramado: number } | null | undefined,
+        hoy: Date = new Date()
+    ): CouponScheduleStatus {
+        if (pago) {
+            if (montoFaltante(pago) > 0) return 'PARTIAL';
+            return pago.fechaPago.getTime() > fechaProgramada.getTime() ? 'LATE' : 'PAID';
+        }
+
+        const dias = Math.floor((hoy.getTime() - fechaProgramada.getTime()) / MS_POR_DIA);
+        if (dias < 0) return 'UPCOMING';
+        return dias <= DIAS_GRACIA_PAGO ? 'DUE' : 'MISSED';
+    }
+
+    /**
+     * Reparte un pago a prorrata de los bonos en cartera; el residuo de redondeo va a la última tenencia
+     */
+    static repartirPago(montoPagado: number, interesPagado: number, tenencias: CouponHolding[]): CouponEntitlementShare[] {
+        const totalBonos = tenencias.reduce((sum, t) => sum + t.bonos, 0);
+        if (totalBonos <= 0) return [];
+
+        let montoAsignado = 0;
+        let interesAsignado = 0;
+
+        return tenencias.map((tenencia, i) => {
+            const ultima = i === tenencias.length - 1;
+            const monto = ultima
+                ? redondear(montoPagado - montoAsignado)
+                : redondear(montoPagado * tenencia.bonos / totalBonos);
+            const interes = ultima
+                ? redondear(interesPagado - interesAsignado)
+                : redondear(interesPagado * tenencia.bonos / totalBonos);
+
+            montoAsignado += monto;
+            interesAsignado += interes;
+
+            return { investmentId: tenencia.investmentId, bonos: tenencia.bonos, monto, interes };
+        });
+    }
+
+    /**
+     * Calendario de pagos: flujos con pago al bonista cruzados con los pagos confirmados.
+     * Los cupones sin tenedores a su fecha no se esperan, por lo que no se listan.
+     */
+    static buildSchedule(
+        flujos: CouponFlow[],
+        pagos: CouponPaymentRecord[],
+        tenencias: CouponHolding[],
+        hoy: Date = new Date()
+    ): CouponScheduleEntry[] {
+        return flujos
+            .filter(flujo => flujo.periodo > 0 && (flujo.flujoBonista ?? 0) > 0)
+            .sort((a, b) => a.periodo - b.periodo)
+            .flatMap(flujo => {
+                const pago = pagos.find(p => p.periodo === flujo.periodo) ?? null;
+                const bonosEnCirculacion = CouponPaymentService.tenenciasAl(tenencias, flujo.fecha)
+                    .reduce((sum, t) => sum + t.bonos, 0);
+                if (!pago && bonosEnCirculacion <= 0) return [];
+
+                const montoPorBono = flujo.flujoBonista!;
+                // Solo la parte de la cuota que no amortiza capital es interés (0 en gracia total)
+                const interesPorBono = redondear(-((flujo.cuota ?? 0) - (flujo.amortizacion ?? 0)));
+                const status = CouponPaymentService.estadoCupon(flujo.fecha, pago, hoy);
+                const referenciaAtraso = pago ? pago.fechaPago : hoy;
+
+                return [{
+                    periodo: flujo.periodo,
+                    fechaProgramada: aFecha(flujo.fecha),
+                    montoPorBono,
+                    interesPorBono,
+                    bonosEnCirculacion: redondear(bonosEnCirculacion, 6),
+                    montoProgramado: redondear(montoPorBono * bonosEnCirculacion),
+                    status,
+                    diasAtraso: Math.max(0, Math.floor((referenciaAtraso.getTime() - flujo.fecha.getTime()) / MS_POR_DIA)),
+                    pago: pago && {
+                        montoPagado: pago.montoPagado,
+                        montoFaltante: montoFaltante(pago),
+                        interesPagado: pago.interesPagado,
+                        fechaPago: aFecha(pago.fechaPago),
+                        referencia: pago.referencia,
+                    },
+                }];
+            });
+    }
+
+    // Inversiones que ya tenían el bono a la fecha del cupón
+    private static tenenciasAl(tenencias: CouponHolding[], fecha: Date) {
+        return tenencias.filter(t => t.fechaInversion.getTime() <= fecha.getTime());
+    }
+
+    async getSchedule(bondId: string, userId: string, hoy: Date = new Date()) {
+        const { bond, flujos, pagos, tenencias } = await this.loadLedger(bondId);
+
+        if (bond.emisor.userId !== userId) {
+            throw new CouponPaymentError('FORBIDDEN', 'No tiene acceso a este bono');
+        }
+        const calendario = CouponPaymentService.buildSchedule(flujos, pagos, tenencias, hoy);
+
+        return {
+            bondId,
+            bondName: bond.name,
+            status: bond.status,
+            calendario,
+            resumen: {
+                pagados: calendario.filter(c => c.status === 'PAID').length,
+                tardios: calendario.filter(c => c.status === 'LATE').length,
+                parciales: calendario.filter(c => c.status === 'PARTIAL').length,
+                pendientes: calendario.filter(c => c.status === 'DUE').length,
+                impagos: calendario.filter(c => c.status === 'MISSED').length,
+                totalPagado: redondear(calendario.reduce((sum, c) => sum + (c.pago?.montoPagado ?? 0), 0)),
+            },
+        };
+    }
+
+    /**
+     * Registra el pago de un cupón y la parte de cada inversión en una sola transacción;
+     * si otra confirmación del mismo cupón se guarda antes, falla con ALREADY_PAID
+     */
+    async confirmPayment(bondId: string, userId: string, input: ConfirmCouponPaymentInput, hoy: Date = new Date()) {
+        const { bond, flujos, pagos, tenencias } = await this.loadLedger(bondId);
+
+        if (bond.emisor.userId !== userId) {
+            throw new CouponPaymentError('FORBIDDEN', 'No tiene acceso a este bono');
+        }
+
+        if (!ESTADOS_CON_PAGOS.includes(bond.status)) {
+            throw new CouponPaymentError('BOND_NOT_PAYABLE', `No se registran pagos de un bono en estado ${bond.status}`);
+        }
+
+        if (pagos.some(p => p.periodo === input.periodo)) {
+            throw new CouponPaymentError('ALREADY_PAID', `El cupón del período ${input.periodo} ya fue pagado`);
+        }
+
+        const flujo = flujos.find(f => f.periodo === input.periodo && f.periodo > 0 && (f.flujoBonista ?? 0) > 0);
+        if (!flujo) {
+            throw new CouponPaymentError('PERIOD_NOT_FOUND', `El período ${input.periodo} no tiene pago programado`);
+        }
+
+        if (flujo.fecha.getTime() > hoy.getTime()) {
+            throw new CouponPaymentError('NOT_DUE', `El cupón del período ${input.periodo} vence el ${aFecha(flujo.fecha)}`);
+        }
+
+        if (input.fechaPago.getTime() > hoy.getTime()) {
+            throw new CouponPaymentError('INVALID_PAYMENT_DATE', `La fecha de pago ${aFecha(input.fechaPago)} es posterior a hoy`);
+        }
+
+        // Ningún cupón se paga antes de su fecha (ni, por tanto, antes de la emisión)
+        if (input.fechaPago.getTime() < flujo.fecha.getTime()) {
+            throw new CouponPaymentError(
+                'INVALID_PAYMENT_DATE',
+                `La fecha de pago ${aFecha(input.fechaPago)} es anterior a la del cupón (${aFecha(flujo.fecha)})`
+            );
+        }
+
+        const tenedores = CouponPaymentService.tenenciasAl(tenencias, flujo.fecha);
+        const [entrada] = CouponPaymentService.buildSchedule([flujo], [], tenedores, hoy);
+        if (!entrada) {
+            throw new CouponPaymentError('NO_HOLDERS', 'Ninguna inversión tenía el bono a la fecha del cupón');
+        }
+
+        const montoPagado = redondear(input.montoPagado ?? entrada.montoProgramado);
+        const interesPagado = redondear(montoPagado * entrada.interesPorBono / entrada.montoPorBono);
+        const partes = CouponPaymentService.repartirPago(montoPagado, interesPagado, tenedores);
+        const status = CouponPaymentService.estadoCupon(flujo.fecha, {
+            fechaPago: input.fechaPago,
+            montoPagado,
+            montoProgramado: entrada.montoProgramado,
+        }) as 'PAID' | 'LATE' | 'PARTIAL';
+
+        try {
+            return await this.prisma.$transaction(async tx => {
+                const pago = await tx.couponPayment.create({
+                    data: {
+                        bondId,
+                        periodo: input.periodo,
+                        fechaProgramada: flujo.fecha,
+                        montoProgramado: entrada.montoProgramado,
+                        montoPagado,
+                        interesPagado,
+                        fechaPago: input.fechaPago,
+                        referencia: input.referencia ?? null,
+                        status,
+                        entitlements: {
+                            create: partes.map(parte => ({
+                                investmentId: parte.investmentId,
+                                bonos: parte.bonos,
+                                monto: parte.monto,
+                                interes: parte.interes,
+                            })),
+                        },
+                    },
+                });
+
+                await tx.auditLog.create({
+                    data: {
+                        userId,
+                        tableName: 'coupon_payments',
+                        recordId: pago.id,
+                        action: 'CREATE',
+                        newValues: {
+                            bondId,
+                            periodo: input.periodo,
+                            montoProgramado: entrada.montoProgramado,
+                            montoPagado,
+                            fechaPago: aFecha(input.fechaPago),
+                            referencia: input.referencia ?? null,
+                            status,
+                            inversiones: partes.length,
+                        },
+                    },
+                });
+
+                return { pago, partes };
+            });
+        } catch (error) {
+            if (esPagoDuplicado(error)) {
+                throw new CouponPaymentError('ALREADY_PAID', `El cupón del período ${input.periodo} ya fue pagado`);
+            }
+            throw error;
+        }
+    }
+
+    private async loadLedger(bondId: string) {
+        const bond = await this.prisma.bond.findUnique({
+            where: { id: bondId },
+            select: {
+                name: true,
+                status: true,
+                emisor: { select: { userId: true } },
+                cashFlows: {
+                    where: { periodo: { gt: 0 } },
+                    select: { periodo: true, fecha: true, cuota: true, amortizacion: true, flujoBonista: true },
+                    orderBy: { periodo: 'asc' },
+                },
+                couponPayments: {
+                    select: {
+                        periodo: true,
+                        montoProgramado: true,
+                        montoPagado: true,
+                        interesPagado: true,
+                        fechaPago: true,
+                        referencia: true,
+                    },
+                },
+                investments: {
+                    where: { status: { not: 'CANCELLED' } },
+                    select: { id: true, montoInvertido: true, precioCompra: true, fechaInversion: true },
+                },
+            },
+        });
+
+        if (!bond) {
+            throw new CouponPaymentError('BOND_NOT_FOUND', 'Bono no encontrado');
+        }
+
+        return {
+            bond,
+            flujos: bond.cashFlows.map(toCouponFlow),
+            pagos: bond.couponPayments.map(toCouponPaymentRecord),
+            tenencias: bond.investments.map(toCouponHolding),
+        };
+    }
+}
+
+// Conversión de filas Prisma (Decimal) a los tipos del calendario; también la usan los dashboards
+
+type DecimalLike = { toNumber(): number };
+
+export const toCouponFlow = (flow: {
+    periodo: number;
+    fecha: Date;
+    cuota: DecimalLike | null;
+    amortizacion: DecimalLike | null;
+    flujoBonista: DecimalLike | null;
+}): CouponFlow => ({
+    periodo: flow.periodo,
+    fecha: flow.fecha,
+    cuota: flow.cuota?.toNumber() ?? null,
+    amortizacion: flow.amortizacion?.toNumber() ?? null,
+    flujoBonista: flow.flujoBonista?.toNumber() ?? null,
+});
+
+export const toCouponPaymentRecord = (pago: {
+    periodo: number;
+    montoProgramado: DecimalLike;
+    montoPagado: DecimalLike;
+    interesPagado: DecimalLike;
+    fechaPago: Date;
+    referencia: string | null;
+}): CouponPaymentRecord => ({
+    periodo: pago.periodo,
+    montoProgramado: pago.montoProgramado.toNumber(),
+    montoPagado: pago.montoPagado.toNumber(),
+    interesPagado: pago.interesPagado.toNumber(),
+    fechaPago: pago.fechaPago,
+    referencia: pago.referencia,
+});
+
+export const toCouponHolding = (inversion: {
+    id: string;
+    montoInvertido: DecimalLike;
+    precioCompra: DecimalLike;
+    fechaInversion: Date;
+}): CouponHolding => ({
+    investmentId: inversion.id,
+    bonos: inversion.precioCompra.toNumber() > 0
+        ? inversion.montoInvertido.toNumber() / inversion.precioCompra.toNumber()
+        : 0,
+    fechaInversion: inversion.fechaInversion,
+});
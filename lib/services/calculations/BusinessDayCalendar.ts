@@ -0,0 +1,128 @@
+// lib/services/calculations/BusinessDayCalendar.ts
+
+import { BusinessDayConvention } from '@/lib/types/calculations';
+
+/**
+ * Formato del archivo JSON de calendario por mercado
+ * (ver config/calendars/PE.json)
+ */
+export interface CalendarFile {
+    market: string;
+    name?: string;
+    weekend?: number[];            // Días no hábiles de la semana (0 = domingo)
+    holidays: Array<string | { date: string; name?: string }>;
+}
+
+/**
+ * Calendario de días hábiles de un mercado
+ * Trabaja con fechas en UTC (las fechas de la BD son @db.Date)
+ */
+export class BusinessDayCalendar {
+    private static readonly MAX_DIAS_AJUSTE = 31;
+
+    private readonly feriados: Set<string>;
+
+    constructor(
+        feriados: Iterable<string | Date> = [],
+        private readonly finDeSemana: number[] = [0, 6]
+    ) {
+        this.feriados = new Set(
+            Array.from(feriados, f => typeof f === 'string' ? f.slice(0, 10) : BusinessDayCalendar.claveFecha(f))
+        );
+    }
+
+    /**
+     * Crea el calendario desde el contenido de un archivo JSON
+     */
+    static fromJSON(data: CalendarFile): BusinessDayCalendar {
+        if (!data || !Array.isArray(data.holidays)) {
+            throw new Error('Calendario inválido: se esperaba una lista "holidays"');
+        }
+
+        const feriados = data.holidays.map(h => typeof h === 'string' ? h : h.date);
+        feriados.forEach(f => {
+            if (!/^\d{4}-\d{2}-\d{2}/.test(f)) {
+                throw new Error(`Fecha de feriado inválida en calendario ${data.market}: ${f}`);
+            }
+        });
+
+        return new BusinessDayCalendar(feriados, data.weekend ?? [0, 6]);
+    }
+
+    /**
+     * Crea el calendario desde un archivo iCalendar (.ics)
+     * Toma el DTSTART de cada VEVENT como feriado de día completo
+     */
+    static fromICS(contenido: string): BusinessDayCalendar {
+        const feriados: string[] = [];
+        const lineas = contenido.replace(/\r\n[ \t]/g, '').split(/\r?\n/);
+        let dentroDeEvento = false;
+
+        for (const linea of lineas) {
+            if (linea.startsWith('BEGIN:VEVENT')) dentroDeEvento = true;
+            else if (linea.startsWith('END:VEVENT')) dentroDeEvento = false;
+            else if (dentroDeEvento && linea.startsWith('DTSTART')) {
+                const valor = linea.substring(linea.indexOf(':') + 1).trim();
+                const match = valor.match(/^(\d{4})(\d{2})(\d{2})/);
+                if (match) feriados.push(`${match[1]}-${match[2]}-${match[3]}`);
+            }
+        }
+
+        return new BusinessDayCalendar(feriados);
+    }
+
+    /**
+     * Feriados cargados, ordenados, en formato 'YYYY-MM-DD'
+     */
+    getFeriados(): string[] {
+        return Array.from(this.feriados).sort();
+    }
+
+    esDiaHabil(fecha: Date): boolean {
+        return !this.finDeSemana.includes(fecha.getUTCDay()) &&
+            !this.feriados.has(BusinessDayCalendar.claveFecha(fecha));
+    }
+
+    /**
+     * Ajusta una fecha de pago según la convención de día hábil
+     * Following: siguiente día hábil
+     * Modified Following: siguiente día hábil salvo que cambie de mes (entonces el anterior)
+     * Preceding: día hábil anterior
+     */
+    ajustar(fecha: Date, convencion: BusinessDayConvention): Date {
+        if (convencion === 'none' || this.esDiaHabil(fecha)) return fecha;
+
+        switch (convencion) {
+            case 'following':
+                return this.moverHastaDiaHabil(fecha, 1);
+
+            case 'modified_following': {
+                const siguiente = this.moverHastaDiaHabil(fecha, 1);
+                return siguiente.getUTCMonth() === fecha.getUTCMonth()
+                    ? siguiente
+                    : this.moverHastaDiaHabil(fecha, -1);
+            }
+
+            case 'preceding':
+                return this.moverHastaDiaHabil(fecha, -1);
+
+            default:
+                return fecha;
+        }
+    }
+
+    private moverHastaDiaHabil(fecha: Date, direccion: 1 | -1): Date {
+        const resultado = new Date(fecha);
+
+        for (let i = 0; i < BusinessDayCalendar.MAX_DIAS_AJUSTE; i++) {
+            resultado.setUTCDate(resultado.getUTCDate() + direccion);
+            if (this.esDiaHabil(resultado)) return resultado;
+        }
+
+        throw new Error(`No se encontró un día hábil cerca de ${BusinessDayCalendar.claveFecha(fecha)}`);
+    }
+
+    private static claveFecha(fecha: Date): string {
+        return fecha.toISOString().slice(0, 10);
+    }
+}
@@ -0,0 +1,266 @@
+// lib/services/calculations/CalculationTracer.ts
+
+import { Decimal } from 'decimal.js';
+import {
+    CalculationInputs,
+    CalculationTraceEntry,
+    CalculosIntermedios,
+    CashFlowPeriod,
+    FinancialMetrics,
+} from '@/lib/types/calculations';
+
+type Entradas = CalculationTraceEntry['entradas'];
+
+/**
+ * Traza de cálculo: explica cada celda de la hoja con la fórmula de ExcelFormulas que la produjo
+ * Se arma sobre el resultado ya calculado; las entradas son los valores de las celdas referenciadas
+ */
+export class CalculationTracer {
+    static trazar(
+        inputs: CalculationInputs,
+        intermedios: CalculosIntermedios,
+        flujos: CashFlowPeriod[],
+        metricas: FinancialMetrics
+    ): CalculationTraceEntry[] {
+        return [
+            ...this.trazarIntermedios(inputs, intermedios),
+            ...flujos.flatMap(flujo => this.trazarPeriodo(flujo, flujos[flujo.periodo - 1], inputs, intermedios)),
+            ...this.trazarMetricas(flujos, intermedios, metricas),
+        ];
+    }
+
+    /**
+     * L4-L12: configuración de períodos, tasas y costes iniciales
+     */
+    private static trazarIntermedios(
+        inputs: CalculationInputs,
+        l: CalculosIntermedios
+    ): CalculationTraceEntry[] {
+        const celda = (celda: string, campo: keyof CalculosIntermedios, formula: string, entradas: Entradas) =>
+            this.entrada('intermedios', null, celda, campo, formula, entradas, l[campo] as number);
+
+        return [
+            celda('L4', 'frecuenciaCuponDias', 'L4 = días del cupón según E7', { E7: inputs.frecuenciaCupon }),
+            celda('L5', 'diasCapitalizacion', 'L5 = días de capitalización según E10', { E10: inputs.periodicidadCapitalizacion }),
+            celda('L6', 'periodosPorAno', 'L6 = E8/L4', { E8: inputs.diasPorAno, L4: l.frecuenciaCuponDias }),
+            celda('L7', 'totalPeriodos', 'L7 = L6*E6', { L6: l.periodosPorAno, E6: inputs.numAnios }),
+            inputs.tipoTasa === 'efectiva'
+                ? celda('L8', 'tasaEfectivaAnual', 'L8 = E11', { E9: inputs.tipoTasa, E11: inputs.tasaAnual })
+                : celda('L8', 'tasaEfectivaAnual', 'L8 = (1+E11/(E8/L5))^(E8/L5)−1', {
+                    E11: inputs.tasaAnual, E8: inputs.diasPorAno, L5: l.diasCapitalizacion,
+                }),
+            inputs.instrumentType === 'cupon_cero'
+                ? celda('L9', 'tasaCuponPeriodica', 'L9 = 0 (cupón cero)', {})
+                : celda('L9', 'tasaCuponPeriodica', 'L9 = (1+L8)^(L4/E8)−1', {
+                    L8: l.tasaEfectivaAnual, L4: l.frecuenciaCuponDias, E8: inputs.diasPorAno,
+                }),
+            celda('L10', 'tasaDescuentoPeriodica', 'L10 = (1+E12)^(L4/E8)−1', {
+                E12: inputs.tasaDescuento, L4: l.frecuenciaCuponDias, E8: inputs.diasPorAno,
+            }),
+            celda('L11', 'costesInicialesEmisor', 'L11 = SUMA(E17:E20)*E5', {
+                E17: inputs.estructuracionPorcentaje, E18: inputs.colocacionPorcentaje,
+                E19: inputs.flotacionPorcentaje, E20: inputs.cavaliPorcentaje, E5: inputs.valorComercial,
+            }),
+            celda('L12', 'costesInicialesBonista', 'L12 = SUMA(E19:E20)*E5', {
+                E19: inputs.flotacionPorcentaje, E20: inputs.cavaliPorcentaje, E5: inputs.valorComercial,
+            }),
+        ];
+    }
+
+    /**
+     * Columnas C-R del período n
+     */
+    private static trazarPeriodo(
+        f: CashFlowPeriod,
+        anterior: CashFlowPeriod | undefined,
+        inputs: CalculationInputs,
+        l: CalculosIntermedios
+    ): CalculationTraceEntry[] {
+        const n = f.periodo;
+        const celda = (columna: string, campo: keyof CashFlowPeriod, formula: string, entradas: Entradas) =>
+            this.entrada('flujos', n, `${columna}[${n}]`, campo, formula, entradas, f[campo] as number | string | null);
+
+        if (n === 0) {
+            return [
+                celda('M', 'flujoEmisor', 'M[0] = E5−L11', { E5: inputs.valorComercial, L11: l.costesInicialesEmisor }),
+                celda('N', 'flujoEmisorConEscudo', 'N[0] = M[0]', { 'M[0]': f.flujoEmisor }),
+                celda('O', 'flujoBonista', 'O[0] = −M[0]', { 'M[0]': f.flujoEmisor }),
+                celda('P', 'flujoActualizado', 'P[0] = O[0] (no se descuenta)', { 'O[0]': f.flujoBonista }),
+            ];
+        }
+
+        const E4 = inputs.valorNominal;
+        const L7 = l.totalPeriodos;
+        const conConvencion = inputs.dayCountConvention !== undefined;
+        const cuotaFondo = f.gracia === 'S' ? inputs.sinkingFund?.cuotas.find(c => c.periodo === n) : undefined;
+
+        const entradas: CalculationTraceEntry[] = [
+            celda('C', 'inflacionAnual', 'C[n] = inflación anual del cupón n', {}),
+            conConvencion
+                ? celda('D', 'inflacionSemestral', 'D[n] = (1+C[n])^t−1, con t la fracción de año del período', {
+                    'C[n]': f.inflacionAnual, convencion: inputs.dayCountConvention!,
+                })
+                : celda('D', 'inflacionSemestral', 'D[n] = (1+C[n])^(L4/E8)−1', {
+                    'C[n]': f.inflacionAnual, L4: l.frecuenciaCuponDias, E8: inputs.diasPorAno,
+                }),
+            celda('E', 'gracia', 'E[n] = gracia del cupón n (S, P o T)', {}),
+            this.trazarCapital(f, anterior, inputs),
+            celda('G', 'bonoIndexado', 'G[n] = F[n]*(1+D[n])', { 'F[n]': f.bonoCapital, 'D[n]': f.inflacionSemestral }),
+            celda('H', 'cupon', 'H[n] = −G[n]*L9', { 'G[n]': f.bonoIndexado, L9: f.tasaCupon ?? l.tasaCuponPeriodica }),
+        ];
+
+        // J[n]: fondo de amortización, gracia o método de amortización
+        const metodo = inputs.amortizationMethod ?? 'americano';
+        const vivo = (inputs.sinkingFund?.cuotas ?? [])
+            .filter(c => c.periodo < n)
+            .reduce((total, c) => total.minus(c.porcentaje), new Decimal(1))
+            .toNumber();
+        if (cuotaFondo) {
+            entradas.push(celda('J', 'amortizacion', 'J[n] = −G[n]*MIN(1;p/v)', {
+                'G[n]': f.bonoIndexado, p: cuotaFondo.porcentaje, v: vivo,
+            }));
+        } else if (f.gracia === 'T' || f.gracia === 'P') {
+            entradas.push(celda('J', 'amortizacion', 'J[n] = 0 (período de gracia)', { 'E[n]': f.gracia }));
+        } else if (metodo === 'frances') {
+            entradas.push(celda('J', 'amortizacion', 'J[n] = PAGO(L9;L7−A[n]+1;G[n])−H[n]', {
+                L9: f.tasaCupon ?? l.tasaCuponPeriodica, L7, 'A[n]': n, 'G[n]': f.bonoIndexado, 'H[n]': f.cupon,
+            }));
+        } else if (metodo === 'aleman') {
+            entradas.push(celda('J', 'amortizacion', 'J[n] = −G[n]/(L7−A[n]+1)', {
+                'G[n]': f.bonoIndexado, L7, 'A[n]': n,
+            }));
+        } else {
+            entradas.push(n === L7
+                ? celda('J', 'amortizacion', 'J[n] = −G[n] (vencimiento)', { 'G[n]': f.bonoIndexado })
+                : celda('J', 'amortizacion', 'J[n] = 0 (el método americano amortiza al vencimiento)', { 'A[n]': n, L7 }));
+        }
+
+        // I[n]: cuota según la gracia
+        entradas.push(f.gracia === 'T'
+            ? celda('I', 'cuota', 'I[n] = 0 (gracia total)', { 'E[n]': f.gracia })
+            : f.gracia === 'P'
+                ? celda('I', 'cuota', 'I[n] = H[n] (gracia parcial)', { 'E[n]': f.gracia, 'H[n]': f.cupon })
+                : celda('I', 'cuota', 'I[n] = H[n]+J[n]', { 'H[n]': f.cupon, 'J[n]': f.amortizacion }));
+
+        // K[n]: prima de rescate o prima al vencimiento
+        entradas.push(cuotaFondo
+            ? celda('K', 'prima', 'K[n] = primaRescate*J[n]', {
+                primaRescate: inputs.sinkingFund!.primaRescate ?? 0, 'J[n]': f.amortizacion,
+            })
+            : n === L7
+                ? (vivo < 1
+                    ? celda('K', 'prima', 'K[n] = −E16*E4*v (nominal no rescatado por el fondo)', { E16: inputs.primaPorcentaje, E4, v: vivo })
+                    : celda('K', 'prima', 'K[n] = −E16*E4', { E16: inputs.primaPorcentaje, E4 }))
+                : celda('K', 'prima', 'K[n] = 0 (solo al vencimiento)', { 'A[n]': n, L7 }));
+
+        entradas.push(
+            celda('L', 'escudoFiscal', 'L[n] = −H[n]*E13', { 'H[n]': f.cupon, E13: inputs.impuestoRenta }),
+            celda('M', 'flujoEmisor', 'M[n] = I[n]+K[n]', { 'I[n]': f.cuota, 'K[n]': f.prima }),
+            celda('N', 'flujoEmisorConEscudo', 'N[n] = M[n]+L[n]', { 'M[n]': f.flujoEmisor, 'L[n]': f.escudoFiscal }),
+            celda('O', 'flujoBonista', 'O[n] = −M[n]', { 'M[n]': f.flujoEmisor }),
+            f.tasaCurva !== undefined
+                ? celda('P', 'flujoActualizado', 'P[n] = O[n]/(1+r(t[n]))^t[n]', {
+                    'O[n]': f.flujoBonista, 't[n]': f.plazoAnual ?? null, 'r(t[n])': f.tasaCurva,
+                })
+                : celda('P', 'flujoActualizado', 'P[n] = O[n]/(1+L10)^A[n]', {
+                    'O[n]': f.flujoBonista, L10: l.tasaDescuentoPeriodica, 'A[n]': n,
+                }),
+            conConvencion
+                ? celda('Q', 'faPlazoPonderado', 'Q[n] = P[n]*t[n]', { 'P[n]': f.flujoActualizado, convencion: inputs.dayCountConvention! })
+                : celda('Q', 'faPlazoPonderado', 'Q[n] = P[n]*A[n]*(L4/E8)', {
+                    'P[n]': f.flujoActualizado, 'A[n]': n, L4: l.frecuenciaCuponDias, E8: inputs.diasPorAno,
+                }),
+            celda('R', 'factorConvexidad', 'R[n] = P[n]*A[n]*(1+A[n])', { 'P[n]': f.flujoActualizado, 'A[n]': n }),
+        );
+
+        return entradas;
+    }
+
+    /**
+     * F[n]: el capital vivo depende de la gracia del período anterior
+     */
+    private static trazarCapital(
+        f: CashFlowPeriod,
+        anterior: CashFlowPeriod | undefined,
+        inputs: CalculationInputs
+    ): CalculationTraceEntry {
+        const celda = (formula: string, entradas: Entradas) =>
+            this.entrada('flujos', f.periodo, `F[${f.periodo}]`, 'bonoCapital', formula, entradas, f.bonoCapital);
+
+        if (f.periodo === 1 || !anterior) {
+            return celda('F[1] = E4', { E4: inputs.valorNominal });
+        }
+        if (anterior.gracia === 'T') {
+            return inputs.capitalizarGraciaTotal
+                ? celda('F[n] = G[n−1]−H[n−1] (gracia total, cupón capitalizado)', {
+                    'G[n−1]': anterior.bonoIndexado, 'H[n−1]': anterior.cupon,
+                })
+                : celda('F[n] = G[n−1] (gracia total)', { 'G[n−1]': anterior.bonoIndexado });
+        }
+        return celda('F[n] = G[n−1]+J[n−1]', { 'G[n−1]': anterior.bonoIndexado, 'J[n−1]': anterior.amortizacion });
+    }
+
+    /**
+     * Precio, utilidad, duración, convexidad y tasas de retorno
+     */
+    private static trazarMetricas(
+        flujos: CashFlowPeriod[],
+        l: CalculosIntermedios,
+        m: FinancialMetrics
+    ): CalculationTraceEntry[] {
+        const suma = (campo: keyof CashFlowPeriod, desde: number = 0) => flujos
+            .slice(desde)
+            .reduce((total, f) => total.plus((f[campo] as number | null) || 0), new Decimal(0))
+            .toNumber();
+        const celda = (celda: string, campo: keyof FinancialMetrics, formula: string, entradas: Entradas) =>
+            this.entrada('metricas', null, celda, campo, formula, entradas, m[campo] as number);
+
+        // TIR periódica que se anualiza con E8 fijo en 360, como el Excel
+        const tirPeriodica = (anual: number) => new Decimal(1).plus(anual).pow(l.frecuenciaCuponDias / 360).minus(1).toNumber();
+        const conCurva = flujos[1]?.tasaCurva !== undefined;
+
+        return [
+            conCurva
+                ? celda('Precio', 'precioActual', 'Precio = SUMA(P[1]:P[L7]) con la curva de descuento', {
+                    'SUMA(P)': suma('flujoActualizado', 1),
+                })
+                : celda('Precio', 'precioActual', 'Precio = VNA(L10;O[1]:O[L7])', {
+                    L10: l.tasaDescuentoPeriodica, 'SUMA(O)': suma('flujoBonista', 1),
+                }),
+            celda('Utilidad', 'utilidadPerdida', 'Utilidad = O[0]+Precio', {
+                'O[0]': flujos[0]?.flujoBonista ?? null, Precio: m.precioActual,
+            }),
+            celda('Duración', 'duracion', 'Duración = SUMA(Q)/SUMA(P)', {
+                'SUMA(Q)': suma('faPlazoPonderado', 1), 'SUMA(P)': suma('flujoActualizado', 1),
+            }),
+            celda('Convexidad', 'convexidad', 'Convexidad = SUMA(R)/((1+L10)^2*SUMA(P)*(E8/L4)^2)', {
+                'SUMA(R)': suma('factorConvexidad', 1), L10: l.tasaDescuentoPeriodica,
+                'SUMA(P)': suma('flujoActualizado', 1), E8: 360, L4: l.frecuenciaCuponDias,
+            }),
+            celda('Duración Modificada', 'duracionModificada', 'Duración Modificada = Duración/(1+L10)', {
+                Duración: m.duracion, L10: l.tasaDescuentoPeriodica,
+            }),
+            celda('TCEA', 'tceaEmisor', 'TCEA = (1+TIR(M[0]:M[L7]))^(E8/L4)−1', {
+                'TIR(M)': tirPeriodica(m.tceaEmisor), E8: 360, L4: l.frecuenciaCuponDias,
+            }),
+            celda('TCEA c/Escudo', 'tceaEmisorConEscudo', 'TCEA c/Escudo = (1+TIR(N[0]:N[L7]))^(E8/L4)−1', {
+                'TIR(N)': tirPeriodica(m.tceaEmisorConEscudo), E8: 360, L4: l.frecuenciaCuponDias,
+            }),
+            celda('TREA', 'treaBonista', 'TREA = (1+TIR(O[0]:O[L7]))^(E8/L4)−1', {
+                'TIR(O)': tirPeriodica(m.treaBonista), E8: 360, L4: l.frecuenciaCuponDias,
+            }),
+        ];
+    }
+
+    private static entrada(
+        seccion: CalculationTraceEntry['seccion'],
+        periodo: number | null,
+        celda: string,
+        campo: string,
+        formula: string,
+        entradas: Entradas,
+        resultado: number | string | null | undefined
+    ): CalculationTraceEntry {
+        return { seccion, periodo, celda, campo, formula, entradas, resultado: resultado ?? null };
+    }
+}
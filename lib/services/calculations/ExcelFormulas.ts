@@ -8,16 +8,23 @@ import {
     FinancialMetrics,
     FrequenciaCupon,
     PeriocidadCapitalizacion,
-    GracePeriodType
+    GracePeriodType,
+    AmortizationMethod,
+    DayCountConvention,
+    CouponRateSchedule,
+    YieldCurvePoint
 } from '@/lib/types/calculations';
+import { IRRSolver } from './IRRSolver';
 
 /**
  * Implementación exacta de las fórmulas del Excel para el método americano
+ * (con las variantes francés y alemán en la columna de amortización)
  * Cada función corresponde a una celda específica del Excel
  */
 export class ExcelFormulas {
     private static readonly PRECISION = 10;
     private static readonly FINANCIAL_PRECISION = 2;
+    private static readonly MS_POR_DIA = 1000 * 60 * 60 * 24;
 
     // Configuración de precisión para cálculos financieros
     static {
@@ -91,6 +98,14 @@ export class ExcelFormulas {
         return new Decimal(periodosPorAno).mul(numAnios).toNumber();
     }
 
+    /**
+     * Número de cupones pagados: =ENTERO(L7)
+     * Es la longitud de las series por cupón (inflación y gracia)
+     */
+    static numeroCupones(periodosPorAno: number, numAnios: number): number {
+        return Math.floor(this.totalPeriodos(periodosPorAno, numAnios));
+    }
+
     /**
      * L8: Tasa efectiva anual
      * =SI(E9="Efectiva";E11;(1+E11/(E8/L5))^(E8/L5)-1)
@@ -190,33 +205,229 @@ export class ExcelFormulas {
     /**
      * B[n]: Fecha del período
      * B27=E14; para n>0: B[n]=B[n−1]+L4
+     * Con convención de días: B[n]=FECHA.MES(E14;A[n]*L4/30)
      */
     static fechaPeriodo(
         fechaEmision: Date,
         periodo: number,
-        frecuenciaCuponDias: number
+        frecuenciaCuponDias: number,
+        convencion?: DayCountConvention
     ): Date {
         if (periodo === 0) return fechaEmision;
 
+        // Por meses calendario, anclado al día de emisión para no arrastrar desfases
+        if (convencion) {
+            return this.sumarMeses(fechaEmision, periodo * this.mesesPorPeriodo(frecuenciaCuponDias));
+        }
+
         const fecha = new Date(fechaEmision);
         fecha.setDate(fecha.getDate() + (periodo * frecuenciaCuponDias));
         return fecha;
     }
 
+    /**
+     * Meses calendario por período de cupón
+     * =L4/30
+     */
+    static mesesPorPeriodo(frecuenciaCuponDias: number): number {
+        return Math.max(1, Math.round(frecuenciaCuponDias / 30));
+    }
+
+    /**
+     * FECHA.MES: suma meses conservando el día; si el mes destino es más
+     * corto se usa su último día (31/08 + 6 meses = 28/02)
+     */
+    static sumarMeses(fecha: Date, meses: number): Date {
+        const anio = fecha.getUTCFullYear();
+        const mes = fecha.getUTCMonth() + meses;
+        const ultimoDiaMes = new Date(Date.UTC(anio, mes + 1, 0)).getUTCDate();
+
+        return new Date(Date.UTC(
+            anio,
+            mes,
+            Math.min(fecha.getUTCDate(), ultimoDiaMes),
+            fecha.getUTCHours(),
+            fecha.getUTCMinutes(),
+            fecha.getUTCSeconds(),
+            fecha.getUTCMilliseconds()
+        ));
+    }
+
+    /**
+     * Días entre dos fechas según la convención
+     * 30/360: =DIAS360(inicio;fin) (método US)  |  ACT: =fin−inicio
+     */
+    static diasEntreFechas(
+        inicio: Date,
+        fin: Date,
+        convencion: DayCountConvention
+    ): number {
+        if (convencion !== '30/360') {
+            return Math.round((fin.getTime() - inicio.getTime()) / this.MS_POR_DIA);
+        }
+
+        const esFinDeFebrero = (fecha: Date) =>
+            fecha.getUTCMonth() === 1 &&
+            new Date(Date.UTC(fecha.getUTCFullYear(), fecha.getUTCMonth(), fecha.getUTCDate() + 1)).getUTCDate() === 1;
+
+        let diaInicio = inicio.getUTCDate();
+        let diaFin = fin.getUTCDate();
+
+        if (diaInicio === 31 || esFinDeFebrero(inicio)) diaInicio = 30;
+        if (diaFin === 31 && diaInicio === 30) diaFin = 30;
+
+        return (fin.getUTCFullYear() - inicio.getUTCFullYear()) * 360 +
+            (fin.getUTCMonth() - inicio.getUTCMonth()) * 30 +
+            (diaFin - diaInicio);
+    }
+
+    /**
+     * Fracción de año entre dos fechas
+     * 30/360 y ACT/360: =días/360  |  ACT/365: =días/365
+     * ACT/ACT (ICMA): =días/((360/L4) × días del período de referencia)
+     */
+    static fraccionAnual(
+        inicio: Date,
+        fin: Date,
+        convencion: DayCountConvention,
+        frecuenciaCuponDias: number,
+        referenciaInicio: Date = inicio,
+        referenciaFin: Date = fin
+    ): number {
+        const dias = this.diasEntreFechas(inicio, fin, convencion);
+
+        switch (convencion) {
+            case '30/360':
+            case 'ACT/360':
+                return new Decimal(dias).div(360).toNumber();
+
+            case 'ACT/365':
+                return new Decimal(dias).div(365).toNumber();
+
+            case 'ACT/ACT': {
+                const cuponesPorAno = 12 / this.mesesPorPeriodo(frecuenciaCuponDias);
+                const diasReferencia = this.diasEntreFechas(referenciaInicio, referenciaFin, convencion);
+                if (diasReferencia === 0) return 0;
+
+                return new Decimal(dias)
+                    .div(new Decimal(cuponesPorAno).mul(diasReferencia))
+                    .toNumber();
+            }
+        }
+    }
+
+    /**
+     * t[n]: Plazo en años desde la emisión hasta B[n]
+     * Sin convención: =A[n]*(L4/E8)
+     * ACT/ACT (ICMA): =A[n]/(360/L4), el resto: fracción de año entre E14 y B[n]
+     */
+    static plazoAnual(
+        fechaEmision: Date,
+        fecha: Date,
+        periodo: number,
+        frecuenciaCuponDias: number,
+        diasPorAno: number,
+        convencion?: DayCountConvention
+    ): number {
+        if (!convencion) {
+            return new Decimal(periodo).mul(frecuenciaCuponDias).div(diasPorAno).toNumber();
+        }
+
+        if (convencion === 'ACT/ACT') {
+            return new Decimal(periodo)
+                .div(12 / this.mesesPorPeriodo(frecuenciaCuponDias))
+                .toNumber();
+        }
+
+        return this.fraccionAnual(fechaEmision, fecha, convencion, frecuenciaCuponDias);
+    }
+
+    /**
+     * E11 del período según el cronograma de tasas
+     * Escalonada: =tasas[n]  |  Flotante: =MIN(MAX(referencia[n]+spread;floor);cap)
+     */
+    static tasaAnualDelPeriodo(
+        periodo: number,
+        tasaAnual: number,
+        cronograma?: CouponRateSchedule
+    ): number {
+        if (!cronograma || cronograma.tasas.length === 0) return tasaAnual;
+
+        const indice = Math.min(periodo, cronograma.tasas.length) - 1;
+        const tasa = cronograma.tasas[Math.max(indice, 0)];
+
+        if (cronograma.tipo === 'escalonada') return tasa;
+
+        let flotante = new Decimal(tasa).plus(cronograma.spread ?? 0);
+        if (cronograma.tasaMinima !== undefined) flotante = Decimal.max(flotante, cronograma.tasaMinima);
+        if (cronograma.tasaMaxima !== undefined) flotante = Decimal.min(flotante, cronograma.tasaMaxima);
+
+        return flotante.toNumber();
+    }
+
+    /**
+     * D[n]/E[n]: Valor de la serie de inflación o gracia para el cupón n
+     * Serie por cupón: =serie[n]  |  Serie por año (formato anterior): =serie[ENTERO((n-1)/L6)]
+     */
+    static valorDelPeriodo<T>(
+        serie: T[],
+        periodo: number,
+        periodosPorAno: number,
+        numAnios: number
+    ): T | undefined {
+        if (serie.length === this.numeroCupones(periodosPorAno, numAnios)) {
+            return serie[periodo - 1];
+        }
+
+        return serie[Math.floor((periodo - 1) / periodosPorAno)];
+    }
+
+    /**
+     * Convierte una serie por año en una serie por cupón repitiendo el valor del año en cada cupón
+     * Las series que ya son por cupón (o con otra longitud) se devuelven sin cambios
+     */
+    static seriePorCupon<T>(
+        serie: T[],
+        periodosPorAno: number,
+        numAnios: number
+    ): T[] {
+        const numeroCupones = this.numeroCupones(periodosPorAno, numAnios);
+        if (serie.length !== numAnios || serie.length === numeroCupones) return serie;
+
+        return Array.from({ length: numeroCupones }, (_, i) => serie[Math.floor(i / periodosPorAno)]);
+    }
+
+    /**
+     * L9 del período: Tasa cupón según la fracción de año devengada
+     * =(1+L8)^fracción−1
+     */
+    static tasaCuponDelPeriodo(
+        tasaEfectivaAnual: number,
+        fraccionPeriodo: number
+    ): number {
+        return new Decimal(1)
+            .plus(tasaEfectivaAnual)
+            .pow(fraccionPeriodo)
+            .minus(1)
+            .toNumber();
+    }
+
     /**
      * D[n]: Inflación semestral
      * =SI(A[n]≤L7;(1+C[n])^(L4/E8)-1;0)
+     * Con convención de días el exponente es la fracción de año del período
      */
     static inflacionSemestral(
         periodo: number,
         totalPeriodos: number,
         inflacionAnual: number,
         frecuenciaCuponDias: number,
-        diasPorAno: number
+        diasPorAno: number,
+        fraccionPeriodo?: number
     ): number {
         if (periodo > totalPeriodos) return 0;
 
-        const exponente = frecuenciaCuponDias / diasPorAno;
+        const exponente = fraccionPeriodo ?? frecuenciaCuponDias / diasPorAno;
         return new Decimal(1)
             .plus(inflacionAnual)
             .pow(exponente)
@@ -227,6 +438,7 @@ export class ExcelFormulas {
     /**
      * F[n]: Bono (Capital vivo)
      * =SI(A[n]=1;E4;SI(A[n]≤L7;SI(E[n−1]="T";G[n−1]−H[n−1];G[n−1]+J[n−1]);0))
+     * Sin capitalización, la gracia total mantiene G[n−1] y el cupón impago no se suma
      */
     static bonoCapital(
         periodo: number,
@@ -235,7 +447,8 @@ export class ExcelFormulas {
         bonoIndexadoAnterior: number | null,
         cuponAnterior: number | null,
         amortizacionAnterior: number | null,
-        graciaAnterior: GracePeriodType | null
+        graciaAnterior: GracePeriodType | null,
+        capitalizarCupon: boolean = false
     ): number {
         // Primer período: inicia con el valor nominal
         if (periodo === 1) {
@@ -247,10 +460,11 @@ export class ExcelFormulas {
             return 0;
         }
 
-        // CORRECCIÓN: Con gracia total, el capital se mantiene
-        // (no se reduce porque no hay pagos)
+        // Con gracia total no hay pagos: el capital se mantiene o crece con el cupón capitalizado
         if (graciaAnterior === 'T') {
-            return bonoIndexadoAnterior;
+            return capitalizarCupon
+                ? new Decimal(bonoIndexadoAnterior).minus(cuponAnterior || 0).toNumber()
+                : bonoIndexadoAnterior;
         } else {
             // Con gracia parcial o sin gracia: se reduce por amortización
             return new Decimal(bonoIndexadoAnterior)
@@ -274,7 +488,7 @@ export class ExcelFormulas {
 
     /**
      * H[n]: Cupón
-     * =-G[n]*L9
+     * =-G[n]*L9[n] (L9 del período cuando hay cronograma de tasas)
      */
     static cupon(
         bonoIndexado: number,
@@ -286,14 +500,33 @@ export class ExcelFormulas {
             .toNumber();
     }
 
+    /**
+     * Interés capitalizado del período: cupón impago que pasa al capital
+     * =SI(E[n]="T";−H[n];0)
+     */
+    static interesCapitalizado(
+        gracia: GracePeriodType | null,
+        cupon: number,
+        capitalizarCupon: boolean
+    ): number {
+        if (!capitalizarCupon || gracia !== 'T') return 0;
+
+        return new Decimal(cupon).neg().toNumber();
+    }
+
     /**
      * J[n]: Amortización
-     * =SI(A[n]≤L7;SI(E[n]="T";0;SI(E[n]="P";0;SI(A[n]<>L7;0;-G[n])));0)
-     */static amortizacion(
+     * Americano: =SI(A[n]≤L7;SI(E[n]="T";0;SI(E[n]="P";0;SI(A[n]<>L7;0;-G[n])));0)
+     * Francés:   =SI(A[n]≤L7;SI(E[n]="S";PAGO(L9;L7−A[n]+1;G[n])−H[n];0);0)
+     * Alemán:    =SI(A[n]≤L7;SI(E[n]="S";−G[n]/(L7−A[n]+1);0);0)
+     */
+    static amortizacion(
         periodo: number,
         totalPeriodos: number,
         gracia: GracePeriodType | null,
-        bonoIndexado: number
+        bonoIndexado: number,
+        metodo: AmortizationMethod = 'americano',
+        tasaCuponPeriodica: number = 0
     ): number {
         // Si el período excede el total, no hay amortización
         if (periodo > totalPeriodos) return 0;
@@ -301,13 +534,75 @@ export class ExcelFormulas {
         // Gracia total o parcial: no amortiza nunca
         if (gracia === 'T' || gracia === 'P') return 0;
 
-        // Sin gracia: solo amortiza en el último período (método americano)
-        if (gracia === 'S' && periodo === totalPeriodos) {
-            return new Decimal(bonoIndexado).negated().toNumber();
+        // Períodos que quedan por pagar, incluyendo el actual
+        const periodosRestantes = totalPeriodos - periodo + 1;
+
+        switch (metodo) {
+            case 'frances': {
+                // Cuota constante: la amortización es la cuota menos el cupón
+                const cuota = this.cuotaFrancesa(bonoIndexado, tasaCuponPeriodica, periodosRestantes);
+                const cupon = this.cupon(bonoIndexado, tasaCuponPeriodica);
+                return new Decimal(cuota).minus(cupon).toNumber();
+            }
+
+            case 'aleman':
+                // Amortización constante sobre el saldo vivo
+                return new Decimal(bonoIndexado)
+                    .div(periodosRestantes)
+                    .negated()
+                    .toNumber();
+
+            default:
+                // Sin gracia: solo amortiza en el último período (método americano)
+                if (periodo === totalPeriodos) {
+                    return new Decimal(bonoIndexado).negated().toNumber();
+                }
+                return 0;
         }
+    }
 
-        // En cualquier otro caso, no amortiza
-        return 0;
+    /**
+     * J[n] en una cuota del fondo de amortización: rescate parcial de p×E4
+     * =−G[n]×MIN(1;p/v), con v la fracción de E4 aún no rescatada
+     * Sin inflación equivale a −p×E4; con inflación se rescata la parte indexada de ese nominal
+     */
+    static amortizacionParcial(
+        bonoIndexado: number,
+        porcentaje: number,
+        porcentajeVivo: number
+    ): number {
+        if (porcentajeVivo <= 0 || porcentaje <= 0) return 0;
+
+        const fraccion = Decimal.min(1, new Decimal(porcentaje).div(porcentajeVivo));
+
+        return new Decimal(bonoIndexado).mul(fraccion).negated().toNumber();
+    }
+
+    /**
+     * I[n] (método francés): Cuota constante
+     * =PAGO(L9;L7−A[n]+1;G[n])
+     */
+    static cuotaFrancesa(
+        bonoIndexado: number,
+        tasaCuponPeriodica: number,
+        periodosRestantes: number
+    ): number {
+        if (periodosRestantes <= 0) return 0;
+
+        // Sin interés la cuota es el saldo repartido en partes iguales
+        if (tasaCuponPeriodica === 0) {
+            return new Decimal(bonoIndexado).div(periodosRestantes).negated().toNumber();
+        }
+
+        const factorDescuento = new Decimal(1)
+            .plus(tasaCuponPeriodica)
+            .pow(-periodosRestantes);
+
+        return new Decimal(bonoIndexado)
+            .mul(tasaCuponPeriodica)
+            .div(new Decimal(1).minus(factorDescuento))
+            .negated()
+            .toNumber();
     }
 
     /**
@@ -358,6 +653,17 @@ export class ExcelFormulas {
         return 0;
     }
 
+    /**
+     * K[n] en una cuota del fondo de amortización: prima sobre el capital rescatado
+     * =primaRescate×J[n]
+     */
+    static primaRescate(
+        amortizacion: number,
+        primaRescate: number
+    ): number {
+        return new Decimal(amortizacion).mul(primaRescate).toNumber();
+    }
+
     /**
      * L[n]: Escudo fiscal
      * =-H[n]*E13
@@ -419,20 +725,36 @@ export class ExcelFormulas {
         return new Decimal(flujoEmisor).negated().toNumber();
     }
 
+    /**
+     * O[k] del escenario de ejercicio (call/put en el período k)
+     * =O[k]+precio×F[k+1]: además del cupón, el bonista cobra el capital vivo al precio de ejercicio
+     */
+    static flujoEjercicio(
+        flujoBonista: number,
+        precioEjercicio: number,
+        capitalVivo: number
+    ): number {
+        return new Decimal(flujoBonista)
+            .plus(new Decimal(precioEjercicio).times(capitalVivo))
+            .toNumber();
+    }
+
     /**
      * P[n]: Flujo Actualizado
      * =O[n]/(1+L10)^A[n]
+     * Con curva de descuento: =O[n]/(1+r(t[n]))^t[n]
      */
     static flujoActualizado(
         flujoBonista: number,
         tasaDescuentoPeriodica: number,
-        periodo: number
+        periodo: number,
+        puntoCurva?: YieldCurvePoint
     ): number {
         if (periodo === 0) return flujoBonista;
 
-        const denominador = new Decimal(1)
-            .plus(tasaDescuentoPeriodica)
-            .pow(periodo);
+        const denominador = puntoCurva
+            ? new Decimal(1).plus(puntoCurva.tasa).pow(puntoCurva.plazo)
+            : new Decimal(1).plus(tasaDescuentoPeriodica).pow(periodo);
 
         return new Decimal(flujoBonista).div(denominador).toNumber();
     }
@@ -440,13 +762,19 @@ export class ExcelFormulas {
     /**
      * Q[n]: FA × Plazo (Para duración)
      * =P[n]*A[n]*(L4/E8)
+     * Con convención de días: =P[n]*t[n]
      */
     static faPlazoPonderado(
         flujoActualizado: number,
         periodo: number,
         frecuenciaCuponDias: number,
-        diasPorAno: number
+        diasPorAno: number,
+        plazoAnual?: number
     ): number {
+        if (plazoAnual !== undefined) {
+            return new Decimal(flujoActualizado).mul(plazoAnual).toNumber();
+        }
+
         const factorTiempo = frecuenciaCuponDias / diasPorAno;
         return new Decimal(flujoActualizado)
             .mul(periodo)
@@ -475,17 +803,20 @@ export class ExcelFormulas {
     /**
      * Precio Actual (VNA)
      * =VNA(L10;O28:O37)
+     * Con curva de descuento (curva[n] = punto al plazo del flujo n): =SUMA(O[n]/(1+r(t[n])+s)^t[n])
      */
     static precioActual(
         flujosBonista: number[],
-        tasaDescuentoPeriodica: number
+        tasaDescuentoPeriodica: number,
+        curva?: YieldCurvePoint[],
+        spread: number = 0
     ): number {
         let vna = new Decimal(0);
 
         for (let i = 1; i < flujosBonista.length; i++) {
-            const denominador = new Decimal(1)
-                .plus(tasaDescuentoPeriodica)
-                .pow(i);
+            const denominador = curva
+                ? new Decimal(1).plus(curva[i].tasa).plus(spread).pow(curva[i].plazo)
+                : new Decimal(1).plus(tasaDescuentoPeriodica).pow(i);
 
             vna = vna.plus(new Decimal(flujosBonista[i]).div(denominador));
         }
@@ -493,6 +824,42 @@ export class ExcelFormulas {
         return vna.toNumber();
     }
 
+    /**
+     * Precio sucio a una fecha de liquidación dentro del período k
+     * =SUMA(O[n]/(1+L10)^(n−k+1−w)) para n=k..L7, con w = fracción devengada del período
+     * Con w=0 y k=1 coincide con el Precio Actual
+     */
+    static precioSucio(
+        flujosBonista: number[],
+        tasaDescuentoPeriodica: number,
+        periodoSiguiente: number,
+        fraccionDevengada: number
+    ): number {
+        let vna = new Decimal(0);
+        const base = new Decimal(1).plus(tasaDescuentoPeriodica);
+
+        for (let n = periodoSiguiente; n < flujosBonista.length; n++) {
+            const exponente = new Decimal(n - periodoSiguiente + 1).minus(fraccionDevengada);
+            vna = vna.plus(new Decimal(flujosBonista[n]).div(base.pow(exponente)));
+        }
+
+        return vna.toNumber();
+    }
+
+    /**
+     * Interés corrido del cupón en curso
+     * =−H[k]×w (0 si el período k tiene gracia total: el cupón no se paga)
+     */
+    static interesCorrido(
+        cupon: number,
+        fraccionDevengada: number,
+        gracia: GracePeriodType | null
+    ): number {
+        if (gracia === 'T') return 0;
+
+        return new Decimal(cupon).neg().mul(fraccionDevengada).toNumber();
+    }
+
     /**
      * Duración
      * =SUMA(Q27:Q37)/SUMA(P27:P37)
@@ -557,17 +924,118 @@ export class ExcelFormulas {
             .toNumber();
     }
 
+    /**
+     * Precio con la tasa de descuento desplazada por plazo
+     * =SUMA(O[n]/(1+y+Δ(t[n]))^t[n]), con y=(1+L10)^L6−1 y t[n]=A[n]/L6
+     * Sin desplazamiento coincide con VNA(L10;O28:O37)
+     * Con curva de descuento se desplaza r(t[n]) en lugar de y
+     */
+    static precioDesplazado(
+        flujosBonista: number[],
+        tasaDescuentoPeriodica: number,
+        periodosPorAno: number,
+        desplazamiento: (plazo: number) => number,
+        curva?: YieldCurvePoint[]
+    ): number {
+        const tasaAnual = new Decimal(1).plus(tasaDescuentoPeriodica).pow(periodosPorAno).minus(1);
+        let precio = new Decimal(0);
+
+        for (let n = 1; n < flujosBonista.length; n++) {
+            const plazo = curva ? new Decimal(curva[n].plazo) : new Decimal(n).div(periodosPorAno);
+            const tasa = curva ? new Decimal(curva[n].tasa) : tasaAnual;
+            const factor = tasa.plus(desplazamiento(plazo.toNumber())).plus(1).pow(plazo);
+            precio = precio.plus(new Decimal(flujosBonista[n]).div(factor));
+        }
+
+        return precio.toNumber();
+    }
+
+    /**
+     * Peso del plazo clave k en el desplazamiento de un flujo a plazo t (interpolación triangular)
+     * Antes del primer plazo clave y después del último el peso es 1
+     */
+    static pesoPlazoClave(plazo: number, plazosClave: number[], k: number): number {
+        const actual = plazosClave[k];
+        const anterior = plazosClave[k - 1];
+        const siguiente = plazosClave[k + 1];
+
+        if (plazo === actual) return 1;
+        if (plazo < actual) {
+            if (anterior === undefined) return 1;
+            return plazo <= anterior ? 0 : (plazo - anterior) / (actual - anterior);
+        }
+        if (siguiente === undefined) return 1;
+        return plazo >= siguiente ? 0 : (siguiente - plazo) / (siguiente - actual);
+    }
+
+    /**
+     * Duración efectiva
+     * =(P− − P+)/(2×P×Δy)
+     */
+    static duracionEfectiva(
+        precioBajo: number,
+        precioAlto: number,
+        precio: number,
+        desplazamiento: number
+    ): number {
+        if (precio === 0) return 0;
+
+        return new Decimal(precioBajo)
+            .minus(precioAlto)
+            .div(new Decimal(2).mul(precio).mul(desplazamiento))
+            .toNumber();
+    }
+
+    /**
+     * Convexidad efectiva
+     * =(P− + P+ − 2×P)/(P×Δy²)
+     */
+    static convexidadEfectiva(
+        precioBajo: number,
+        precioAlto: number,
+        precio: number,
+        desplazamiento: number
+    ): number {
+        if (precio === 0) return 0;
+
+        return new Decimal(precioBajo)
+            .plus(precioAlto)
+            .minus(new Decimal(2).mul(precio))
+            .div(new Decimal(precio).mul(new Decimal(desplazamiento).pow(2)))
+            .toNumber();
+    }
+
+    /**
+     * DV01: valor de un punto básico
+     * =(P(y−1pb) − P(y+1pb))/2
+     */
+    static dv01(precioBajo: number, precioAlto: number): number {
+        return new Decimal(precioBajo).minus(precioAlto).div(2).toNumber();
+    }
+
     /**
      * TCEA/TREA usando TIR
      * =(1+TIR(flujos))^(E8/L4)-1
+     * Lanza IRRError si la TIR no existe o no converge
      */
     static tceaTrea(
         flujos: number[],
-        fechas: Date[],
         diasPorAno: number,
         frecuenciaCuponDias: number
     ): number {
-        const tir = this.calcularTIR(flujos, fechas);
+        const { tasa } = IRRSolver.tir(flujos);
+        return this.anualizarTIR(tasa, diasPorAno, frecuenciaCuponDias);
+    }
+
+    /**
+     * Anualiza una TIR periódica
+     * =(1+TIR)^(E8/L4)-1
+     */
+    static anualizarTIR(
+        tir: number,
+        diasPorAno: number,
+        frecuenciaCuponDias: number
+    ): number {
         const factorAnualizacion = diasPorAno / frecuenciaCuponDias;
 
         return new Decimal(1)
@@ -578,78 +1046,19 @@ export class ExcelFormulas {
     }
 
     /**
-     * Cálculo de TIR usando método de Newton-Raphson
+     * Percentil con interpolación lineal entre rangos
+     * =PERCENTIL.INC(rango;p)
      */
-    private static calcularTIR(flujos: number[], fechas: Date[]): number {
-        // CORRECCIÓN: Validar signos y corregir si es necesario
-        const positivos = flujos.filter(f => f > 0).length;
-        const negativos = flujos.filter(f => f < 0).length;
-
-        if (positivos === 0 || negativos === 0) {
-            return 0; // Caso especial
-        }
-
-        // CORRECCIÓN: Para bonista, el primer flujo debe ser negativo (inversión)
-        // Si el primer flujo es positivo, invertir todos los signos
-        let flujosCorregidos = [...flujos];
-        if (flujos[0] > 0) {
-            flujosCorregidos = flujos.map(f => -f);
-        }
-
-        let tir = 0.05; // Estimación inicial 5%
-        const maxIteraciones = 200;
-        const tolerancia = 1e-10;
-
-        for (let i = 0; i < maxIteraciones; i++) {
-            const { vpn, derivada } = this.vpnYDerivada(flujosCorregidos, fechas, tir);
+    static percentil(valores: number[], p: number): number {
+        if (valores.length === 0) return NaN;
 
-            if (Math.abs(vpn) < tolerancia) break;
+        const ordenados = [...valores].sort((a, b) => a - b);
+        const rango = new Decimal(p).mul(ordenados.length - 1);
+        const inferior = rango.floor().toNumber();
+        const superior = Math.min(inferior + 1, ordenados.length - 1);
 
-            if (Math.abs(derivada) < 1e-15) break;
-
-            const nuevaTir = tir - vpn / derivada;
-            const tirAcotada = Math.max(-0.99, Math.min(2.0, nuevaTir));
-
-            if (Math.abs(tirAcotada - tir) < tolerancia) break;
-
-            tir = tirAcotada;
-        }
-
-        return tir;
-    }
-    /**
-     * Calcula VPN y su derivada para el método de Newton-Raphson
-     */
-    private static vpnYDerivada(
-        flujos: number[],
-        fechas: Date[],
-        tasa: number
-    ): { vpn: number; derivada: number } {
-        let vpn = new Decimal(0);
-        let derivada = new Decimal(0);
-
-        const fechaBase = fechas[0];
-
-        for (let i = 0; i < flujos.length; i++) {
-            const diasDiferencia = (fechas[i].getTime() - fechaBase.getTime()) / (1000 * 60 * 60 * 24);
-            // CORRECCIÓN: Usar períodos en lugar de años calendario
-            const periodos = i; // Para flujos semestrales: período 0, 1, 2, etc.
-
-            if (periodos === 0) {
-                // Período 0: no se descuenta
-                vpn = vpn.plus(new Decimal(flujos[i]));
-                // Derivada es 0 para período 0
-            } else {
-                const factor = new Decimal(1).plus(tasa).pow(-periodos);
-                const flujoDecimal = new Decimal(flujos[i]);
-
-                vpn = vpn.plus(flujoDecimal.mul(factor));
-                derivada = derivada.minus(
-                    flujoDecimal.mul(factor).mul(periodos).div(new Decimal(1).plus(tasa))
-                );
-            }
-        }
-
-        return { vpn: vpn.toNumber(), derivada: derivada.toNumber() };
+        return new Decimal(ordenados[inferior])
+            .plus(new Decimal(ordenados[superior]).minus(ordenados[inferior]).mul(rango.minus(inferior)))
+            .toNumber();
     }
 }
\ No newline at end of file
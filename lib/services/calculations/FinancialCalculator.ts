@@ -9,9 +9,18 @@ import {
     ValidationResult,
     ValidationError,
     CalculatorOptions,
-    PrecisionConfig
+    PrecisionConfig,
+    SettlementPrice,
+    CalculationWarning,
+    ExerciseScenario,
+    OptionExerciseDate,
+    YieldCurvePoint
 } from '@/lib/types/calculations';
 import { ExcelFormulas } from './ExcelFormulas';
+import { IRRSolver, IRRError } from './IRRSolver';
+import { BusinessDayCalendar } from './BusinessDayCalendar';
+import { YieldCurve } from './YieldCurve';
+import { CalculationTracer } from './CalculationTracer';
 import { Decimal } from 'decimal.js';
 
 /**
@@ -30,8 +39,10 @@ export class FinancialCalculator {
                 tolerance: 1e-8
             },
             validateInputs: true,
-            includeIntermediateSteps: true,
+            includeIntermediateSteps: false,
             cacheResults: false,
+            keyRateTenors: [1, 2, 3, 5, 7, 10],
+            rateShift: 0.001,
             ...options
         };
 
@@ -62,14 +73,24 @@ export class FinancialCalculator {
             const flujos = this.calcularFlujosDeCaja(inputs, intermedios);
 
             // 4. Calcular métricas financieras
-            const metricas = this.calcularMetricasFinancieras(flujos, intermedios);
+            const advertencias: CalculationWarning[] = [];
+            const metricas = this.calcularMetricasFinancieras(flujos, intermedios, advertencias);
 
-            // 5. Ensamblar resultado final
+            // 5. Escenarios de ejercicio de opciones embebidas (call/put)
+            const escenariosEjercicio = this.calcularEscenariosEjercicio(inputs, intermedios, flujos, advertencias);
+            Object.assign(metricas, this.calcularRendimientosEjercicio(escenariosEjercicio, metricas.treaBonista));
+
+            // 6. Ensamblar resultado final
             const resultado: CalculationResult = {
                 inputs,
                 intermedios,
                 flujos,
                 metricas,
+                advertencias,
+                ...(escenariosEjercicio.length > 0 && { escenariosEjercicio }),
+                ...(this.options.includeIntermediateSteps && {
+                    traza: CalculationTracer.trazar(inputs, intermedios, flujos, metricas)
+                }),
                 fechaCalculo: new Date(),
                 version: '1.0.0'
             };
@@ -105,12 +126,14 @@ export class FinancialCalculator {
             diasCapitalizacion
         );
 
-        // L9: Tasa cupón periódica
-        const tasaCuponPeriodica = ExcelFormulas.tasaCuponPeriodica(
-            tasaEfectivaAnual,
-            frecuenciaCuponDias,
-            inputs.diasPorAno
-        );
+        // L9: Tasa cupón periódica (un cupón cero no paga intereses)
+        const tasaCuponPeriodica = inputs.instrumentType === 'cupon_cero'
+            ? 0
+            : ExcelFormulas.tasaCuponPeriodica(
+                tasaEfectivaAnual,
+                frecuenciaCuponDias,
+                inputs.diasPorAno
+            );
 
         // L10: Tasa descuento periódica
         const tasaDescuentoPeriodica = ExcelFormulas.tasaDescuentoPeriodica(
@@ -158,13 +181,15 @@ export class FinancialCalculator {
     ): CashFlowPeriod[] {
         const flujos: CashFlowPeriod[] = [];
         const totalPeriodos = Math.floor(intermedios.totalPeriodos);
+        const calendario = new BusinessDayCalendar(inputs.feriados ?? []);
+        const curva = inputs.curvaDescuento ? YieldCurve.fromDefinition(inputs.curvaDescuento) : null;
 
         // Período 0 (inicial)
         flujos.push(this.calcularPeriodoInicial(inputs, intermedios));
 
         // Períodos 1 hasta totalPeriodos
         for (let periodo = 1; periodo <= totalPeriodos; periodo++) {
-            const flujo = this.calcularPeriodo(periodo, inputs, intermedios, flujos);
+            const flujo = this.calcularPeriodo(periodo, inputs, intermedios, flujos, calendario, curva);
             flujos.push(flujo);
         }
 
@@ -191,11 +216,13 @@ export class FinancialCalculator {
         return {
             periodo: 0,
             fecha: inputs.fechaEmision,
+            fechaDevengo: inputs.fechaEmision,
             inflacionAnual: null,
             inflacionSemestral: null,
             gracia: null,
             bonoCapital: null,
             bonoIndexado: null,
+            interesCapitalizado: null,
             cupon: null,
             amortizacion: null,
             cuota: null,
@@ -214,30 +241,70 @@ export class FinancialCalculator {
         periodo: number,
         inputs: CalculationInputs,
         intermedios: CalculosIntermedios,
-        flujosAnteriores: CashFlowPeriod[]
+        flujosAnteriores: CashFlowPeriod[],
+        calendario: BusinessDayCalendar = new BusinessDayCalendar(),
+        curva: YieldCurve | null = null
     ): CashFlowPeriod {
-        // CORRECCIÓN: Mapeo correcto de series anuales a períodos de pago
-        // Para frecuencia semestral: períodos 1-2 = año 1, períodos 3-4 = año 2, etc.
-        const anoCorrespondiente = Math.floor((periodo - 1) / intermedios.periodosPorAno);
-
-        // Obtener datos del período usando el año correspondiente
-        const inflacionAnual = inputs.inflacionSerie[anoCorrespondiente] || 0;
-        const gracia = inputs.graciaSerie[anoCorrespondiente] || 'S';
-
-        // B[n]: Fecha del período
-        const fecha = ExcelFormulas.fechaPeriodo(
+        // Series por cupón: el período n usa el elemento n
+        // Las series por año (formato anterior) se mapean al año del período: semestral 1-2 = año 1, 3-4 = año 2, etc.
+        const esCuponCero = inputs.instrumentType === 'cupon_cero';
+        const inflacionAnual = ExcelFormulas.valorDelPeriodo(
+            inputs.inflacionSerie, periodo, intermedios.periodosPorAno, inputs.numAnios
+        ) || 0;
+        // Sin cupones no hay nada que diferir: la gracia no aplica
+        const gracia = esCuponCero ? 'S' : ExcelFormulas.valorDelPeriodo(
+            inputs.graciaSerie, periodo, intermedios.periodosPorAno, inputs.numAnios
+        ) || 'S';
+
+        // B[n]: Fecha del período (sin ajustar, base del devengo)
+        const convencion = inputs.dayCountConvention;
+        const fechaDevengo = ExcelFormulas.fechaPeriodo(
             inputs.fechaEmision,
             periodo,
-            intermedios.frecuenciaCuponDias
+            intermedios.frecuenciaCuponDias,
+            convencion
         );
 
+        // Fracción de año devengada en el período (solo con convención de días)
+        const fraccionPeriodo = convencion
+            ? ExcelFormulas.fraccionAnual(
+                ExcelFormulas.fechaPeriodo(inputs.fechaEmision, periodo - 1, intermedios.frecuenciaCuponDias, convencion),
+                fechaDevengo,
+                convencion,
+                intermedios.frecuenciaCuponDias
+            )
+            : undefined;
+
+        // B[n] de pago: ajustada al calendario de días hábiles
+        const fecha = calendario.ajustar(fechaDevengo, inputs.businessDayConvention ?? 'none');
+
+        // L8 del período: con cronograma de tasas cada período tiene su propia E11
+        const tasaEfectivaPeriodo = inputs.couponSchedule
+            ? ExcelFormulas.tasaEfectivaAnual(
+                inputs.tipoTasa,
+                ExcelFormulas.tasaAnualDelPeriodo(periodo, inputs.tasaAnual, inputs.couponSchedule),
+                inputs.diasPorAno,
+                intermedios.diasCapitalizacion
+            )
+            : intermedios.tasaEfectivaAnual;
+
+        // L9 aplicable al período
+        const tasaCuponPeriodo = esCuponCero
+            ? 0
+            : fraccionPeriodo !== undefined
+                ? ExcelFormulas.tasaCuponDelPeriodo(tasaEfectivaPeriodo, fraccionPeriodo)
+                : inputs.couponSchedule
+                    ? ExcelFormulas.tasaCuponPeriodica(tasaEfectivaPeriodo, intermedios.frecuenciaCuponDias, inputs.diasPorAno)
+                    : intermedios.tasaCuponPeriodica;
+
         // D[n]: Inflación semestral
         const inflacionSemestral = ExcelFormulas.inflacionSemestral(
             periodo,
             intermedios.totalPeriodos,
             inflacionAnual,
             intermedios.frecuenciaCuponDias,
-            inputs.diasPorAno
+            inputs.diasPorAno,
+            fraccionPeriodo
         );
 
         // F[n]: Bono capital (necesita datos del período anterior)
@@ -249,23 +316,46 @@ export class FinancialCalculator {
             flujoAnterior?.bonoIndexado || null,
             flujoAnterior?.cupon || null,
             flujoAnterior?.amortizacion || null,
-            flujoAnterior?.gracia || null
+            flujoAnterior?.gracia || null,
+            inputs.capitalizarGraciaTotal
         );
 
         // G[n]: Bono indexado
         const bonoIndexado = ExcelFormulas.bonoIndexado(bonoCapital, inflacionSemestral);
 
         // H[n]: Cupón (siempre se calcula)
-        const cupon = ExcelFormulas.cupon(bonoIndexado, intermedios.tasaCuponPeriodica);
+        const cupon = ExcelFormulas.cupon(bonoIndexado, tasaCuponPeriodo);
 
-        // J[n]: Amortización (depende del tipo de gracia)
-        const amortizacion = ExcelFormulas.amortizacion(
-            periodo,
-            intermedios.totalPeriodos,
+        // Cupón impago por gracia total que se suma al capital del período siguiente
+        const interesCapitalizado = ExcelFormulas.interesCapitalizado(
             gracia,
-            bonoIndexado
+            cupon,
+            inputs.capitalizarGraciaTotal ?? false
         );
 
+        // Cuota del fondo de amortización programada para el período (solo se paga sin gracia)
+        const cuotaFondo = gracia === 'S'
+            ? inputs.sinkingFund?.cuotas.find(c => c.periodo === periodo)
+            : undefined;
+
+        // Fracción del nominal original que sigue en circulación (sin rescates del fondo es 1)
+        const fraccionViva = (inputs.sinkingFund?.cuotas ?? [])
+            .filter(c => c.periodo < periodo)
+            .reduce((vivo, c) => vivo.minus(c.porcentaje), new Decimal(1))
+            .toNumber();
+
+        // J[n]: Amortización (depende del tipo de gracia y del método, o del fondo de amortización)
+        const amortizacion = cuotaFondo
+            ? ExcelFormulas.amortizacionParcial(bonoIndexado, cuotaFondo.porcentaje, fraccionViva)
+            : ExcelFormulas.amortizacion(
+                periodo,
+                intermedios.totalPeriodos,
+                gracia,
+                bonoIndexado,
+                inputs.amortizationMethod ?? 'americano',
+                tasaCuponPeriodo
+            );
+
         // I[n]: Cuota (la clave está aquí - debe ser 0 para gracia total)
         const cuota = ExcelFormulas.cuota(
             periodo,
@@ -275,13 +365,16 @@ export class FinancialCalculator {
             amortizacion
         );
 
-        // K[n]: Prima
-        const prima = ExcelFormulas.prima(
-            periodo,
-            intermedios.totalPeriodos,
-            inputs.primaPorcentaje,
-            inputs.valorNominal
-        );
+        // K[n]: Prima (más la prima de rescate sobre la cuota del fondo de amortización)
+        // Al vencimiento la prima se paga solo sobre el nominal que el fondo no rescató
+        const prima = cuotaFondo
+            ? ExcelFormulas.primaRescate(amortizacion, inputs.sinkingFund?.primaRescate ?? 0)
+            : ExcelFormulas.prima(
+                periodo,
+                intermedios.totalPeriodos,
+                inputs.primaPorcentaje,
+                new Decimal(inputs.valorNominal).mul(fraccionViva).toNumber()
+            );
 
         // L[n]: Escudo fiscal
         const escudoFiscal = ExcelFormulas.escudoFiscal(cupon, inputs.impuestoRenta);
@@ -302,11 +395,29 @@ export class FinancialCalculator {
         // O[n]: Flujo Bonista
         const flujoBonista = ExcelFormulas.flujoBonista(flujoEmisor);
 
+        // t[n]: Plazo en años según la convención de días (sin convención: A[n]×L4/E8 en la fórmula)
+        const plazoConvencion = convencion
+            ? ExcelFormulas.plazoAnual(
+                inputs.fechaEmision,
+                fechaDevengo,
+                periodo,
+                intermedios.frecuenciaCuponDias,
+                inputs.diasPorAno,
+                convencion
+            )
+            : undefined;
+
+        // Punto de la curva al plazo del flujo (solo con curva de descuento)
+        const plazoCurva = plazoConvencion
+            ?? new Decimal(periodo).mul(intermedios.frecuenciaCuponDias).div(inputs.diasPorAno).toNumber();
+        const puntoCurva = curva ? { plazo: plazoCurva, tasa: curva.tasa(plazoCurva) } : undefined;
+
         // P[n]: Flujo Actualizado
         const flujoActualizado = ExcelFormulas.flujoActualizado(
             flujoBonista,
             intermedios.tasaDescuentoPeriodica,
-            periodo
+            periodo,
+            puntoCurva
         );
 
         // Q[n]: FA × Plazo
@@ -314,7 +425,8 @@ export class FinancialCalculator {
             flujoActualizado,
             periodo,
             intermedios.frecuenciaCuponDias,
-            inputs.diasPorAno
+            inputs.diasPorAno,
+            plazoConvencion
         );
 
         // R[n]: Factor de Convexidad
@@ -323,11 +435,14 @@ export class FinancialCalculator {
         return {
             periodo,
             fecha,
+            fechaDevengo,
+            tasaCupon: tasaCuponPeriodo,
             inflacionAnual,
             inflacionSemestral,
             gracia,
             bonoCapital,
             bonoIndexado,
+            interesCapitalizado,
             cupon,
             amortizacion,
             cuota,
@@ -338,7 +453,8 @@ export class FinancialCalculator {
             flujoBonista,
             flujoActualizado,
             faPlazoPonderado,
-            factorConvexidad
+            factorConvexidad,
+            ...(puntoCurva && { plazoAnual: puntoCurva.plazo, tasaCurva: puntoCurva.tasa })
         };
     }
 
@@ -348,7 +464,8 @@ export class FinancialCalculator {
      */
     private calcularMetricasFinancieras(
         flujos: CashFlowPeriod[],
-        intermedios: CalculosIntermedios
+        intermedios: CalculosIntermedios,
+        advertencias: CalculationWarning[] = []
     ): FinancialMetrics {
         // Extraer arrays para cálculos
         const flujosBonista = flujos.map(f => f.flujoBonista || 0);
@@ -359,10 +476,16 @@ export class FinancialCalculator {
         const factoresConvexidad = flujos.map(f => f.factorConvexidad || 0);
         const fechas = flujos.map(f => f.fecha);
 
+        // Puntos de la curva de descuento por flujo (el período 0 no se descuenta)
+        const curva: YieldCurvePoint[] | undefined = flujos[1]?.tasaCurva !== undefined
+            ? flujos.map(f => ({ plazo: f.plazoAnual ?? 0, tasa: f.tasaCurva ?? 0 }))
+            : undefined;
+
         // Precio Actual (VNA)
         const precioActual = ExcelFormulas.precioActual(
             flujosBonista,
-            intermedios.tasaDescuentoPeriodica
+            intermedios.tasaDescuentoPeriodica,
+            curva
         );
 
         // Utilidad/Pérdida
@@ -392,26 +515,17 @@ export class FinancialCalculator {
         );
 
         // TCEAs y TREA
-        const tceaEmisor = ExcelFormulas.tceaTrea(
-            flujosEmisor,
-            fechas,
-            360,
-            intermedios.frecuenciaCuponDias
-        );
+        const tceaEmisor = this.tasaRetorno('tceaEmisor', flujosEmisor, intermedios, advertencias);
+        const tceaEmisorConEscudo = this.tasaRetorno('tceaEmisorConEscudo', flujosEmisorConEscudo, intermedios, advertencias);
+        const treaBonista = this.tasaRetorno('treaBonista', flujosBonista, intermedios, advertencias);
 
-        const tceaEmisorConEscudo = ExcelFormulas.tceaTrea(
-            flujosEmisorConEscudo,
-            fechas,
-            360,
-            intermedios.frecuenciaCuponDias
-        );
+        // Las mismas tasas sobre las fechas de pago reales
+        const tceaEmisorXTIR = this.tasaRetornoPorFechas('tceaEmisorXTIR', flujosEmisor, fechas, advertencias);
+        const tceaEmisorConEscudoXTIR = this.tasaRetornoPorFechas('tceaEmisorConEscudoXTIR', flujosEmisorConEscudo, fechas, advertencias);
+        const treaBonistaXTIR = this.tasaRetornoPorFechas('treaBonistaXTIR', flujosBonista, fechas, advertencias);
 
-        const treaBonista = ExcelFormulas.tceaTrea(
-            flujosBonista,
-            fechas,
-            360,
-            intermedios.frecuenciaCuponDias
-        );
+        // Duración/convexidad efectivas, DV01 y duraciones de plazo clave
+        const sensibilidadTasa = this.calcularSensibilidadTasa(flujosBonista, intermedios, curva);
 
         return {
             precioActual,
@@ -422,14 +536,187 @@ export class FinancialCalculator {
             duracionModificada,
             tceaEmisor,
             tceaEmisorConEscudo,
-            treaBonista
+            treaBonista,
+            tceaEmisorXTIR,
+            tceaEmisorConEscudoXTIR,
+            treaBonistaXTIR,
+            ...sensibilidadTasa,
+            ...(curva && { zSpread: YieldCurve.zSpread(flujosBonista, curva) })
+        };
+    }
+
+    /**
+     * Bump-and-reprice de los flujos del bonista: la tasa de descuento anual se desplaza ±Δy
+     * en toda la curva (duración/convexidad efectivas, DV01) o solo alrededor de un plazo clave
+     */
+    private calcularSensibilidadTasa(
+        flujosBonista: number[],
+        intermedios: CalculosIntermedios,
+        curva?: YieldCurvePoint[]
+    ): Pick<FinancialMetrics, 'duracionEfectiva' | 'convexidadEfectiva' | 'dv01' | 'duracionesClave'> {
+        const PUNTO_BASICO = 0.0001;
+        const delta = this.options.rateShift;
+        const precioCon = (desplazamiento: (plazo: number) => number) => ExcelFormulas.precioDesplazado(
+            flujosBonista,
+            intermedios.tasaDescuentoPeriodica,
+            intermedios.periodosPorAno,
+            desplazamiento,
+            curva
+        );
+
+        const precio = precioCon(() => 0);
+        const precioBajo = precioCon(() => -delta);
+        const precioAlto = precioCon(() => delta);
+
+        const plazosClave = [...this.options.keyRateTenors].sort((a, b) => a - b);
+        const duracionesClave = plazosClave.map((plazo, k) => {
+            const peso = (t: number) => ExcelFormulas.pesoPlazoClave(t, plazosClave, k);
+            return {
+                plazo,
+                duracion: ExcelFormulas.duracionEfectiva(
+                    precioCon(t => -delta * peso(t)),
+                    precioCon(t => delta * peso(t)),
+                    precio,
+                    delta
+                ),
+            };
+        });
+
+        return {
+            duracionEfectiva: ExcelFormulas.duracionEfectiva(precioBajo, precioAlto, precio, delta),
+            convexidadEfectiva: ExcelFormulas.convexidadEfectiva(precioBajo, precioAlto, precio, delta),
+            dv01: ExcelFormulas.dv01(precioCon(() => -PUNTO_BASICO), precioCon(() => PUNTO_BASICO)),
+            duracionesClave,
         };
     }
 
+    /**
+     * Flujos del bonista si el bono se redime en cada fecha de call/put
+     * El ejercicio ocurre en el primer cupón k con B[k] igual o posterior a la fecha de la opción
+     */
+    private calcularEscenariosEjercicio(
+        inputs: CalculationInputs,
+        intermedios: CalculosIntermedios,
+        flujos: CashFlowPeriod[],
+        advertencias: CalculationWarning[]
+    ): ExerciseScenario[] {
+        const opciones: Array<OptionExerciseDate & { tipo: 'call' | 'put' }> = [
+            ...(inputs.callSchedule ?? []).map(o => ({ ...o, tipo: 'call' as const })),
+            ...(inputs.putSchedule ?? []).map(o => ({ ...o, tipo: 'put' as const })),
+        ];
+        const totalPeriodos = flujos.length - 1;
+        const fechaDe = (flujo: CashFlowPeriod) => flujo.fechaDevengo ?? flujo.fecha;
+
+        return opciones.flatMap(opcion => {
+            const periodo = flujos.findIndex(
+                (flujo, n) => n > 0 && fechaDe(flujo).getTime() >= opcion.fecha.getTime()
+            );
+            // En el vencimiento la opción no cambia los flujos
+            if (periodo === -1 || periodo === totalPeriodos) return [];
+
+            const flujoEjercido = flujos[periodo];
+
+            // F[k+1]: capital vivo tras el cupón k
+            const capitalRedimido = ExcelFormulas.bonoCapital(
+                periodo + 1,
+                inputs.valorNominal,
+                intermedios.totalPeriodos,
+                flujoEjercido.bonoIndexado,
+                flujoEjercido.cupon,
+                flujoEjercido.amortizacion,
+                flujoEjercido.gracia,
+                inputs.capitalizarGraciaTotal
+            );
+
+            const flujosBonista = flujos.slice(0, periodo + 1).map(f => f.flujoBonista || 0);
+            flujosBonista[periodo] = ExcelFormulas.flujoEjercicio(
+                flujosBonista[periodo],
+                opcion.precio,
+                capitalRedimido
+            );
+
+            return [{
+                tipo: opcion.tipo,
+                fechaEjercicio: flujoEjercido.fecha,
+                periodo,
+                precio: opcion.precio,
+                capitalRedimido,
+                flujosBonista,
+                rendimiento: this.tasaRetorno(`${opcion.tipo}[${periodo}]`, flujosBonista, intermedios, advertencias)
+            }];
+        });
+    }
+
+    /**
+     * YTC/YTP al primer ejercicio posible y YTW como el peor rendimiento para el bonista
+     * El put lo decide el bonista, por eso solo los calls entran en el YTW
+     */
+    private calcularRendimientosEjercicio(
+        escenarios: ExerciseScenario[],
+        treaBonista: number
+    ): Pick<FinancialMetrics, 'ytc' | 'ytp' | 'ytw'> {
+        if (escenarios.length === 0) return {};
+
+        const primero = (tipo: 'call' | 'put') => escenarios
+            .filter(e => e.tipo === tipo)
+            .sort((a, b) => a.periodo - b.periodo)[0];
+
+        const calls = escenarios.filter(e => e.tipo === 'call').map(e => e.rendimiento);
+
+        return {
+            ytc: primero('call')?.rendimiento,
+            ytp: primero('put')?.rendimiento,
+            ytw: Math.min(treaBonista, ...calls)
+        };
+    }
+
+    /**
+     * TCEA/TREA =(1+TIR)^(E8/L4)-1 registrando las incidencias de la TIR
+     * Si la TIR no existe o no converge la métrica queda en 0 y se reporta como error
+     */
+    private tasaRetorno(
+        campo: string,
+        flujos: number[],
+        intermedios: CalculosIntermedios,
+        advertencias: CalculationWarning[]
+    ): number {
+        try {
+            const resultado = IRRSolver.tir(flujos);
+            advertencias.push(...resultado.advertencias.map(a => ({ ...a, field: campo })));
+            return ExcelFormulas.anualizarTIR(resultado.tasa, 360, intermedios.frecuenciaCuponDias); // E8 fijo del Excel
+        } catch (error) {
+            if (!(error instanceof IRRError)) throw error;
+            advertencias.push({ field: campo, code: error.code, message: error.message, severity: 'error' });
+            return 0;
+        }
+    }
+
+    /**
+     * TIR.NO.PER sobre las fechas de pago (ya es anual)
+     * Los cambios de signo ya se reportan en la TIR por períodos
+     */
+    private tasaRetornoPorFechas(
+        campo: string,
+        flujos: number[],
+        fechas: Date[],
+        advertencias: CalculationWarning[]
+    ): number | undefined {
+        try {
+            return IRRSolver.xtir(flujos, fechas).tasa;
+        } catch (error) {
+            if (!(error instanceof IRRError)) throw error;
+            if (error.code === 'IRR_NOT_CONVERGED') {
+                advertencias.push({ field: campo, code: error.code, message: error.message, severity: 'error' });
+            }
+            return undefined;
+        }
+    }
+
     /**
      * Validación de inputs
+     * Pública para validar datos antes de crear el bono (importación de plantillas)
      */
-    private validateInputs(inputs: CalculationInputs): ValidationResult {
+    validateInputs(inputs: CalculationInputs): ValidationResult {
         const errors: ValidationError[] = [];
 
         // Validar valores positivos
@@ -474,19 +761,101 @@ export class FinancialCalculator {
             });
         }
 
-        // Validar series
-        if (inputs.inflacionSerie.length !== inputs.numAnios) {
+        if (inputs.amortizationMethod !== undefined &&
+            !['americano', 'frances', 'aleman'].includes(inputs.amortizationMethod)) {
+            errors.push({
+                field: 'amortizationMethod',
+                message: `Método de amortización no soportado: ${inputs.amortizationMethod}`,
+                code: 'INVALID_AMORTIZATION_METHOD'
+            });
+        }
+
+        if (inputs.instrumentType !== undefined &&
+            !['cupon', 'cupon_cero'].includes(inputs.instrumentType)) {
+            errors.push({
+                field: 'instrumentType',
+                message: `Tipo de instrumento no soportado: ${inputs.instrumentType}`,
+                code: 'INVALID_INSTRUMENT_TYPE'
+            });
+        }
+
+        if (inputs.instrumentType === 'cupon_cero') {
+            if ((inputs.amortizationMethod ?? 'americano') !== 'americano') {
+                errors.push({
+                    field: 'amortizationMethod',
+                    message: 'Un bono cupón cero solo admite amortización al vencimiento (americano)',
+                    code: 'INVALID_ZERO_COUPON_AMORTIZATION'
+                });
+            }
+
+            if (inputs.couponSchedule) {
+                errors.push({
+                    field: 'couponSchedule',
+                    message: 'Un bono cupón cero no admite cronograma de tasas cupón',
+                    code: 'INVALID_ZERO_COUPON_SCHEDULE'
+                });
+            }
+        }
+
+        if (inputs.dayCountConvention !== undefined &&
+            !['30/360', 'ACT/360', 'ACT/365', 'ACT/ACT'].includes(inputs.dayCountConvention)) {
+            errors.push({
+                field: 'dayCountConvention',
+                message: `Convención de conteo de días no soportada: ${inputs.dayCountConvention}`,
+                code: 'INVALID_DAY_COUNT_CONVENTION'
+            });
+        }
+
+        if (inputs.businessDayConvention !== undefined &&
+            !['none', 'following', 'modified_following', 'preceding'].includes(inputs.businessDayConvention)) {
+            errors.push({
+                field: 'businessDayConvention',
+                message: `Regla de ajuste de día hábil no soportada: ${inputs.businessDayConvention}`,
+                code: 'INVALID_BUSINESS_DAY_CONVENTION'
+            });
+        }
+
+        if (inputs.couponSchedule) {
+            errors.push(...this.validateCouponSchedule(inputs));
+        }
+
+        errors.push(...this.validateOptionSchedule('callSchedule', inputs.callSchedule, inputs));
+        errors.push(...this.validateOptionSchedule('putSchedule', inputs.putSchedule, inputs));
+
+        if (inputs.sinkingFund) {
+            errors.push(...this.validateSinkingFund(inputs));
+        }
+
+        if (inputs.curvaDescuento) {
+            try {
+                YieldCurve.fromDefinition(inputs.curvaDescuento);
+            } catch (error) {
+                errors.push({
+                    field: 'curvaDescuento',
+                    message: error instanceof Error ? error.message : 'Curva de descuento inválida',
+                    code: 'INVALID_YIELD_CURVE'
+                });
+            }
+        }
+
+        // Validar series: un elemento por cupón (se aceptan aún las series por año)
+        const numeroCupones = ExcelFormulas.numeroCupones(
+            ExcelFormulas.periodosPorAno(inputs.diasPorAno, ExcelFormulas.frecuenciaCuponDias(inputs.frecuenciaCupon)),
+            inputs.numAnios
+        );
+
+        if (![numeroCupones, inputs.numAnios].includes(inputs.inflacionSerie.length)) {
             errors.push({
                 field: 'inflacionSerie',
-                message: `La serie de inflación debe tener ${inputs.numAnios} elementos (recibidos ${inputs.inflacionSerie.length})`,
+                message: `La serie de inflación debe tener ${numeroCupones} elementos, uno por cupón (recibidos ${inputs.inflacionSerie.length})`,
                 code: 'INVALID_INFLATION_SERIES_LENGTH'
             });
         }
 
-        if (inputs.graciaSerie.length !== inputs.numAnios) {
+        if (![numeroCupones, inputs.numAnios].includes(inputs.graciaSerie.length)) {
             errors.push({
                 field: 'graciaSerie',
-                message: `La serie de gracia debe tener ${inputs.numAnios} elementos (recibidos ${inputs.graciaSerie.length})`,
+                message: `La serie de gracia debe tener ${numeroCupones} elementos, uno por cupón (recibidos ${inputs.graciaSerie.length})`,
                 code: 'INVALID_GRACE_SERIES_LENGTH'
             });
         }
@@ -497,6 +866,182 @@ export class FinancialCalculator {
         };
     }
 
+    /**
+     * Validación del cronograma de tasas cupón
+     */
+    private validateCouponSchedule(inputs: CalculationInputs): ValidationError[] {
+        const errors: ValidationError[] = [];
+        const cronograma = inputs.couponSchedule!;
+        const totalPeriodos = ExcelFormulas.totalPeriodos(
+            ExcelFormulas.periodosPorAno(inputs.diasPorAno, ExcelFormulas.frecuenciaCuponDias(inputs.frecuenciaCupon)),
+            inputs.numAnios
+        );
+
+        if (!['escalonada', 'flotante'].includes(cronograma.tipo)) {
+            errors.push({
+                field: 'couponSchedule.tipo',
+                message: `Tipo de cronograma de tasas no soportado: ${cronograma.tipo}`,
+                code: 'INVALID_COUPON_SCHEDULE'
+            });
+        }
+
+        if (cronograma.tasas.length === 0 || cronograma.tasas.length > totalPeriodos) {
+            errors.push({
+                field: 'couponSchedule.tasas',
+                message: `El cronograma de tasas debe tener entre 1 y ${totalPeriodos} elementos (recibidos ${cronograma.tasas.length})`,
+                code: 'INVALID_COUPON_SCHEDULE_LENGTH'
+            });
+        }
+
+        if (cronograma.tasas.some(t => !Number.isFinite(t) || t < -1 || t > 1)) {
+            errors.push({
+                field: 'couponSchedule.tasas',
+                message: 'Las tasas del cronograma deben estar entre -100% y 100%',
+                code: 'INVALID_COUPON_SCHEDULE_RATE'
+            });
+        }
+
+        if (cronograma.tasaMaxima !== undefined && cronograma.tasaMinima !== undefined &&
+            cronograma.tasaMinima > cronograma.tasaMaxima) {
+            errors.push({
+                field: 'couponSchedule.tasaMinima',
+                message: 'El floor no puede ser mayor que el cap',
+                code: 'INVALID_COUPON_SCHEDULE_BOUNDS'
+            });
+        }
+
+        return errors;
+    }
+
+    /**
+     * Validación de las fechas de ejercicio de call/put: entre la emisión y el vencimiento
+     */
+    private validateOptionSchedule(
+        field: 'callSchedule' | 'putSchedule',
+        opciones: OptionExerciseDate[] | undefined,
+        inputs: CalculationInputs
+    ): ValidationError[] {
+        const errors: ValidationError[] = [];
+        if (!opciones) return errors;
+
+        const frecuenciaCuponDias = ExcelFormulas.frecuenciaCuponDias(inputs.frecuenciaCupon);
+        const vencimiento = ExcelFormulas.fechaPeriodo(
+            inputs.fechaEmision,
+            ExcelFormulas.totalPeriodos(ExcelFormulas.periodosPorAno(inputs.diasPorAno, frecuenciaCuponDias), inputs.numAnios),
+            frecuenciaCuponDias,
+            inputs.dayCountConvention
+        );
+
+        opciones.forEach((opcion, i) => {
+            if (!(opcion.fecha instanceof Date) || isNaN(opcion.fecha.getTime()) ||
+                opcion.fecha.getTime() <= inputs.fechaEmision.getTime() ||
+                opcion.fecha.getTime() >= vencimiento.getTime()) {
+                errors.push({
+                    field: `${field}[${i}].fecha`,
+                    message: 'La fecha de ejercicio debe estar entre la emisión y el vencimiento',
+                    code: 'INVALID_OPTION_DATE'
+                });
+            }
+
+            if (!Number.isFinite(opcion.precio) || opcion.precio <= 0) {
+                errors.push({
+                    field: `${field}[${i}].precio`,
+                    message: 'El precio de ejercicio debe ser mayor que 0',
+                    code: 'INVALID_OPTION_PRICE'
+                });
+            }
+        });
+
+        return errors;
+    }
+
+    /**
+     * Validación del fondo de amortización: cuotas antes del vencimiento, sin gracia y hasta el 100% de E4
+     */
+    private validateSinkingFund(inputs: CalculationInputs): ValidationError[] {
+        const errors: ValidationError[] = [];
+        const fondo = inputs.sinkingFund!;
+        const periodosPorAno = ExcelFormulas.periodosPorAno(
+            inputs.diasPorAno,
+            ExcelFormulas.frecuenciaCuponDias(inputs.frecuenciaCupon)
+        );
+        const totalPeriodos = ExcelFormulas.totalPeriodos(periodosPorAno, inputs.numAnios);
+
+        if (inputs.instrumentType === 'cupon_cero') {
+            errors.push({
+                field: 'sinkingFund',
+                message: 'Un bono cupón cero no admite fondo de amortización',
+                code: 'INVALID_ZERO_COUPON_SINKING_FUND'
+            });
+        }
+
+        if ((inputs.amortizationMethod ?? 'americano') !== 'americano') {
+            errors.push({
+                field: 'sinkingFund',
+                message: 'El fondo de amortización solo se combina con el método americano',
+                code: 'INVALID_SINKING_FUND_METHOD'
+            });
+        }
+
+        fondo.cuotas.forEach((cuota, i) => {
+            if (!Number.isInteger(cuota.periodo) || cuota.periodo < 1 || cuota.periodo >= totalPeriodos) {
+                errors.push({
+                    field: `sinkingFund.cuotas[${i}].periodo`,
+                    message: `El período de rescate debe estar entre 1 y ${Math.ceil(totalPeriodos) - 1}`,
+                    code: 'INVALID_SINKING_FUND_PERIOD'
+                });
+            } else if (ExcelFormulas.valorDelPeriodo(
+                inputs.graciaSerie, cuota.periodo, periodosPorAno, inputs.numAnios
+            ) !== 'S') {
+                errors.push({
+                    field: `sinkingFund.cuotas[${i}].periodo`,
+                    message: `El período ${cuota.periodo} está en gracia y no puede tener rescate`,
+                    code: 'INVALID_SINKING_FUND_GRACE'
+                });
+            }
+
+            if (!Number.isFinite(cuota.porcentaje) || cuota.porcentaje <= 0 || cuota.porcentaje > 1) {
+                errors.push({
+                    field: `sinkingFund.cuotas[${i}].porcentaje`,
+                    message: 'El porcentaje de rescate debe estar entre 0% y 100%',
+                    code: 'INVALID_SINKING_FUND_PERCENTAGE'
+                });
+            }
+        });
+
+        const periodos = fondo.cuotas.map(c => c.periodo);
+        if (new Set(periodos).size !== periodos.length) {
+            errors.push({
+                field: 'sinkingFund.cuotas',
+                message: 'Cada período admite una sola cuota de rescate',
+                code: 'DUPLICATE_SINKING_FUND_PERIOD'
+            });
+        }
+
+        const totalRescatado = fondo.cuotas.reduce(
+            (sum, c) => sum.plus(Number.isFinite(c.porcentaje) ? c.porcentaje : 0),
+            new Decimal(0)
+        );
+        if (totalRescatado.greaterThan(1)) {
+            errors.push({
+                field: 'sinkingFund.cuotas',
+                message: 'Las cuotas del fondo de amortización no pueden superar el 100% del valor nominal',
+                code: 'INVALID_SINKING_FUND_TOTAL'
+            });
+        }
+
+        if (fondo.primaRescate !== undefined &&
+            (!Number.isFinite(fondo.primaRescate) || fondo.primaRescate < 0 || fondo.primaRescate > 1)) {
+            errors.push({
+                field: 'sinkingFund.primaRescate',
+                message: 'La prima de rescate debe estar entre 0% y 100%',
+                code: 'INVALID_SINKING_FUND_PREMIUM'
+            });
+        }
+
+        return errors;
+    }
+
     /**
      * Método de utilidad para obtener solo las métricas principales
      */
@@ -505,6 +1050,59 @@ export class FinancialCalculator {
         return result.metricas;
     }
 
+    /**
+     * Interés corrido, precio sucio y precio limpio a una fecha de liquidación
+     * Usa las fechas de devengo (sin ajuste por días hábiles) y la convención de días del bono
+     */
+    calculateSettlementPrice(result: CalculationResult, fechaLiquidacion: Date): SettlementPrice {
+        const { flujos, intermedios, inputs } = result;
+        const fechaDe = (flujo: CashFlowPeriod) => flujo.fechaDevengo ?? flujo.fecha;
+
+        if (fechaLiquidacion.getTime() < fechaDe(flujos[0]).getTime()) {
+            throw new Error('La fecha de liquidación es anterior a la emisión');
+        }
+
+        // k: primer período cuya fecha de devengo es posterior a la liquidación
+        const periodoCupon = flujos.findIndex(
+            (flujo, n) => n > 0 && fechaDe(flujo).getTime() > fechaLiquidacion.getTime()
+        );
+        if (periodoCupon === -1) {
+            throw new Error('La fecha de liquidación es posterior al vencimiento');
+        }
+
+        const convencion = inputs.dayCountConvention ?? 'ACT/360';
+        const inicio = fechaDe(flujos[periodoCupon - 1]);
+        const diasDevengados = ExcelFormulas.diasEntreFechas(inicio, fechaLiquidacion, convencion);
+        const diasPeriodo = ExcelFormulas.diasEntreFechas(inicio, fechaDe(flujos[periodoCupon]), convencion);
+        const fraccionDevengada = diasPeriodo > 0
+            ? new Decimal(diasDevengados).div(diasPeriodo).toNumber()
+            : 0;
+
+        const interesCorrido = ExcelFormulas.interesCorrido(
+            flujos[periodoCupon].cupon || 0,
+            fraccionDevengada,
+            flujos[periodoCupon].gracia
+        );
+
+        const precioSucio = ExcelFormulas.precioSucio(
+            flujos.map(f => f.flujoBonista || 0),
+            intermedios.tasaDescuentoPeriodica,
+            periodoCupon,
+            fraccionDevengada
+        );
+
+        return {
+            fechaLiquidacion,
+            periodoCupon,
+            diasDevengados,
+            diasPeriodo,
+            fraccionDevengada,
+            interesCorrido,
+            precioSucio,
+            precioLimpio: new Decimal(precioSucio).minus(interesCorrido).toNumber()
+        };
+    }
+
     /**
      * Método para recalcular solo los flujos (útil para updates incrementales)
      */
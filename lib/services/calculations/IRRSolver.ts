@@ -0,0 +1,242 @@
+// lib/services/calculations/IRRSolver.ts
+
+import { CalculationWarning, IRRIssueCode, IRRResult } from '@/lib/types/calculations';
+
+/**
+ * Error tipado del cálculo de TIR
+ */
+export class IRRError extends Error {
+    constructor(public readonly code: IRRIssueCode, message: string) {
+        super(message);
+        this.name = 'IRRError';
+    }
+}
+
+/**
+ * Cálculo de TIR por períodos (=TIR) y por fechas (=TIR.NO.PER)
+ * Newton-Raphson desde la estimación; si no converge, Brent sobre un intervalo con cambio de signo
+ *
+ * Trabaja en punto flotante: con la precisión global de Decimal (10 dígitos)
+ * el VPN cerca de la raíz es ruido y la búsqueda no termina de converger
+ */
+export class IRRSolver {
+    private static readonly MAX_ITERACIONES_NEWTON = 50;
+    private static readonly MAX_ITERACIONES_BRENT = 200;
+    private static readonly TOLERANCIA = 1e-10;
+    private static readonly TASA_MINIMA = -0.99;
+    private static readonly PUNTOS_BUSQUEDA = [
+        -0.99, -0.9, -0.75, -0.5, -0.25, -0.1, 0, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 100
+    ];
+    private static readonly DIAS_XTIR = 365;
+    private static readonly MS_POR_DIA = 1000 * 60 * 60 * 24;
+
+    /**
+     * TIR por período: el flujo i se descuenta i períodos
+     */
+    static tir(flujos: number[], estimacion: number = 0.05): IRRResult {
+        return this.resolver(flujos, flujos.map((_, i) => i), estimacion);
+    }
+
+    /**
+     * TIR anual por fechas reales: el flujo i se descuenta (fecha[i]−fecha[0])/365 años
+     */
+    static xtir(flujos: number[], fechas: Date[], estimacion: number = 0.1): IRRResult {
+        if (fechas.length !== flujos.length) {
+            throw new Error(`Se esperaban ${flujos.length} fechas (recibidas ${fechas.length})`);
+        }
+
+        const inicio = fechas[0].getTime();
+        const plazos = fechas.map(f => (f.getTime() - inicio) / this.MS_POR_DIA / this.DIAS_XTIR);
+        return this.resolver(flujos, plazos, estimacion);
+    }
+
+    /**
+     * Cambios de signo en la secuencia de flujos (los ceros no cuentan)
+     * Regla de Descartes: hay a lo sumo tantas TIR positivas como cambios de signo
+     */
+    static contarCambiosDeSigno(flujos: number[]): number {
+        let cambios = 0;
+        let signoAnterior = 0;
+
+        for (const flujo of flujos) {
+            const signo = Math.sign(flujo);
+            if (signo === 0) continue;
+            if (signoAnterior !== 0 && signo !== signoAnterior) cambios++;
+            signoAnterior = signo;
+        }
+
+        return cambios;
+    }
+
+    private static resolver(flujos: number[], plazos: number[], estimacion: number): IRRResult {
+        const cambiosDeSigno = this.contarCambiosDeSigno(flujos);
+        if (cambiosDeSigno === 0) {
+            throw new IRRError('IRR_NO_SIGN_CHANGE', 'Todos los flujos tienen el mismo signo: la TIR no existe');
+        }
+
+        const advertencias: CalculationWarning[] = [];
+        if (cambiosDeSigno > 1) {
+            advertencias.push({
+                field: 'tir',
+                code: 'IRR_MULTIPLE_SIGN_CHANGES',
+                message: `Los flujos cambian de signo ${cambiosDeSigno} veces: puede existir más de una TIR`,
+                severity: 'warning',
+            });
+        }
+
+        const escala = Math.max(...flujos.map(f => Math.abs(f)));
+
+        const newton = this.newton(flujos, plazos, estimacion, escala);
+        if (newton) {
+            return { tasa: newton.tasa, metodo: 'newton', iteraciones: newton.iteraciones, cambiosDeSigno, advertencias };
+        }
+
+        const intervalo = this.acotar(flujos, plazos, estimacion);
+        if (intervalo) {
+            const brent = this.brent(flujos, plazos, intervalo[0], intervalo[1]);
+            if (brent) {
+                return { tasa: brent.tasa, metodo: 'brent', iteraciones: brent.iteraciones, cambiosDeSigno, advertencias };
+            }
+        }
+
+        throw new IRRError('IRR_NOT_CONVERGED', 'El cálculo de la TIR no convergió');
+    }
+
+    private static vpnYDerivada(flujos: number[], plazos: number[], tasa: number): { vpn: number; derivada: number } {
+        let vpn = 0;
+        let derivada = 0;
+
+        for (let i = 0; i < flujos.length; i++) {
+            const descontado = flujos[i] / Math.pow(1 + tasa, plazos[i]);
+            vpn += descontado;
+            derivada -= plazos[i] * descontado / (1 + tasa);
+        }
+
+        return { vpn, derivada };
+    }
+
+    private static newton(
+        flujos: number[],
+        plazos: number[],
+        estimacion: number,
+        escala: number
+    ): { tasa: number; iteraciones: number } | null {
+        let tasa = estimacion;
+
+        for (let i = 1; i <= this.MAX_ITERACIONES_NEWTON; i++) {
+            const { vpn, derivada } = this.vpnYDerivada(flujos, plazos, tasa);
+            if (!Number.isFinite(vpn) || !Number.isFinite(derivada) || derivada === 0) return null;
+
+            const siguiente = tasa - vpn / derivada;
+            if (!Number.isFinite(siguiente) || siguiente <= -1) return null;
+
+            if (Math.abs(siguiente - tasa) < this.TOLERANCIA) {
+                const final = this.vpnYDerivada(flujos, plazos, siguiente).vpn;
+                return Math.abs(final) <= this.TOLERANCIA * Math.max(escala, 1) * 1e3
+                    ? { tasa: siguiente, iteraciones: i }
+                    : null;
+            }
+
+            tasa = siguiente;
+        }
+
+        return null;
+    }
+
+    /**
+     * Busca el intervalo con cambio de signo del VPN más cercano a la estimación
+     */
+    private static acotar(flujos: number[], plazos: number[], estimacion: number): [number, number] | null {
+        const puntos = this.PUNTOS_BUSQUEDA;
+        const vpns = puntos.map(p => this.vpnYDerivada(flujos, plazos, p).vpn);
+        let mejor: [number, number] | null = null;
+
+        for (let i = 0; i < puntos.length - 1; i++) {
+            if (!Number.isFinite(vpns[i]) || !Number.isFinite(vpns[i + 1])) continue;
+            if (Math.sign(vpns[i]) === Math.sign(vpns[i + 1]) && vpns[i] !== 0) continue;
+
+            const distancia = Math.abs((puntos[i] + puntos[i + 1]) / 2 - estimacion);
+            if (!mejor || distancia < Math.abs((mejor[0] + mejor[1]) / 2 - estimacion)) {
+                mejor = [puntos[i], puntos[i + 1]];
+            }
+        }
+
+        return mejor;
+    }
+
+    /**
+     * Método de Brent (interpolación inversa + secante + bisección)
+     */
+    private static brent(
+        flujos: number[],
+        plazos: number[],
+        inicio: number,
+        fin: number
+    ): { tasa: number; iteraciones: number } | null {
+        const f = (tasa: number) => this.vpnYDerivada(flujos, plazos, tasa).vpn;
+
+        let a = Math.max(inicio, this.TASA_MINIMA);
+        let b = fin;
+        let fa = f(a);
+        let fb = f(b);
+        if (fa === 0) return { tasa: a, iteraciones: 0 };
+        if (fb === 0) return { tasa: b, iteraciones: 0 };
+        if (Math.sign(fa) === Math.sign(fb)) return null;
+
+        let c = a;
+        let fc = fa;
+        let d = b - a;
+        let e = d;
+
+        for (let i = 1; i <= this.MAX_ITERACIONES_BRENT; i++) {
+            if (Math.sign(fb) === Math.sign(fc)) {
+                c = a; fc = fa;
+                d = b - a; e = d;
+            }
+            if (Math.abs(fc) < Math.abs(fb)) {
+                a = b; b = c; c = a;
+                fa = fb; fb = fc; fc = fa;
+            }
+
+            const tolerancia = 2 * Number.EPSILON * Math.abs(b) + this.TOLERANCIA / 2;
+            const medio = (c - b) / 2;
+            if (Math.abs(medio) <= tolerancia || fb === 0) {
+                return { tasa: b, iteraciones: i };
+            }
+
+            if (Math.abs(e) >= tolerancia && Math.abs(fa) > Math.abs(fb)) {
+                const s = fb / fa;
+                let p: number;
+                let q: number;
+                if (a === c) {
+                    p = 2 * medio * s;
+                    q = 1 - s;
+                } else {
+                    const qa = fa / fc;
+                    const r = fb / fc;
+                    p = s * (2 * medio * qa * (qa - r) - (b - a) * (r - 1));
+                    q = (qa - 1) * (r - 1) * (s - 1);
+                }
+                if (p > 0) q = -q; else p = -p;
+
+                if (2 * p < Math.min(3 * medio * q - Math.abs(tolerancia * q), Math.abs(e * q))) {
+                    e = d;
+                    d = p / q;
+                } else {
+                    d = medio;
+                    e = d;
+                }
+            } else {
+                d = medio;
+                e = d;
+            }
+
+            a = b;
+            fa = fb;
+            b += Math.abs(d) > tolerancia ? d : (medio > 0 ? tolerancia : -tolerancia);
+            fb = f(b);
+        }
+
+        return null;
+    }
+}
@@ -0,0 +1,166 @@
+// lib/services/calculations/InflationSimulator.ts
+
+import { Decimal } from 'decimal.js';
+import { ExcelFormulas } from './ExcelFormulas';
+import { FinancialCalculator } from './FinancialCalculator';
+import {
+    CalculationInputs,
+    InflationSimulationConfig,
+    InflationSimulationResult,
+    PercentileBand,
+} from '@/lib/types/calculations';
+
+/**
+ * Simulación Monte Carlo de la serie de inflación
+ * Cada trayectoria reemplaza inflacionSerie (una por cupón) y se calcula con FinancialCalculator;
+ * el resultado son bandas de percentiles de los flujos del bonista, la TREA y el precio
+ */
+export class InflationSimulator {
+    static readonly MAX_SIMULACIONES = 5000;
+    static readonly PERCENTILES_POR_DEFECTO = [0.05, 0.25, 0.5, 0.75, 0.95];
+
+    constructor(
+        private calculator: FinancialCalculator = new FinancialCalculator({ validateInputs: true })
+    ) {}
+
+    async simular(
+        inputs: CalculationInputs,
+        config: InflationSimulationConfig
+    ): Promise<InflationSimulationResult> {
+        this.validarConfig(config);
+
+        const semilla = config.semilla ?? Math.floor(Math.random() * 2 ** 32);
+        const percentiles = config.percentiles ?? InflationSimulator.PERCENTILES_POR_DEFECTO;
+        const normal = InflationSimulator.generadorNormal(semilla);
+
+        const frecuenciaCuponDias = ExcelFormulas.frecuenciaCuponDias(inputs.frecuenciaCupon);
+        const numeroCupones = ExcelFormulas.numeroCupones(
+            ExcelFormulas.periodosPorAno(inputs.diasPorAno, frecuenciaCuponDias),
+            inputs.numAnios
+        );
+        const deltaT = frecuenciaCuponDias / inputs.diasPorAno;
+        const inflacionInicial = config.inflacionInicial ?? inputs.inflacionSerie[0] ?? config.media;
+
+        const trayectorias: number[][] = [];
+        const flujos: number[][] = [];
+        const treas: number[] = [];
+        const precios: number[] = [];
+        let fechas: Date[] = [];
+        let descartadas = 0;
+
+        for (let i = 0; i < config.simulaciones; i++) {
+            const trayectoria = InflationSimulator.trayectoria(
+                inflacionInicial, config, numeroCupones, deltaT, normal
+            );
+
+            try {
+                const result = await this.calculator.calculate({ ...inputs, inflacionSerie: trayectoria });
+                trayectorias.push(trayectoria);
+                flujos.push(result.flujos.map(f => f.flujoBonista || 0));
+                treas.push(result.metricas.treaBonista);
+                precios.push(result.metricas.precioActual);
+                fechas = result.flujos.map(f => f.fecha);
+            } catch {
+                // Trayectoria no calculable (p. ej. inflación menor a −100% o TIR sin solución)
+                descartadas++;
+            }
+        }
+
+        if (trayectorias.length === 0) {
+            throw new Error('Ninguna trayectoria de inflación produjo un resultado calculable');
+        }
+
+        const banda = (valores: number[]) => InflationSimulator.banda(valores, percentiles);
+
+        return {
+            simulaciones: trayectorias.length,
+            descartadas,
+            semilla,
+            percentiles,
+            inflacion: Array.from({ length: numeroCupones }, (_, n) => ({
+                periodo: n + 1,
+                ...banda(trayectorias.map(t => t[n])),
+            })),
+            flujosBonista: fechas.map((fecha, n) => ({
+                periodo: n,
+                fecha,
+                ...banda(flujos.map(f => f[n])),
+            })),
+            treaBonista: banda(treas),
+            precioActual: banda(precios),
+        };
+    }
+
+    /**
+     * Trayectoria de inflación anual por cupón
+     * π[n] = π[n−1] + κ(μ − π[n−1])Δt + σ√Δt·ε
+     */
+    static trayectoria(
+        inflacionInicial: number,
+        config: Pick<InflationSimulationConfig, 'media' | 'volatilidad' | 'reversion'>,
+        numeroCupones: number,
+        deltaT: number,
+        normal: () => number
+    ): number[] {
+        const serie: number[] = [];
+        let anterior = new Decimal(inflacionInicial);
+        const difusion = new Decimal(config.volatilidad).mul(Math.sqrt(deltaT));
+
+        for (let n = 0; n < numeroCupones; n++) {
+            anterior = anterior
+                .plus(new Decimal(config.media).minus(anterior).mul(config.reversion).mul(deltaT))
+                .plus(difusion.mul(normal()));
+            serie.push(anterior.toNumber());
+        }
+
+        return serie;
+    }
+
+    /**
+     * Normales estándar reproducibles: mulberry32 + Box-Muller
+     */
+    static generadorNormal(semilla: number): () => number {
+        let estado = semilla >>> 0;
+        const uniforme = () => {
+            estado = (estado + 0x6D2B79F5) >>> 0;
+            let t = estado;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+
+        let reserva: number | null = null;
+        return () => {
+            if (reserva !== null) {
+                const valor = reserva;
+                reserva = null;
+                return valor;
+            }
+            // 1 − u evita log(0)
+            const radio = Math.sqrt(-2 * Math.log(1 - uniforme()));
+            const angulo = 2 * Math.PI * uniforme();
+            reserva = radio * Math.sin(angulo);
+            return radio * Math.cos(angulo);
+        };
+    }
+
+    static banda(valores: number[], percentiles: number[]): PercentileBand {
+        return {
+            media: valores.reduce((sum, v) => sum.plus(v), new Decimal(0)).div(valores.length).toNumber(),
+            valores: percentiles.map(p => ExcelFormulas.percentil(valores, p)),
+        };
+    }
+
+    private validarConfig(config: InflationSimulationConfig): void {
+        if (!Number.isInteger(config.simulaciones) || config.simulaciones < 1 ||
+            config.simulaciones > InflationSimulator.MAX_SIMULACIONES) {
+            throw new Error(`El número de simulaciones debe estar entre 1 y ${InflationSimulator.MAX_SIMULACIONES}`);
+        }
+        if (!(config.volatilidad >= 0) || !(config.reversion >= 0)) {
+            throw new Error('La volatilidad y la reversión a la media no pueden ser negativas');
+        }
+        if (config.percentiles?.some(p => !(p >= 0 && p <= 1))) {
+            throw new Error('Los percentiles deben estar entre 0 y 1');
+        }
+    }
+}
@@ -0,0 +1,152 @@
+// lib/services/calculations/PriceYieldSolver.ts
+
+import { Decimal } from 'decimal.js';
+import { ExcelFormulas } from './ExcelFormulas';
+import { PriceYieldResult } from '@/lib/types/calculations';
+
+/**
+ * Solver precio ↔ rendimiento sobre los flujos del bonista (columna O del Excel)
+ * Precio = VNA(tasa periódica; O28:O37), con tasa periódica = (1+rendimiento)^(L4/E8)-1
+ * El índice 0 de los flujos (desembolso inicial) no se descuenta
+ */
+export class PriceYieldSolver {
+    private static readonly MAX_ITERACIONES = 200;
+    private static readonly TOLERANCIA = 1e-9;
+    private static readonly TASA_MINIMA = -0.99;
+
+    /**
+     * Precio a partir de un rendimiento anual efectivo
+     */
+    static precioDesdeRendimiento(
+        flujosBonista: number[],
+        rendimiento: number,
+        frecuenciaCuponDias: number,
+        diasPorAno: number
+    ): PriceYieldResult {
+        this.validarFlujos(flujosBonista);
+
+        const tasaPeriodica = ExcelFormulas.tasaDescuentoPeriodica(rendimiento, frecuenciaCuponDias, diasPorAno);
+        if (tasaPeriodica <= this.TASA_MINIMA) {
+            throw new Error(`Rendimiento fuera de rango: ${rendimiento}`);
+        }
+
+        return this.construirResultado(flujosBonista, rendimiento, tasaPeriodica, frecuenciaCuponDias, diasPorAno, 0);
+    }
+
+    /**
+     * Rendimiento anual efectivo (YTM) implícito en un precio
+     * Newton-Raphson acotado: si el paso sale del intervalo [bajo; alto] se usa bisección
+     */
+    static rendimientoDesdePrecio(
+        flujosBonista: number[],
+        precio: number,
+        frecuenciaCuponDias: number,
+        diasPorAno: number
+    ): PriceYieldResult {
+        this.validarFlujos(flujosBonista);
+
+        if (!(precio > 0)) {
+            throw new Error('El precio debe ser mayor a 0');
+        }
+
+        // El precio decrece con la tasa: buscar un intervalo que encierre la raíz
+        let bajo = this.TASA_MINIMA;
+        let alto = 1;
+        if (ExcelFormulas.precioActual(flujosBonista, bajo) < precio) {
+            throw new Error('No existe un rendimiento para ese precio: supera el valor máximo de los flujos');
+        }
+        while (ExcelFormulas.precioActual(flujosBonista, alto) > precio) {
+            alto *= 2;
+            if (alto > 1e6) {
+                throw new Error('No existe un rendimiento para ese precio: es demasiado bajo');
+            }
+        }
+
+        let tasa = Math.min(Math.max(0.05, bajo), alto);
+        let iteraciones = 0;
+
+        for (; iteraciones < this.MAX_ITERACIONES; iteraciones++) {
+            const { valor, derivada } = this.precioYDerivada(flujosBonista, tasa);
+            const diferencia = valor - precio;
+
+            if (Math.abs(diferencia) < this.TOLERANCIA * precio) break;
+
+            if (diferencia > 0) bajo = tasa; else alto = tasa;
+
+            let siguiente = derivada !== 0 ? tasa - diferencia / derivada : NaN;
+            if (!Number.isFinite(siguiente) || siguiente <= bajo || siguiente >= alto) {
+                siguiente = (bajo + alto) / 2;
+            }
+
+            if (Math.abs(siguiente - tasa) < this.TOLERANCIA) {
+                tasa = siguiente;
+                break;
+            }
+            tasa = siguiente;
+        }
+
+        const rendimiento = new Decimal(1)
+            .plus(tasa)
+            .pow(diasPorAno / frecuenciaCuponDias)
+            .minus(1)
+            .toNumber();
+
+        return this.construirResultado(flujosBonista, rendimiento, tasa, frecuenciaCuponDias, diasPorAno, iteraciones + 1);
+    }
+
+    /**
+     * Precio y su derivada respecto a la tasa periódica
+     * dP/dr = −Σ n·O[n]/(1+r)^(n+1)
+     */
+    private static precioYDerivada(flujos: number[], tasa: number): { valor: number; derivada: number } {
+        let valor = new Decimal(0);
+        let derivada = new Decimal(0);
+        const base = new Decimal(1).plus(tasa);
+
+        for (let n = 1; n < flujos.length; n++) {
+            const descontado = new Decimal(flujos[n]).div(base.pow(n));
+            valor = valor.plus(descontado);
+            derivada = derivada.minus(descontado.mul(n).div(base));
+        }
+
+        return { valor: valor.toNumber(), derivada: derivada.toNumber() };
+    }
+
+    private static construirResultado(
+        flujos: number[],
+        rendimiento: number,
+        tasaPeriodica: number,
+        frecuenciaCuponDias: number,
+        diasPorAno: number,
+        iteraciones: number
+    ): PriceYieldResult {
+        const precio = ExcelFormulas.precioActual(flujos, tasaPeriodica);
+
+        // Mismas columnas P y Q del Excel, pero a la tasa solicitada
+        const actualizados = flujos.map((flujo, n) =>
+            n === 0 ? 0 : ExcelFormulas.flujoActualizado(flujo, tasaPeriodica, n)
+        );
+        const ponderados = actualizados.map((actualizado, n) =>
+            ExcelFormulas.faPlazoPonderado(actualizado, n, frecuenciaCuponDias, diasPorAno)
+        );
+        const duracion = precio !== 0 ? ExcelFormulas.duracion(ponderados, actualizados) : 0;
+
+        return {
+            precio,
+            rendimiento,
+            tasaPeriodica,
+            duracion,
+            duracionModificada: ExcelFormulas.duracionModificada(duracion, tasaPeriodica),
+            iteraciones,
+        };
+    }
+
+    private static validarFlujos(flujos: number[]): void {
+        if (flujos.length < 2) {
+            throw new Error('Se requieren flujos del bonista para resolver precio/rendimiento');
+        }
+        if (flujos.slice(1).some(f => f < 0)) {
+            throw new Error('Los flujos futuros del bonista deben ser no negativos');
+        }
+    }
+}
@@ -0,0 +1,121 @@
+// lib/services/calculations/SensitivityAnalyzer.ts
+
+import { Decimal } from 'decimal.js';
+import { FinancialCalculator } from './FinancialCalculator';
+import {
+    CalculationInputs,
+    FinancialMetrics,
+    SensitivityGrid,
+    SensitivityMatrix,
+    SensitivityParameter,
+    SensitivityResult,
+    SensitivityScenario,
+} from '@/lib/types/calculations';
+
+/**
+ * Análisis de sensibilidad: recalcula el bono con inputs desplazados
+ * Cada escenario mueve un solo parámetro (tornado); la matriz cruza dos (mapa de calor)
+ */
+export class SensitivityAnalyzer {
+    static readonly MAX_DESPLAZAMIENTOS = 21;
+
+    constructor(
+        private calculator: FinancialCalculator = new FinancialCalculator({ validateInputs: true })
+    ) {}
+
+    async analizar(
+        inputs: CalculationInputs,
+        grid: SensitivityGrid,
+        matriz?: { filas: SensitivityParameter; columnas: SensitivityParameter }
+    ): Promise<SensitivityResult> {
+        const base = (await this.calculator.calculate(inputs)).metricas;
+
+        const escenarios: SensitivityScenario[] = [];
+        for (const [parametro, desplazamientos] of Object.entries(grid) as [SensitivityParameter, number[]][]) {
+            for (const desplazamiento of desplazamientos) {
+                const { metricas, error } = await this.metricasDe(
+                    SensitivityAnalyzer.desplazar(inputs, parametro, desplazamiento)
+                );
+                escenarios.push({ parametro, desplazamiento, metricas, ...(error ? { error } : {}) });
+            }
+        }
+
+        return {
+            base,
+            escenarios,
+            ...(matriz ? { matriz: await this.calcularMatriz(inputs, grid, matriz.filas, matriz.columnas) } : {}),
+        };
+    }
+
+    /**
+     * Inputs con un parámetro desplazado
+     * Tasas e inflación: suma en puntos | Costes: cambio relativo sobre E17-E20
+     */
+    static desplazar(
+        inputs: CalculationInputs,
+        parametro: SensitivityParameter,
+        desplazamiento: number
+    ): CalculationInputs {
+        const sumar = (valor: number) => new Decimal(valor).plus(desplazamiento).toNumber();
+        const escalar = (valor: number) => new Decimal(valor).mul(new Decimal(1).plus(desplazamiento)).toNumber();
+
+        switch (parametro) {
+            case 'tasaAnual':
+                return { ...inputs, tasaAnual: sumar(inputs.tasaAnual) };
+            case 'tasaDescuento':
+                return { ...inputs, tasaDescuento: sumar(inputs.tasaDescuento) };
+            case 'impuestoRenta':
+                return { ...inputs, impuestoRenta: sumar(inputs.impuestoRenta) };
+            case 'inflacion':
+                return { ...inputs, inflacionSerie: inputs.inflacionSerie.map(sumar) };
+            case 'costes':
+                return {
+                    ...inputs,
+                    estructuracionPorcentaje: escalar(inputs.estructuracionPorcentaje),
+                    colocacionPorcentaje: escalar(inputs.colocacionPorcentaje),
+                    flotacionPorcentaje: escalar(inputs.flotacionPorcentaje),
+                    cavaliPorcentaje: escalar(inputs.cavaliPorcentaje),
+                };
+            default:
+                throw new Error(`Parámetro de sensibilidad no soportado: ${parametro}`);
+        }
+    }
+
+    private async calcularMatriz(
+        inputs: CalculationInputs,
+        grid: SensitivityGrid,
+        filas: SensitivityParameter,
+        columnas: SensitivityParameter
+    ): Promise<SensitivityMatrix> {
+        const desplazamientosFilas = grid[filas] ?? [];
+        const desplazamientosColumnas = grid[columnas] ?? [];
+
+        const metricas: (FinancialMetrics | null)[][] = [];
+        for (const desplazamientoFila of desplazamientosFilas) {
+            const inputsFila = SensitivityAnalyzer.desplazar(inputs, filas, desplazamientoFila);
+            const fila: (FinancialMetrics | null)[] = [];
+            for (const desplazamientoColumna of desplazamientosColumnas) {
+                const { metricas: celda } = await this.metricasDe(
+                    SensitivityAnalyzer.desplazar(inputsFila, columnas, desplazamientoColumna)
+                );
+                fila.push(celda);
+            }
+            metricas.push(fila);
+        }
+
+        return {
+            filas: { parametro: filas, desplazamientos: desplazamientosFilas },
+            columnas: { parametro: columnas, desplazamientos: desplazamientosColumnas },
+            metricas,
+        };
+    }
+
+    // Un escenario fuera de rango (p. ej. tasa negativa) no invalida el análisis completo
+    private async metricasDe(inputs: CalculationInputs): Promise<{ metricas: FinancialMetrics | null; error?: string }> {
+        try {
+            return { metricas: (await this.calculator.calculate(inputs)).metricas };
+        } catch (error) {
+            return { metricas: null, error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+}
@@ -0,0 +1,228 @@
+// lib/services/calculations/YieldCurve.ts
+
+import { ExcelFormulas } from './ExcelFormulas';
+import { YieldCurveDefinition, YieldCurveInterpolation, YieldCurvePoint } from '@/lib/types/calculations';
+
+/**
+ * Curva cero de descuento: tasa anual efectiva por plazo en años
+ * Interpolación lineal o spline cúbico natural; fuera del rango la tasa se extrapola plana
+ *
+ * Trabaja en punto flotante, como IRRSolver: la interpolación y el Z-spread
+ * se resuelven con más precisión que los 10 dígitos globales de Decimal
+ */
+export class YieldCurve {
+    private static readonly MAX_ITERACIONES = 200;
+    private static readonly TOLERANCIA = 1e-10;
+
+    private readonly plazos: number[];
+    private readonly tasas: number[];
+    private readonly segundas: number[];    // Segundas derivadas del spline (ceros si es lineal)
+
+    constructor(
+        puntos: YieldCurvePoint[],
+        readonly interpolacion: YieldCurveInterpolation = 'lineal'
+    ) {
+        YieldCurve.validarPuntos(puntos);
+
+        const ordenados = [...puntos].sort((a, b) => a.plazo - b.plazo);
+        this.plazos = ordenados.map(p => p.plazo);
+        this.tasas = ordenados.map(p => p.tasa);
+        this.segundas = interpolacion === 'cubica'
+            ? YieldCurve.splineNatural(this.plazos, this.tasas)
+            : this.plazos.map(() => 0);
+    }
+
+    static fromDefinition(definicion: YieldCurveDefinition): YieldCurve {
+        return new YieldCurve(definicion.puntos, definicion.interpolacion);
+    }
+
+    /**
+     * Crea la curva desde un CSV de plazo/tasa (ver config/curves/PEN_SOBERANA.csv)
+     */
+    static fromCSV(contenido: string, interpolacion: YieldCurveInterpolation = 'lineal'): YieldCurve {
+        return new YieldCurve(YieldCurve.parseCSV(contenido), interpolacion);
+    }
+
+    /**
+     * Lee puntos plazo/tasa de un CSV
+     * - Separador ',' ';' o tabulador; con ';' se admite coma decimal
+     * - Plazo en años, o con sufijo M (meses) o A/Y (años): 6M, 2A, 10Y
+     * - Tasa decimal (0.045) o porcentaje (4.5%)
+     * - Se ignoran líneas vacías, comentarios (#) y un encabezado no numérico
+     */
+    static parseCSV(contenido: string): YieldCurvePoint[] {
+        const puntos: YieldCurvePoint[] = [];
+        const lineas = contenido.split(/\r?\n/);
+
+        lineas.forEach((lineaOriginal, i) => {
+            const linea = lineaOriginal.trim();
+            if (!linea || linea.startsWith('#')) return;
+
+            const separador = linea.includes(';') ? ';' : linea.includes('\t') ? '\t' : ',';
+            const columnas = linea.split(separador).map(c => c.trim());
+            const esEncabezado = puntos.length === 0 && !/\d/.test(columnas[0]);
+            if (esEncabezado) return;
+
+            if (columnas.length < 2) {
+                throw new Error(`Línea ${i + 1} de la curva: se esperaban plazo y tasa`);
+            }
+
+            const numero = (valor: string) => Number(separador === ';' ? valor.replace(',', '.') : valor);
+            const plazo = YieldCurve.parsePlazo(columnas[0], numero);
+            const tasaTexto = columnas[1].replace(/%$/, '');
+            const tasa = numero(tasaTexto) / (columnas[1].endsWith('%') ? 100 : 1);
+
+            if (!Number.isFinite(plazo) || !Number.isFinite(tasa)) {
+                throw new Error(`Línea ${i + 1} de la curva: plazo o tasa inválidos (${linea})`);
+            }
+            puntos.push({ plazo, tasa });
+        });
+
+        return puntos;
+    }
+
+    private static parsePlazo(valor: string, numero: (valor: string) => number): number {
+        const match = valor.match(/^(.+?)\s*([MmAaYy])$/);
+        if (!match) return numero(valor);
+        return /[Mm]/.test(match[2]) ? numero(match[1]) / 12 : numero(match[1]);
+    }
+
+    get puntos(): YieldCurvePoint[] {
+        return this.plazos.map((plazo, i) => ({ plazo, tasa: this.tasas[i] }));
+    }
+
+    /**
+     * r(t): tasa cero anual efectiva al plazo t en años
+     */
+    tasa(plazo: number): number {
+        const n = this.plazos.length;
+        if (n === 1 || plazo <= this.plazos[0]) return this.tasas[0];
+        if (plazo >= this.plazos[n - 1]) return this.tasas[n - 1];
+
+        let k = 1;
+        while (this.plazos[k] < plazo) k++;
+
+        const h = this.plazos[k] - this.plazos[k - 1];
+        const a = (this.plazos[k] - plazo) / h;
+        const b = 1 - a;
+
+        return a * this.tasas[k - 1] + b * this.tasas[k] +
+            ((a ** 3 - a) * this.segundas[k - 1] + (b ** 3 - b) * this.segundas[k]) * h * h / 6;
+    }
+
+    /**
+     * Punto de la curva para el plazo de cada flujo
+     */
+    puntosPara(plazos: number[]): YieldCurvePoint[] {
+        return plazos.map(plazo => ({ plazo, tasa: this.tasa(plazo) }));
+    }
+
+    /**
+     * Z-spread: s tal que SUMA(O[n]/(1+r(t[n])+s)^t[n]) = −O[0]
+     * Newton acotado con bisección, como PriceYieldSolver
+     */
+    static zSpread(flujosBonista: number[], curva: YieldCurvePoint[]): number {
+        const precio = -(flujosBonista[0] || 0);
+        if (!(precio > 0)) {
+            throw new Error('El Z-spread requiere un desembolso inicial del bonista (O[0] < 0)');
+        }
+        if (flujosBonista.slice(1).every(f => f <= 0)) {
+            throw new Error('El Z-spread requiere al menos un flujo positivo para el bonista');
+        }
+
+        const tasaMinima = Math.min(...curva.slice(1).map(p => p.tasa));
+        let bajo = -1 - tasaMinima + 1e-6;
+        let alto = 1;
+
+        const valorEn = (spread: number) => ExcelFormulas.precioActual(flujosBonista, 0, curva, spread);
+        if (valorEn(bajo) < precio) {
+            throw new Error('No existe un Z-spread para ese precio: supera el valor máximo de los flujos');
+        }
+        while (valorEn(alto) > precio) {
+            alto *= 2;
+            if (alto > 1e6) {
+                throw new Error('No existe un Z-spread para ese precio: es demasiado bajo');
+            }
+        }
+
+        let spread = Math.min(Math.max(0, bajo), alto);
+        for (let i = 0; i < this.MAX_ITERACIONES; i++) {
+            const { valor, derivada } = this.valorYDerivada(flujosBonista, curva, spread);
+            const diferencia = valor - precio;
+
+            if (Math.abs(diferencia) < this.TOLERANCIA * precio) break;
+
+            if (diferencia > 0) bajo = spread; else alto = spread;
+
+            let siguiente = derivada !== 0 ? spread - diferencia / derivada : NaN;
+            if (!Number.isFinite(siguiente) || siguiente <= bajo || siguiente >= alto) {
+                siguiente = (bajo + alto) / 2;
+            }
+            spread = siguiente;
+        }
+
+        return spread;
+    }
+
+    private static valorYDerivada(
+        flujos: number[],
+        curva: YieldCurvePoint[],
+        spread: number
+    ): { valor: number; derivada: number } {
+        let valor = 0;
+        let derivada = 0;
+
+        for (let n = 1; n < flujos.length; n++) {
+            const base = 1 + curva[n].tasa + spread;
+            const descontado = flujos[n] / Math.pow(base, curva[n].plazo);
+            valor += descontado;
+            derivada -= curva[n].plazo * descontado / base;
+        }
+
+        return { valor, derivada };
+    }
+
+    /**
+     * Segundas derivadas del spline cúbico natural (M[0] = M[n−1] = 0)
+     */
+    private static splineNatural(x: number[], y: number[]): number[] {
+        const n = x.length;
+        const segundas = new Array(n).fill(0);
+        if (n < 3) return segundas;
+
+        const u = new Array(n).fill(0);
+        for (let i = 1; i < n - 1; i++) {
+            const sig = (x[i] - x[i - 1]) / (x[i + 1] - x[i - 1]);
+            const p = sig * segundas[i - 1] + 2;
+            segundas[i] = (sig - 1) / p;
+            const pendiente = (y[i + 1] - y[i]) / (x[i + 1] - x[i]) - (y[i] - y[i - 1]) / (x[i] - x[i - 1]);
+            u[i] = (6 * pendiente / (x[i + 1] - x[i - 1]) - sig * u[i - 1]) / p;
+        }
+
+        for (let k = n - 2; k >= 0; k--) {
+            segundas[k] = segundas[k] * segundas[k + 1] + u[k];
+        }
+
+        return segundas;
+    }
+
+    private static validarPuntos(puntos: YieldCurvePoint[]): void {
+        if (!Array.isArray(puntos) || puntos.length === 0) {
+            throw new Error('La curva de descuento debe tener al menos un punto');
+        }
+
+        const plazos = new Set<number>();
+        puntos.forEach(p => {
+            if (!Number.isFinite(p.plazo) || p.plazo <= 0) {
+                throw new Error(`Plazo inválido en la curva de descuento: ${p.plazo}`);
+            }
+            if (!Number.isFinite(p.tasa) || p.tasa <= -1) {
+                throw new Error(`Tasa inválida en la curva de descuento para el plazo ${p.plazo}: ${p.tasa}`);
+            }
+            if (plazos.has(p.plazo)) {
+                throw new Error(`Plazo duplicado en la curva de descuento: ${p.plazo}`);
+            }
+            plazos.add(p.plazo);
+        });
+    }
+}
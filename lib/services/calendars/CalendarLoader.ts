@@ -0,0 +1,62 @@
+// lib/services/calendars/CalendarLoader.ts
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BusinessDayCalendar, CalendarFile } from '@/lib/services/calculations/BusinessDayCalendar';
+
+/**
+ * Carga los calendarios de días hábiles por mercado desde archivos locales
+ * Busca <CALENDARS_DIR>/<MERCADO>.json y, si no existe, <MERCADO>.ics
+ */
+const CALENDARS_DIR = process.env.CALENDARS_DIR || path.join(process.cwd(), 'config', 'calendars');
+
+const cache = new Map<string, BusinessDayCalendar>();
+
+export async function loadMarketCalendar(mercado: string): Promise<BusinessDayCalendar> {
+    const codigo = mercado.trim().toUpperCase();
+    if (!/^[A-Z0-9_-]+$/.test(codigo)) {
+        throw new Error(`Código de mercado inválido: ${mercado}`);
+    }
+
+    const cached = cache.get(codigo);
+    if (cached) return cached;
+
+    const jsonPath = path.join(CALENDARS_DIR, `${codigo}.json`);
+    const icsPath = path.join(CALENDARS_DIR, `${codigo}.ics`);
+
+    let calendar: BusinessDayCalendar;
+    try {
+        const contenido = await fs.readFile(jsonPath, 'utf-8');
+        calendar = BusinessDayCalendar.fromJSON(JSON.parse(contenido) as CalendarFile);
+    } catch (jsonError: any) {
+        if (jsonError?.code !== 'ENOENT') {
+            throw new Error(`Error leyendo calendario ${codigo}: ${jsonError.message}`);
+        }
+
+        try {
+            const contenido = await fs.readFile(icsPath, 'utf-8');
+            calendar = BusinessDayCalendar.fromICS(contenido);
+        } catch (icsError: any) {
+            if (icsError?.code === 'ENOENT') {
+                throw new Error(`Calendario no encontrado para el mercado ${codigo}`);
+            }
+            throw new Error(`Error leyendo calendario ${codigo}: ${icsError.message}`);
+        }
+    }
+
+    cache.set(codigo, calendar);
+    return calendar;
+}
+
+export async function listMarketCalendars(): Promise<string[]> {
+    try {
+        const archivos = await fs.readdir(CALENDARS_DIR);
+        return Array.from(new Set(
+            archivos
+                .filter(a => a.endsWith('.json') || a.endsWith('.ics'))
+                .map(a => a.replace(/\.(json|ics)$/, '').toUpperCase())
+        )).sort();
+    } catch {
+        return [];
+    }
+}
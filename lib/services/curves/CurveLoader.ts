@@ -0,0 +1,43 @@
+// lib/services/curves/CurveLoader.ts
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { YieldCurve } from '@/lib/services/calculations/YieldCurve';
+import { YieldCurvePoint } from '@/lib/types/calculations';
+
+/**
+ * Lee las curvas cero desde archivos CSV locales
+ * Busca <CURVES_DIR>/<NOMBRE>.csv con columnas plazo,tasa
+ */
+const CURVES_DIR = process.env.CURVES_DIR || path.join(process.cwd(), 'config', 'curves');
+
+export async function loadYieldCurveFile(nombre: string): Promise<YieldCurvePoint[]> {
+    const codigo = nombre.trim().toUpperCase();
+    if (!/^[A-Z0-9_-]+$/.test(codigo)) {
+        throw new Error(`Nombre de curva inválido: ${nombre}`);
+    }
+
+    let contenido: string;
+    try {
+        contenido = await fs.readFile(path.join(CURVES_DIR, `${codigo}.csv`), 'utf-8');
+    } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+            throw new Error(`Curva no encontrada: ${codigo}`);
+        }
+        throw new Error(`Error leyendo curva ${codigo}: ${error.message}`);
+    }
+
+    return YieldCurve.parseCSV(contenido);
+}
+
+export async function listYieldCurveFiles(): Promise<string[]> {
+    try {
+        const archivos = await fs.readdir(CURVES_DIR);
+        return archivos
+            .filter(a => a.toLowerCase().endsWith('.csv'))
+            .map(a => a.replace(/\.csv$/i, '').toUpperCase())
+            .sort();
+    } catch {
+        return [];
+    }
+}
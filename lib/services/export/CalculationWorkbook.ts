@@ -0,0 +1,268 @@
+// lib/services/export/CalculationWorkbook.ts
+
+import ExcelJS from 'exceljs';
+import { CalculationInputs, CalculationResult, CashFlowPeriod } from '@/lib/types/calculations';
+
+type Valor = number | string | Date | null;
+type Contenido = ExcelJS.CellValue;
+
+const FORMATO_MONTO = '#,##0.00';
+const FORMATO_TASA = '0.000%';
+const FORMATO_TASA_PRECISA = '0.00000%';
+const FORMATO_FECHA = 'dd/mm/yyyy';
+
+// Fila del período 0 en la tabla de flujos (A27:R37 del Excel)
+const FILA_INICIAL = 27;
+
+/**
+ * Libro de Excel con la misma disposición de la hoja de cálculo original
+ * - E4:E20 datos del bono, L4:L14 cálculos intermedios
+ * - A27:R[27+L7] tabla de flujos con fórmulas vivas y bloque de métricas debajo
+ *
+ * Cada fórmula lleva el resultado del motor como valor en caché: el archivo se lee igual sin recalcular.
+ * Las extensiones que la hoja original no modela (convención de días, cronograma de tasas,
+ * fondo de amortización, curva de descuento) se escriben como valores.
+ */
+export class CalculationWorkbook {
+    static async generar(result: CalculationResult, nombreBono: string): Promise<Buffer> {
+        const libro = new ExcelJS.Workbook();
+        libro.creator = 'Bono App';
+        libro.created = result.fechaCalculo;
+        libro.calcProperties.fullCalcOnLoad = true;
+
+        const hoja = libro.addWorksheet('Bono');
+        hoja.columns = [
+            { width: 8 }, { width: 26 }, { width: 12 }, { width: 12 }, { width: 14 }, { width: 14 },
+            { width: 14 }, { width: 28 }, { width: 14 }, { width: 14 }, { width: 12 }, { width: 14 },
+            { width: 14 }, { width: 14 }, { width: 14 }, { width: 14 }, { width: 14 }, { width: 14 },
+        ];
+
+        hoja.getCell('A1').value = nombreBono;
+        hoja.getCell('A1').font = { bold: true, size: 14 };
+
+        this.escribirDatos(hoja, result.inputs);
+        this.escribirIntermedios(hoja, result);
+        const ultimaFila = this.escribirFlujos(hoja, result);
+        this.escribirMetricas(hoja, result, ultimaFila);
+
+        return Buffer.from(await libro.xlsx.writeBuffer());
+    }
+
+    /**
+     * E4-E20: datos de entrada
+     */
+    private static escribirDatos(hoja: ExcelJS.Worksheet, inputs: CalculationInputs): void {
+        hoja.getCell('B3').value = 'Datos del bono';
+        hoja.getCell('B3').font = { bold: true };
+
+        const datos: [number, string, Valor, string?][] = [
+            [4, 'Valor Nominal', inputs.valorNominal, FORMATO_MONTO],
+            [5, 'Valor Comercial', inputs.valorComercial, FORMATO_MONTO],
+            [6, 'Nº de Años', inputs.numAnios],
+            [7, 'Frecuencia del cupón', this.titulo(inputs.frecuenciaCupon)],
+            [8, 'Días x Año', inputs.diasPorAno],
+            [9, 'Tipo de Tasa de Interés', this.titulo(inputs.tipoTasa)],
+            [10, 'Capitalización', this.titulo(inputs.periodicidadCapitalizacion)],
+            [11, 'Tasa de interés', inputs.tasaAnual, FORMATO_TASA],
+            [12, 'Tasa anual de descuento', inputs.tasaDescuento, FORMATO_TASA],
+            [13, 'Impuesto a la Renta', inputs.impuestoRenta, FORMATO_TASA],
+            [14, 'Fecha de Emisión', inputs.fechaEmision, FORMATO_FECHA],
+            [16, '% Prima', inputs.primaPorcentaje, FORMATO_TASA],
+            [17, '% Estructuración', inputs.estructuracionPorcentaje, FORMATO_TASA],
+            [18, '% Colocación', inputs.colocacionPorcentaje, FORMATO_TASA],
+            [19, '% Flotación', inputs.flotacionPorcentaje, FORMATO_TASA],
+            [20, '% CAVALI', inputs.cavaliPorcentaje, FORMATO_TASA],
+        ];
+
+        datos.forEach(([fila, etiqueta, valor, formato]) => {
+            hoja.getCell(`B${fila}`).value = etiqueta;
+            this.escribir(hoja.getCell(`E${fila}`), valor, formato);
+        });
+    }
+
+    /**
+     * L4-L14: cálculos intermedios
+     */
+    private static escribirIntermedios(hoja: ExcelJS.Worksheet, result: CalculationResult): void {
+        const { inputs, intermedios: l, flujos } = result;
+        const ultimaFila = FILA_INICIAL + flujos.length - 1;
+
+        hoja.getCell('H3').value = 'Cálculos intermedios';
+        hoja.getCell('H3').font = { bold: true };
+
+        const intermedios: [number, string, Contenido, string?][] = [
+            [4, 'Frecuencia del cupón (días)', this.formula(
+                'IF(E7="Mensual",30,IF(E7="Bimestral",60,IF(E7="Trimestral",90,IF(E7="Cuatrimestral",120,IF(E7="Semestral",180,360)))))',
+                l.frecuenciaCuponDias
+            )],
+            [5, 'Días capitalización', this.formula(
+                'IF(E10="Diaria",1,IF(E10="Quincenal",15,IF(E10="Mensual",30,IF(E10="Bimestral",60,' +
+                'IF(E10="Trimestral",90,IF(E10="Cuatrimestral",120,IF(E10="Semestral",180,360)))))))',
+                l.diasCapitalizacion
+            )],
+            [6, 'Nº Períodos por Año', this.formula('E8/L4', l.periodosPorAno)],
+            [7, 'Nº Total de Períodos', this.formula('L6*E6', l.totalPeriodos)],
+            [8, 'Tasa efectiva anual', this.formula('IF(E9="Efectiva",E11,(1+E11/(E8/L5))^(E8/L5)-1)', l.tasaEfectivaAnual), FORMATO_TASA_PRECISA],
+            [9, 'Tasa efectiva del período', inputs.instrumentType === 'cupon_cero'
+                ? 0
+                : this.formula('(1+L8)^(L4/E8)-1', l.tasaCuponPeriodica), FORMATO_TASA_PRECISA],
+            [10, 'COK del período', this.formula('(1+E12)^(L4/E8)-1', l.tasaDescuentoPeriodica), FORMATO_TASA_PRECISA],
+            [11, 'Costes Iniciales Emisor', this.formula('SUM(E17:E20)*E5', l.costesInicialesEmisor), FORMATO_MONTO],
+            [12, 'Costes Iniciales Bonista', this.formula('SUM(E19:E20)*E5', l.costesInicialesBonista), FORMATO_MONTO],
+            [14, 'VNA flujos bonista', this.conCurva(result)
+                ? result.metricas.precioActual
+                : this.formula(`NPV(L10,O${FILA_INICIAL + 1}:O${ultimaFila})`, result.metricas.precioActual), FORMATO_MONTO],
+        ];
+
+        intermedios.forEach(([fila, etiqueta, contenido, formato]) => {
+            hoja.getCell(`H${fila}`).value = etiqueta;
+            this.escribir(hoja.getCell(`L${fila}`), contenido, formato);
+        });
+    }
+
+    /**
+     * A27:R[27+L7]: tabla de flujos; la fila 27 es el período 0
+     */
+    private static escribirFlujos(hoja: ExcelJS.Worksheet, result: CalculationResult): number {
+        const encabezados = [
+            'Nº', 'Fecha Programada', 'Inflación Anual', 'Inflación Período', 'Plazo de Gracia',
+            'Bono', 'Bono Indexado', 'Cupón (Interés)', 'Cuota', 'Amort.', 'Prima', 'Escudo',
+            'Flujo Emisor', 'Flujo Emisor c/Escudo', 'Flujo Bonista', 'Flujo Act.', 'FA x Plazo', 'Factor p/Convexidad',
+        ];
+        const filaEncabezado = hoja.getRow(FILA_INICIAL - 1);
+        filaEncabezado.values = encabezados;
+        filaEncabezado.font = { bold: true };
+
+        result.flujos.forEach(flujo => {
+            const r = FILA_INICIAL + flujo.periodo;
+            const columnas = flujo.periodo === 0
+                ? this.columnasPeriodoInicial(flujo)
+                : this.columnasPeriodo(flujo, result.flujos[flujo.periodo - 1], result);
+
+            Object.entries(columnas).forEach(([columna, [contenido, formato]]) => {
+                this.escribir(hoja.getCell(`${columna}${r}`), contenido, formato);
+            });
+        });
+
+        return FILA_INICIAL + result.flujos.length - 1;
+    }
+
+    private static columnasPeriodoInicial(f: CashFlowPeriod): Record<string, [Contenido, string?]> {
+        const r = FILA_INICIAL;
+        return {
+            A: [0],
+            B: [f.fecha, FORMATO_FECHA],
+            M: [this.formula('E5-L11', f.flujoEmisor), FORMATO_MONTO],
+            N: [this.formula(`M${r}`, f.flujoEmisorConEscudo), FORMATO_MONTO],
+            O: [this.formula(`-M${r}`, f.flujoBonista), FORMATO_MONTO],
+            P: [this.formula(`O${r}`, f.flujoActualizado), FORMATO_MONTO],
+            Q: [0, FORMATO_MONTO],
+            R: [0, FORMATO_MONTO],
+        };
+    }
+
+    private static columnasPeriodo(
+        f: CashFlowPeriod,
+        anterior: CashFlowPeriod,
+        result: CalculationResult
+    ): Record<string, [Contenido, string?]> {
+        const { inputs } = result;
+        const n = f.periodo;
+        const r = FILA_INICIAL + n;
+        const p = r - 1;
+
+        // La hoja original usa L4/E8 y una sola L9 para todos los períodos
+        const conConvencion = inputs.dayCountConvention !== undefined;
+        const tasaVariable = conConvencion || inputs.couponSchedule !== undefined;
+        const cuotaFondo = f.gracia === 'S' && inputs.sinkingFund?.cuotas.some(c => c.periodo === n);
+
+        const bono = n === 1
+            ? this.formula('$E$4', f.bonoCapital)
+            : this.formula(
+                anterior.gracia === 'T'
+                    ? (inputs.capitalizarGraciaTotal ? `G${p}-H${p}` : `G${p}`)
+                    : `G${p}+J${p}`,
+                f.bonoCapital
+            );
+
+        const metodo = inputs.amortizationMethod ?? 'americano';
+        const amortizacion = cuotaFondo || (metodo === 'frances' && tasaVariable)
+            ? f.amortizacion
+            : this.formula({
+                americano: `IF(E${r}="S",IF(A${r}=$L$7,-G${r},0),0)`,
+                frances: `IF(E${r}="S",PMT($L$9,$L$7-A${r}+1,G${r})-H${r},0)`,
+                aleman: `IF(E${r}="S",-G${r}/($L$7-A${r}+1),0)`,
+            }[metodo], f.amortizacion);
+
+        return {
+            A: [n],
+            B: [f.fecha, FORMATO_FECHA],
+            C: [f.inflacionAnual, FORMATO_TASA],
+            D: [conConvencion ? f.inflacionSemestral : this.formula(`(1+C${r})^($L$4/$E$8)-1`, f.inflacionSemestral), FORMATO_TASA],
+            E: [f.gracia],
+            F: [bono, FORMATO_MONTO],
+            G: [this.formula(`F${r}*(1+D${r})`, f.bonoIndexado), FORMATO_MONTO],
+            H: [tasaVariable ? f.cupon : this.formula(`-G${r}*$L$9`, f.cupon), FORMATO_MONTO],
+            I: [this.formula(`IF(E${r}="T",0,IF(E${r}="P",H${r},H${r}+J${r}))`, f.cuota), FORMATO_MONTO],
+            J: [amortizacion, FORMATO_MONTO],
+            // Con fondo de amortización la prima del vencimiento va sobre el nominal no rescatado: se exporta el valor
+            K: [inputs.sinkingFund?.cuotas.length ? f.prima : this.formula(`IF(A${r}=$L$7,-$E$16*$E$4,0)`, f.prima), FORMATO_MONTO],
+            L: [this.formula(`-H${r}*$E$13`, f.escudoFiscal), FORMATO_MONTO],
+            M: [this.formula(`I${r}+K${r}`, f.flujoEmisor), FORMATO_MONTO],
+            N: [this.formula(`M${r}+L${r}`, f.flujoEmisorConEscudo), FORMATO_MONTO],
+            O: [this.formula(`-M${r}`, f.flujoBonista), FORMATO_MONTO],
+            P: [this.conCurva(result) ? f.flujoActualizado : this.formula(`O${r}/(1+$L$10)^A${r}`, f.flujoActualizado), FORMATO_MONTO],
+            Q: [conConvencion ? f.faPlazoPonderado : this.formula(`P${r}*A${r}*$L$4/$E$8`, f.faPlazoPonderado), FORMATO_MONTO],
+            R: [this.formula(`P${r}*A${r}*(1+A${r})`, f.factorConvexidad), FORMATO_MONTO],
+        };
+    }
+
+    /**
+     * Precio, utilidad, duración, convexidad y tasas de retorno debajo de la tabla
+     */
+    private static escribirMetricas(hoja: ExcelJS.Worksheet, result: CalculationResult, ultimaFila: number): void {
+        const m = result.metricas;
+        const inicio = ultimaFila + 3;
+        const primera = FILA_INICIAL + 1;
+        const rango = (columna: string, desde: number = primera) => `${columna}${desde}:${columna}${ultimaFila}`;
+        const fila = (desplazamiento: number) => inicio + 1 + desplazamiento;
+
+        hoja.getCell(`H${inicio}`).value = 'Ratios de decisión';
+        hoja.getCell(`H${inicio}`).font = { bold: true };
+
+        // E8 fijo en 360 al anualizar, como la hoja original
+        const metricas: [string, Contenido, string][] = [
+            ['Precio Actual', this.conCurva(result) ? m.precioActual : this.formula(`NPV($L$10,${rango('O')})`, m.precioActual), FORMATO_MONTO],
+            ['Utilidad / Pérdida', this.formula(`O${FILA_INICIAL}+L${fila(0)}`, m.utilidadPerdida), FORMATO_MONTO],
+            ['Duración', this.formula(`SUM(${rango('Q')})/SUM(${rango('P')})`, m.duracion), '0.00'],
+            ['Convexidad', this.formula(`SUM(${rango('R')})/((1+$L$10)^2*SUM(${rango('P')})*(360/$L$4)^2)`, m.convexidad), '0.00'],
+            ['Total Ratios Decisión', this.formula(`L${fila(2)}+L${fila(3)}`, m.totalRatiosDecision), '0.00'],
+            ['Duración Modificada', this.formula(`L${fila(2)}/(1+$L$10)`, m.duracionModificada), '0.00'],
+            ['TCEA Emisor', this.formula(`(1+IRR(${rango('M', FILA_INICIAL)}))^(360/$L$4)-1`, m.tceaEmisor), FORMATO_TASA_PRECISA],
+            ['TCEA Emisor c/Escudo', this.formula(`(1+IRR(${rango('N', FILA_INICIAL)}))^(360/$L$4)-1`, m.tceaEmisorConEscudo), FORMATO_TASA_PRECISA],
+            ['TREA Bonista', this.formula(`(1+IRR(${rango('O', FILA_INICIAL)}))^(360/$L$4)-1`, m.treaBonista), FORMATO_TASA_PRECISA],
+        ];
+
+        metricas.forEach(([etiqueta, contenido, formato], i) => {
+            hoja.getCell(`H${fila(i)}`).value = etiqueta;
+            this.escribir(hoja.getCell(`L${fila(i)}`), contenido, formato);
+        });
+    }
+
+    private static conCurva(result: CalculationResult): boolean {
+        return result.flujos[1]?.tasaCurva !== undefined;
+    }
+
+    private static formula(formula: string, resultado: number | null | undefined): ExcelJS.CellFormulaValue {
+        return resultado === null || resultado === undefined ? { formula } : { formula, result: resultado };
+    }
+
+    private static escribir(celda: ExcelJS.Cell, contenido: Contenido, formato?: string): void {
+        celda.value = contenido;
+        if (formato) celda.numFmt = formato;
+    }
+
+    private static titulo(texto: string): string {
+        return texto.charAt(0).toUpperCase() + texto.slice(1);
+    }
+}
@@ -13,6 +13,7 @@ export interface CalculationInputs {
     numAnios: number;               // E6: 5
     frecuenciaCupon: FrequenciaCupon; // E7: "Semestral"
     diasPorAno: 360 | 365;          // E8: 360
+    dayCountConvention?: DayCountConvention; // Sin valor: L4/E8 fijo como el Excel
 
     // Configuración de tasas (E9-E13)
     tipoTasa: 'efectiva' | 'nominal'; // E9: "Efectiva"
@@ -32,8 +33,34 @@ export interface CalculationInputs {
     cavaliPorcentaje: number;       // E20: 0.500% (como 0.005)
 
     // Series de inflación y gracia por período
-    inflacionSerie: number[];       // Inflación anual por período
-    graciaSerie: GracePeriodType[]; // Tipo de gracia por período
+    inflacionSerie: number[];       // Inflación anual por cupón (series por año aún admitidas)
+    graciaSerie: GracePeriodType[]; // Tipo de gracia por cupón (series por año aún admitidas)
+
+    // Gracia total: el cupón impago se suma al capital del período siguiente (por defecto no se capitaliza)
+    capitalizarGraciaTotal?: boolean;
+
+    // Método de amortización (por defecto 'americano', como el Excel)
+    amortizationMethod?: AmortizationMethod;
+
+    // Tipo de instrumento (por defecto 'cupon', como el Excel)
+    instrumentType?: InstrumentType;
+
+    // Cronograma de tasas cupón (sin valor: E11 fija toda la vida del bono)
+    couponSchedule?: CouponRateSchedule;
+
+    // Opciones embebidas: rescate anticipado del emisor (call) y venta del bonista (put)
+    callSchedule?: OptionExerciseDate[];
+    putSchedule?: OptionExerciseDate[];
+
+    // Fondo de amortización: rescates parciales programados antes del vencimiento
+    sinkingFund?: SinkingFundSchedule;
+
+    // Ajuste de fechas de pago a días hábiles (sin valor: no se ajusta)
+    businessDayConvention?: BusinessDayConvention;
+    feriados?: string[];            // Feriados del mercado en formato 'YYYY-MM-DD'
+
+    // Curva cero de descuento (sin valor: todos los flujos se descuentan a L10)
+    curvaDescuento?: YieldCurveDefinition;
 }
 
 /**
@@ -65,7 +92,9 @@ export interface CalculosIntermedios {
 export interface CashFlowPeriod {
     // Identificación
     periodo: number;                // A[n]: 0, 1, 2, ..., 10
-    fecha: Date;                   // B[n]: Fechas de cupón
+    fecha: Date;                   // B[n]: Fechas de cupón (ajustada a día hábil)
+    fechaDevengo?: Date;           // B[n] sin ajustar: base para el devengo de intereses
+    tasaCupon?: number;            // L9 aplicada en el período
 
     // Inflación
     inflacionAnual: number | null;  // C[n]: 10% en ejemplo
@@ -77,6 +106,7 @@ export interface CashFlowPeriod {
     // Valores del bono
     bonoCapital: number | null;     // F[n]: Capital vivo
     bonoIndexado: number | null;    // G[n]: Ajuste por inflación
+    interesCapitalizado?: number | null; // −H[n] con gracia total capitalizada: pasa a F[n+1]
 
     // Pagos
     cupon: number | null;          // H[n]: Pago de interés
@@ -96,6 +126,10 @@ export interface CashFlowPeriod {
     flujoActualizado: number | null;      // P[n]: Valor presente
     faPlazoPonderado: number | null;      // Q[n]: Para duración
     factorConvexidad: number | null;      // R[n]: Para convexidad
+
+    // Descuento con curva cero (solo si hay curvaDescuento)
+    plazoAnual?: number;                  // t[n]: plazo del flujo en años
+    tasaCurva?: number;                   // r(t[n]): tasa cero anual efectiva de la curva
 }
 
 /**
@@ -112,10 +146,29 @@ export interface FinancialMetrics {
     totalRatiosDecision: number;   // Duración + Convexidad = 26.84
     duracionModificada: number;    // Duración/(1+L10) = 4.35
 
+    // Sensibilidad por desplazamiento de la tasa de descuento (bump-and-reprice sobre O[n])
+    duracionEfectiva: number;      // (P− − P+)/(2·P·Δy)
+    convexidadEfectiva: number;    // (P− + P+ − 2P)/(P·Δy²)
+    dv01: number;                  // Cambio del precio por 1 pb de la tasa de descuento
+    duracionesClave: KeyRateDuration[]; // Duración por plazo clave (suman ≈ duración efectiva)
+
     // Tasas de retorno
     tceaEmisor: number;           // TIR emisor bruto = 18.45033%
     tceaEmisorConEscudo: number;  // TIR emisor con escudo = 15.78819%
     treaBonista: number;          // TIR bonista = 17.55812%
+
+    // Tasas de retorno por fechas reales (TIR.NO.PER, base 365)
+    tceaEmisorXTIR?: number;
+    tceaEmisorConEscudoXTIR?: number;
+    treaBonistaXTIR?: number;
+
+    // Rendimientos del bonista con opciones embebidas (solo si el bono las tiene)
+    ytc?: number;                 // Yield-to-call: ejercicio en la primera fecha de call
+    ytp?: number;                 // Yield-to-put: ejercicio en la primera fecha de put
+    ytw?: number;                 // Yield-to-worst: mínimo entre la TREA y todos los calls
+
+    // Spread constante sobre la curva de descuento que iguala el VNA a −O[0] (solo con curva)
+    zSpread?: number;
 }
 
 /**
@@ -134,11 +187,229 @@ export interface CalculationResult {
     // Métricas financieras
     metricas: FinancialMetrics;
 
+    // Incidencias del cálculo de TIR (no convergencia, múltiples cambios de signo)
+    advertencias?: CalculationWarning[];
+
+    // Flujos del bonista por escenario de ejercicio de call/put
+    escenariosEjercicio?: ExerciseScenario[];
+
+    // Traza celda por celda (solo con includeIntermediateSteps)
+    traza?: CalculationTraceEntry[];
+
     // Metadatos
     fechaCalculo: Date;
     version: string;
 }
 
+/**
+ * Celda de la traza de cálculo: fórmula aplicada, valores de entrada y resultado
+ */
+export interface CalculationTraceEntry {
+    seccion: 'intermedios' | 'flujos' | 'metricas';
+    periodo: number | null;        // A[n] en la tabla de flujos; null en L4-L12 y métricas
+    celda: string;                 // 'H[3]', 'L9', 'TCEA'
+    campo: string;                 // Propiedad del resultado: 'cupon', 'tasaCuponPeriodica', 'tceaEmisor'
+    formula: string;               // Fórmula del Excel: 'H[n] = −G[n]*L9'
+    entradas: Record<string, number | string | null>;
+    resultado: number | string | null;
+}
+
+/**
+ * Incidencias del cálculo de la TIR
+ */
+export type IRRIssueCode =
+    | 'IRR_NO_SIGN_CHANGE'         // Todos los flujos tienen el mismo signo: no existe TIR
+    | 'IRR_NOT_CONVERGED'          // Ningún método encontró la raíz
+    | 'IRR_MULTIPLE_SIGN_CHANGES'; // Más de un cambio de signo: puede haber varias TIR
+
+export interface CalculationWarning {
+    field: string;                 // Métrica afectada (p.ej. 'treaBonista')
+    code: IRRIssueCode;
+    message: string;
+    severity: 'error' | 'warning';
+}
+
+/**
+ * Resultado del cálculo de TIR
+ */
+export interface IRRResult {
+    tasa: number;                  // TIR por período (o anual en XTIR)
+    metodo: 'newton' | 'brent';
+    iteraciones: number;
+    cambiosDeSigno: number;
+    advertencias: CalculationWarning[];
+}
+
+/**
+ * Precio a una fecha de liquidación posterior a la emisión
+ */
+export interface SettlementPrice {
+    fechaLiquidacion: Date;
+    periodoCupon: number;          // k: período cuyo cupón se está devengando
+    diasDevengados: number;        // Desde B[k−1] hasta la liquidación
+    diasPeriodo: number;           // Desde B[k−1] hasta B[k]
+    fraccionDevengada: number;     // w = diasDevengados/diasPeriodo
+    interesCorrido: number;        // −H[k]×w
+    precioSucio: number;           // VNA de O[k..L7] a L10 desde la liquidación
+    precioLimpio: number;          // Precio sucio − interés corrido
+}
+
+/**
+ * Fecha de ejercicio de una opción embebida
+ * Se ejerce en el primer cupón con fecha igual o posterior a la fecha indicada
+ */
+export interface OptionExerciseDate {
+    fecha: Date;
+    precio: number;                // Precio de ejercicio sobre el capital vivo (1.02 = 102%)
+}
+
+/**
+ * Punto de una curva cero: tasa anual efectiva para un plazo en años
+ */
+export interface YieldCurvePoint {
+    plazo: number;                 // Años desde la emisión (0.5 = 6 meses)
+    tasa: number;                  // Tasa cero anual efectiva (0.045 = 4.5%)
+}
+
+export type YieldCurveInterpolation =
+    | 'lineal'      // Interpolación lineal entre puntos
+    | 'cubica';     // Spline cúbico natural
+
+/**
+ * Curva cero de descuento con su fecha de referencia
+ * Fuera del rango de plazos la tasa se extrapola plana
+ */
+export interface YieldCurveDefinition {
+    nombre?: string;
+    fechaReferencia?: Date;
+    interpolacion: YieldCurveInterpolation;
+    puntos: YieldCurvePoint[];
+}
+
+/**
+ * Rescate parcial programado del fondo de amortización
+ */
+export interface SinkingFundInstallment {
+    periodo: number;               // Cupón en que se rescata (1..L7−1)
+    porcentaje: number;            // Fracción de E4 que se rescata (0.20 = 20% del nominal original)
+}
+
+/**
+ * Cronograma del fondo de amortización
+ * Lo que no se rescata antes se paga al vencimiento, como en el método americano
+ */
+export interface SinkingFundSchedule {
+    cuotas: SinkingFundInstallment[];
+    primaRescate?: number;         // Prima sobre el capital rescatado en cada cuota (0.01 = 1%)
+}
+
+/**
+ * Escenario de ejercicio: el bono se redime en el período k en lugar de L7
+ */
+export interface ExerciseScenario {
+    tipo: 'call' | 'put';
+    fechaEjercicio: Date;          // B[k] del cupón en que se ejerce
+    periodo: number;               // k
+    precio: number;                // Precio de ejercicio (% del capital vivo)
+    capitalRedimido: number;       // F[k+1]: capital vivo que se paga al precio de ejercicio
+    flujosBonista: number[];       // O[0..k] del escenario
+    rendimiento: number;           // TREA del escenario
+}
+
+/**
+ * Duración de plazo clave: sensibilidad del precio a mover solo ese punto de la curva
+ * El desplazamiento es triangular: máximo en el plazo y cero en los plazos clave vecinos
+ */
+export interface KeyRateDuration {
+    plazo: number;                 // Años
+    duracion: number;
+}
+
+/**
+ * Resultado del solver precio ↔ rendimiento sobre los flujos del bonista
+ */
+export interface PriceYieldResult {
+    precio: number;                // VNA de los flujos del bonista al rendimiento
+    rendimiento: number;           // Rendimiento anual efectivo (YTM)
+    tasaPeriodica: number;         // (1+rendimiento)^(L4/E8)-1
+    duracion: number;              // Duración de Macaulay en años a ese rendimiento
+    duracionModificada: number;    // Duración/(1+tasaPeriodica)
+    iteraciones: number;           // 0 cuando se calcula precio desde rendimiento
+}
+
+/**
+ * Análisis de sensibilidad: parámetros que se pueden desplazar
+ * tasaAnual, tasaDescuento, impuestoRenta e inflacion se desplazan en puntos (0.01 = +1 pp);
+ * inflacion desplaza todos los elementos de la serie.
+ * costes es un cambio relativo sobre E17-E20 (0.10 = costes un 10% mayores)
+ */
+export type SensitivityParameter =
+    | 'tasaAnual'       // E11
+    | 'tasaDescuento'   // E12
+    | 'inflacion'       // Serie de inflación
+    | 'impuestoRenta'   // E13
+    | 'costes';         // E17-E20
+
+export type SensitivityGrid = Partial<Record<SensitivityParameter, number[]>>;
+
+/**
+ * Métricas del bono con un único parámetro desplazado (resto en su valor base)
+ */
+export interface SensitivityScenario {
+    parametro: SensitivityParameter;
+    desplazamiento: number;
+    metricas: FinancialMetrics | null;  // null si los inputs desplazados no son calculables
+    error?: string;
+}
+
+/**
+ * Matriz de dos parámetros desplazados a la vez: metricas[i][j] usa filas[i] y columnas[j]
+ */
+export interface SensitivityMatrix {
+    filas: { parametro: SensitivityParameter; desplazamientos: number[] };
+    columnas: { parametro: SensitivityParameter; desplazamientos: number[] };
+    metricas: (FinancialMetrics | null)[][];
+}
+
+export interface SensitivityResult {
+    base: FinancialMetrics;
+    escenarios: SensitivityScenario[];
+    matriz?: SensitivityMatrix;
+}
+
+/**
+ * Simulación Monte Carlo de la inflación (modelo con reversión a la media)
+ * π[n] = π[n−1] + κ(μ − π[n−1])Δt + σ√Δt·ε, con Δt = L4/E8 y ε ~ N(0,1)
+ */
+export interface InflationSimulationConfig {
+    simulaciones: number;           // N trayectorias
+    media: number;                  // μ: inflación anual de largo plazo (0.03 = 3%)
+    volatilidad: number;            // σ anual
+    reversion: number;              // κ: velocidad de reversión a la media
+    inflacionInicial?: number;      // π[0] (sin valor: el primer elemento de la serie base)
+    semilla?: number;               // Semilla del generador (misma semilla = mismos resultados)
+    percentiles?: number[];         // Por defecto [0.05, 0.25, 0.5, 0.75, 0.95]
+}
+
+/**
+ * Valores de una variable en cada percentil (alineados con InflationSimulationResult.percentiles)
+ */
+export interface PercentileBand {
+    media: number;
+    valores: number[];
+}
+
+export interface InflationSimulationResult {
+    simulaciones: number;           // Trayectorias calculadas
+    descartadas: number;            // Trayectorias con inputs no calculables
+    semilla: number;
+    percentiles: number[];
+    inflacion: (PercentileBand & { periodo: number })[];      // Inflación anual por cupón
+    flujosBonista: (PercentileBand & { periodo: number; fecha: Date })[]; // O[n] por período
+    treaBonista: PercentileBand;
+    precioActual: PercentileBand;
+}
+
 /**
  * Tipos auxiliares
  */
@@ -165,6 +436,45 @@ export type GracePeriodType =
     | 'P'  // Gracia parcial
     | 'T'; // Gracia total
 
+export type DayCountConvention =
+    | '30/360'   // Meses de 30 días, año de 360 (DIAS360)
+    | 'ACT/360'  // Días reales / 360
+    | 'ACT/365'  // Días reales / 365
+    | 'ACT/ACT'; // Días reales / días reales del período (ICMA)
+
+export type BusinessDayConvention =
+    | 'none'                // Sin ajuste
+    | 'following'           // Siguiente día hábil
+    | 'modified_following'  // Siguiente, salvo que cambie de mes
+    | 'preceding';          // Día hábil anterior
+
+export type CouponRateType =
+    | 'fija'        // E11 durante toda la vida del bono
+    | 'escalonada'  // Step-up / step-down: una tasa por período
+    | 'flotante';   // Tasa de referencia + spread, con cap/floor
+
+/**
+ * Cronograma de tasas cupón por período (1..L7)
+ * Las tasas se expresan como E11 (efectiva o nominal según tipoTasa)
+ * Si la serie es más corta que L7, el último valor se mantiene hasta el vencimiento
+ */
+export interface CouponRateSchedule {
+    tipo: Exclude<CouponRateType, 'fija'>;
+    tasas: number[];        // Escalonada: tasa del período | Flotante: tasa de referencia del período
+    spread?: number;        // Flotante: margen sobre la referencia
+    tasaMaxima?: number;    // Flotante: cap
+    tasaMinima?: number;    // Flotante: floor
+}
+
+export type InstrumentType =
+    | 'cupon'       // Bono con cupones periódicos
+    | 'cupon_cero'; // Bono de descuento: un único pago de capital (+ prima) al vencimiento
+
+export type AmortizationMethod =
+    | 'americano'  // Todo el principal al vencimiento
+    | 'frances'    // Cuota constante
+    | 'aleman';    // Amortización constante
+
 /**
  * Errores de validación
  */
@@ -194,6 +504,8 @@ export interface PrecisionConfig {
 export interface CalculatorOptions {
     precision?: PrecisionConfig;
     validateInputs?: boolean;
-    includeIntermediateSteps?: boolean;
+    includeIntermediateSteps?: boolean; // Agrega la traza de cálculo al resultado (por defecto no)
     cacheResults?: boolean;
+    keyRateTenors?: number[];      // Plazos clave en años (por defecto 1, 2, 3, 5, 7 y 10)
+    rateShift?: number;            // Δy de la duración y convexidad efectivas (por defecto 10 pb)
 }
\ No newline at end of file
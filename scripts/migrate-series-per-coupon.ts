@@ -0,0 +1,79 @@
+// scripts/migrate-series-per-coupon.ts
+
+import { PrismaClient } from '../lib/generated/client';
+import { ExcelFormulas } from '../lib/services/calculations/ExcelFormulas';
+import { FrequenciaCupon } from '../lib/types/calculations';
+
+/**
+ * Migra las series de inflación y gracia guardadas por año a series por cupón.
+ * El cupón n toma el valor del año al que pertenece, por lo que los flujos no cambian.
+ * Uso: tsx scripts/migrate-series-per-coupon.ts [--dry-run]
+ */
+
+const prisma = new PrismaClient();
+
+async function migrateSeriesPerCoupon(dryRun = false) {
+    console.log(`🔄 Migrando series por año a series por cupón${dryRun ? ' (simulación)' : ''}...`);
+
+    try {
+        const registros = await prisma.calculationInputs.findMany({
+            select: {
+                bondId: true,
+                inflacionSerie: true,
+                graciaSerie: true,
+                bond: { select: { numAnios: true, frecuenciaCupon: true, baseDias: true } },
+            },
+        });
+
+        let migrados = 0;
+
+        for (const registro of registros) {
+            const { numAnios, frecuenciaCupon, baseDias } = registro.bond;
+            const periodosPorAno = ExcelFormulas.periodosPorAno(
+                baseDias,
+                ExcelFormulas.frecuenciaCuponDias(frecuenciaCupon.toLowerCase() as FrequenciaCupon)
+            );
+            const numeroCupones = ExcelFormulas.numeroCupones(periodosPorAno, numAnios);
+
+            // Con frecuencia anual ambos formatos coinciden
+            if (numeroCupones === numAnios) continue;
+
+            const inflacionSerie = registro.inflacionSerie as number[];
+            const graciaSerie = registro.graciaSerie as string[];
+            const esPorAno = (serie: unknown[]) => Array.isArray(serie) && serie.length === numAnios;
+
+            if (!esPorAno(inflacionSerie) && !esPorAno(graciaSerie)) continue;
+
+            const nuevaInflacion = ExcelFormulas.seriePorCupon(inflacionSerie, periodosPorAno, numAnios);
+            const nuevaGracia = ExcelFormulas.seriePorCupon(graciaSerie, periodosPorAno, numAnios);
+
+            console.log(`   ${registro.bondId}: inflación ${inflacionSerie.length} → ${nuevaInflacion.length}, gracia ${graciaSerie.length} → ${nuevaGracia.length}`);
+
+            if (!dryRun) {
+                await prisma.calculationInputs.update({
+                    where: { bondId: registro.bondId },
+                    data: { inflacionSerie: nuevaInflacion, graciaSerie: nuevaGracia },
+                });
+            }
+            migrados++;
+        }
+
+        console.log(`✅ Migración completada: ${migrados} de ${registros.length} bonos con series por año`);
+    } catch (error) {
+        console.error('❌ Error en migración:', error);
+        throw error;
+    } finally {
+        await prisma.$disconnect();
+    }
+}
+
+// Ejecutar si se llama directamente
+if (require.main === module) {
+    migrateSeriesPerCoupon(process.argv.includes('--dry-run'))
+        .catch((error) => {
+            console.error('❌ Error en migración de series:', error);
+            process.exit(1);
+        });
+}
+
+export { migrateSeriesPerCoupon };
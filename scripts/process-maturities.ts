@@ -0,0 +1,62 @@
+// scripts/process-maturities.ts
+
+import { PrismaClient } from '../lib/generated/client';
+import { BondMaturityService, MaturityJobOptions } from '../lib/services/bonds/BondMaturity';
+
+/**
+ * Vence los bonos que alcanzaron su fecha de vencimiento y completa sus inversiones.
+ * Puede ejecutarse repetidamente (p. ej. desde cron): lo ya procesado no se vuelve a tocar.
+ * Uso: tsx scripts/process-maturities.ts [--dry-run] [--fecha=YYYY-MM-DD] [--bonds=id1,id2]
+ */
+
+const prisma = new PrismaClient();
+
+async function processMaturities(options: MaturityJobOptions) {
+    const fecha = options.fecha ?? new Date();
+    console.log(`⏰ Procesando vencimientos al ${fecha.toISOString().split('T')[0]}${options.dryRun ? ' (simulación)' : ''}...`);
+
+    try {
+        const service = new BondMaturityService(prisma);
+        const result = await service.processMaturities({ ...options, fecha });
+
+        for (const bono of result.bonos) {
+            if (bono.error) {
+                console.log(`   ❌ ${bono.name} (${bono.bondId}): ${bono.error}`);
+                continue;
+            }
+            console.log(
+                `   ✅ ${bono.name} (${bono.bondId}): ${bono.statusAnterior} → EXPIRED, ` +
+                `${bono.inversionesCompletadas} inversiones completadas, redención ${bono.montoRedencionTotal.toFixed(2)}`
+            );
+        }
+
+        console.log(
+            `📊 ${result.procesados} bonos procesados · ${result.bonosExpirados} vencidos · ` +
+            `${result.inversionesCompletadas} inversiones completadas · ${result.errores} errores`
+        );
+
+        return result;
+    } finally {
+        await prisma.$disconnect();
+    }
+}
+
+// Ejecutar si se llama directamente
+if (require.main === module) {
+    const args = process.argv.slice(2);
+    const fechaArg = args.find(arg => arg.startsWith('--fecha='))?.split('=')[1];
+    const bondsArg = args.find(arg => arg.startsWith('--bonds='))?.split('=')[1];
+
+    processMaturities({
+        dryRun: args.includes('--dry-run'),
+        fecha: fechaArg ? new Date(fechaArg) : undefined,
+        bondIds: bondsArg ? bondsArg.split(',') : undefined,
+    })
+        .then(result => process.exit(result.errores > 0 ? 1 : 0))
+        .catch((error) => {
+            console.error('❌ Error en proceso de vencimientos:', error);
+            process.exit(1);
+        });
+}
+
+export { processMaturities };
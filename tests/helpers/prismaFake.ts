@@ -0,0 +1,74 @@
+// tests/helpers/prismaFake.ts
+// Base en memoria para probar servicios sin base de datos
+
+import type { PrismaClient } from '@/lib/generated/client';
+
+// Delegados de modelo del cliente (bond, auditLog, ...), sin $connect, $transaction, etc.
+type Modelo = Exclude<keyof PrismaClient, `$${string}` | symbol>;
+
+// Cada consulta recibe los argumentos reales de Prisma y devuelve solo lo que el servicio lee
+type ConsultaFake<F> = F extends (args: infer A) => unknown
+    ? (args: NonNullable<A>) => Promise<unknown>
+    : never;
+
+export type DelegadosFake = {
+    [K in Modelo]?: { [M in keyof PrismaClient[K]]?: ConsultaFake<PrismaClient[K][M]> };
+};
+
+const esObjetoPlano = (valor: unknown): valor is Record<string, unknown> =>
+    valor !== null && typeof valor === 'object' && Object.getPrototypeOf(valor) === Object.prototype;
+
+// Copia profunda de objetos y arreglos; funciones e instancias (Decimal) se comparten
+const clonar = <T>(valor: T): T => {
+    if (Array.isArray(valor)) return valor.map(clonar) as T;
+    if (valor instanceof Date) return new Date(valor.getTime()) as T;
+    if (esObjetoPlano(valor)) {
+        return Object.fromEntries(Object.entries(valor).map(([clave, v]) => [clave, clonar(v)])) as T;
+    }
+    return valor;
+};
+
+// Publica la copia sobre el estado sin cambiar sus referencias de primer nivel
+const publicar = <E extends object>(estado: E, copia: E) => {
+    for (const clave of Object.keys(copia) as (keyof E)[]) {
+        const actual: unknown = estado[clave];
+        const nuevo: unknown = copia[clave];
+
+        if (Array.isArray(actual) && Array.isArray(nuevo)) {
+            actual.splice(0, actual.length, ...nuevo);
+        } else if (esObjetoPlano(actual) && esObjetoPlano(nuevo)) {
+            Object.keys(actual).forEach(k => delete actual[k]);
+            Object.assign(actual, nuevo);
+        } else {
+            estado[clave] = copia[clave];
+        }
+    }
+};
+
+/**
+ * Cliente de Prisma en memoria sobre `estado`
+ *
+ * `delegados` arma las consultas sobre el estado que recibe. Las $transaction corren de
+ * a una sobre una copia del estado que se publica solo si el callback termina: si lanza,
+ * lo escrito con `tx` se descarta y lo escrito antes con el cliente queda.
+ */
+export function crearPrismaFake<E extends object>(
+    estado: E,
+    delegados: (estado: E) => DelegadosFake
+): PrismaClient {
+    let cola: Promise<unknown> = Promise.resolve();
+
+    const $transaction = <T>(fn: (tx: PrismaClient) => Promise<T>): Promise<T> => {
+        const ejecucion = cola.then(async () => {
+            const copia = clonar(estado);
+            const resultado = await fn(delegados(copia) as unknown as PrismaClient);
+            publicar(estado, copia);
+            return resultado;
+        });
+        cola = ejecucion.catch(() => undefined);
+        return ejecucion;
+    };
+
+    // Único punto donde el fake se presenta como cliente: los servicios reciben PrismaClient
+    return { ...delegados(estado), $transaction } as unknown as PrismaClient;
+}
@@ -0,0 +1,144 @@
+// tests/unit/amortization-methods.test.ts
+// Tests de los métodos de amortización (americano, francés y alemán)
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { ExcelFormulas } from '@/lib/services/calculations/ExcelFormulas';
+import { CalculationInputs, GracePeriodType } from '@/lib/types/calculations';
+
+describe('Amortization Methods Tests', () => {
+    let calculator: FinancialCalculator;
+
+    // Sin inflación para que el saldo solo cambie por amortización
+    const BASE_INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 1050.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0.08,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: [0, 0, 0, 0, 0],
+        graciaSerie: ['S', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+    };
+
+    beforeAll(() => {
+        calculator = new FinancialCalculator({
+            validateInputs: true,
+            includeIntermediateSteps: true
+        });
+    });
+
+    describe('Método americano', () => {
+        test('Por defecto se comporta como el americano', async () => {
+            const porDefecto = await calculator.calculate(BASE_INPUTS);
+            const americano = await calculator.calculate({ ...BASE_INPUTS, amortizationMethod: 'americano' });
+
+            expect(porDefecto.flujos.map(f => f.amortizacion)).toEqual(americano.flujos.map(f => f.amortizacion));
+            expect(porDefecto.metricas.precioActual).toBeCloseTo(americano.metricas.precioActual, 6);
+        });
+
+        test('Solo amortiza en el último período', async () => {
+            const result = await calculator.calculate({ ...BASE_INPUTS, amortizationMethod: 'americano' });
+
+            result.flujos.slice(1, -1).forEach(flujo => expect(flujo.amortizacion).toBe(0));
+            expect(result.flujos[10].amortizacion).toBeCloseTo(-1000, 2);
+        });
+    });
+
+    describe('Método francés', () => {
+        test('La cuota es constante en todos los períodos', async () => {
+            const result = await calculator.calculate({ ...BASE_INPUTS, amortizationMethod: 'frances' });
+            const cuotas = result.flujos.slice(1).map(f => f.cuota as number);
+
+            cuotas.forEach(cuota => expect(cuota).toBeCloseTo(cuotas[0], 4));
+            expect(cuotas[0]).toBeLessThan(0);
+        });
+
+        test('La suma de amortizaciones devuelve el valor nominal', async () => {
+            const result = await calculator.calculate({ ...BASE_INPUTS, amortizationMethod: 'frances' });
+            const totalAmortizado = result.flujos.slice(1).reduce((sum, f) => sum + (f.amortizacion || 0), 0);
+
+            expect(totalAmortizado).toBeCloseTo(-1000, 2);
+        });
+
+        test('La cuota coincide con PAGO(L9;L7;E4)', () => {
+            const tasa = 0.0392304845;
+            const cuota = ExcelFormulas.cuotaFrancesa(1000, tasa, 10);
+            const esperado = -1000 * tasa / (1 - Math.pow(1 + tasa, -10));
+
+            expect(cuota).toBeCloseTo(esperado, 4);
+        });
+    });
+
+    describe('Método alemán', () => {
+        test('La amortización es constante', async () => {
+            const result = await calculator.calculate({ ...BASE_INPUTS, amortizationMethod: 'aleman' });
+
+            result.flujos.slice(1).forEach(flujo => expect(flujo.amortizacion).toBeCloseTo(-100, 4));
+        });
+
+        test('El cupón decrece con el saldo vivo', async () => {
+            const result = await calculator.calculate({ ...BASE_INPUTS, amortizationMethod: 'aleman' });
+            const cupones = result.flujos.slice(1).map(f => f.cupon as number);
+
+            for (let i = 1; i < cupones.length; i++) {
+                expect(Math.abs(cupones[i])).toBeLessThan(Math.abs(cupones[i - 1]));
+            }
+        });
+    });
+
+    describe('Interacción con períodos de gracia', () => {
+        const graciaInicial = ['T', 'P', 'S', 'S', 'S'] as GracePeriodType[];
+
+        test.each(['frances', 'aleman'] as const)('Método %s: no amortiza durante la gracia', async (metodo) => {
+            const result = await calculator.calculate({
+                ...BASE_INPUTS,
+                amortizationMethod: metodo,
+                graciaSerie: graciaInicial
+            });
+
+            // Año 1 (períodos 1-2) con gracia total, año 2 (períodos 3-4) con gracia parcial
+            [1, 2].forEach(p => {
+                expect(result.flujos[p].amortizacion).toBe(0);
+                expect(result.flujos[p].cuota).toBe(0);
+            });
+            [3, 4].forEach(p => {
+                expect(result.flujos[p].amortizacion).toBe(0);
+                expect(result.flujos[p].cuota).toBeCloseTo(result.flujos[p].cupon as number, 6);
+            });
+        });
+
+        test.each(['frances', 'aleman'] as const)('Método %s: amortiza todo el saldo tras la gracia', async (metodo) => {
+            const result = await calculator.calculate({
+                ...BASE_INPUTS,
+                amortizationMethod: metodo,
+                graciaSerie: graciaInicial
+            });
+
+            const saldoTrasGracia = result.flujos[5].bonoIndexado as number;
+            const totalAmortizado = result.flujos.slice(5).reduce((sum, f) => sum + (f.amortizacion || 0), 0);
+
+            expect(totalAmortizado).toBeCloseTo(-saldoTrasGracia, 2);
+        });
+
+        test('Método francés: cuota constante después de la gracia', async () => {
+            const result = await calculator.calculate({
+                ...BASE_INPUTS,
+                amortizationMethod: 'frances',
+                graciaSerie: graciaInicial
+            });
+            const cuotas = result.flujos.slice(5).map(f => f.cuota as number);
+
+            cuotas.forEach(cuota => expect(cuota).toBeCloseTo(cuotas[0], 4));
+        });
+    });
+});
@@ -0,0 +1,164 @@
+// tests/unit/bond-batch-import.test.ts
+// Tests de importación en lote: lectura CSV/JSON y vista previa por fila
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    BondBatchImportError,
+    BondBatchImportService,
+    parseBatchCSV,
+    parseBatchJSON,
+} from '@/lib/services/bonds/BondBatchImport';
+import { crearPrismaFake } from '@/tests/helpers/prismaFake';
+
+describe('Bond Batch Import Tests', () => {
+    const EMISOR_ID = 'ckemisor0000000000000000';
+    const USER_ID = 'user-emisor';
+    const PLANTILLA = fs.readFileSync(path.join(process.cwd(), 'config', 'templates', 'bonos_lote.csv'), 'utf-8');
+
+    // Solo las consultas que hace la vista previa
+    const prisma = crearPrismaFake({}, () => ({
+        emisorProfile: { findUnique: async () => ({ id: EMISOR_ID, userId: USER_ID }) },
+        bond: { findMany: async () => [{ codigoIsin: 'PEP00000001' }] },
+    }));
+
+    test('El CSV se lee con una fila por bono', () => {
+        const filas = parseBatchCSV(PLANTILLA);
+
+        expect(filas).toHaveLength(2);
+        expect(filas[0].fila).toBe(5);
+        expect(filas[0].datos).toMatchObject({
+            name: 'Bono Serie A',
+            valorNominal: 1000,
+            tasaAnual: 0.08,
+            colocacionPorcentaje: 0.0025,
+            inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10],
+            graciaSerie: ['S', 'S', 'S', 'S', 'S'],
+        });
+        expect(filas[1].datos).not.toHaveProperty('codigoIsin');
+        expect(filas[1].datos).not.toHaveProperty('inflacionSerie');
+    });
+
+    test('Columnas desconocidas y JSON mal formado se rechazan', () => {
+        expect(() => parseBatchCSV('name,tasa\nBono,8%')).toThrow(BondBatchImportError);
+        expect(() => parseBatchJSON('{ bonos: ')).toThrow('El archivo no es un JSON válido');
+        expect(() => parseBatchJSON({ bono: {} })).toThrow(BondBatchImportError);
+        expect(parseBatchJSON({ bonos: [{ name: 'A' }, { name: 'B' }] }).map(f => f.fila)).toEqual([1, 2]);
+    });
+
+    test('El separador sale del encabezado y los campos entre comillas lo pueden contener', () => {
+        const coma = parseBatchCSV('name,valorNominal,tasaAnual\n"Bono 2025, Serie ""A""",1000,8%\nBono; B,1000.5,0.08');
+
+        expect(coma.map(f => f.datos)).toEqual([
+            { name: 'Bono 2025, Serie "A"', valorNominal: 1000, tasaAnual: 0.08 },
+            { name: 'Bono; B', valorNominal: 1000.5, tasaAnual: 0.08 },
+        ]);
+
+        // Con ';' la coma es decimal y el punto separa miles
+        const puntoYComa = parseBatchCSV('# comentario, con "comillas\r\nname;valorComercial;tasaAnual;inflacionSerie\r\nBono C;1.050,25;8,5%;1,5%|2%');
+        expect(puntoYComa[0]).toEqual({
+            fila: 3,
+            datos: { name: 'Bono C', valorComercial: 1050.25, tasaAnual: 0.085, inflacionSerie: [0.015, 0.02] },
+        });
+        expect(parseBatchCSV('name,valorNominal\nBono,"1,000"')[0].datos.valorNominal).toBeNaN();
+    });
+
+    test('La vista previa calcula TCEA/TREA de las filas válidas', async () => {
+        const service = new BondBatchImportService(prisma);
+        const result = await service.importBatch(EMISOR_ID, USER_ID, parseBatchCSV(PLANTILLA), true);
+
+        expect(result).toMatchObject({ dryRun: true, total: 2, validas: 2, creadas: 0 });
+        // Serie A es el bono de la hoja de referencia (misma tolerancia que calculations.test)
+        expect(result.filas[0].tceaEmisor).toBeCloseTo(0.1845033, 2);
+        expect(result.filas[0].treaBonista).not.toBeNull();
+        // Serie B sin series: inflación 0 y sin gracia en sus 12 cupones
+        expect(result.filas[1].tceaEmisor).toBeGreaterThan(0);
+    });
+
+    test('Los errores se reportan por fila y campo', async () => {
+        const service = new BondBatchImportService(prisma);
+        const csv = [
+            'name,codigoIsin,valorNominal,valorComercial,numAnios,fechaEmision,frecuenciaCupon,tipoTasa,tasaAnual,impuestoRenta',
+            'Bono Duplicado,PEP00000001,1000,1050,5,2025-06-01,semestral,efectiva,8%,30%',
+            'Bono Sin Nominal,,,1050,5,2025-06-01,semestral,efectiva,8%,30%',
+            'Bono Frecuencia,,1000,1050,5,2025-06-01,quincenal,efectiva,8%,30%',
+        ].join('\n');
+
+        const result = await service.importBatch(EMISOR_ID, USER_ID, parseBatchCSV(csv), true);
+
+        expect(result.validas).toBe(0);
+        expect(result.filas.map(f => f.fila)).toEqual([2, 3, 4]);
+        expect(result.filas[0].errores).toContainEqual({ campo: 'codigoIsin', mensaje: 'El código ISIN ya existe' });
+        expect(result.filas[1].errores.map(e => e.campo)).toContain('valorNominal');
+        expect(result.filas[2].errores.map(e => e.campo)).toContain('frecuenciaCupon');
+        expect(result.filas[1].tceaEmisor).toBeNull();
+
+        await expect(service.importBatch(EMISOR_ID, USER_ID, [], true)).rejects.toThrow('El lote no contiene bonos');
+        await expect(service.importBatch(EMISOR_ID, 'otro-usuario', parseBatchCSV(PLANTILLA), true))
+            .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    test('La importación crea cada fila en su transacción y una fila fallida no revierte las demás', async () => {
+        const estado = {
+            // PEP00000009 lo registró otra importación después de la vista previa
+            bonos: [{ id: 'bond0', name: 'Bono Existente', codigoIsin: 'PEP00000009' as string | null }],
+            costes: [] as string[],
+            auditLogs: [] as { userId?: string | null; recordId: string; newValues: unknown }[],
+        };
+
+        const prisma = crearPrismaFake(estado, ({ bonos, costes, auditLogs }) => ({
+            emisorProfile: {
+                findUnique: async () => ({ id: EMISOR_ID, userId: USER_ID, companyName: 'Emisor SAC' }),
+            },
+            bond: {
+                findMany: async () => [],
+                create: async ({ data }) => {
+                    if (data.codigoIsin && bonos.some(b => b.codigoIsin === data.codigoIsin)) {
+                        throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+                    }
+                    const bond = { id: `bond${bonos.length}`, name: data.name, codigoIsin: data.codigoIsin ?? null };
+                    bonos.push(bond);
+                    return bond;
+                },
+            },
+            bondCosts: {
+                create: async ({ data }) => costes.push(String(data.bondId)),
+            },
+            calculationInputs: {
+                create: async ({ data }) => {
+                    if (bonos.find(b => b.id === data.bondId)?.name === 'Bono Falla') {
+                        throw new Error('Conexión perdida');
+                    }
+                    return { id: `inputs-${data.bondId}` };
+                },
+            },
+            auditLog: {
+                create: async ({ data }) => auditLogs.push({ userId: data.userId, recordId: data.recordId, newValues: data.newValues }),
+            },
+        }));
+
+        const csv = [
+            'name,codigoIsin,valorNominal,valorComercial,numAnios,fechaEmision,frecuenciaCupon,tipoTasa,tasaAnual,impuestoRenta',
+            'Bono Uno,PEP00000002,1000,1050,5,2025-06-01,semestral,efectiva,8%,30%',
+            'Bono Falla,PEP00000003,1000,1050,5,2025-06-01,semestral,efectiva,8%,30%',
+            'Bono Carrera,PEP00000009,1000,1050,5,2025-06-01,semestral,efectiva,8%,30%',
+            'Bono Dos,,1000,1050,5,2025-06-01,semestral,efectiva,8%,30%',
+        ].join('\n');
+
+        const service = new BondBatchImportService(prisma);
+        const result = await service.importBatch(EMISOR_ID, USER_ID, parseBatchCSV(csv), false);
+
+        expect(result).toMatchObject({ dryRun: false, total: 4, validas: 2, creadas: 2 });
+        expect(result.filas[1].errores).toEqual([{ campo: 'bono', mensaje: 'Conexión perdida' }]);
+        expect(result.filas[2].errores).toEqual([{ campo: 'codigoIsin', mensaje: 'El código ISIN ya existe' }]);
+
+        // Solo quedan las filas creadas completas, cada una con su auditoría
+        expect(estado.bonos.map(b => b.name)).toEqual(['Bono Existente', 'Bono Uno', 'Bono Dos']);
+        expect(estado.costes).toEqual([result.filas[0].bondId, result.filas[3].bondId]);
+        expect(estado.auditLogs.map(l => [l.recordId, l.userId])).toEqual([
+            [result.filas[0].bondId, USER_ID],
+            [result.filas[3].bondId, USER_ID],
+        ]);
+        expect(estado.auditLogs[0].newValues).toMatchObject({ origen: 'importacion_lote', fila: 2 });
+    });
+});
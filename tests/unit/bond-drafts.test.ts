@@ -0,0 +1,113 @@
+// tests/unit/bond-drafts.test.ts
+// Tests de los borradores del wizard: acceso por emisor, autosave y límites
+
+import {
+    BondDraftInputSchema,
+    BondDraftService,
+    MAX_BORRADORES_POR_EMISOR,
+} from '@/lib/services/bonds/BondDrafts';
+import { crearPrismaFake } from '@/tests/helpers/prismaFake';
+
+describe('Bond Drafts Tests', () => {
+    const EMISOR_ID = 'ckemisor0000000000000000';
+    const OTRO_EMISOR_ID = 'ckemisor0000000000000001';
+    const USER_ID = 'user-emisor';
+
+    // Base en memoria con solo las consultas del servicio
+    const crearPrisma = () => {
+        const estado = {
+            emisores: {
+                [EMISOR_ID]: { userId: USER_ID },
+                [OTRO_EMISOR_ID]: { userId: 'otro-usuario' },
+            } as Record<string, { userId: string }>,
+            borradores: [] as { id: string; emisorId?: unknown; [campo: string]: unknown }[],
+        };
+        type Borrador = (typeof estado.borradores)[number];
+
+        const prisma = crearPrismaFake(estado, ({ emisores, borradores }) => {
+            const coincide = (where?: { id?: unknown; emisorId?: unknown }) => (d: Borrador) =>
+                (!where?.id || d.id === where.id) && (!where?.emisorId || d.emisorId === where.emisorId);
+
+            return {
+                emisorProfile: { findUnique: async ({ where }) => emisores[where.id ?? ''] ?? null },
+                bondDraft: {
+                    findMany: async ({ where }) => borradores.filter(coincide(where)),
+                    findFirst: async ({ where }) => borradores.find(coincide(where)) ?? null,
+                    findUniqueOrThrow: async ({ where }) => borradores.find(coincide(where)),
+                    count: async ({ where }) => borradores.filter(coincide(where)).length,
+                    create: async ({ data }) => {
+                        const draft = { id: `draft${borradores.length + 1}`, ...data, updatedAt: new Date() };
+                        borradores.push(draft);
+                        return draft;
+                    },
+                    updateMany: async ({ where, data }) => {
+                        const encontrados = borradores.filter(coincide(where));
+                        encontrados.forEach(d => Object.assign(d, data));
+                        return { count: encontrados.length };
+                    },
+                    deleteMany: async ({ where }) => {
+                        const antes = borradores.length;
+                        borradores.splice(0, borradores.length, ...borradores.filter(d => !coincide(where)(d)));
+                        return { count: antes - borradores.length };
+                    },
+                },
+            };
+        });
+
+        return { prisma, borradores: estado.borradores };
+    };
+
+    const input = (name = '', currentStep = 1) => ({
+        currentStep,
+        data: { step1: { name, valorNominal: '1000', frecuenciaCupon: 'semestral' } },
+    });
+
+    test('El autosave crea el borrador y luego lo reemplaza', async () => {
+        const { prisma, borradores } = crearPrisma();
+        const service = new BondDraftService(prisma);
+
+        const creado = await service.create(EMISOR_ID, USER_ID, input());
+        expect(creado.name).toBeNull();
+
+        const guardado = await service.save(EMISOR_ID, creado.id, USER_ID, input('  Bono Serie A ', 2));
+        expect(guardado).toMatchObject({ name: 'Bono Serie A', currentStep: 2 });
+        expect(borradores).toHaveLength(1);
+
+        const retomado = await service.get(EMISOR_ID, creado.id, USER_ID);
+        expect((retomado.data as { step1: { valorNominal: string } }).step1.valorNominal).toBe('1000');
+
+        await service.remove(EMISOR_ID, creado.id, USER_ID);
+        expect(await service.list(EMISOR_ID, USER_ID)).toEqual([]);
+    });
+
+    test('Solo el usuario del emisor accede a sus borradores', async () => {
+        const { prisma } = crearPrisma();
+        const service = new BondDraftService(prisma);
+        const creado = await service.create(EMISOR_ID, USER_ID, input('Bono'));
+
+        await expect(service.list(EMISOR_ID, 'otro-usuario')).rejects.toMatchObject({ code: 'FORBIDDEN' });
+        await expect(service.list('ckemisor9999999999999999', USER_ID)).rejects.toMatchObject({ code: 'EMISOR_NOT_FOUND' });
+        // Un borrador de otro emisor no se encuentra aunque se conozca su id
+        await expect(service.get(OTRO_EMISOR_ID, creado.id, 'otro-usuario')).rejects.toMatchObject({ code: 'DRAFT_NOT_FOUND' });
+        await expect(service.save(OTRO_EMISOR_ID, creado.id, 'otro-usuario', input())).rejects.toMatchObject({ code: 'DRAFT_NOT_FOUND' });
+    });
+
+    test('Se limitan la cantidad y el tamaño de los borradores', async () => {
+        const { prisma } = crearPrisma();
+        const service = new BondDraftService(prisma);
+
+        for (let i = 0; i < MAX_BORRADORES_POR_EMISOR; i++) {
+            await service.create(EMISOR_ID, USER_ID, input(`Bono ${i}`));
+        }
+        await expect(service.create(EMISOR_ID, USER_ID, input())).rejects.toMatchObject({ code: 'TOO_MANY_DRAFTS' });
+
+        const enorme = { currentStep: 1, data: { step1: { name: 'x'.repeat(200_000) } } };
+        await expect(service.save(EMISOR_ID, 'draft1', USER_ID, enorme)).rejects.toMatchObject({ code: 'DRAFT_TOO_LARGE' });
+    });
+
+    test('El cuerpo del autosave exige paso válido y datos como objeto', () => {
+        expect(BondDraftInputSchema.safeParse(input()).success).toBe(true);
+        expect(BondDraftInputSchema.safeParse({ currentStep: 5, data: {} }).success).toBe(false);
+        expect(BondDraftInputSchema.safeParse({ currentStep: 1, data: [] }).success).toBe(false);
+    });
+});
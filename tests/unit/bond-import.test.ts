@@ -0,0 +1,105 @@
+// tests/unit/bond-import.test.ts
+// Tests de importación de bonos desde la hoja de cálculo y la plantilla CSV
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { CalculationWorkbook } from '@/lib/services/export/CalculationWorkbook';
+import { BondImporter } from '@/lib/services/bonds/BondImporter';
+import { CalculationInputs, GracePeriodType } from '@/lib/types/calculations';
+
+describe('Bond Import Tests', () => {
+    const EMISOR_ID = 'ckemisor0000000000000000';
+    const PLANTILLA = fs.readFileSync(path.join(process.cwd(), 'config', 'templates', 'bono.csv'), 'utf-8');
+
+    const INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 1050.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0.08,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10, 0.10, 0.10, 0.10, 0.10, 0.10],
+        graciaSerie: ['T', 'P', 'S', 'S', 'S', 'S', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+    };
+
+    test('La plantilla CSV se convierte en los datos de alta', () => {
+        const { valido, bono, errores } = BondImporter.fromCSV(PLANTILLA, EMISOR_ID);
+
+        expect(errores).toEqual([]);
+        expect(valido).toBe(true);
+        expect(bono).toMatchObject({
+            name: 'Bono VAC Americano',
+            valorNominal: 1000,
+            frecuenciaCupon: 'semestral',
+            periodicidadCapitalizacion: 'bimestral',
+            tasaAnual: 0.08,
+            tasaDescuento: 0.045,
+            fechaEmision: '2025-06-01',
+            colocacionPorcentaje: 0.0025,
+        });
+        expect(bono!.inflacionSerie).toHaveLength(10);
+        expect(bono!.graciaSerie).toEqual(Array(10).fill('S'));
+    });
+
+    test('Con ; como separador se admite coma decimal', () => {
+        const csv = PLANTILLA.replace(/,/g, ';').replace('E11;8%', 'E11;7,5%');
+        const { valido, bono } = BondImporter.fromCSV(csv, EMISOR_ID);
+
+        expect(valido).toBe(true);
+        expect(bono!.tasaAnual).toBeCloseTo(0.075, 10);
+    });
+
+    test('El libro exportado se vuelve a importar con los mismos datos', async () => {
+        const calculator = new FinancialCalculator();
+        const result = await calculator.calculate(INPUTS);
+        const archivo = await CalculationWorkbook.generar(result, 'Bono VAC');
+
+        const { valido, bono, errores } = await BondImporter.fromWorkbook(archivo, EMISOR_ID);
+
+        expect(errores).toEqual([]);
+        expect(valido).toBe(true);
+        expect(bono).toMatchObject({
+            name: 'Bono VAC',
+            valorComercial: 1050,
+            tipoTasa: 'efectiva',
+            impuestoRenta: 0.30,
+            fechaEmision: '2025-06-01',
+            inflacionSerie: INPUTS.inflacionSerie,
+            graciaSerie: INPUTS.graciaSerie,
+        });
+    });
+
+    test('Los errores se reportan por celda y línea', () => {
+        const csv = PLANTILLA
+            .replace('E4,1000', 'E4,mil')
+            .replace('E7,semestral', 'E7,quinquenal')
+            .replace('3,10%,S', '3,10%,X');
+        const { valido, errores } = BondImporter.fromCSV(csv, EMISOR_ID);
+
+        expect(valido).toBe(false);
+        expect(errores).toEqual(expect.arrayContaining([
+            expect.objectContaining({ celda: 'E4', campo: 'valorNominal', linea: 7 }),
+            expect.objectContaining({ celda: 'E30', campo: 'graciaSerie' }),
+        ]));
+
+        // Superado el formato, las reglas del alta también se reportan por celda
+        const incompleto = BondImporter.fromCSV(PLANTILLA.replace('E7,semestral', 'E7,quinquenal'), EMISOR_ID);
+        expect(incompleto.errores).toContainEqual(expect.objectContaining({ celda: 'E7', campo: 'frecuenciaCupon' }));
+
+        // Y las del motor de cálculo
+        const negativo = BondImporter.fromCSV(PLANTILLA.replace('E12,4.5%', 'E12,-4.5%'), EMISOR_ID);
+        expect(negativo.valido).toBe(false);
+        expect(negativo.errores).toContainEqual(expect.objectContaining({ celda: 'E12', campo: 'tasaDescuento' }));
+    });
+});
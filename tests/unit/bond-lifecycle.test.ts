@@ -0,0 +1,114 @@
+// tests/unit/bond-lifecycle.test.ts
+// Tests de la tabla de transiciones del ciclo de vida del bono
+
+import {
+    BOND_TRANSITIONS,
+    BondLifecycleContext,
+    BondLifecycleService,
+} from '@/lib/services/bonds/BondLifecycle';
+import { crearPrismaFake } from '@/tests/helpers/prismaFake';
+
+describe('Bond Lifecycle Tests', () => {
+    const HOY = new Date('2026-01-15');
+
+    const contexto = (overrides: Partial<BondLifecycleContext> = {}): BondLifecycleContext => ({
+        status: 'DRAFT',
+        flujosCalculados: 11,
+        inversionesActivas: 0,
+        fechaVencimiento: new Date('2030-06-01'),
+        ...overrides,
+    });
+
+    const validar = (ctx: BondLifecycleContext, hacia: Parameters<typeof BondLifecycleService.validateTransition>[1], actor: 'EMISOR' | 'SISTEMA' = 'EMISOR') =>
+        BondLifecycleService.validateTransition(ctx, hacia, actor, HOY)?.code ?? null;
+
+    test('Publicar un borrador exige flujos calculados y bono vigente', () => {
+        expect(validar(contexto(), 'ACTIVE')).toBeNull();
+        expect(validar(contexto({ flujosCalculados: 0 }), 'ACTIVE')).toBe('FLOWS_NOT_CALCULATED');
+        expect(validar(contexto({ fechaVencimiento: new Date('2025-06-01') }), 'ACTIVE')).toBe('BOND_MATURED');
+        expect(validar(contexto(), 'ACTIVE', 'SISTEMA')).toBeNull();
+    });
+
+    test('Cancelar exige que no haya inversiones activas', () => {
+        expect(validar(contexto({ status: 'ACTIVE' }), 'CANCELLED')).toBeNull();
+        expect(validar(contexto({ status: 'ACTIVE', inversionesActivas: 3 }), 'CANCELLED')).toBe('ACTIVE_INVESTMENTS');
+        expect(validar(contexto({ status: 'PAUSED', inversionesActivas: 1 }), 'CANCELLED')).toBe('ACTIVE_INVESTMENTS');
+        expect(validar(contexto({ status: 'ACTIVE', inversionesActivas: 1 }), 'DRAFT')).toBe('ACTIVE_INVESTMENTS');
+    });
+
+    test('Completar y vencer solo tras la fecha de vencimiento', () => {
+        const vencido = { fechaVencimiento: new Date('2026-01-01') };
+
+        expect(validar(contexto({ status: 'ACTIVE' }), 'COMPLETED')).toBe('BOND_NOT_MATURED');
+        expect(validar(contexto({ status: 'ACTIVE', ...vencido }), 'COMPLETED')).toBeNull();
+        expect(validar(contexto({ status: 'PAUSED', ...vencido }), 'EXPIRED', 'SISTEMA')).toBeNull();
+        // Solo el proceso de vencimientos marca EXPIRED
+        expect(validar(contexto({ status: 'ACTIVE', ...vencido }), 'EXPIRED')).toBe('ACTOR_NOT_ALLOWED');
+        expect(validar(contexto({ status: 'EXPIRED', ...vencido }), 'COMPLETED')).toBeNull();
+    });
+
+    test('Transiciones fuera de la tabla y estados terminales se rechazan', () => {
+        expect(validar(contexto(), 'PAUSED')).toBe('INVALID_TRANSITION');
+        expect(validar(contexto(), 'DRAFT')).toBe('INVALID_TRANSITION');
+        expect(validar(contexto({ status: 'CANCELLED' }), 'ACTIVE')).toBe('INVALID_TRANSITION');
+        expect(validar(contexto({ status: 'COMPLETED' }), 'ACTIVE')).toBe('INVALID_TRANSITION');
+        expect(validar(contexto({ status: 'PAUSED' }), 'PAUSED')).toBe('INVALID_TRANSITION');
+        expect(validar(contexto({ status: 'DRAFT' }), 'CANCELLED', 'SISTEMA')).toBe('ACTOR_NOT_ALLOWED');
+
+        const terminales = (Object.keys(BOND_TRANSITIONS) as (keyof typeof BOND_TRANSITIONS)[])
+            .filter(BondLifecycleService.isTerminal);
+        expect(terminales.sort()).toEqual(['CANCELLED', 'COMPLETED']);
+    });
+
+    describe('Transiciones del emisor', () => {
+        const BOND_ID = 'ckbond00000000000000000';
+
+        const crearPrisma = () => {
+            const estado = {
+                bond: { id: BOND_ID, status: 'ACTIVE', fechaVencimiento: new Date('2030-06-01') },
+                auditLogs: [] as { userId?: string | null; newValues?: unknown }[],
+            };
+
+            const prisma = crearPrismaFake(estado, ({ bond, auditLogs }) => ({
+                bond: {
+                    findUnique: async () => ({
+                        status: bond.status,
+                        fechaVencimiento: bond.fechaVencimiento,
+                        emisor: { userId: 'emisor-user' },
+                        _count: { cashFlows: 11, investments: 0 },
+                    }),
+                    findUniqueOrThrow: async () => ({ ...bond }),
+                    updateMany: async ({ where, data }) => {
+                        if (bond.status !== where?.status) return { count: 0 };
+                        bond.status = String(data.status);
+                        return { count: 1 };
+                    },
+                },
+                auditLog: {
+                    create: async ({ data }) => auditLogs.push({ userId: data.userId, newValues: data.newValues }),
+                },
+            }));
+
+            return { service: new BondLifecycleService(prisma), estado };
+        };
+
+        test('Solo el usuario del emisor consulta y cambia el estado', async () => {
+            const { service, estado } = crearPrisma();
+
+            await expect(service.getTransitions(BOND_ID, { actor: 'EMISOR', userId: 'otro-usuario' }))
+                .rejects.toMatchObject({ code: 'FORBIDDEN' });
+            await expect(service.transition(BOND_ID, 'PAUSED', { actor: 'EMISOR', userId: 'otro-usuario' }))
+                .rejects.toMatchObject({ code: 'FORBIDDEN' });
+            await expect(service.transition(BOND_ID, 'PAUSED', { actor: 'EMISOR' }))
+                .rejects.toMatchObject({ code: 'FORBIDDEN' });
+            expect(estado.bond.status).toBe('ACTIVE');
+            expect(estado.auditLogs).toEqual([]);
+
+            await service.transition(BOND_ID, 'PAUSED', { actor: 'EMISOR', userId: 'emisor-user', motivo: 'Revisión' });
+            expect(estado.bond.status).toBe('PAUSED');
+            expect(estado.auditLogs).toEqual([
+                { userId: 'emisor-user', newValues: { status: 'PAUSED', actor: 'EMISOR', motivo: 'Revisión' } },
+            ]);
+        });
+    });
+});
@@ -0,0 +1,124 @@
+// tests/unit/bond-maturity.test.ts
+// Tests del proceso de vencimientos: redención final e idempotencia
+
+import { BondMaturityService } from '@/lib/services/bonds/BondMaturity';
+import { crearPrismaFake } from '@/tests/helpers/prismaFake';
+
+const decimal = (value: number) => ({ toNumber: () => value });
+
+describe('Bond Maturity Tests', () => {
+    const BOND_ID = 'ckbond00000000000000000';
+    const VENCIMIENTO = new Date('2026-06-01');
+
+    // Base en memoria con solo las consultas que hace el proceso
+    const crearPrisma = () => {
+        const estado = {
+            bond: { id: BOND_ID, name: 'Bono Serie A', status: 'ACTIVE', fechaVencimiento: VENCIMIENTO },
+            inversiones: [
+                { id: 'inv1', userId: 'u1', montoInvertido: decimal(2100), precioCompra: decimal(1050), status: 'ACTIVE', montoRedencion: null as number | null },
+                { id: 'inv2', userId: 'u2', montoInvertido: decimal(1050), precioCompra: decimal(1050), status: 'ACTIVE', montoRedencion: null as number | null },
+            ],
+            auditLogs: [] as { tableName: string; userId?: string | null; status: unknown }[],
+        };
+
+        const prisma = crearPrismaFake(estado, ({ bond, inversiones, auditLogs }) => {
+            const activas = () => inversiones.filter(i => i.status === 'ACTIVE');
+
+            return {
+                bond: {
+                    findMany: async ({ where }) => {
+                        const { lte } = where?.fechaVencimiento as { lte: Date };
+                        if (bond.fechaVencimiento > lte) return [];
+                        const pendiente = ['ACTIVE', 'PAUSED'].includes(bond.status)
+                            || (bond.status === 'EXPIRED' && activas().length > 0);
+                        return pendiente ? [{ ...bond }] : [];
+                    },
+                    findUnique: async () => ({
+                        status: bond.status,
+                        fechaVencimiento: bond.fechaVencimiento,
+                        emisor: { userId: 'emisor-user' },
+                        _count: { cashFlows: 11, investments: activas().length },
+                    }),
+                    findUniqueOrThrow: async () => ({ ...bond }),
+                    updateMany: async ({ where, data }) => {
+                        if (bond.status !== where?.status) return { count: 0 };
+                        bond.status = String(data.status);
+                        return { count: 1 };
+                    },
+                },
+                cashFlow: {
+                    findFirst: async () => ({ flujoBonista: decimal(1189.7885) }),
+                },
+                userInvestment: {
+                    findMany: async () => activas().map(i => ({ ...i })),
+                    updateMany: async ({ where, data }) => {
+                        const inversion = inversiones.find(i => i.id === where?.id && i.status === where?.status);
+                        if (!inversion) return { count: 0 };
+                        Object.assign(inversion, data);
+                        return { count: 1 };
+                    },
+                },
+                auditLog: {
+                    create: async ({ data }) => auditLogs.push({
+                        tableName: data.tableName,
+                        userId: data.userId,
+                        status: (data.newValues as { status: unknown }).status,
+                    }),
+                },
+            };
+        });
+
+        return { prisma, ...estado };
+    };
+
+    test('La redención escala el último flujo del bonista a los bonos en cartera', () => {
+        expect(BondMaturityService.calcularMontoRedencion(2100, 1050, 1189.7885)).toBeCloseTo(2379.577, 4);
+        expect(BondMaturityService.calcularMontoRedencion(1000, 1000, 1100)).toBe(1100);
+        expect(BondMaturityService.calcularMontoRedencion(1000, 0, 1100)).toBe(0);
+    });
+
+    test('Vence el bono y completa sus inversiones con auditoría', async () => {
+        const { prisma, bond, inversiones, auditLogs } = crearPrisma();
+        const service = new BondMaturityService(prisma);
+
+        const result = await service.processMaturities({ fecha: new Date('2026-06-02') });
+
+        expect(result).toMatchObject({ procesados: 1, bonosExpirados: 1, inversionesCompletadas: 2, errores: 0 });
+        expect(bond.status).toBe('EXPIRED');
+        expect(inversiones.map(i => i.status)).toEqual(['COMPLETED', 'COMPLETED']);
+        expect(inversiones[0].montoRedencion).toBeCloseTo(2379.577, 4);
+        expect(result.bonos[0].montoRedencionTotal).toBeCloseTo(2379.577 + 1189.7885, 4);
+
+        expect(auditLogs.map(l => [l.tableName, l.status])).toEqual([
+            ['bonds', 'EXPIRED'],
+            ['user_investments', 'COMPLETED'],
+            ['user_investments', 'COMPLETED'],
+        ]);
+        expect(auditLogs[0].userId).toBeNull();
+    });
+
+    test('Ejecutarlo otra vez no vuelve a procesar nada', async () => {
+        const { prisma, auditLogs } = crearPrisma();
+        const service = new BondMaturityService(prisma);
+
+        await service.processMaturities({ fecha: new Date('2026-06-02') });
+        const segunda = await service.processMaturities({ fecha: new Date('2026-06-02') });
+
+        expect(segunda).toMatchObject({ procesados: 0, bonosExpirados: 0, inversionesCompletadas: 0 });
+        expect(auditLogs).toHaveLength(3);
+    });
+
+    test('Bonos vigentes y simulaciones no se modifican', async () => {
+        const { prisma, bond, inversiones, auditLogs } = crearPrisma();
+        const service = new BondMaturityService(prisma);
+
+        const vigente = await service.processMaturities({ fecha: new Date('2026-05-31') });
+        expect(vigente.procesados).toBe(0);
+
+        const simulacion = await service.processMaturities({ fecha: new Date('2026-06-02'), dryRun: true });
+        expect(simulacion).toMatchObject({ dryRun: true, bonosExpirados: 1, inversionesCompletadas: 2 });
+        expect(bond.status).toBe('ACTIVE');
+        expect(inversiones.every(i => i.status === 'ACTIVE')).toBe(true);
+        expect(auditLogs).toHaveLength(0);
+    });
+});
@@ -0,0 +1,224 @@
+// tests/unit/bond-versions.test.ts
+// Tests del versionado de términos: snapshot, diff de inputs, comparación de métricas y edición
+
+import { BondTerms, BondTermsSource, BondVersionService } from '@/lib/services/bonds/BondVersions';
+import type { BondModel, BondWithFullRelations, UpdateBondInput } from '@/lib/models/Bond';
+import { crearPrismaFake } from '@/tests/helpers/prismaFake';
+
+const decimal = (value: number) => ({ toNumber: () => value });
+
+describe('Bond Versions Tests', () => {
+    const BOND_ID = 'ckbond00000000000000000';
+
+    const crearBono = (overrides: Partial<BondTermsSource> = {}): BondTermsSource => ({
+        name: 'Bono Serie A',
+        codigoIsin: '',
+        valorNominal: decimal(1000),
+        valorComercial: decimal(1050),
+        numAnios: 5,
+        fechaEmision: new Date('2025-06-01'),
+        fechaVencimiento: new Date('2030-06-01'),
+        frecuenciaCupon: 'SEMESTRAL',
+        baseDias: 360,
+        dayCountConvention: null,
+        mercadoCalendario: null,
+        businessDayConvention: 'NONE',
+        instrumentType: 'CUPON',
+        tipoTasa: 'EFECTIVA',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: decimal(0.08),
+        couponRateType: 'FIJA',
+        spreadFlotante: null,
+        tasaMaxima: null,
+        tasaMinima: null,
+        indexadoInflacion: false,
+        inflacionAnual: null,
+        primaVencimiento: decimal(0.01),
+        impuestoRenta: decimal(0.3),
+        amortizationMethod: 'AMERICANO',
+        capitalizarGraciaTotal: false,
+        primaRescate: null,
+        curvaDescuentoId: null,
+        costs: {
+            estructuracionPct: decimal(0.01),
+            colocacionPct: decimal(0.0025),
+            flotacionPct: decimal(0.0045),
+            cavaliPct: decimal(0.005),
+        },
+        options: [],
+        sinkingFund: [],
+        calculationInputs: {
+            inflacionSerie: Array(10).fill(0.03),
+            graciaSerie: JSON.stringify(Array(10).fill('S')),
+            tasaCuponSerie: null,
+        },
+        ...overrides,
+    });
+
+    test('Los términos se guardan como valores planos', () => {
+        const terminos = BondVersionService.terminosDe(crearBono());
+
+        expect(terminos).toMatchObject({
+            codigoIsin: null,
+            valorNominal: 1000,
+            fechaEmision: '2025-06-01',
+            tasaAnual: 0.08,
+            costes: { colocacionPct: 0.0025 },
+            tasaCuponSerie: [],
+        });
+        // Series guardadas como texto JSON en registros antiguos
+        expect(terminos.graciaSerie).toHaveLength(10);
+    });
+
+    test('El diff lista solo los campos que cambiaron, con los costes por componente', () => {
+        const anterior = BondVersionService.terminosDe(crearBono());
+        const nuevo = BondVersionService.terminosDe(crearBono({
+            tasaAnual: decimal(0.09),
+            costs: { ...crearBono().costs!, colocacionPct: decimal(0.003) },
+            calculationInputs: { inflacionSerie: Array(10).fill(0.04), graciaSerie: Array(10).fill('S'), tasaCuponSerie: null },
+        }));
+
+        expect(BondVersionService.diffTerminos(anterior, nuevo)).toEqual([
+            { campo: 'tasaAnual', anterior: 0.08, nuevo: 0.09 },
+            { campo: 'inflacionSerie', anterior: Array(10).fill(0.03), nuevo: Array(10).fill(0.04) },
+            { campo: 'costes.colocacionPct', anterior: 0.0025, nuevo: 0.003 },
+        ]);
+        expect(BondVersionService.diffTerminos(anterior, anterior)).toEqual([]);
+    });
+
+    test('Las métricas se comparan solo si alguna versión las tiene', () => {
+        const cambios = BondVersionService.compararMetricas(
+            { precioActual: 1753.34, tceaEmisor: 0.1845, ytc: undefined },
+            { precioActual: 1700, tceaEmisor: 0.19 }
+        );
+
+        expect(cambios).toHaveLength(2);
+        expect(cambios[0]).toMatchObject({ metrica: 'precioActual', anterior: 1753.34, nuevo: 1700 });
+        expect(cambios[0].variacion).toBeCloseTo(-53.34, 10);
+        expect(cambios[1].variacion).toBeCloseTo(0.0055, 10);
+
+        // Versión sin calcular: sin variación
+        expect(BondVersionService.compararMetricas(null, { duracion: 4.45 }))
+            .toEqual([{ metrica: 'duracion', anterior: null, nuevo: 4.45, variacion: null }]);
+    });
+
+    describe('Edición de términos', () => {
+        const crearPrisma = ({ editable = true, fallaAuditoria = false } = {}) => {
+            const estado = {
+                bono: crearBono(),
+                versiones: [] as { id: string; version: number; motivo?: string | null; terminos: unknown }[],
+                auditLogs: [] as { tableName: string; action: string; oldValues?: unknown; newValues?: unknown }[],
+                // Flujos y métricas del último cálculo
+                flujos: [1, 2, 3],
+                metricas: ['EMISOR', 'BONISTA'],
+            };
+            const updates: UpdateBondInput[] = [];
+
+            const prisma = crearPrismaFake(estado, (datos) => ({
+                bond: {
+                    findUnique: async ({ select }) =>
+                        select?.emisor ? { emisor: { userId: 'emisor-user' } } : datos.bono,
+                    update: async ({ data }) => {
+                        if (data.tasaAnual !== undefined) datos.bono.tasaAnual = decimal(Number(data.tasaAnual));
+                        return datos.bono;
+                    },
+                },
+                bondTermsVersion: {
+                    findFirst: async () => [...datos.versiones].sort((a, b) => b.version - a.version)[0] ?? null,
+                    create: async ({ data }) => {
+                        const version = { id: `version${data.version}`, ...data };
+                        datos.versiones.push(version);
+                        return version;
+                    },
+                },
+                cashFlow: {
+                    deleteMany: async () => ({ count: datos.flujos.splice(0).length }),
+                },
+                financialMetrics: {
+                    deleteMany: async () => ({ count: datos.metricas.splice(0).length }),
+                },
+                auditLog: {
+                    create: async ({ data }) => {
+                        if (fallaAuditoria) throw new Error('Error escribiendo la auditoría');
+                        return datos.auditLogs.push({ ...data });
+                    },
+                },
+            }));
+
+            // Solo la parte del modelo que usa el servicio; escribe con el cliente que recibe
+            const bondModel: Pick<BondModel, 'update' | 'canModify'> = {
+                canModify: async () => editable,
+                update: async (id, cambios, tx) => {
+                    updates.push(cambios);
+                    await (tx ?? prisma).bond.update({ where: { id }, data: { tasaAnual: cambios.tasaAnual } });
+                    return {} as BondWithFullRelations;
+                },
+            };
+
+            const service = new BondVersionService(prisma, bondModel);
+            return { service, updates, ...estado };
+        };
+
+        test('La primera edición registra la versión inicial y la nueva con sus cambios', async () => {
+            const { service, versiones, auditLogs, flujos, metricas } = crearPrisma();
+
+            const resultado = await service.updateTerms(BOND_ID, 'emisor-user', { tasaAnual: 0.09 }, 'Ajuste de tasa');
+
+            expect(resultado).toEqual({ version: 2, cambios: [{ campo: 'tasaAnual', anterior: 0.08, nuevo: 0.09 }] });
+            expect(versiones.map(v => [v.version, v.motivo])).toEqual([[1, 'Versión inicial'], [2, 'Ajuste de tasa']]);
+            expect((versiones[1].terminos as BondTerms).tasaAnual).toBe(0.09);
+            expect(auditLogs[0]).toMatchObject({
+                tableName: 'bonds',
+                action: 'UPDATE',
+                oldValues: { version: 1, tasaAnual: 0.08 },
+                newValues: { version: 2, tasaAnual: 0.09, motivo: 'Ajuste de tasa' },
+            });
+
+            // Los flujos y métricas eran de la versión 1: hay que volver a calcular antes de publicar
+            expect(flujos).toEqual([]);
+            expect(metricas).toEqual([]);
+
+            // Sin cambios no se crea otra versión
+            const igual = await service.updateTerms(BOND_ID, 'emisor-user', { tasaAnual: 0.09 });
+            expect(igual).toEqual({ version: 2, cambios: [] });
+            expect(versiones).toHaveLength(2);
+        });
+
+        test('Solo el emisor edita, y solo bonos en borrador sin inversiones', async () => {
+            const { service, updates } = crearPrisma({ editable: false });
+
+            await expect(service.updateTerms(BOND_ID, 'otro-usuario', { tasaAnual: 0.09 }))
+                .rejects.toMatchObject({ code: 'FORBIDDEN' });
+            await expect(service.updateTerms(BOND_ID, 'emisor-user', { tasaAnual: 0.09 }))
+                .rejects.toMatchObject({ code: 'BOND_NOT_EDITABLE' });
+            await expect(service.listVersions(BOND_ID, 'otro-usuario')).rejects.toMatchObject({ code: 'FORBIDDEN' });
+            await expect(service.compareVersions(BOND_ID, 'otro-usuario', 1, 2)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+            expect(updates).toEqual([]);
+        });
+
+        test('Las series editadas deben tener un valor por cupón o por año', async () => {
+            const { service, updates, versiones } = crearPrisma();
+
+            // Semestral a 5 años: 10 cupones
+            await expect(service.updateTerms(BOND_ID, 'emisor-user', { inflacionSerie: Array(7).fill(0.03) }))
+                .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+            await expect(service.updateTerms(BOND_ID, 'emisor-user', { numAnios: 3, graciaSerie: Array(10).fill('S') }))
+                .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+            expect(updates).toEqual([]);
+            expect(versiones).toEqual([]);
+        });
+
+        test('Si falla el registro de la versión, el bono conserva sus términos', async () => {
+            const { service, bono, versiones, auditLogs, updates, flujos } = crearPrisma({ fallaAuditoria: true });
+
+            await expect(service.updateTerms(BOND_ID, 'emisor-user', { tasaAnual: 0.09 }, 'Ajuste de tasa'))
+                .rejects.toThrow('Error escribiendo la auditoría');
+
+            expect(updates).toHaveLength(1);
+            expect(bono.tasaAnual.toNumber()).toBe(0.08);
+            expect(versiones).toEqual([]);
+            expect(auditLogs).toEqual([]);
+            expect(flujos).toEqual([1, 2, 3]);
+        });
+    });
+});
@@ -0,0 +1,108 @@
+// tests/unit/business-days.test.ts
+// Tests del calendario de días hábiles y del ajuste de fechas de pago
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { BusinessDayCalendar } from '@/lib/services/calculations/BusinessDayCalendar';
+import { CalculationInputs, GracePeriodType } from '@/lib/types/calculations';
+import peruCalendar from '@/config/calendars/PE.json';
+
+const iso = (fecha: Date) => fecha.toISOString().slice(0, 10);
+
+describe('Business Day Calendar Tests', () => {
+    const calendario = BusinessDayCalendar.fromJSON(peruCalendar);
+
+    describe('Carga de calendarios', () => {
+        test('Lee el calendario JSON de Perú', () => {
+            expect(calendario.esDiaHabil(new Date('2025-07-28'))).toBe(false);
+            expect(calendario.esDiaHabil(new Date('2025-07-30'))).toBe(true);
+            expect(calendario.getFeriados()).toContain('2026-04-03'); // Viernes Santo
+        });
+
+        test('Lee un archivo ICS', () => {
+            const ics = [
+                'BEGIN:VCALENDAR',
+                'BEGIN:VEVENT',
+                'DTSTART;VALUE=DATE:20251208',
+                'SUMMARY:Inmaculada Concepción',
+                'END:VEVENT',
+                'END:VCALENDAR'
+            ].join('\r\n');
+
+            const desdeIcs = BusinessDayCalendar.fromICS(ics);
+            expect(desdeIcs.getFeriados()).toEqual(['2025-12-08']);
+            expect(desdeIcs.esDiaHabil(new Date('2025-12-08'))).toBe(false);
+        });
+
+        test('Rechaza fechas mal formadas', () => {
+            expect(() => BusinessDayCalendar.fromJSON({ market: 'XX', holidays: ['08/12/2025'] }))
+                .toThrow('Fecha de feriado inválida');
+        });
+    });
+
+    describe('Reglas de ajuste', () => {
+        test('Following salta fines de semana y feriados consecutivos', () => {
+            // Lunes 08/12 y martes 09/12 son feriados
+            expect(iso(calendario.ajustar(new Date('2025-12-08'), 'following'))).toBe('2025-12-10');
+        });
+
+        test('Modified Following retrocede si cambia de mes', () => {
+            // Sábado 28/02/2026
+            const fecha = new Date('2026-02-28');
+            expect(iso(calendario.ajustar(fecha, 'following'))).toBe('2026-03-02');
+            expect(iso(calendario.ajustar(fecha, 'modified_following'))).toBe('2026-02-27');
+        });
+
+        test('Preceding busca el día hábil anterior', () => {
+            expect(iso(calendario.ajustar(new Date('2025-07-29'), 'preceding'))).toBe('2025-07-25');
+        });
+
+        test('Días hábiles y regla none no se modifican', () => {
+            expect(iso(calendario.ajustar(new Date('2025-07-30'), 'following'))).toBe('2025-07-30');
+            expect(iso(calendario.ajustar(new Date('2025-07-28'), 'none'))).toBe('2025-07-28');
+        });
+    });
+
+    describe('Integración con el calculador', () => {
+        const calculator = new FinancialCalculator({ validateInputs: true });
+
+        const INPUTS: CalculationInputs = {
+            valorNominal: 1000.00,
+            valorComercial: 1050.00,
+            numAnios: 2,
+            frecuenciaCupon: 'semestral',
+            diasPorAno: 360,
+            dayCountConvention: 'ACT/360',
+            tipoTasa: 'efectiva',
+            periodicidadCapitalizacion: 'bimestral',
+            tasaAnual: 0.08,
+            tasaDescuento: 0.045,
+            impuestoRenta: 0.30,
+            fechaEmision: new Date('2025-02-28'),
+            primaPorcentaje: 0.01,
+            estructuracionPorcentaje: 0.01,
+            colocacionPorcentaje: 0.0025,
+            flotacionPorcentaje: 0.0045,
+            cavaliPorcentaje: 0.005,
+            inflacionSerie: [0, 0],
+            graciaSerie: ['S', 'S'] as GracePeriodType[],
+            feriados: calendario.getFeriados()
+        };
+
+        test('Ajusta la fecha de pago y conserva la fecha de devengo', async () => {
+            const result = await calculator.calculate({ ...INPUTS, businessDayConvention: 'modified_following' });
+
+            expect(iso(result.flujos[2].fechaDevengo as Date)).toBe('2026-02-28');
+            expect(iso(result.flujos[2].fecha)).toBe('2026-02-27');
+        });
+
+        test('Los intereses se devengan con las fechas sin ajustar', async () => {
+            const sinAjuste = await calculator.calculate({ ...INPUTS, businessDayConvention: 'none' });
+            const ajustado = await calculator.calculate({ ...INPUTS, businessDayConvention: 'following' });
+
+            ajustado.flujos.forEach((flujo, i) => {
+                expect(flujo.cupon).toBe(sinAjuste.flujos[i].cupon);
+            });
+            expect(iso(ajustado.flujos[2].fecha)).toBe('2026-03-02');
+        });
+    });
+});
@@ -0,0 +1,98 @@
+// tests/unit/calculation-trace.test.ts
+// Tests de la traza de cálculo: cada celda con su fórmula, entradas y resultado
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { CalculationInputs, CalculationResult, GracePeriodType } from '@/lib/types/calculations';
+
+describe('Calculation Trace Tests', () => {
+    const calculator = new FinancialCalculator({ validateInputs: true, includeIntermediateSteps: true });
+
+    const INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 1050.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0.08,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10],
+        graciaSerie: ['S', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+    };
+
+    const celda = (result: CalculationResult, nombre: string) => {
+        const entrada = result.traza!.find(e => e.celda === nombre);
+        expect(entrada).toBeDefined();
+        return entrada!;
+    };
+
+    test('Sin includeIntermediateSteps no hay traza', async () => {
+        const result = await new FinancialCalculator().calculate(INPUTS);
+        expect(result.traza).toBeUndefined();
+    });
+
+    test('Cada celda de la tabla de flujos coincide con el resultado', async () => {
+        const result = await calculator.calculate(INPUTS);
+        const flujo = result.flujos[3];
+
+        const cupon = celda(result, 'H[3]');
+        expect(cupon.formula).toBe('H[n] = −G[n]*L9');
+        expect(cupon.resultado).toBe(flujo.cupon);
+        expect(cupon.entradas).toEqual({ 'G[n]': flujo.bonoIndexado, L9: result.intermedios.tasaCuponPeriodica });
+
+        expect(celda(result, 'F[3]').entradas).toEqual({
+            'G[n−1]': result.flujos[2].bonoIndexado,
+            'J[n−1]': result.flujos[2].amortizacion,
+        });
+        expect(celda(result, 'P[3]').formula).toBe('P[n] = O[n]/(1+L10)^A[n]');
+        expect(celda(result, 'M[0]').resultado).toBe(result.flujos[0].flujoEmisor);
+
+        // Todas las columnas C-R de cada período y ninguna celda repetida
+        expect(result.traza!.filter(e => e.periodo === 3)).toHaveLength(16);
+        expect(new Set(result.traza!.map(e => e.celda)).size).toBe(result.traza!.length);
+    });
+
+    test('Explica los valores intermedios y las métricas', async () => {
+        const result = await calculator.calculate(INPUTS);
+
+        expect(celda(result, 'L8').formula).toBe('L8 = E11');
+        expect(celda(result, 'L9').resultado).toBe(result.intermedios.tasaCuponPeriodica);
+        expect(celda(result, 'L11').resultado).toBe(result.intermedios.costesInicialesEmisor);
+
+        const precio = celda(result, 'Precio');
+        expect(precio.formula).toBe('Precio = VNA(L10;O[1]:O[L7])');
+        expect(precio.resultado).toBeCloseTo(1753.34, 1);
+
+        const duracion = celda(result, 'Duración');
+        expect((duracion.entradas['SUMA(Q)'] as number) / (duracion.entradas['SUMA(P)'] as number))
+            .toBeCloseTo(result.metricas.duracion, 6);
+        expect(celda(result, 'TREA').resultado).toBe(result.metricas.treaBonista);
+    });
+
+    test('Elige la fórmula según la gracia y el método de amortización', async () => {
+        const result = await calculator.calculate({
+            ...INPUTS,
+            amortizationMethod: 'aleman',
+            graciaSerie: ['T', 'T', 'P', 'P', 'S', 'S', 'S', 'S', 'S', 'S'] as GracePeriodType[],
+            inflacionSerie: Array(10).fill(0.10)
+        });
+
+        expect(celda(result, 'I[1]').formula).toBe('I[n] = 0 (gracia total)');
+        expect(celda(result, 'F[2]').formula).toBe('F[n] = G[n−1] (gracia total)');
+        expect(celda(result, 'I[3]').formula).toBe('I[n] = H[n] (gracia parcial)');
+        expect(celda(result, 'J[3]').resultado).toBe(0);
+
+        const amortizacion = celda(result, 'J[6]');
+        expect(amortizacion.formula).toBe('J[n] = −G[n]/(L7−A[n]+1)');
+        expect(amortizacion.resultado).toBe(result.flujos[6].amortizacion);
+        expect(celda(result, 'K[10]').formula).toBe('K[n] = −E16*E4');
+    });
+});
@@ -0,0 +1,96 @@
+// tests/unit/calculation-workbook.test.ts
+// Tests del libro .xlsx: disposición de la hoja original y fórmulas vivas
+
+import ExcelJS from 'exceljs';
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { CalculationWorkbook } from '@/lib/services/export/CalculationWorkbook';
+import { CalculationInputs, GracePeriodType } from '@/lib/types/calculations';
+
+describe('Calculation Workbook Tests', () => {
+    const calculator = new FinancialCalculator({ validateInputs: true });
+
+    const INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 1050.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0.08,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10],
+        graciaSerie: ['S', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+    };
+
+    const leer = async (inputs: CalculationInputs) => {
+        const result = await calculator.calculate(inputs);
+        const libro = new ExcelJS.Workbook();
+        const archivo = await CalculationWorkbook.generar(result, 'Bono VAC');
+        await libro.xlsx.load(archivo as unknown as ExcelJS.Buffer);
+        return { result, hoja: libro.getWorksheet('Bono')! };
+    };
+
+    test('Escribe los datos en E4:E20 y los intermedios en L4:L14', async () => {
+        const { result, hoja } = await leer(INPUTS);
+
+        expect(hoja.getCell('E4').value).toBe(1000);
+        expect(hoja.getCell('E7').value).toBe('Semestral');
+        expect(hoja.getCell('E9').value).toBe('Efectiva');
+
+        expect(hoja.getCell('L6').value).toEqual({ formula: 'E8/L4', result: 2 });
+        expect(hoja.getCell('L9').value).toEqual({
+            formula: '(1+L8)^(L4/E8)-1',
+            result: result.intermedios.tasaCuponPeriodica,
+        });
+        expect(hoja.getCell('L14').value).toEqual({
+            formula: 'NPV(L10,O28:O37)',
+            result: result.metricas.precioActual,
+        });
+    });
+
+    test('La tabla de flujos A27:R37 lleva fórmulas con el resultado del motor', async () => {
+        const { result, hoja } = await leer(INPUTS);
+
+        expect(hoja.getCell('A27').value).toBe(0);
+        expect(hoja.getCell('M27').value).toEqual({ formula: 'E5-L11', result: result.flujos[0].flujoEmisor });
+        expect(hoja.getCell('F28').value).toEqual({ formula: '$E$4', result: 1000 });
+        expect(hoja.getCell('F30').value).toEqual({ formula: 'G29+J29', result: result.flujos[3].bonoCapital });
+        expect(hoja.getCell('H30').value).toEqual({ formula: '-G30*$L$9', result: result.flujos[3].cupon });
+        expect(hoja.getCell('K37').value).toEqual({ formula: 'IF(A37=$L$7,-$E$16*$E$4,0)', result: -10 });
+        expect(hoja.getCell('P37').value).toEqual({ formula: 'O37/(1+$L$10)^A37', result: result.flujos[10].flujoActualizado });
+        expect(hoja.getCell('A38').value).toBeNull();
+    });
+
+    test('Las métricas se calculan sobre los rangos de la tabla', async () => {
+        const { result, hoja } = await leer(INPUTS);
+
+        expect(hoja.getCell('H40').value).toBe('Ratios de decisión');
+        expect(hoja.getCell('L41').value).toEqual({ formula: 'NPV($L$10,O28:O37)', result: result.metricas.precioActual });
+        expect(hoja.getCell('L43').value).toEqual({ formula: 'SUM(Q28:Q37)/SUM(P28:P37)', result: result.metricas.duracion });
+        expect(hoja.getCell('L49').value).toEqual({
+            formula: '(1+IRR(O27:O37))^(360/$L$4)-1',
+            result: result.metricas.treaBonista,
+        });
+    });
+
+    test('Las extensiones que la hoja original no modela se escriben como valores', async () => {
+        const { result, hoja } = await leer({
+            ...INPUTS,
+            curvaDescuento: { interpolacion: 'lineal', puntos: [{ plazo: 1, tasa: 0.04 }, { plazo: 5, tasa: 0.05 }] },
+            sinkingFund: { cuotas: [{ periodo: 4, porcentaje: 0.5 }] },
+        });
+
+        expect(hoja.getCell('P30').value).toBe(result.flujos[3].flujoActualizado);
+        expect(hoja.getCell('J31').value).toBe(result.flujos[4].amortizacion);
+        expect(hoja.getCell('L41').value).toBe(result.metricas.precioActual);
+        expect(hoja.getCell('I31').value).toEqual({ formula: 'IF(E31="T",0,IF(E31="P",H31,H31+J31))', result: result.flujos[4].cuota });
+    });
+});
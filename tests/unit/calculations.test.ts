@@ -276,7 +276,7 @@ describe('FinancialCalculator - Excel Validation Tests', () => {
             };
 
             await expect(calculator.calculate(invalidInputs))
-                .rejects.toThrow('La serie de gracia debe tener 5 elementos (recibidos 2)');
+                .rejects.toThrow('La serie de gracia debe tener 10 elementos, uno por cupón (recibidos 2)');
         });
 
         test('Debe rechazar tasa anual mayor a 100%', async () => {
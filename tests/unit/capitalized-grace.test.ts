@@ -0,0 +1,74 @@
+// tests/unit/capitalized-grace.test.ts
+// Tests de la capitalización del cupón impago durante la gracia total
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { ExcelFormulas } from '@/lib/services/calculations/ExcelFormulas';
+import { CalculationInputs, CalculationResult, GracePeriodType } from '@/lib/types/calculations';
+
+describe('Capitalized Grace Tests', () => {
+    const calculator = new FinancialCalculator({ validateInputs: true });
+
+    const graciaSerie = ['T', 'T', 'S', 'S', 'S', 'S', 'S', 'S', 'S', 'S'] as GracePeriodType[];
+
+    const INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 1050.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0.08,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: Array(10).fill(0),
+        graciaSerie
+    };
+
+    let sinCapitalizar: CalculationResult;
+    let capitalizado: CalculationResult;
+
+    beforeAll(async () => {
+        sinCapitalizar = await calculator.calculate(INPUTS);
+        capitalizado = await calculator.calculate({ ...INPUTS, capitalizarGraciaTotal: true });
+    });
+
+    test('Sin capitalización el capital se mantiene durante la gracia total', () => {
+        expect(sinCapitalizar.flujos[2].bonoCapital).toBeCloseTo(1000, 6);
+        expect(sinCapitalizar.flujos[3].bonoCapital).toBeCloseTo(1000, 6);
+        sinCapitalizar.flujos.slice(1).forEach(flujo => {
+            expect(flujo.interesCapitalizado).toBeCloseTo(0, 10);
+        });
+    });
+
+    test('El cupón impago se suma al capital del período siguiente', () => {
+        const r = capitalizado.intermedios.tasaCuponPeriodica;
+        const [, primero, segundo, tercero] = capitalizado.flujos;
+
+        expect(primero.cuota).toBeCloseTo(0, 10);
+        expect(primero.interesCapitalizado).toBeCloseTo(-(primero.cupon as number), 10);
+        expect(segundo.bonoCapital).toBeCloseTo(1000 * (1 + r), 4);
+        expect(tercero.bonoCapital).toBeCloseTo(1000 * Math.pow(1 + r, 2), 4);
+        expect(tercero.interesCapitalizado).toBeCloseTo(0, 10);
+    });
+
+    test('La amortización final devuelve el capital capitalizado', () => {
+        const r = capitalizado.intermedios.tasaCuponPeriodica;
+        const ultimo = capitalizado.flujos[10];
+
+        expect(ultimo.amortizacion).toBeCloseTo(-1000 * Math.pow(1 + r, 2), 4);
+        expect(capitalizado.metricas.treaBonista).toBeGreaterThan(sinCapitalizar.metricas.treaBonista);
+    });
+
+    test('F[n] sigue la fórmula del Excel con E[n−1]="T"', () => {
+        expect(ExcelFormulas.bonoCapital(2, 1000, 10, 1000, -40, 0, 'T', true)).toBeCloseTo(1040, 10);
+        expect(ExcelFormulas.bonoCapital(2, 1000, 10, 1000, -40, 0, 'T')).toBeCloseTo(1000, 10);
+        expect(ExcelFormulas.interesCapitalizado('P', -40, true)).toBe(0);
+    });
+});
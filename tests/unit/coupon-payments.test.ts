@@ -0,0 +1,223 @@
+// tests/unit/coupon-payments.test.ts
+// Tests del libro de pagos de cupón: estados, reparto a prorrata y confirmación
+
+import {
+    CouponFlow,
+    CouponHolding,
+    CouponPaymentService,
+    DIAS_GRACIA_PAGO,
+} from '@/lib/services/bonds/CouponPayments';
+import { crearPrismaFake } from '@/tests/helpers/prismaFake';
+
+const decimal = (value: number) => ({ toNumber: () => value });
+
+describe('Coupon Payments Tests', () => {
+    const BOND_ID = 'ckbond00000000000000000';
+    const HOY = new Date('2026-03-10');
+
+    // Cupones semestrales del emisor: cuota y amortización negativas, flujo bonista positivo
+    const flujos: CouponFlow[] = [
+        { periodo: 1, fecha: new Date('2025-12-01'), cuota: -40, amortizacion: 0, flujoBonista: 40 },
+        { periodo: 2, fecha: new Date('2026-03-01'), cuota: -40, amortizacion: 0, flujoBonista: 40 },
+        { periodo: 3, fecha: new Date('2026-03-08'), cuota: -40, amortizacion: 0, flujoBonista: 40 },
+        { periodo: 4, fecha: new Date('2026-06-01'), cuota: -1040, amortizacion: -1000, flujoBonista: 1050 },
+    ];
+
+    const tenencias: CouponHolding[] = [
+        { investmentId: 'inv1', bonos: 2, fechaInversion: new Date('2025-06-01') },
+        { investmentId: 'inv2', bonos: 1, fechaInversion: new Date('2026-01-15') },
+    ];
+
+    test('Un cupón sin pago pasa a impago tras los días de gracia', () => {
+        const fecha = new Date('2026-03-01');
+        const dias = (n: number) => new Date(fecha.getTime() + n * 24 * 60 * 60 * 1000);
+
+        expect(CouponPaymentService.estadoCupon(fecha, null, dias(-1))).toBe('UPCOMING');
+        expect(CouponPaymentService.estadoCupon(fecha, null, fecha)).toBe('DUE');
+        expect(CouponPaymentService.estadoCupon(fecha, null, dias(DIAS_GRACIA_PAGO))).toBe('DUE');
+        expect(CouponPaymentService.estadoCupon(fecha, null, dias(DIAS_GRACIA_PAGO + 1))).toBe('MISSED');
+        const pago = (fechaPago: Date, montoPagado = 100) => ({ fechaPago, montoPagado, montoProgramado: 100 });
+        expect(CouponPaymentService.estadoCupon(fecha, pago(fecha))).toBe('PAID');
+        expect(CouponPaymentService.estadoCupon(fecha, pago(dias(2)))).toBe('LATE');
+        expect(CouponPaymentService.estadoCupon(fecha, pago(fecha, 99.99))).toBe('PARTIAL');
+        // El formulario propone el monto programado a 2 decimales: no cuenta como parcial
+        expect(CouponPaymentService.estadoCupon(fecha, { fechaPago: fecha, montoPagado: 100.12, montoProgramado: 100.1234 })).toBe('PAID');
+    });
+
+    test('El pago se reparte a prorrata de los bonos sin perder centavos', () => {
+        const partes = CouponPaymentService.repartirPago(100, 80, [
+            { investmentId: 'a', bonos: 1, fechaInversion: HOY },
+            { investmentId: 'b', bonos: 1, fechaInversion: HOY },
+            { investmentId: 'c', bonos: 1, fechaInversion: HOY },
+        ]);
+
+        expect(partes.map(p => p.monto)).toEqual([33.3333, 33.3333, 33.3334]);
+        expect(partes.reduce((sum, p) => sum + p.monto, 0)).toBeCloseTo(100, 10);
+        expect(partes.reduce((sum, p) => sum + p.interes, 0)).toBeCloseTo(80, 10);
+        expect(CouponPaymentService.repartirPago(100, 80, [])).toEqual([]);
+    });
+
+    test('El calendario cruza flujos, pagos y tenencias a cada fecha', () => {
+        const pagos = [
+            { periodo: 1, montoProgramado: 80, montoPagado: 80, interesPagado: 80, fechaPago: new Date('2025-12-01'), referencia: 'OP-1' },
+            { periodo: 2, montoProgramado: 120, montoPagado: 120, interesPagado: 120, fechaPago: new Date('2026-03-04'), referencia: null },
+        ];
+
+        const calendario = CouponPaymentService.buildSchedule(flujos, pagos, tenencias, HOY);
+
+        expect(calendario.map(c => c.status)).toEqual(['PAID', 'LATE', 'DUE', 'UPCOMING']);
+        expect(calendario[0].pago).toMatchObject({ montoPagado: 80, montoFaltante: 0 });
+        // inv2 entró después del primer cupón
+        expect(calendario.map(c => c.bonosEnCirculacion)).toEqual([2, 3, 3, 3]);
+        expect(calendario[1].diasAtraso).toBe(3);
+        expect(calendario[3]).toMatchObject({ montoPorBono: 1050, interesPorBono: 40, montoProgramado: 3150 });
+
+        const despues = CouponPaymentService.buildSchedule(flujos, pagos, tenencias, new Date('2026-03-20'));
+        expect(despues[2]).toMatchObject({ status: 'MISSED', diasAtraso: 12 });
+
+        // Sin tenedores a la fecha el cupón no se espera
+        expect(CouponPaymentService.buildSchedule(flujos, [], [], HOY)).toEqual([]);
+    });
+
+    describe('Confirmación de pagos', () => {
+        const crearPrisma = (status = 'ACTIVE') => {
+            const estado = {
+                pagos: [{
+                    periodo: 1, montoProgramado: decimal(80), montoPagado: decimal(80), interesPagado: decimal(80),
+                    fechaPago: new Date('2025-12-01'), referencia: 'OP-1' as string | null,
+                }],
+                creados: [] as object[],
+                auditLogs: [] as { tableName: string; action: string; userId?: string | null }[],
+            };
+
+            const prisma = crearPrismaFake(estado, ({ pagos, creados, auditLogs }) => ({
+                bond: {
+                    findUnique: async () => ({
+                        name: 'Bono Serie A',
+                        status,
+                        emisor: { userId: 'emisor-user' },
+                        cashFlows: flujos.map(f => ({
+                            ...f,
+                            cuota: decimal(f.cuota!),
+                            amortizacion: decimal(f.amortizacion!),
+                            flujoBonista: decimal(f.flujoBonista!),
+                        })),
+                        couponPayments: pagos.map(p => ({ ...p })),
+                        investments: tenencias.map(t => ({
+                            id: t.investmentId,
+                            montoInvertido: decimal(t.bonos * 1050),
+                            precioCompra: decimal(1050),
+                            fechaInversion: t.fechaInversion,
+                        })),
+                    }),
+                },
+                couponPayment: {
+                    create: async ({ data }) => {
+                        // @@unique([bondId, periodo])
+                        if (pagos.some(p => p.periodo === data.periodo)) {
+                            throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+                        }
+                        pagos.push({
+                            periodo: data.periodo,
+                            montoProgramado: decimal(Number(data.montoProgramado)),
+                            montoPagado: decimal(Number(data.montoPagado)),
+                            interesPagado: decimal(Number(data.interesPagado)),
+                            fechaPago: new Date(data.fechaPago),
+                            referencia: data.referencia ?? null,
+                        });
+                        creados.push(data);
+                        return { id: `pago${data.periodo}`, ...data };
+                    },
+                },
+                auditLog: {
+                    create: async ({ data }) => auditLogs.push({ tableName: data.tableName, action: data.action, userId: data.userId }),
+                },
+            }));
+
+            return { prisma, ...estado };
+        };
+
+        test('Registra el pago, la parte de cada inversión y la auditoría', async () => {
+            const { prisma, creados, auditLogs } = crearPrisma();
+            const service = new CouponPaymentService(prisma);
+
+            const { partes } = await service.confirmPayment(BOND_ID, 'emisor-user', {
+                periodo: 2,
+                fechaPago: new Date('2026-03-04'),
+                referencia: 'OP-2',
+            }, HOY);
+
+            expect(creados[0]).toMatchObject({ periodo: 2, montoProgramado: 120, montoPagado: 120, interesPagado: 120, status: 'LATE' });
+            expect(partes.map(p => [p.investmentId, p.monto])).toEqual([['inv1', 80], ['inv2', 40]]);
+            expect(auditLogs[0]).toMatchObject({ tableName: 'coupon_payments', action: 'CREATE', userId: 'emisor-user' });
+        });
+
+        test('Un pago por debajo del monto programado queda como parcial con su faltante', async () => {
+            const { prisma, creados } = crearPrisma();
+            const service = new CouponPaymentService(prisma);
+
+            await service.confirmPayment(BOND_ID, 'emisor-user', {
+                periodo: 2,
+                fechaPago: new Date('2026-03-01'),
+                montoPagado: 90,
+            }, HOY);
+
+            expect(creados[0]).toMatchObject({ montoProgramado: 120, montoPagado: 90, status: 'PARTIAL' });
+
+            const { calendario, resumen } = await service.getSchedule(BOND_ID, 'emisor-user', HOY);
+            expect(calendario[1]).toMatchObject({ status: 'PARTIAL', pago: { montoPagado: 90, montoFaltante: 30 } });
+            expect(resumen).toMatchObject({ pagados: 1, parciales: 1, totalPagado: 170 });
+        });
+
+        test('Solo el usuario del emisor ve el calendario de pagos', async () => {
+            const service = new CouponPaymentService(crearPrisma().prisma);
+
+            await expect(service.getSchedule(BOND_ID, 'otro-usuario', HOY))
+                .rejects.toMatchObject({ code: 'FORBIDDEN' });
+        });
+
+        test('Rechaza cupones ya pagados, futuros o de bonos sin pagos', async () => {
+            const service = new CouponPaymentService(crearPrisma().prisma);
+            const confirmar = (periodo: number) =>
+                service.confirmPayment(BOND_ID, 'emisor-user', { periodo, fechaPago: HOY }, HOY).catch(e => e.code);
+
+            expect(await confirmar(1)).toBe('ALREADY_PAID');
+            expect(await confirmar(4)).toBe('NOT_DUE');
+            expect(await confirmar(9)).toBe('PERIOD_NOT_FOUND');
+
+            const borrador = new CouponPaymentService(crearPrisma('DRAFT').prisma);
+            await expect(borrador.confirmPayment(BOND_ID, 'emisor-user', { periodo: 2, fechaPago: HOY }, HOY))
+                .rejects.toMatchObject({ code: 'BOND_NOT_PAYABLE' });
+        });
+
+        test('Solo el usuario del emisor confirma, y con fecha de pago entre la del cupón y hoy', async () => {
+            const { prisma, creados, auditLogs } = crearPrisma();
+            const service = new CouponPaymentService(prisma);
+
+            await expect(service.confirmPayment(BOND_ID, 'otro-usuario', { periodo: 2, fechaPago: HOY }, HOY))
+                .rejects.toMatchObject({ code: 'FORBIDDEN' });
+            await expect(service.confirmPayment(BOND_ID, 'emisor-user', { periodo: 2, fechaPago: new Date('2026-03-11') }, HOY))
+                .rejects.toMatchObject({ code: 'INVALID_PAYMENT_DATE' });
+            // Antes de la fecha del cupón, o de la emisión misma
+            await expect(service.confirmPayment(BOND_ID, 'emisor-user', { periodo: 2, fechaPago: new Date('2026-02-28') }, HOY))
+                .rejects.toMatchObject({ code: 'INVALID_PAYMENT_DATE' });
+            await expect(service.confirmPayment(BOND_ID, 'emisor-user', { periodo: 2, fechaPago: new Date('2020-01-01') }, HOY))
+                .rejects.toMatchObject({ code: 'INVALID_PAYMENT_DATE' });
+            expect(creados).toEqual([]);
+            expect(auditLogs).toEqual([]);
+        });
+
+        test('Dos confirmaciones simultáneas del mismo cupón registran un solo pago', async () => {
+            const { prisma, creados, auditLogs } = crearPrisma();
+            const service = new CouponPaymentService(prisma);
+            const confirmar = () => service.confirmPayment(BOND_ID, 'emisor-user', { periodo: 2, fechaPago: HOY }, HOY);
+
+            const resultados = await Promise.allSettled([confirmar(), confirmar()]);
+
+            expect(resultados.map(r => r.status)).toEqual(['fulfilled', 'rejected']);
+            expect((resultados[1] as PromiseRejectedResult).reason).toMatchObject({ code: 'ALREADY_PAID' });
+            expect(creados).toHaveLength(1);
+            expect(auditLogs).toHaveLength(1);
+        });
+    });
+});
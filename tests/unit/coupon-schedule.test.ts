@@ -0,0 +1,96 @@
+// tests/unit/coupon-schedule.test.ts
+// Tests de cupones escalonados (step-up / step-down) y flotantes con cap/floor
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { ExcelFormulas } from '@/lib/services/calculations/ExcelFormulas';
+import { CalculationInputs, GracePeriodType } from '@/lib/types/calculations';
+
+describe('Coupon Schedule Tests', () => {
+    const calculator = new FinancialCalculator({ validateInputs: true });
+
+    const INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 1050.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0.08,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10],
+        graciaSerie: ['S', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+    };
+
+    const tasaPeriodica = (tasaAnual: number) => Math.pow(1 + tasaAnual, 180 / 360) - 1;
+
+    test('Sin cronograma los resultados no cambian', async () => {
+        const base = await calculator.calculate(INPUTS);
+        const escalonadaPlana = await calculator.calculate({
+            ...INPUTS,
+            couponSchedule: { tipo: 'escalonada', tasas: [0.08] }
+        });
+
+        expect(base.metricas.precioActual).toBeCloseTo(1753.34, 1);
+        expect(escalonadaPlana.metricas.precioActual).toBeCloseTo(base.metricas.precioActual, 6);
+        expect(base.flujos[1].tasaCupon).toBeCloseTo(base.intermedios.tasaCuponPeriodica, 8);
+    });
+
+    test('Step-up: cada período aplica su propia tasa', async () => {
+        const tasas = [0.06, 0.06, 0.07, 0.07, 0.08, 0.08, 0.09, 0.09, 0.10, 0.10];
+        const result = await calculator.calculate({
+            ...INPUTS,
+            couponSchedule: { tipo: 'escalonada', tasas }
+        });
+
+        result.flujos.slice(1).forEach((flujo, i) => {
+            expect(flujo.tasaCupon).toBeCloseTo(tasaPeriodica(tasas[i]), 8);
+            expect(flujo.cupon).toBeCloseTo(-(flujo.bonoIndexado as number) * tasaPeriodica(tasas[i]), 4);
+        });
+        expect(Math.abs(result.flujos[10].cupon as number)).toBeGreaterThan(Math.abs(result.flujos[1].cupon as number));
+    });
+
+    test('Una serie corta mantiene la última tasa hasta el vencimiento', async () => {
+        const result = await calculator.calculate({
+            ...INPUTS,
+            couponSchedule: { tipo: 'escalonada', tasas: [0.10, 0.06] }
+        });
+
+        expect(result.flujos[1].tasaCupon).toBeCloseTo(tasaPeriodica(0.10), 8);
+        expect(result.flujos[10].tasaCupon).toBeCloseTo(tasaPeriodica(0.06), 8);
+    });
+
+    test('Flotante: referencia + spread acotada por cap y floor', () => {
+        const cronograma = {
+            tipo: 'flotante' as const,
+            tasas: [0.01, 0.05, 0.12],
+            spread: 0.02,
+            tasaMinima: 0.04,
+            tasaMaxima: 0.10
+        };
+
+        expect(ExcelFormulas.tasaAnualDelPeriodo(1, 0.08, cronograma)).toBeCloseTo(0.04, 10);
+        expect(ExcelFormulas.tasaAnualDelPeriodo(2, 0.08, cronograma)).toBeCloseTo(0.07, 10);
+        expect(ExcelFormulas.tasaAnualDelPeriodo(3, 0.08, cronograma)).toBeCloseTo(0.10, 10);
+        expect(ExcelFormulas.tasaAnualDelPeriodo(3, 0.08)).toBeCloseTo(0.08, 10);
+    });
+
+    test('Rechaza cronogramas inválidos', async () => {
+        await expect(calculator.calculate({
+            ...INPUTS,
+            couponSchedule: { tipo: 'escalonada', tasas: Array(11).fill(0.08) }
+        })).rejects.toThrow('El cronograma de tasas debe tener');
+
+        await expect(calculator.calculate({
+            ...INPUTS,
+            couponSchedule: { tipo: 'flotante', tasas: [0.05], tasaMinima: 0.10, tasaMaxima: 0.05 }
+        })).rejects.toThrow();
+    });
+});
@@ -0,0 +1,129 @@
+// tests/unit/day-count.test.ts
+// Tests de las convenciones de conteo de días (30/360, ACT/360, ACT/365, ACT/ACT ICMA)
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { ExcelFormulas } from '@/lib/services/calculations/ExcelFormulas';
+import { CalculationInputs, GracePeriodType } from '@/lib/types/calculations';
+
+describe('Day Count Conventions Tests', () => {
+    let calculator: FinancialCalculator;
+
+    const BASE_INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 1050.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0.08,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10],
+        graciaSerie: ['S', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+    };
+
+    beforeAll(() => {
+        calculator = new FinancialCalculator({
+            validateInputs: true,
+            includeIntermediateSteps: true
+        });
+    });
+
+    describe('Fechas de cupón', () => {
+        test('Sin convención se mantiene B[n]=B[n−1]+L4', () => {
+            const emision = new Date('2025-06-01');
+            const fecha = ExcelFormulas.fechaPeriodo(emision, 1, 180);
+            expect(Math.round((fecha.getTime() - emision.getTime()) / 86400000)).toBe(180);
+        });
+
+        test('Con convención avanza por meses calendario', () => {
+            const fechas = [1, 2, 3].map(n =>
+                ExcelFormulas.fechaPeriodo(new Date('2025-06-01'), n, 180, '30/360').toISOString().slice(0, 10)
+            );
+            expect(fechas).toEqual(['2025-12-01', '2026-06-01', '2026-12-01']);
+        });
+
+        test('Fin de mes se ajusta al último día sin arrastrar el desfase', () => {
+            const emision = new Date('2025-01-31');
+            const fechas = [1, 2, 3].map(n =>
+                ExcelFormulas.fechaPeriodo(emision, n, 30, 'ACT/360').toISOString().slice(0, 10)
+            );
+            expect(fechas).toEqual(['2025-02-28', '2025-03-31', '2025-04-30']);
+        });
+    });
+
+    describe('Conteo de días y fracciones', () => {
+        test('30/360 sigue DIAS360', () => {
+            expect(ExcelFormulas.diasEntreFechas(new Date('2025-01-31'), new Date('2025-07-31'), '30/360')).toBe(180);
+            expect(ExcelFormulas.diasEntreFechas(new Date('2025-02-28'), new Date('2025-08-31'), '30/360')).toBe(180);
+            expect(ExcelFormulas.diasEntreFechas(new Date('2025-01-15'), new Date('2025-03-01'), '30/360')).toBe(46);
+        });
+
+        test('ACT/360 y ACT/365 usan días reales', () => {
+            const inicio = new Date('2025-06-01');
+            const fin = new Date('2025-12-01');
+            expect(ExcelFormulas.diasEntreFechas(inicio, fin, 'ACT/360')).toBe(183);
+            expect(ExcelFormulas.fraccionAnual(inicio, fin, 'ACT/360', 180)).toBeCloseTo(183 / 360, 8);
+            expect(ExcelFormulas.fraccionAnual(inicio, fin, 'ACT/365', 180)).toBeCloseTo(183 / 365, 8);
+        });
+
+        test('ACT/ACT ICMA da 1/frecuencia en períodos regulares', () => {
+            expect(ExcelFormulas.fraccionAnual(new Date('2025-06-01'), new Date('2025-12-01'), 'ACT/ACT', 180)).toBeCloseTo(0.5, 10);
+            expect(ExcelFormulas.fraccionAnual(new Date('2025-12-01'), new Date('2026-06-01'), 'ACT/ACT', 180)).toBeCloseTo(0.5, 10);
+        });
+
+        test('ACT/ACT ICMA prorratea sobre el período de referencia', () => {
+            const fraccion = ExcelFormulas.fraccionAnual(
+                new Date('2025-06-01'),
+                new Date('2025-09-01'),
+                'ACT/ACT',
+                180,
+                new Date('2025-06-01'),
+                new Date('2025-12-01')
+            );
+            expect(fraccion).toBeCloseTo(92 / (2 * 183), 10);
+        });
+    });
+
+    describe('Integración con el calculador', () => {
+        test('30/360 sobre base 360 conserva las métricas del Excel', async () => {
+            const result = await calculator.calculate({ ...BASE_INPUTS, dayCountConvention: '30/360' });
+
+            expect(result.metricas.precioActual).toBeCloseTo(1753.34, 1);
+            expect(result.metricas.duracion).toBeCloseTo(4.45, 2);
+            expect(result.flujos[10].fecha.toISOString().slice(0, 10)).toBe('2030-06-01');
+        });
+
+        test('ACT/365 devenga cupones según los días reales de cada período', async () => {
+            const result = await calculator.calculate({
+                ...BASE_INPUTS,
+                inflacionSerie: [0, 0, 0, 0, 0],
+                dayCountConvention: 'ACT/365'
+            });
+
+            // 01/06/2025 → 01/12/2025 (183 días) y 01/12/2025 → 01/06/2026 (182 días)
+            expect(result.flujos[1].cupon).toBeCloseTo(-1000 * (Math.pow(1.08, 183 / 365) - 1), 4);
+            expect(result.flujos[2].cupon).toBeCloseTo(-1000 * (Math.pow(1.08, 182 / 365) - 1), 4);
+        });
+
+        test('La inflación se prorratea con la fracción del período', async () => {
+            const result = await calculator.calculate({ ...BASE_INPUTS, dayCountConvention: 'ACT/360' });
+
+            expect(result.flujos[1].inflacionSemestral).toBeCloseTo(Math.pow(1.10, 183 / 360) - 1, 8);
+        });
+
+        test('Rechaza convenciones desconocidas', async () => {
+            await expect(calculator.calculate({
+                ...BASE_INPUTS,
+                dayCountConvention: 'NL/365' as any
+            })).rejects.toThrow('Convención de conteo de días no soportada');
+        });
+    });
+});
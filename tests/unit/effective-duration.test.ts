@@ -0,0 +1,81 @@
+// tests/unit/effective-duration.test.ts
+// Tests de duración/convexidad efectivas, DV01 y duraciones de plazo clave (bump-and-reprice)
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { ExcelFormulas } from '@/lib/services/calculations/ExcelFormulas';
+import { CalculationInputs, GracePeriodType } from '@/lib/types/calculations';
+
+describe('Effective Duration Tests', () => {
+    const calculator = new FinancialCalculator({ validateInputs: true });
+
+    const INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 1050.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0.08,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10],
+        graciaSerie: ['S', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+    };
+
+    test('La duración efectiva coincide con la duración modificada en términos anuales', async () => {
+        const { metricas } = await calculator.calculate(INPUTS);
+
+        // Las métricas del Excel no cambian
+        expect(metricas.precioActual).toBeCloseTo(1753.34, 1);
+        expect(metricas.duracion).toBeCloseTo(4.45, 2);
+
+        // D_ef ≈ D_Macaulay / (1 + E9)
+        expect(metricas.duracionEfectiva).toBeCloseTo(metricas.duracion / 1.045, 3);
+        expect(metricas.convexidadEfectiva).toBeGreaterThan(0);
+
+        // DV01 ≈ D_ef × P × 1 pb
+        expect(metricas.dv01).toBeCloseTo(metricas.duracionEfectiva * metricas.precioActual * 0.0001, 3);
+    });
+
+    test('Las duraciones de plazo clave suman la duración efectiva', async () => {
+        const { metricas } = await calculator.calculate(INPUTS);
+        const suma = metricas.duracionesClave.reduce((total, krd) => total + krd.duracion, 0);
+
+        expect(metricas.duracionesClave.map(krd => krd.plazo)).toEqual([1, 2, 3, 5, 7, 10]);
+        expect(suma).toBeCloseTo(metricas.duracionEfectiva, 4);
+
+        // Un bono a 5 años no tiene sensibilidad en plazos posteriores al vencimiento
+        expect(metricas.duracionesClave.find(krd => krd.plazo === 5)!.duracion).toBeGreaterThan(3);
+        expect(metricas.duracionesClave.find(krd => krd.plazo === 7)!.duracion).toBe(0);
+    });
+
+    test('Los plazos clave y el desplazamiento son configurables', async () => {
+        const custom = new FinancialCalculator({ validateInputs: true, keyRateTenors: [4, 2], rateShift: 0.0005 });
+        const { metricas } = await custom.calculate(INPUTS);
+        const suma = metricas.duracionesClave.reduce((total, krd) => total + krd.duracion, 0);
+
+        expect(metricas.duracionesClave.map(krd => krd.plazo)).toEqual([2, 4]);
+        expect(suma).toBeCloseTo(metricas.duracionEfectiva, 4);
+
+        expect(ExcelFormulas.pesoPlazoClave(3, [2, 4], 0)).toBeCloseTo(0.5, 10);
+        expect(ExcelFormulas.pesoPlazoClave(5, [2, 4], 1)).toBe(1);
+    });
+
+    test('Un bono cupón cero tiene duración efectiva igual a su plazo descontado', async () => {
+        const { metricas } = await calculator.calculate({
+            ...INPUTS,
+            instrumentType: 'cupon_cero',
+            inflacionSerie: [0, 0, 0, 0, 0],
+        });
+
+        // Un único flujo a 5 años: D_ef ≈ 5 / (1 + E9)
+        expect(metricas.duracionEfectiva).toBeCloseTo(5 / 1.045, 3);
+    });
+});
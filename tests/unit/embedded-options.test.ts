@@ -0,0 +1,107 @@
+// tests/unit/embedded-options.test.ts
+// Tests de bonos con call/put: escenarios de ejercicio, YTC, YTP e YTW
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { CalculationInputs, CalculationResult, GracePeriodType } from '@/lib/types/calculations';
+
+const vpn = (flujos: number[], tasa: number) =>
+    flujos.reduce((sum, f, i) => sum + f / Math.pow(1 + tasa, i), 0);
+
+describe('Embedded Options Tests', () => {
+    const calculator = new FinancialCalculator({ validateInputs: true });
+
+    const INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 1050.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0.08,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10],
+        graciaSerie: ['S', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+    };
+
+    let base: CalculationResult;
+
+    beforeAll(async () => {
+        base = await calculator.calculate(INPUTS);
+    });
+
+    test('Sin opciones no hay escenarios ni métricas de ejercicio', () => {
+        expect(base.escenariosEjercicio).toBeUndefined();
+        expect(base.metricas.ytc).toBeUndefined();
+        expect(base.metricas.ytw).toBeUndefined();
+        expect(base.metricas.precioActual).toBeCloseTo(1753.34, 1);
+    });
+
+    test('El call redime el capital vivo al precio de ejercicio en el cupón k', async () => {
+        const result = await calculator.calculate({
+            ...INPUTS,
+            callSchedule: [{ fecha: base.flujos[4].fecha, precio: 1.02 }]
+        });
+        const [escenario] = result.escenariosEjercicio!;
+
+        expect(escenario.tipo).toBe('call');
+        expect(escenario.periodo).toBe(4);
+        expect(escenario.flujosBonista).toHaveLength(5);
+        expect(escenario.capitalRedimido).toBeCloseTo(base.flujos[4].bonoIndexado as number, 6);
+        expect(escenario.flujosBonista[4]).toBeCloseTo(
+            (base.flujos[4].flujoBonista as number) + 1.02 * escenario.capitalRedimido, 4
+        );
+
+        // Los flujos y métricas al vencimiento no cambian
+        expect(result.metricas.treaBonista).toBeCloseTo(base.metricas.treaBonista, 10);
+    });
+
+    test('El YTC es la TREA del escenario del primer call', async () => {
+        const result = await calculator.calculate({
+            ...INPUTS,
+            callSchedule: [
+                { fecha: new Date('2028-01-15'), precio: 1.01 },
+                { fecha: new Date('2027-01-15'), precio: 1.03 }
+            ]
+        });
+        const primero = result.escenariosEjercicio!.find(e => e.periodo === 4)!;
+        const tirPeriodica = Math.pow(1 + primero.rendimiento, 180 / 360) - 1;
+
+        expect(result.metricas.ytc).toBe(primero.rendimiento);
+        expect(vpn(primero.flujosBonista, tirPeriodica)).toBeCloseTo(0, 4);
+    });
+
+    test('El YTW es el mínimo entre la TREA y los calls; el put no entra', async () => {
+        const result = await calculator.calculate({
+            ...INPUTS,
+            callSchedule: [{ fecha: new Date('2027-06-01'), precio: 1.00 }],
+            putSchedule: [{ fecha: new Date('2026-06-01'), precio: 1.00 }]
+        });
+        const escenarios = result.escenariosEjercicio!;
+        const ytc = escenarios.find(e => e.tipo === 'call')!.rendimiento;
+        const ytp = escenarios.find(e => e.tipo === 'put')!.rendimiento;
+
+        expect(result.metricas.ytc).toBe(ytc);
+        expect(result.metricas.ytp).toBe(ytp);
+        expect(result.metricas.ytw).toBe(Math.min(result.metricas.treaBonista, ytc));
+    });
+
+    test('Rechaza fechas de ejercicio fuera de la vida del bono y precios no positivos', async () => {
+        await expect(calculator.calculate({
+            ...INPUTS,
+            callSchedule: [{ fecha: new Date('2031-01-01'), precio: 1.02 }]
+        })).rejects.toThrow('La fecha de ejercicio debe estar entre la emisión y el vencimiento');
+
+        await expect(calculator.calculate({
+            ...INPUTS,
+            putSchedule: [{ fecha: new Date('2027-01-01'), precio: 0 }]
+        })).rejects.toThrow('El precio de ejercicio debe ser mayor que 0');
+    });
+});
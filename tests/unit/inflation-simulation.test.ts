@@ -0,0 +1,98 @@
+// tests/unit/inflation-simulation.test.ts
+// Tests de la simulación Monte Carlo de inflación: reproducibilidad, modelo y bandas de percentiles
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { InflationSimulator } from '@/lib/services/calculations/InflationSimulator';
+import { ExcelFormulas } from '@/lib/services/calculations/ExcelFormulas';
+import { CalculationInputs, GracePeriodType } from '@/lib/types/calculations';
+
+describe('Inflation Simulation Tests', () => {
+    const calculator = new FinancialCalculator({ validateInputs: true });
+    const simulator = new InflationSimulator(calculator);
+
+    const INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 1050.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0.08,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10],
+        graciaSerie: ['S', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+    };
+
+    test('PERCENTIL.INC interpola linealmente entre rangos', () => {
+        const valores = [4, 1, 3, 2];
+
+        expect(ExcelFormulas.percentil(valores, 0)).toBe(1);
+        expect(ExcelFormulas.percentil(valores, 1)).toBe(4);
+        expect(ExcelFormulas.percentil(valores, 0.5)).toBeCloseTo(2.5, 10);
+        expect(ExcelFormulas.percentil(valores, 0.9)).toBeCloseTo(3.7, 10);
+    });
+
+    test('Sin volatilidad la trayectoria converge a la media', async () => {
+        const trayectoria = InflationSimulator.trayectoria(
+            0.10, { media: 0.03, volatilidad: 0, reversion: 1 }, 10, 0.5, () => 0
+        );
+
+        // π[n] = μ + (π[0] − μ)(1 − κΔt)^n
+        expect(trayectoria[0]).toBeCloseTo(0.065, 10);
+        expect(trayectoria[9]).toBeCloseTo(0.03 + 0.07 * Math.pow(0.5, 10), 10);
+
+        // Con inflación constante todas las trayectorias coinciden con el cálculo determinista
+        const result = await simulator.simular(INPUTS, {
+            simulaciones: 3, media: 0.10, volatilidad: 0, reversion: 0.5, semilla: 1
+        });
+        const base = await calculator.calculate(INPUTS);
+
+        expect(result.treaBonista.valores[0]).toBeCloseTo(base.metricas.treaBonista, 10);
+        expect(result.precioActual.media).toBeCloseTo(1753.34, 1);
+        expect(result.flujosBonista[10].valores[4]).toBeCloseTo(base.flujos[10].flujoBonista as number, 6);
+    });
+
+    test('La misma semilla reproduce los resultados', async () => {
+        const config = { simulaciones: 50, media: 0.03, volatilidad: 0.02, reversion: 0.5, semilla: 42 };
+        const primera = await simulator.simular(INPUTS, config);
+        const segunda = await simulator.simular(INPUTS, config);
+        const otra = await simulator.simular(INPUTS, { ...config, semilla: 7 });
+
+        expect(segunda.treaBonista).toEqual(primera.treaBonista);
+        expect(segunda.flujosBonista[5].valores).toEqual(primera.flujosBonista[5].valores);
+        expect(otra.treaBonista.media).not.toBe(primera.treaBonista.media);
+    });
+
+    test('Las bandas están ordenadas por percentil y cubren cada período', async () => {
+        const result = await simulator.simular(INPUTS, {
+            simulaciones: 100, media: 0.03, volatilidad: 0.03, reversion: 0.5, semilla: 2025
+        });
+
+        expect(result.simulaciones + result.descartadas).toBe(100);
+        expect(result.inflacion).toHaveLength(10);
+        expect(result.flujosBonista).toHaveLength(11);
+
+        const esOrdenada = (valores: number[]) => valores.every((v, i) => i === 0 || v >= valores[i - 1]);
+        expect(esOrdenada(result.treaBonista.valores)).toBe(true);
+        expect(esOrdenada(result.precioActual.valores)).toBe(true);
+        expect(esOrdenada(result.flujosBonista[10].valores)).toBe(true);
+
+        // El desembolso inicial no depende de la inflación
+        expect(result.flujosBonista[0].valores[0]).toBeCloseTo(result.flujosBonista[0].valores[4], 10);
+    });
+
+    test('Rechaza configuraciones inválidas', async () => {
+        await expect(simulator.simular(INPUTS, { simulaciones: 0, media: 0.03, volatilidad: 0.01, reversion: 0.5 }))
+            .rejects.toThrow('El número de simulaciones debe estar entre 1 y 5000');
+        await expect(simulator.simular(INPUTS, { simulaciones: 10, media: 0.03, volatilidad: -0.01, reversion: 0.5 }))
+            .rejects.toThrow('no pueden ser negativas');
+    });
+});
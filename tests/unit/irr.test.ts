@@ -0,0 +1,116 @@
+// tests/unit/irr.test.ts
+// Tests del cálculo de TIR (Newton + Brent), incidencias y TIR por fechas
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { IRRSolver, IRRError } from '@/lib/services/calculations/IRRSolver';
+import { ExcelFormulas } from '@/lib/services/calculations/ExcelFormulas';
+import { CalculationInputs, GracePeriodType } from '@/lib/types/calculations';
+
+const vpn = (flujos: number[], tasa: number) =>
+    flujos.reduce((sum, f, i) => sum + f / Math.pow(1 + tasa, i), 0);
+
+describe('IRR Solver Tests', () => {
+    describe('TIR por períodos', () => {
+        test('Converge con Newton en flujos convencionales', () => {
+            const flujos = [-1000, 100, 100, 100, 1100];
+            const resultado = IRRSolver.tir(flujos);
+
+            expect(resultado.tasa).toBeCloseTo(0.10, 10);
+            expect(resultado.metodo).toBe('newton');
+            expect(resultado.advertencias).toHaveLength(0);
+        });
+
+        test('Usa Brent cuando Newton no converge desde la estimación', () => {
+            // TIR = 900%: desde una estimación del 10000% el paso de Newton cae por debajo de −100%
+            const flujos = [-1, 10];
+            const resultado = IRRSolver.tir(flujos, 100);
+
+            expect(resultado.tasa).toBeCloseTo(9, 8);
+            expect(resultado.metodo).toBe('brent');
+            expect(vpn(flujos, resultado.tasa)).toBeCloseTo(0, 8);
+        });
+
+        test('Sin cambio de signo lanza IRR_NO_SIGN_CHANGE', () => {
+            expect(() => IRRSolver.tir([100, 100, 100])).toThrow(IRRError);
+
+            try {
+                IRRSolver.tir([-100, -50, 0]);
+            } catch (error) {
+                expect((error as IRRError).code).toBe('IRR_NO_SIGN_CHANGE');
+            }
+        });
+
+        test('Varios cambios de signo generan advertencia', () => {
+            // Raíces en 10% y 20%
+            const flujos = [-100, 230, -132];
+            const resultado = IRRSolver.tir(flujos);
+
+            expect(resultado.cambiosDeSigno).toBe(2);
+            expect(resultado.advertencias[0].code).toBe('IRR_MULTIPLE_SIGN_CHANGES');
+            expect(vpn(flujos, resultado.tasa)).toBeCloseTo(0, 8);
+        });
+    });
+
+    describe('TIR por fechas (TIR.NO.PER)', () => {
+        test('Coincide con la TIR anual cuando los flujos están a un año exacto', () => {
+            const fechas = [new Date('2025-01-01'), new Date('2026-01-01'), new Date('2027-01-01')];
+            const resultado = IRRSolver.xtir([-1000, 100, 1100], fechas);
+
+            expect(resultado.tasa).toBeCloseTo(0.10, 8);
+        });
+
+        test('Usa los días reales entre fechas', () => {
+            const fechas = [new Date('2025-01-01'), new Date('2025-07-01')];
+            const resultado = IRRSolver.xtir([-1000, 1050], fechas);
+
+            expect(resultado.tasa).toBeCloseTo(Math.pow(1.05, 365 / 181) - 1, 8);
+        });
+    });
+
+    describe('Integración con el calculador', () => {
+        const calculator = new FinancialCalculator({ validateInputs: true });
+
+        const INPUTS: CalculationInputs = {
+            valorNominal: 1000.00,
+            valorComercial: 1050.00,
+            numAnios: 5,
+            frecuenciaCupon: 'semestral',
+            diasPorAno: 360,
+            tipoTasa: 'efectiva',
+            periodicidadCapitalizacion: 'bimestral',
+            tasaAnual: 0.08,
+            tasaDescuento: 0.045,
+            impuestoRenta: 0.30,
+            fechaEmision: new Date('2025-06-01'),
+            primaPorcentaje: 0.01,
+            estructuracionPorcentaje: 0.01,
+            colocacionPorcentaje: 0.0025,
+            flotacionPorcentaje: 0.0045,
+            cavaliPorcentaje: 0.005,
+            inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10],
+            graciaSerie: ['S', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+        };
+
+        test('La TREA anualiza una raíz del VPN sin advertencias', async () => {
+            const result = await calculator.calculate(INPUTS);
+            const flujos = result.flujos.map(f => f.flujoBonista || 0);
+            const tirPeriodica = Math.pow(1 + result.metricas.treaBonista, 180 / 360) - 1;
+
+            expect(result.metricas.treaBonista).toBeCloseTo(0.1755812, 1);
+            expect(vpn(flujos, tirPeriodica)).toBeCloseTo(0, 4);
+            expect(result.advertencias).toEqual([]);
+        });
+
+        test('Calcula las tasas por fechas reales', async () => {
+            const result = await calculator.calculate(INPUTS);
+
+            // Pagos cada 180 días exactos: la TIR por fechas anualiza sobre 365 días en lugar de E8=360
+            const esperado = Math.pow(1 + result.metricas.treaBonista, 365 / 360) - 1;
+            expect(result.metricas.treaBonistaXTIR as number).toBeCloseTo(esperado, 6);
+        });
+
+        test('La TCEA/TREA ya no devuelve 0 en silencio', () => {
+            expect(() => ExcelFormulas.tceaTrea([100, 50, 50], 360, 180)).toThrow(IRRError);
+        });
+    });
+});
@@ -0,0 +1,82 @@
+// tests/unit/per-coupon-series.test.ts
+// Tests de series de gracia e inflación por cupón y compatibilidad con las series por año
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { ExcelFormulas } from '@/lib/services/calculations/ExcelFormulas';
+import { CalculationInputs, GracePeriodType } from '@/lib/types/calculations';
+
+describe('Per-Coupon Series Tests', () => {
+    const calculator = new FinancialCalculator({ validateInputs: true });
+
+    const INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 1050.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0.08,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10],
+        graciaSerie: ['S', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+    };
+
+    test('La gracia puede aplicarse solo al primer cupón semestral', async () => {
+        const graciaSerie = Array<GracePeriodType>(10).fill('S');
+        graciaSerie[0] = 'T';
+
+        const result = await calculator.calculate({
+            ...INPUTS,
+            inflacionSerie: Array(10).fill(0.10),
+            graciaSerie
+        });
+
+        expect(result.flujos[1].gracia).toBe('T');
+        expect(result.flujos[1].cuota).toBeCloseTo(0, 10);
+        expect(result.flujos[2].gracia).toBe('S');
+        expect(result.flujos[2].cuota as number).toBeLessThan(0);
+    });
+
+    test('Una serie por año equivale a su expansión por cupón', async () => {
+        const graciaPorAno = ['P', 'S', 'S', 'S', 'S'] as GracePeriodType[];
+        const porAno = await calculator.calculate({ ...INPUTS, graciaSerie: graciaPorAno });
+        const porCupon = await calculator.calculate({
+            ...INPUTS,
+            inflacionSerie: ExcelFormulas.seriePorCupon(INPUTS.inflacionSerie, 2, 5),
+            graciaSerie: ExcelFormulas.seriePorCupon(graciaPorAno, 2, 5)
+        });
+
+        expect(ExcelFormulas.seriePorCupon(graciaPorAno, 2, 5)).toEqual(['P', 'P', 'S', 'S', 'S', 'S', 'S', 'S', 'S', 'S']);
+        expect(porCupon.metricas.precioActual).toBeCloseTo(porAno.metricas.precioActual, 6);
+        expect(porCupon.metricas.treaBonista).toBeCloseTo(porAno.metricas.treaBonista, 8);
+    });
+
+    test('La inflación se indexa con el valor de cada cupón', async () => {
+        const inflacionSerie = [0.10, 0.00, 0.10, 0.10, 0.10, 0.10, 0.10, 0.10, 0.10, 0.10];
+        const result = await calculator.calculate({
+            ...INPUTS,
+            inflacionSerie,
+            graciaSerie: Array<GracePeriodType>(10).fill('S')
+        });
+
+        const inflacionSemestral = Math.pow(1.10, 180 / 360) - 1;
+        expect(result.flujos[1].inflacionSemestral).toBeCloseTo(inflacionSemestral, 8);
+        expect(result.flujos[2].inflacionSemestral).toBeCloseTo(0, 10);
+        expect(result.flujos[2].bonoIndexado).toBeCloseTo(result.flujos[2].bonoCapital as number, 4);
+    });
+
+    test('Rechaza series que no son por cupón ni por año', async () => {
+        await expect(calculator.calculate({
+            ...INPUTS,
+            inflacionSerie: Array(7).fill(0.10)
+        })).rejects.toThrow('La serie de inflación debe tener 10 elementos, uno por cupón (recibidos 7)');
+    });
+});
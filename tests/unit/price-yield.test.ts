@@ -0,0 +1,77 @@
+// tests/unit/price-yield.test.ts
+// Tests del solver precio ↔ rendimiento sobre los flujos del bonista
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { PriceYieldSolver } from '@/lib/services/calculations/PriceYieldSolver';
+import { CalculationInputs, CalculationResult, GracePeriodType } from '@/lib/types/calculations';
+
+describe('Price/Yield Solver Tests', () => {
+    const INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 1050.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0.08,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10],
+        graciaSerie: ['S', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+    };
+
+    let result: CalculationResult;
+    let flujos: number[];
+
+    beforeAll(async () => {
+        const calculator = new FinancialCalculator({ validateInputs: true });
+        result = await calculator.calculate(INPUTS);
+        flujos = result.flujos.map(f => f.flujoBonista || 0);
+    });
+
+    test('A la tasa de descuento reproduce el precio actual del Excel', () => {
+        const solved = PriceYieldSolver.precioDesdeRendimiento(flujos, 0.045, 180, 360);
+
+        expect(solved.precio).toBeCloseTo(1753.34, 1);
+        expect(solved.tasaPeriodica).toBeCloseTo(result.intermedios.tasaDescuentoPeriodica, 8);
+        expect(solved.duracion).toBeCloseTo(result.metricas.duracion, 2);
+        expect(solved.duracionModificada).toBeCloseTo(result.metricas.duracionModificada, 2);
+    });
+
+    test('El rendimiento desde el precio invierte el cálculo', () => {
+        const solved = PriceYieldSolver.rendimientoDesdePrecio(flujos, 1753.34, 180, 360);
+
+        expect(solved.rendimiento).toBeCloseTo(0.045, 5);
+        expect(solved.precio).toBeCloseTo(1753.34, 2);
+        expect(solved.iteraciones).toBeGreaterThan(0);
+    });
+
+    test.each([800, 1050, 1500, 2500])('Ida y vuelta con precio %d', (precio) => {
+        const { rendimiento } = PriceYieldSolver.rendimientoDesdePrecio(flujos, precio, 180, 360);
+        const { precio: recalculado } = PriceYieldSolver.precioDesdeRendimiento(flujos, rendimiento, 180, 360);
+
+        expect(recalculado).toBeCloseTo(precio, 2);
+    });
+
+    test('A mayor precio, menor rendimiento', () => {
+        const barato = PriceYieldSolver.rendimientoDesdePrecio(flujos, 1000, 180, 360);
+        const caro = PriceYieldSolver.rendimientoDesdePrecio(flujos, 1200, 180, 360);
+
+        expect(caro.rendimiento).toBeLessThan(barato.rendimiento);
+    });
+
+    test('Rechaza precios sin solución', () => {
+        // Ni con la tasa periódica mínima (−99%) se alcanza ese precio
+        expect(() => PriceYieldSolver.rendimientoDesdePrecio(flujos, 1e30, 180, 360))
+            .toThrow('No existe un rendimiento para ese precio');
+        expect(() => PriceYieldSolver.rendimientoDesdePrecio(flujos, 0, 180, 360))
+            .toThrow('El precio debe ser mayor a 0');
+    });
+});
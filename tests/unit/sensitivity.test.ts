@@ -0,0 +1,84 @@
+// tests/unit/sensitivity.test.ts
+// Tests del análisis de sensibilidad: escenarios de un parámetro (tornado) y matriz de dos (mapa de calor)
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { SensitivityAnalyzer } from '@/lib/services/calculations/SensitivityAnalyzer';
+import { CalculationInputs, GracePeriodType } from '@/lib/types/calculations';
+
+describe('Sensitivity Analysis Tests', () => {
+    const calculator = new FinancialCalculator({ validateInputs: true });
+    const analyzer = new SensitivityAnalyzer(calculator);
+
+    const INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 1050.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0.08,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10],
+        graciaSerie: ['S', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+    };
+
+    test('Un desplazamiento nulo reproduce las métricas base', async () => {
+        const result = await analyzer.analizar(INPUTS, { tasaAnual: [0], costes: [0] });
+
+        expect(result.base.precioActual).toBeCloseTo(1753.34, 1);
+        result.escenarios.forEach(escenario => {
+            expect(escenario.metricas!.tceaEmisor).toBeCloseTo(result.base.tceaEmisor, 10);
+            expect(escenario.metricas!.precioActual).toBeCloseTo(result.base.precioActual, 6);
+        });
+    });
+
+    test('Cada escenario equivale a recalcular con el input desplazado', async () => {
+        const result = await analyzer.analizar(INPUTS, { tasaAnual: [0.01], inflacion: [-0.02], costes: [0.5] });
+        const [tasa, inflacion, costes] = result.escenarios;
+
+        const esperadoTasa = await calculator.calculate({ ...INPUTS, tasaAnual: 0.09 });
+        expect(tasa.metricas!.tceaEmisor).toBeCloseTo(esperadoTasa.metricas.tceaEmisor, 10);
+        expect(tasa.metricas!.tceaEmisor).toBeGreaterThan(result.base.tceaEmisor);
+
+        const esperadoInflacion = await calculator.calculate({ ...INPUTS, inflacionSerie: Array(5).fill(0.08) });
+        expect(inflacion.metricas!.precioActual).toBeCloseTo(esperadoInflacion.metricas.precioActual, 6);
+
+        // Costes 50% mayores: encarecen la deuda para el emisor
+        expect(SensitivityAnalyzer.desplazar(INPUTS, 'costes', 0.5).estructuracionPorcentaje).toBeCloseTo(0.015, 10);
+        expect(costes.metricas!.tceaEmisor).toBeGreaterThan(result.base.tceaEmisor);
+    });
+
+    test('La matriz cruza los desplazamientos de filas y columnas', async () => {
+        const result = await analyzer.analizar(
+            INPUTS,
+            { tasaAnual: [-0.01, 0.01], tasaDescuento: [-0.01, 0, 0.01] },
+            { filas: 'tasaAnual', columnas: 'tasaDescuento' }
+        );
+        const matriz = result.matriz!;
+
+        expect(matriz.metricas).toHaveLength(2);
+        expect(matriz.metricas[0]).toHaveLength(3);
+
+        const esperado = await calculator.calculate({ ...INPUTS, tasaAnual: 0.09, tasaDescuento: 0.035 });
+        expect(matriz.metricas[1][0]!.precioActual).toBeCloseTo(esperado.metricas.precioActual, 6);
+
+        // El precio baja al subir la tasa de descuento
+        expect(matriz.metricas[0][2]!.precioActual).toBeLessThan(matriz.metricas[0][0]!.precioActual);
+    });
+
+    test('Un escenario fuera de rango no invalida el análisis', async () => {
+        const result = await analyzer.analizar(INPUTS, { tasaDescuento: [-0.10, 0.01] });
+
+        expect(result.escenarios[0].metricas).toBeNull();
+        expect(result.escenarios[0].error).toContain('La tasa de descuento debe estar entre 0% y 100%');
+        expect(result.escenarios[1].metricas).not.toBeNull();
+    });
+});
@@ -0,0 +1,93 @@
+// tests/unit/settlement-price.test.ts
+// Tests del interés corrido y de los precios limpio/sucio a una fecha de liquidación
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { CalculationInputs, CalculationResult, GracePeriodType } from '@/lib/types/calculations';
+
+describe('Settlement Price Tests', () => {
+    const calculator = new FinancialCalculator({ validateInputs: true });
+
+    const INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 1050.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        dayCountConvention: '30/360',
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0.08,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10],
+        graciaSerie: ['S', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+    };
+
+    let result: CalculationResult;
+
+    beforeAll(async () => {
+        result = await calculator.calculate(INPUTS);
+    });
+
+    test('En la fecha de emisión el precio sucio es el Precio Actual', () => {
+        const precio = calculator.calculateSettlementPrice(result, new Date('2025-06-01'));
+
+        expect(precio.periodoCupon).toBe(1);
+        expect(precio.interesCorrido).toBe(0);
+        expect(precio.precioSucio).toBeCloseTo(result.metricas.precioActual, 6);
+        expect(precio.precioLimpio).toBeCloseTo(precio.precioSucio, 6);
+    });
+
+    test('A mitad del período devenga la mitad del cupón', () => {
+        const precio = calculator.calculateSettlementPrice(result, new Date('2025-09-01'));
+
+        expect(precio.diasDevengados).toBe(90);
+        expect(precio.diasPeriodo).toBe(180);
+        expect(precio.fraccionDevengada).toBeCloseTo(0.5, 10);
+        expect(precio.interesCorrido).toBeCloseTo(-(result.flujos[1].cupon as number) * 0.5, 6);
+        expect(precio.precioLimpio).toBeCloseTo(precio.precioSucio - precio.interesCorrido, 6);
+    });
+
+    test('El precio sucio capitaliza a L10 dentro del período', () => {
+        const inicio = calculator.calculateSettlementPrice(result, new Date('2025-06-01'));
+        const mitad = calculator.calculateSettlementPrice(result, new Date('2025-09-01'));
+        const factor = Math.pow(1 + result.intermedios.tasaDescuentoPeriodica, 0.5);
+
+        expect(mitad.precioSucio).toBeCloseTo(inicio.precioSucio * factor, 4);
+    });
+
+    test('En una fecha de cupón el cupón ya pagado no forma parte del precio', () => {
+        const precio = calculator.calculateSettlementPrice(result, new Date('2025-12-01'));
+        const flujos = result.flujos.map(f => f.flujoBonista || 0);
+        const r = result.intermedios.tasaDescuentoPeriodica;
+        const esperado = flujos.slice(2).reduce((sum, f, i) => sum + f / Math.pow(1 + r, i + 1), 0);
+
+        expect(precio.periodoCupon).toBe(2);
+        expect(precio.interesCorrido).toBe(0);
+        expect(precio.precioSucio).toBeCloseTo(esperado, 4);
+    });
+
+    test('Sin interés corrido durante la gracia total', async () => {
+        const conGracia = await calculator.calculate({
+            ...INPUTS,
+            graciaSerie: ['T', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+        });
+        const precio = calculator.calculateSettlementPrice(conGracia, new Date('2025-09-01'));
+
+        expect(precio.interesCorrido).toBe(0);
+        expect(precio.precioLimpio).toBeCloseTo(precio.precioSucio, 6);
+    });
+
+    test('Rechaza fechas fuera de la vida del bono', () => {
+        expect(() => calculator.calculateSettlementPrice(result, new Date('2025-01-01')))
+            .toThrow('anterior a la emisión');
+        expect(() => calculator.calculateSettlementPrice(result, new Date('2030-06-01')))
+            .toThrow('posterior al vencimiento');
+    });
+});
@@ -0,0 +1,112 @@
+// tests/unit/sinking-fund.test.ts
+// Tests del fondo de amortización: rescates parciales programados y prima de rescate
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { CalculationInputs, CalculationResult, GracePeriodType } from '@/lib/types/calculations';
+
+describe('Sinking Fund Tests', () => {
+    const calculator = new FinancialCalculator({ validateInputs: true });
+
+    const INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 1050.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0.08,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: [0, 0, 0, 0, 0],
+        graciaSerie: ['S', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+    };
+
+    let result: CalculationResult;
+
+    beforeAll(async () => {
+        result = await calculator.calculate({
+            ...INPUTS,
+            sinkingFund: {
+                cuotas: [{ periodo: 4, porcentaje: 0.25 }, { periodo: 8, porcentaje: 0.25 }],
+                primaRescate: 0.02
+            }
+        });
+    });
+
+    test('Cada cuota rescata su porcentaje del nominal original y reduce el capital', () => {
+        expect(result.flujos[4].amortizacion).toBeCloseTo(-250, 6);
+        expect(result.flujos[5].bonoCapital).toBeCloseTo(750, 6);
+        expect(result.flujos[8].amortizacion).toBeCloseTo(-250, 6);
+        expect(result.flujos[9].bonoCapital).toBeCloseTo(500, 6);
+
+        // El resto se paga al vencimiento, como en el método americano
+        expect(result.flujos[10].amortizacion).toBeCloseTo(-500, 6);
+        expect(result.flujos[3].amortizacion).toBeCloseTo(0, 10);
+    });
+
+    test('La prima de rescate se paga sobre el capital rescatado', () => {
+        expect(result.flujos[4].prima).toBeCloseTo(-5, 6);
+        expect(result.flujos[4].flujoBonista).toBeCloseTo(
+            -((result.flujos[4].cupon as number) - 250 - 5), 6
+        );
+    });
+
+    test('La prima del vencimiento se paga solo sobre el nominal que sigue en circulación', async () => {
+        // El fondo rescató el 50%: E16 × (E4 − rescates) = 1% × 500
+        expect(result.flujos[10].prima).toBeCloseTo(-5, 6);
+        expect(result.flujos[10].flujoBonista).toBeCloseTo(
+            -((result.flujos[10].cupon as number) - 500 - 5), 6
+        );
+
+        // Sin fondo se mantiene E16×E4
+        const sinFondo = await calculator.calculate(INPUTS);
+        expect(sinFondo.flujos[10].prima).toBeCloseTo(-10, 6);
+    });
+
+    test('Con inflación rescata la parte indexada del nominal', async () => {
+        const indexado = await calculator.calculate({
+            ...INPUTS,
+            inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10],
+            sinkingFund: { cuotas: [{ periodo: 2, porcentaje: 0.5 }] }
+        });
+
+        expect(indexado.flujos[2].amortizacion).toBeCloseTo(
+            -(indexado.flujos[2].bonoIndexado as number) / 2, 6
+        );
+        expect(indexado.flujos[10].amortizacion).toBeCloseTo(
+            -(indexado.flujos[10].bonoIndexado as number), 6
+        );
+        expect(indexado.flujos[3].bonoCapital).toBeCloseTo((indexado.flujos[2].bonoIndexado as number) / 2, 6);
+    });
+
+    test('Rechaza cronogramas inválidos', async () => {
+        await expect(calculator.calculate({
+            ...INPUTS,
+            sinkingFund: { cuotas: [{ periodo: 10, porcentaje: 0.2 }] }
+        })).rejects.toThrow('El período de rescate debe estar entre 1 y 9');
+
+        await expect(calculator.calculate({
+            ...INPUTS,
+            sinkingFund: { cuotas: [{ periodo: 2, porcentaje: 0.6 }, { periodo: 4, porcentaje: 0.6 }] }
+        })).rejects.toThrow('no pueden superar el 100% del valor nominal');
+
+        await expect(calculator.calculate({
+            ...INPUTS,
+            graciaSerie: ['P', 'S', 'S', 'S', 'S'] as GracePeriodType[],
+            sinkingFund: { cuotas: [{ periodo: 1, porcentaje: 0.2 }] }
+        })).rejects.toThrow('El período 1 está en gracia');
+
+        await expect(calculator.calculate({
+            ...INPUTS,
+            amortizationMethod: 'aleman',
+            sinkingFund: { cuotas: [{ periodo: 2, porcentaje: 0.2 }] }
+        })).rejects.toThrow('solo se combina con el método americano');
+    });
+});
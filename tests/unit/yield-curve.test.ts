@@ -0,0 +1,113 @@
+// tests/unit/yield-curve.test.ts
+// Tests de la curva cero de descuento: lectura del CSV, interpolación y Z-spread
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { YieldCurve } from '@/lib/services/calculations/YieldCurve';
+import { CalculationInputs, GracePeriodType } from '@/lib/types/calculations';
+
+describe('Yield Curve Tests', () => {
+    const calculator = new FinancialCalculator({ validateInputs: true });
+
+    const INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 1050.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0.08,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10],
+        graciaSerie: ['S', 'S', 'S', 'S', 'S'] as GracePeriodType[]
+    };
+
+    test('Lee el CSV con encabezado, sufijos de plazo y porcentajes', () => {
+        const puntos = YieldCurve.parseCSV([
+            'plazo;tasa',
+            '# curva de prueba',
+            '6M;4,00%',
+            '2A;0,05',
+            '',
+            '10;5,5%',
+        ].join('\n'));
+
+        expect(puntos).toEqual([
+            { plazo: 0.5, tasa: 0.04 },
+            { plazo: 2, tasa: 0.05 },
+            { plazo: 10, tasa: 0.055 },
+        ]);
+        expect(() => YieldCurve.parseCSV('1,abc')).toThrow('Línea 1 de la curva');
+        expect(() => new YieldCurve([{ plazo: 1, tasa: 0.04 }, { plazo: 1, tasa: 0.05 }])).toThrow('Plazo duplicado');
+    });
+
+    test('Interpola lineal y con spline cúbico natural, con extrapolación plana', () => {
+        const puntos = [{ plazo: 1, tasa: 0.03 }, { plazo: 2, tasa: 0.04 }, { plazo: 4, tasa: 0.045 }];
+        const lineal = new YieldCurve(puntos, 'lineal');
+        const cubica = new YieldCurve(puntos, 'cubica');
+
+        expect(lineal.tasa(1.5)).toBeCloseTo(0.035, 12);
+        expect(lineal.tasa(3)).toBeCloseTo(0.0425, 12);
+        expect(lineal.tasa(0.25)).toBe(0.03);
+        expect(lineal.tasa(7)).toBe(0.045);
+
+        // El spline pasa por los nodos y se curva entre ellos
+        puntos.forEach(p => expect(cubica.tasa(p.plazo)).toBeCloseTo(p.tasa, 12));
+        expect(cubica.tasa(1.5)).toBeGreaterThan(lineal.tasa(1.5));
+        expect(cubica.tasa(3)).toBeGreaterThan(lineal.tasa(3));
+    });
+
+    test('Una curva plana en E12 reproduce el precio del Excel', async () => {
+        const base = await calculator.calculate(INPUTS);
+        const result = await calculator.calculate({
+            ...INPUTS,
+            curvaDescuento: { interpolacion: 'lineal', puntos: [{ plazo: 1, tasa: 0.045 }] }
+        });
+
+        expect(base.metricas.zSpread).toBeUndefined();
+        expect(result.metricas.precioActual).toBeCloseTo(1753.34, 1);
+        expect(result.flujos[10].tasaCurva).toBe(0.045);
+        expect(result.flujos[10].plazoAnual).toBeCloseTo(5, 10);
+        expect(result.flujos[10].flujoActualizado!).toBeCloseTo(base.flujos[10].flujoActualizado!, 4);
+
+        // Con curva plana el Z-spread es la TREA menos la tasa de la curva
+        expect(result.metricas.zSpread!).toBeCloseTo(result.metricas.treaBonista - 0.045, 6);
+    });
+
+    test('Cada flujo se descuenta a la tasa de la curva para su plazo', async () => {
+        const curvaDescuento = {
+            interpolacion: 'cubica' as const,
+            puntos: [{ plazo: 0.5, tasa: 0.03 }, { plazo: 2, tasa: 0.04 }, { plazo: 5, tasa: 0.06 }]
+        };
+        const result = await calculator.calculate({ ...INPUTS, curvaDescuento });
+        const curva = YieldCurve.fromDefinition(curvaDescuento);
+
+        const flujo = result.flujos[3];
+        expect(flujo.tasaCurva).toBeCloseTo(curva.tasa(1.5), 12);
+        expect(flujo.flujoActualizado!).toBeCloseTo(flujo.flujoBonista! / Math.pow(1 + curva.tasa(1.5), 1.5), 4);
+
+        const suma = result.flujos.slice(1).reduce((total, f) => total + f.flujoActualizado!, 0);
+        expect(result.metricas.precioActual).toBeCloseTo(suma, 2);
+
+        // El Z-spread iguala el valor de los flujos al desembolso del bonista
+        const curvaFlujos = result.flujos.map(f => ({ plazo: f.plazoAnual ?? 0, tasa: (f.tasaCurva ?? 0) + result.metricas.zSpread! }));
+        const valor = result.flujos.slice(1).reduce(
+            (total, f, i) => total + f.flujoBonista! / Math.pow(1 + curvaFlujos[i + 1].tasa, curvaFlujos[i + 1].plazo), 0
+        );
+        expect(valor).toBeCloseTo(-result.flujos[0].flujoBonista!, 4);
+    });
+
+    test('Rechaza una curva inválida en la validación', async () => {
+        await expect(calculator.calculate({
+            ...INPUTS,
+            curvaDescuento: { interpolacion: 'lineal', puntos: [] }
+        })).rejects.toThrow('La curva de descuento debe tener al menos un punto');
+    });
+});
@@ -0,0 +1,92 @@
+// tests/unit/zero-coupon.test.ts
+// Tests del bono cupón cero: único flujo de redención, duración, convexidad y TREA
+
+import { FinancialCalculator } from '@/lib/services/calculations/FinancialCalculator';
+import { CalculationInputs, CalculationResult, GracePeriodType } from '@/lib/types/calculations';
+
+describe('Zero-Coupon Bond Tests', () => {
+    const calculator = new FinancialCalculator({ validateInputs: true });
+
+    const INPUTS: CalculationInputs = {
+        valorNominal: 1000.00,
+        valorComercial: 700.00,
+        numAnios: 5,
+        frecuenciaCupon: 'semestral',
+        diasPorAno: 360,
+        tipoTasa: 'efectiva',
+        periodicidadCapitalizacion: 'bimestral',
+        tasaAnual: 0,
+        tasaDescuento: 0.045,
+        impuestoRenta: 0.30,
+        fechaEmision: new Date('2025-06-01'),
+        primaPorcentaje: 0.01,
+        estructuracionPorcentaje: 0.01,
+        colocacionPorcentaje: 0.0025,
+        flotacionPorcentaje: 0.0045,
+        cavaliPorcentaje: 0.005,
+        inflacionSerie: [0, 0, 0, 0, 0],
+        graciaSerie: ['S', 'S', 'S', 'S', 'S'] as GracePeriodType[],
+        instrumentType: 'cupon_cero'
+    };
+
+    let result: CalculationResult;
+
+    beforeAll(async () => {
+        result = await calculator.calculate(INPUTS);
+    });
+
+    test('Genera un único flujo de redención al vencimiento', () => {
+        const flujos = result.flujos.slice(1);
+
+        flujos.slice(0, -1).forEach(flujo => {
+            expect(flujo.cupon).toBeCloseTo(0, 10);
+            expect(flujo.flujoBonista).toBeCloseTo(0, 10);
+            expect(flujo.escudoFiscal).toBeCloseTo(0, 10);
+        });
+
+        // E4 + prima (1% de E4)
+        expect(result.flujos[10].flujoBonista).toBeCloseTo(1010, 6);
+        expect(result.intermedios.tasaCuponPeriodica).toBe(0);
+    });
+
+    test('La duración es el plazo y la convexidad la del único flujo', () => {
+        const r = result.intermedios.tasaDescuentoPeriodica;
+
+        expect(result.metricas.duracion).toBeCloseTo(5, 6);
+        expect(result.metricas.convexidad).toBeCloseTo((10 * 11) / (Math.pow(1 + r, 2) * 4), 4);
+    });
+
+    test('La TREA es la tasa de descuento implícita', () => {
+        const desembolso = -(result.flujos[0].flujoBonista as number);
+        const esperado = Math.pow(1010 / desembolso, 1 / 5) - 1;
+
+        expect(result.metricas.treaBonista).toBeCloseTo(esperado, 6);
+    });
+
+    test('Con inflación el capital indexado se paga al vencimiento', async () => {
+        const indexado = await calculator.calculate({
+            ...INPUTS,
+            inflacionSerie: [0.10, 0.10, 0.10, 0.10, 0.10]
+        });
+        const capitalFinal = indexado.flujos[10].bonoIndexado as number;
+
+        expect(capitalFinal).toBeGreaterThan(1000);
+        expect(indexado.flujos[10].flujoBonista).toBeCloseTo(capitalFinal + 10, 4);
+        expect(indexado.flujos[5].flujoBonista).toBeCloseTo(0, 10);
+    });
+
+    test('Ignora la gracia y rechaza amortización parcial o cronograma de tasas', async () => {
+        const conGracia = await calculator.calculate({
+            ...INPUTS,
+            graciaSerie: ['T', 'T', 'S', 'S', 'S'] as GracePeriodType[]
+        });
+        expect(conGracia.metricas.precioActual).toBeCloseTo(result.metricas.precioActual, 6);
+
+        await expect(calculator.calculate({ ...INPUTS, amortizationMethod: 'frances' }))
+            .rejects.toThrow('Un bono cupón cero solo admite amortización al vencimiento');
+        await expect(calculator.calculate({
+            ...INPUTS,
+            couponSchedule: { tipo: 'escalonada', tasas: [0.05] }
+        })).rejects.toThrow('Un bono cupón cero no admite cronograma de tasas cupón');
+    });
+});